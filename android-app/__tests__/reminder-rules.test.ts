@@ -0,0 +1,109 @@
+/// <reference types="@types/jest" />
+
+/**
+ * Unit tests for the meal reminder rules
+ * Tests skipping reminders for logged meals, the evening calorie gap, stale log state
+ * and the usual meal a reminder can log
+ */
+
+import {
+    DEFAULT_MEAL_REMINDER,
+    isReminderLogState,
+    planMealReminder,
+    QuickLogMeal,
+    REMINDER_CATEGORY,
+    ReminderLogState,
+} from '../lib/reminder-rules';
+
+const at = (hour: number, minute = 0) => new Date(2025, 4, 26, hour, minute);
+
+const stateWith = (entries: ReminderLogState['entries']): ReminderLogState => ({
+    date: '2025-05-26',
+    entries,
+    calorieTarget: 2000,
+});
+
+describe('planMealReminder', () => {
+    it('skips the lunch reminder when something was logged after 11:00', () => {
+        const state = stateWith([{ timestamp: at(11, 30).getTime(), mealType: 'snack', calories: 450 }]);
+
+        expect(planMealReminder(at(13), state)).toBeNull();
+    });
+
+    it('skips the reminder when the meal was logged under its own slot', () => {
+        const state = stateWith([{ timestamp: at(18, 45).getTime(), mealType: 'dinner', calories: 700 }]);
+
+        expect(planMealReminder(at(19, 30), state)).toBeNull();
+    });
+
+    it('names the meal when earlier meals are logged but this one is not', () => {
+        const state = stateWith([{ timestamp: at(8).getTime(), mealType: 'breakfast', calories: 400 }]);
+
+        expect(planMealReminder(at(13), state)?.title).toBe('Time to log your lunch! 🍽️');
+    });
+
+    it('reports the calorie gap in the evening', () => {
+        const state = stateWith([
+            { timestamp: at(8).getTime(), mealType: 'breakfast', calories: 600 },
+            { timestamp: at(13).getTime(), mealType: 'lunch', calories: 800 },
+        ]);
+
+        const reminder = planMealReminder(at(19, 30), state);
+
+        expect(reminder?.title).toBe("You're 600 kcal under target");
+        expect(reminder?.body).toContain('1400 of 2000 kcal');
+    });
+
+    it('does not mention a gap smaller than the minimum', () => {
+        const state = stateWith([{ timestamp: at(13).getTime(), mealType: 'lunch', calories: 1900 }]);
+
+        expect(planMealReminder(at(19, 30), state)?.title).toBe('Time to log your dinner! 🍽️');
+    });
+
+    it('nudges when nothing has been logged today', () => {
+        expect(planMealReminder(at(19), stateWith([]))?.title).toBe('Nothing logged yet today 📝');
+    });
+
+    it('falls back to the default reminder without state for that day', () => {
+        expect(planMealReminder(new Date(2025, 4, 27, 19), stateWith([]))).toBe(DEFAULT_MEAL_REMINDER);
+        expect(planMealReminder(at(19), null)).toBe(DEFAULT_MEAL_REMINDER);
+    });
+});
+
+describe('planMealReminder with usual meals', () => {
+    const poha: QuickLogMeal = { name: 'Poha', calories: 250, protein: 5, fat: 8, carbs: 40, mealType: 'breakfast' };
+    const withUsualBreakfast = (state: ReminderLogState): ReminderLogState => ({ ...state, usualMeals: { breakfast: poha } });
+
+    it('offers to log the usual meal of the slot', () => {
+        const reminder = planMealReminder(at(8), withUsualBreakfast(stateWith([])));
+
+        expect(reminder?.categoryIdentifier).toBe('meal-reminder-usual-breakfast');
+        expect(reminder?.data.quickLog).toEqual(poha);
+    });
+
+    it('keeps the usual meal on days the log state does not cover', () => {
+        const reminder = planMealReminder(new Date(2025, 4, 28, 8), withUsualBreakfast(stateWith([])));
+
+        expect(reminder?.title).toBe(DEFAULT_MEAL_REMINDER.title);
+        expect(reminder?.data.quickLog).toEqual(poha);
+    });
+
+    it('uses the plain meal category when the slot has no usual meal', () => {
+        const reminder = planMealReminder(at(13), withUsualBreakfast(stateWith([])));
+
+        expect(reminder?.categoryIdentifier).toBe(REMINDER_CATEGORY.meal);
+        expect(reminder?.data.quickLog).toBeUndefined();
+    });
+});
+
+describe('isReminderLogState', () => {
+    it('accepts the state posted by the web app', () => {
+        expect(isReminderLogState(stateWith([{ timestamp: 1, mealType: 'lunch', calories: 300 }]))).toBe(true);
+    });
+
+    it('rejects malformed messages', () => {
+        expect(isReminderLogState(null)).toBe(false);
+        expect(isReminderLogState({ date: '2025-05-26', entries: 'none', calorieTarget: 2000 })).toBe(false);
+        expect(isReminderLogState({ date: '2025-05-26', entries: [{ calories: 'a' }], calorieTarget: 2000 })).toBe(false);
+    });
+});
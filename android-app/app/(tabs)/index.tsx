@@ -6,6 +6,7 @@ import Constants from 'expo-constants';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { useInAppReview } from '../../hooks/useInAppReview';
+import notificationService from '../../lib/notification-service';
 import { ReviewTrigger, UserAction } from '../../lib/types/review-types';
 
 // You'll need to replace this with your actual hosted Next.js app URL
@@ -77,6 +78,18 @@ export default function HomeScreen() {
     trackAppOpenAndReview();
   }, [triggerReview, recordUserAction]);
 
+  // Hands the dashboard the water and meals logged from notifications; it reports back which it applied
+  const sendPendingNotificationActions = () => {
+    notificationService.getPendingNotificationActions().then(actions => {
+      if (actions.length > 0) {
+        webViewRef.current?.postMessage(JSON.stringify({ type: 'notification_actions', actions }));
+      }
+    });
+  };
+
+  // Actions can be queued from the background while the dashboard is already loaded
+  useEffect(() => notificationService.onNotificationActionRecorded(sendPendingNotificationActions), []);
+
   // Handle back button press for navigation within WebView
   useEffect(() => {
     const backAction = () => {
@@ -399,6 +412,18 @@ export default function HomeScreen() {
       } else if (data.type === 'user_action') {
         // Handle user actions from the web interface
         handleWebUserAction(data);
+      } else if (data.type === 'reminder_log_state') {
+        // Today's log changed, so re-plan the meal reminders around it
+        notificationService.updateReminderLogState(data.state).catch(error => {
+          console.error('Error updating meal reminders:', error);
+        });
+      } else if (data.type === 'notification_actions_request') {
+        // The dashboard opened, so hand it the water and meals logged from notifications
+        sendPendingNotificationActions();
+      } else if (data.type === 'notification_actions_applied') {
+        notificationService.clearNotificationActions(data.ids).catch(error => {
+          console.error('Error clearing applied notification actions:', error);
+        });
       }
     } catch (e) {
       console.error('Error parsing WebView message:', e);
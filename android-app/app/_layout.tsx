@@ -7,6 +7,8 @@ import { SafeAreaProvider } from 'react-native-safe-area-context';
 
 import { useColorScheme } from '@/hooks/useColorScheme';
 import { ReviewTriggerTracker } from '../components/ReviewTriggerTracker';
+// Defines the background notification task, which must exist before any route renders
+import '../lib/notification-service';
 
 export default function RootLayout() {
   const colorScheme = useColorScheme();
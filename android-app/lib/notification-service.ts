@@ -1,9 +1,64 @@
 import * as Notifications from 'expo-notifications';
+import * as TaskManager from 'expo-task-manager';
 import * as Device from 'expo-device';
 import Constants from 'expo-constants';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { Platform } from 'react-native';
 import { SchedulableTriggerInputTypes } from 'expo-notifications';
+import {
+  isReminderLogState,
+  planMealReminder,
+  toDateKey,
+  usualMealCategory,
+  DEFAULT_MEAL_REMINDER,
+  MEAL_TYPES,
+  QUICK_LOG_WATER_ML,
+  REMINDER_CATEGORY,
+  SNOOZE_MINUTES,
+  QuickLogMeal,
+  ReminderLogState,
+} from './reminder-rules';
+
+// Today's log as last posted by the web app, used to plan the meal reminders
+const REMINDER_LOG_STATE_KEY = 'reminderLogState';
+const MEAL_REMINDER_ID_PREFIX = 'meal-reminder-';
+// Today's meal reminder follows the log, so it can't share a repeating trigger with the
+// other days while it is still ahead; its weekday gets one-off reminders for this many
+// weeks instead, and a weekly one again the next time the app plans after it has fired
+const MEAL_REMINDER_WEEKS_AHEAD = 8;
+// Actions taken from notifications that the web app hasn't applied to its log yet
+const PENDING_NOTIFICATION_ACTIONS_KEY = 'pendingNotificationActions';
+
+// Action identifiers shared with the web app's service worker (REMINDER_ACTIONS in src/lib/reminder-schedule.ts)
+const NOTIFICATION_ACTION = {
+  logMeal: 'log_meal',
+  logWater: 'log_water',
+  logUsualMeal: 'log_usual_meal',
+  snooze: 'snooze',
+} as const;
+
+// Quick logs and snoozes run without bringing the app forward. While the app process is
+// alive the response listener handles them; after Android has killed it, the background
+// notification task below does.
+const backgroundAction = (identifier: string, buttonTitle: string): Notifications.NotificationAction => ({
+  identifier,
+  buttonTitle,
+  options: { opensAppToForeground: false },
+});
+
+const SNOOZE_ACTION = backgroundAction(NOTIFICATION_ACTION.snooze, `Snooze ${SNOOZE_MINUTES} min`);
+
+/**
+ * A reminder action taken from a notification, queued until the web app applies it to
+ * its log (src/lib/notification-actions.ts, which defines the same shape). The id
+ * becomes the id of the entry it creates, so applying it twice adds nothing.
+ */
+export type NotificationActionOutcome =
+  | { id: string; kind: 'water'; amountMl: number; at: number }
+  | { id: string; kind: 'meal'; meal: QuickLogMeal; at: number }
+  | { id: string; kind: 'snooze'; title: string; until: number; at: number };
+
+const newOutcomeId = () => `notification-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
 
 // Configure notification behavior
 Notifications.setNotificationHandler({
@@ -30,6 +85,7 @@ export interface NotificationData {
   title: string;
   body: string;
   data?: any;
+  categoryIdentifier?: string; // Adds that category's action buttons
   sound?: boolean;
   priority?: Notifications.AndroidNotificationPriority;
 }
@@ -37,6 +93,11 @@ export interface NotificationData {
 class MobileNotificationService {
   private isInitialized: boolean = false;
   private settings: ReminderSettings | null = null;
+  // Serializes changes to the pending actions so two quick taps can't overwrite each other
+  private actionQueue: Promise<unknown> = Promise.resolve();
+  // An action pressed while the app is in the background can reach both the listener and the task
+  private handledResponses = new Set<string>();
+  private actionListeners = new Set<() => void>();
 
   constructor() {
     this.initialize();
@@ -64,9 +125,13 @@ class MobileNotificationService {
       if (Platform.OS === 'android') {
         await this.setupNotificationChannels();
       }
+      await this.setupNotificationCategories();
 
       // Load saved settings
       await this.loadSettings();
+      if (this.settings?.logMeals) {
+        await this.scheduleMealReminders(this.settings);
+      }
 
       // Set up notification handlers
       this.setupNotificationHandlers();
@@ -107,6 +172,24 @@ class MobileNotificationService {
     });
   }
 
+  private async setupNotificationCategories(): Promise<void> {
+    await Notifications.setNotificationCategoryAsync(REMINDER_CATEGORY.meal, [
+      { identifier: NOTIFICATION_ACTION.logMeal, buttonTitle: 'Log Meal' },
+      SNOOZE_ACTION,
+    ]);
+    await Promise.all(MEAL_TYPES.map(mealType =>
+      Notifications.setNotificationCategoryAsync(usualMealCategory(mealType), [
+        backgroundAction(NOTIFICATION_ACTION.logUsualMeal, `Log usual ${mealType}`),
+        SNOOZE_ACTION,
+      ])
+    ));
+    await Notifications.setNotificationCategoryAsync(REMINDER_CATEGORY.hydration, [
+      backgroundAction(NOTIFICATION_ACTION.logWater, `Log water ${QUICK_LOG_WATER_ML}ml`),
+      SNOOZE_ACTION,
+    ]);
+    await Notifications.setNotificationCategoryAsync(REMINDER_CATEGORY.weighIn, [SNOOZE_ACTION]);
+  }
+
   private setupNotificationHandlers(): void {
     // Handle notification received while app is running
     const notificationListener = Notifications.addNotificationReceivedListener(notification => {
@@ -116,10 +199,111 @@ class MobileNotificationService {
     // Handle notification tapped
     const responseListener = Notifications.addNotificationResponseReceivedListener(response => {
       console.log('Notification tapped:', response);
-      this.handleNotificationTap(response);
+      this.handleNotificationResponse(response).catch(error => {
+        console.error('Failed to handle notification action:', error);
+      });
     });
   }
 
+  /** Runs a notification action, or the tap handling for the notification itself. */
+  async handleNotificationResponse(response: Notifications.NotificationResponse): Promise<void> {
+    const { actionIdentifier, notification } = response;
+    const { content } = notification.request;
+
+    const responseKey = `${notification.request.identifier}|${notification.date}|${actionIdentifier}`;
+    if (this.handledResponses.has(responseKey)) return;
+    this.handledResponses.add(responseKey);
+
+    switch (actionIdentifier) {
+      case NOTIFICATION_ACTION.logWater:
+        await this.recordNotificationAction({ id: newOutcomeId(), kind: 'water', amountMl: QUICK_LOG_WATER_ML, at: Date.now() });
+        await this.showImmediateNotification({
+          title: `Logged ${QUICK_LOG_WATER_ML} ml of water 💧`,
+          body: 'It will be on your dashboard next time you open the app.',
+          data: { type: 'quick-log-confirmation' },
+        });
+        break;
+      case NOTIFICATION_ACTION.logUsualMeal: {
+        const meal = content.data?.quickLog as QuickLogMeal | undefined;
+        if (!meal) break;
+        await this.recordNotificationAction({ id: newOutcomeId(), kind: 'meal', meal, at: Date.now() });
+        await this.showImmediateNotification({
+          title: `Logged your usual ${meal.mealType} ✅`,
+          body: `${meal.name} · ${Math.round(meal.calories)} kcal`,
+          data: { type: 'quick-log-confirmation' },
+        });
+        break;
+      }
+      case NOTIFICATION_ACTION.snooze: {
+        const until = new Date(Date.now() + SNOOZE_MINUTES * 60 * 1000);
+        await this.scheduleLocalNotification(
+          {
+            title: content.title ?? '',
+            body: content.body ?? '',
+            data: content.data,
+            categoryIdentifier: content.categoryIdentifier ?? undefined,
+            priority: Notifications.AndroidNotificationPriority.HIGH,
+          },
+          { type: SchedulableTriggerInputTypes.DATE, date: until }
+        );
+        await this.recordNotificationAction({
+          id: newOutcomeId(),
+          kind: 'snooze',
+          title: content.title ?? '',
+          until: until.getTime(),
+          at: Date.now(),
+        });
+        break;
+      }
+      default:
+        this.handleNotificationTap(response);
+        return;
+    }
+
+    // Action buttons don't clear the notification they belong to
+    await Notifications.dismissNotificationAsync(notification.request.identifier);
+  }
+
+  private async recordNotificationAction(outcome: NotificationActionOutcome): Promise<void> {
+    await this.updatePendingNotificationActions(pending => [...pending, outcome]);
+    this.actionListeners.forEach(listener => listener());
+  }
+
+  /** Calls `listener` after each action is queued, so an open dashboard can apply it right away. */
+  onNotificationActionRecorded(listener: () => void): () => void {
+    this.actionListeners.add(listener);
+    return () => this.actionListeners.delete(listener);
+  }
+
+  private updatePendingNotificationActions(
+    update: (pending: NotificationActionOutcome[]) => NotificationActionOutcome[]
+  ): Promise<void> {
+    const result = this.actionQueue.then(async () => {
+      const pending = await this.getPendingNotificationActions();
+      await AsyncStorage.setItem(PENDING_NOTIFICATION_ACTIONS_KEY, JSON.stringify(update(pending)));
+    });
+    this.actionQueue = result.catch(() => undefined);
+    return result;
+  }
+
+  /** Actions taken from notifications that the web app has not applied yet, oldest first. */
+  async getPendingNotificationActions(): Promise<NotificationActionOutcome[]> {
+    try {
+      const pendingJson = await AsyncStorage.getItem(PENDING_NOTIFICATION_ACTIONS_KEY);
+      const pending = pendingJson ? JSON.parse(pendingJson) : [];
+      return Array.isArray(pending) ? pending : [];
+    } catch (error) {
+      console.error('Failed to load pending notification actions:', error);
+      return [];
+    }
+  }
+
+  /** Drops the actions the web app reported as applied. */
+  async clearNotificationActions(ids: unknown): Promise<void> {
+    if (!Array.isArray(ids)) return;
+    await this.updatePendingNotificationActions(pending => pending.filter(outcome => !ids.includes(outcome.id)));
+  }
+
   private handleNotificationTap(response: Notifications.NotificationResponse): void {
     const data = response.notification.request.content.data;
     
@@ -148,20 +332,22 @@ class MobileNotificationService {
 
   async scheduleLocalNotification(
     notification: NotificationData,
-    trigger: Notifications.NotificationTriggerInput
+    trigger: Notifications.NotificationTriggerInput,
+    identifier?: string
   ): Promise<string> {
     try {
-      const identifier = await Notifications.scheduleNotificationAsync({
+      return await Notifications.scheduleNotificationAsync({
+        identifier,
         content: {
           title: notification.title,
           body: notification.body,
           data: notification.data || {},
+          categoryIdentifier: notification.categoryIdentifier,
           sound: notification.sound !== false,
           priority: notification.priority || Notifications.AndroidNotificationPriority.DEFAULT,
         },
         trigger,
       });
-      return identifier;
     } catch (error) {
       console.error('Failed to schedule notification:', error);
       throw error;
@@ -228,22 +414,72 @@ class MobileNotificationService {
     }
   }
 
+  /** Re-plans the meal reminders from the log state the web app posted. */
+  async updateReminderLogState(state: unknown): Promise<void> {
+    if (!isReminderLogState(state)) {
+      console.warn('Ignoring invalid reminder log state:', state);
+      return;
+    }
+    await AsyncStorage.setItem(REMINDER_LOG_STATE_KEY, JSON.stringify(state));
+    if (this.settings?.logMeals) {
+      await this.scheduleMealReminders(this.settings);
+    }
+  }
+
+  private async loadReminderLogState(): Promise<ReminderLogState | null> {
+    try {
+      const stateJson = await AsyncStorage.getItem(REMINDER_LOG_STATE_KEY);
+      const state = stateJson ? JSON.parse(stateJson) : null;
+      return isReminderLogState(state) ? state : null;
+    } catch (error) {
+      console.error('Failed to load reminder log state:', error);
+      return null;
+    }
+  }
+
   private async scheduleMealReminders(settings: ReminderSettings): Promise<void> {
     const [hours, minutes] = settings.logMealsTime.split(':').map(Number);
-    // Schedule daily at specified time
-    await this.scheduleLocalNotification(
-      {
-        title: 'Time to Log Your Meal! 🍽️',
-        body: 'Don\'t forget to track your nutrition for today. Tap to log your meal now!',
-        data: { type: 'meal-reminder', url: '/log-food/manual' },
-        priority: Notifications.AndroidNotificationPriority.HIGH,
-      },
-      {
-        type: SchedulableTriggerInputTypes.DAILY,
-        hour: hours,
-        minute: minutes,
-      }
+    const logState = await this.loadReminderLogState();
+
+    const scheduled = await this.getScheduledNotifications();
+    await Promise.all(
+      scheduled
+        .filter(request => request.identifier.startsWith(MEAL_REMINDER_ID_PREFIX))
+        .map(request => this.cancelNotification(request.identifier))
     );
+
+    // One reminder per day at the specified time. Only today's depends on the log (it is
+    // skipped when that meal is already logged); the other days repeat weekly, so the
+    // reminders don't run out while the app stays closed.
+    const now = new Date();
+    const tomorrow = new Date(now.getFullYear(), now.getMonth(), now.getDate() + 1, hours, minutes);
+    // Reminders on days without a log are all alike
+    const laterDays = planMealReminder(tomorrow, logState) ?? DEFAULT_MEAL_REMINDER;
+    const scheduleMealReminder = (reminder: NotificationData, trigger: Notifications.NotificationTriggerInput, identifier: string) =>
+      this.scheduleLocalNotification(
+        { ...reminder, priority: Notifications.AndroidNotificationPriority.HIGH },
+        trigger,
+        `${MEAL_REMINDER_ID_PREFIX}${identifier}`
+      );
+
+    for (let day = 0; day < 7; day++) {
+      const at = new Date(now.getFullYear(), now.getMonth(), now.getDate() + day, hours, minutes);
+      if (day === 0 && at > now) {
+        const reminder = planMealReminder(at, logState);
+        if (reminder) await scheduleMealReminder(reminder, { type: SchedulableTriggerInputTypes.DATE, date: at }, toDateKey(at));
+        for (let week = 1; week <= MEAL_REMINDER_WEEKS_AHEAD; week++) {
+          const later = new Date(at.getFullYear(), at.getMonth(), at.getDate() + week * 7, hours, minutes);
+          await scheduleMealReminder(laterDays, { type: SchedulableTriggerInputTypes.DATE, date: later }, toDateKey(later));
+        }
+        continue;
+      }
+
+      await scheduleMealReminder(
+        laterDays,
+        { type: SchedulableTriggerInputTypes.WEEKLY, weekday: at.getDay() + 1, hour: hours, minute: minutes },
+        `weekly-${at.getDay()}`
+      );
+    }
   }
 
   private async scheduleHydrationReminders(settings: ReminderSettings): Promise<void> {
@@ -262,6 +498,7 @@ class MobileNotificationService {
           title: 'Stay Hydrated! 💧',
           body: 'Time to drink some water and stay healthy!',
           data: { type: 'hydration-reminder', url: '/' },
+          categoryIdentifier: REMINDER_CATEGORY.hydration,
           priority: Notifications.AndroidNotificationPriority.DEFAULT,
         },
         {
@@ -290,6 +527,7 @@ class MobileNotificationService {
         title: 'Weekly Weigh-In Reminder ⚖️',
         body: 'Time for your weekly progress check! Track your weight to monitor your journey.',
         data: { type: 'weigh-in-reminder', url: '/progress' },
+        categoryIdentifier: REMINDER_CATEGORY.weighIn,
         priority: Notifications.AndroidNotificationPriority.HIGH,
       },
       {
@@ -323,4 +561,21 @@ class MobileNotificationService {
 // Create singleton instance
 const notificationService = new MobileNotificationService();
 
+// Android runs this for action buttons pressed while the app is in the background or
+// killed, loading the JS bundle without UI. Defined at module scope, as Expo requires.
+const BACKGROUND_NOTIFICATION_TASK = 'background-notification-action';
+
+TaskManager.defineTask<Notifications.NotificationTaskPayload>(BACKGROUND_NOTIFICATION_TASK, async ({ data, error }) => {
+  if (error) {
+    console.error('Background notification task failed:', error);
+    return;
+  }
+  if (!data || !('actionIdentifier' in data)) return;
+  await notificationService.handleNotificationResponse(data);
+});
+
+Notifications.registerTaskAsync(BACKGROUND_NOTIFICATION_TASK).catch(error => {
+  console.error('Failed to register the background notification task:', error);
+});
+
 export default notificationService; 
\ No newline at end of file
@@ -0,0 +1,138 @@
+/**
+ * Rules for what a meal reminder says, or whether it goes out at all, based on what the
+ * user has already logged that day. Mirrors src/lib/reminder-rules.ts in the web app,
+ * which posts today's log state to the app from the WebView. When the user has a usual
+ * meal for the slot, the reminder's category offers to log it from the notification.
+ */
+
+export type MealType = 'breakfast' | 'lunch' | 'snack' | 'dinner';
+
+export const MEAL_TYPES: MealType[] = ['breakfast', 'lunch', 'snack', 'dinner'];
+
+// A meal the web app can log again as-is (its QuickLogMeal)
+export interface QuickLogMeal {
+  name: string;
+  calories: number;
+  protein: number;
+  fat: number;
+  carbs: number;
+  mealType: MealType;
+  grams?: number;
+  items?: { name: string; grams?: number; calories: number; protein: number; fat: number; carbs: number }[];
+}
+
+// Today's log as posted by the web app ({ type: 'reminder_log_state', state })
+export interface ReminderLogState {
+  date: string; // YYYY-MM-DD
+  entries: { timestamp: number; mealType: MealType; calories: number }[];
+  calorieTarget: number;
+  usualMeals?: Partial<Record<MealType, QuickLogMeal>>; // Missing from web app versions without quick logs
+}
+
+export interface MealReminderContent {
+  title: string;
+  body: string;
+  data: { type: string; url: string; quickLog?: QuickLogMeal };
+  categoryIdentifier: string; // See REMINDER_CATEGORIES in notification-service
+}
+
+// Same as REMINDER_ACTIONS in src/lib/reminder-schedule.ts
+export const QUICK_LOG_WATER_ML = 250;
+export const SNOOZE_MINUTES = 30;
+
+export const REMINDER_CATEGORY = {
+  meal: 'meal-reminder',
+  hydration: 'hydration-reminder',
+  weighIn: 'weigh-in-reminder',
+} as const;
+
+/** The category of a meal reminder that can log the usual meal of the slot. */
+export const usualMealCategory = (mealType: MealType) => `${REMINDER_CATEGORY.meal}-usual-${mealType}`;
+
+// Same slots as the web app's suggestMealType: an entry logged since then counts toward the meal
+const MEAL_WINDOW_START_HOUR: Record<MealType, number> = {
+  breakfast: 4,
+  lunch: 11,
+  snack: 16,
+  dinner: 19,
+};
+
+// From this hour the reminder reports the calorie gap instead of a plain nudge
+export const EVENING_REMINDER_HOUR = 17;
+// Smaller gaps are within a normal day's variation and not worth mentioning
+export const MIN_CALORIE_GAP = 200;
+
+const mealReminder = (title: string, body: string, usualMeal?: QuickLogMeal): MealReminderContent => ({
+  title,
+  body,
+  data: { type: 'meal-reminder', url: '/log-food/manual', ...(usualMeal && { quickLog: usualMeal }) },
+  categoryIdentifier: usualMeal ? usualMealCategory(usualMeal.mealType) : REMINDER_CATEGORY.meal,
+});
+
+export const DEFAULT_MEAL_REMINDER = mealReminder(
+  'Time to Log Your Meal! 🍽️',
+  'Don\'t forget to track your nutrition for today. Tap to log your meal now!'
+);
+
+export function toDateKey(date: Date): string {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+function mealTypeAt(date: Date): MealType {
+  const hour = date.getHours();
+  if (hour >= 4 && hour < 11) return 'breakfast';
+  if (hour >= 11 && hour < 16) return 'lunch';
+  if (hour >= 16 && hour < 19) return 'snack';
+  return 'dinner';
+}
+
+export function isReminderLogState(value: unknown): value is ReminderLogState {
+  const state = value as ReminderLogState | null;
+  return !!state
+    && typeof state.date === 'string'
+    && typeof state.calorieTarget === 'number'
+    && Array.isArray(state.entries)
+    && state.entries.every(entry => typeof entry?.timestamp === 'number' && typeof entry?.calories === 'number');
+}
+
+/**
+ * The meal reminder to show at `at`, or null when the meal it falls in is already
+ * logged. Without state for that day the default reminder is returned.
+ */
+export function planMealReminder(at: Date, state: ReminderLogState | null): MealReminderContent | null {
+  const meal = mealTypeAt(at);
+  // Usual meals don't depend on the day, so every scheduled reminder can offer one
+  const usualMeal = state?.usualMeals?.[meal];
+  if (!state || state.date !== toDateKey(at)) {
+    return usualMeal ? mealReminder(DEFAULT_MEAL_REMINDER.title, DEFAULT_MEAL_REMINDER.body, usualMeal) : DEFAULT_MEAL_REMINDER;
+  }
+
+  const windowStart = new Date(at);
+  // Dinner runs past midnight, so after midnight its window is the start of the day
+  windowStart.setHours(at.getHours() < MEAL_WINDOW_START_HOUR.breakfast ? 0 : MEAL_WINDOW_START_HOUR[meal], 0, 0, 0);
+  const mealLogged = state.entries.some(entry =>
+    entry.mealType === meal || (entry.timestamp >= windowStart.getTime() && entry.timestamp <= at.getTime())
+  );
+  if (mealLogged) return null;
+
+  if (state.entries.length === 0) {
+    return mealReminder(
+      'Nothing logged yet today 📝',
+      `Add your ${meal} and anything else you've eaten so today's totals stay accurate.`,
+      usualMeal
+    );
+  }
+
+  const eaten = Math.round(state.entries.reduce((sum, entry) => sum + entry.calories, 0));
+  const gap = Math.round(state.calorieTarget) - eaten;
+  if (at.getHours() >= EVENING_REMINDER_HOUR && gap >= MIN_CALORIE_GAP) {
+    return mealReminder(
+      `You're ${gap} kcal under target`,
+      `You've logged ${eaten} of ${Math.round(state.calorieTarget)} kcal today. Tap to log your ${meal}.`,
+      usualMeal
+    );
+  }
+
+  return mealReminder(`Time to log your ${meal}! 🍽️`, DEFAULT_MEAL_REMINDER.body, usualMeal);
+}
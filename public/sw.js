@@ -1,6 +1,18 @@
 // Service Worker for Calorie Tracker Push Notifications
 const CACHE_NAME = 'calorie-tracker-v1';
 const NOTIFICATION_TITLE = 'Calorie Tracker Reminder';
+const DEFAULT_ACTIONS = [
+  {
+    action: 'log_meal',
+    title: 'Log Meal',
+    icon: '/favicon/favicon-32x32.png'
+  },
+  {
+    action: 'dismiss',
+    title: 'Dismiss',
+    icon: '/favicon/favicon-32x32.png'
+  }
+];
 
 // Install event - cache essential files
 self.addEventListener('install', (event) => {
@@ -11,62 +23,348 @@ self.addEventListener('install', (event) => {
         '/offline.html',
         '/manifest.json'
       ]);
-    })
+    }).then(() => self.skipWaiting()) // Pages talk to the worker about reminders, so don't leave them on an old one
   );
 });
 
+self.addEventListener('activate', (event) => {
+  event.waitUntil(self.clients.claim());
+});
+
 // Push event - handle incoming push notifications
 self.addEventListener('push', (event) => {
   if (event.data) {
     const data = event.data.json();
+    const details = data.data || {};
     const options = {
       body: data.body || 'Time to log your meals!',
-      icon: '/favicon/android-chrome-192x192.png',
-      badge: '/favicon/favicon-32x32.png',
+      icon: data.icon || '/favicon/android-chrome-192x192.png',
+      badge: data.badge || '/favicon/favicon-32x32.png',
       vibrate: [200, 100, 200],
       data: {
-        url: data.url || '/',
+        ...details,
+        url: details.url || data.url || '/',
         timestamp: Date.now()
       },
-      actions: [
-        {
-          action: 'log_meal',
-          title: 'Log Meal',
-          icon: '/favicon/favicon-32x32.png'
-        },
-        {
-          action: 'dismiss',
-          title: 'Dismiss',
-          icon: '/favicon/favicon-32x32.png'
-        }
-      ],
+      actions: data.actions || DEFAULT_ACTIONS,
       requireInteraction: true,
-      tag: 'calorie-reminder-' + Date.now()
+      tag: data.tag || 'calorie-reminder-' + Date.now()
     };
 
     event.waitUntil(
-      self.registration.showNotification(NOTIFICATION_TITLE, options)
+      self.registration.showNotification(data.title || NOTIFICATION_TITLE, options)
     );
   }
 });
 
-// Notification click event
-self.addEventListener('notificationclick', (event) => {
-  event.notification.close();
+// --- Reminder schedule ---
+// The page plans upcoming reminders (src/lib/reminder-scheduler.ts) and sends them here.
+// They are kept in IndexedDB so they outlive the tab, fired with Notification Triggers
+// where the browser supports them, and otherwise sent to the server, whose cron route
+// pushes each one at its time.
 
-  if (event.action === 'log_meal') {
-    event.waitUntil(
-      clients.openWindow('/log-food/manual')
-    );
-  } else if (event.action === 'dismiss') {
-    // Just close the notification
-    return;
-  } else {
-    // Default action - open the app
-    event.waitUntil(
-      clients.openWindow('/')
-    );
+const REMINDER_DB_NAME = 'calorie-tracker-reminders';
+const REMINDER_STORE = 'reminders';
+const META_STORE = 'meta';
+const ACTIONS_STORE = 'actions'; // See "Notification actions" below
+
+function openReminderDb() {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(REMINDER_DB_NAME, 2);
+    request.onupgradeneeded = () => {
+      // Version 2 added the actions store to databases created by version 1
+      const db = request.result;
+      if (!db.objectStoreNames.contains(REMINDER_STORE)) db.createObjectStore(REMINDER_STORE, { keyPath: 'id' });
+      if (!db.objectStoreNames.contains(META_STORE)) db.createObjectStore(META_STORE);
+      if (!db.objectStoreNames.contains(ACTIONS_STORE)) db.createObjectStore(ACTIONS_STORE, { keyPath: 'id' });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// Resolves with the request's result once the transaction has committed
+async function runReminderTransaction(storeName, mode, operate) {
+  const db = await openReminderDb();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    const request = operate(transaction.objectStore(storeName));
+    transaction.oncomplete = () => {
+      db.close();
+      resolve(request ? request.result : undefined);
+    };
+    transaction.onerror = () => {
+      db.close();
+      reject(transaction.error);
+    };
+  });
+}
+
+const readReminders = () => runReminderTransaction(REMINDER_STORE, 'readonly', (store) => store.getAll());
+
+const writeReminders = (reminders) => runReminderTransaction(REMINDER_STORE, 'readwrite', (store) => {
+  store.clear();
+  reminders.forEach((reminder) => store.put(reminder));
+});
+
+const readCoversUntil = () => runReminderTransaction(META_STORE, 'readonly', (store) => store.get('coversUntil'));
+
+const writeCoversUntil = (coversUntil) =>
+  runReminderTransaction(META_STORE, 'readwrite', (store) => store.put(coversUntil, 'coversUntil'));
+
+// Schedule changes run one at a time so a cancel can't be lost to a replace in flight
+let scheduleQueue = Promise.resolve();
+
+function enqueueScheduleTask(task) {
+  const result = scheduleQueue.then(task, task);
+  scheduleQueue = result.catch(() => undefined);
+  return result;
+}
+
+const supportsNotificationTriggers = () =>
+  typeof TimestampTrigger !== 'undefined' && 'showTrigger' in Notification.prototype;
+
+const toScheduledReminder = ({ id, type, fireAt, title, body, tag, data, actions }) =>
+  ({ id, type, fireAt, title, body, tag, data, actions });
+
+async function listPendingReminders() {
+  const now = Date.now();
+  return (await readReminders())
+    .filter((reminder) => reminder.status === 'pending' && reminder.fireAt > now)
+    .sort((a, b) => a.fireAt - b.fireAt)
+    .map((reminder) => ({ ...toScheduledReminder(reminder), rescheduled: reminder.rescheduled }));
+}
+
+async function scheduleTriggeredNotifications(pending) {
+  // Drop the triggers from the previous schedule that haven't fired yet, then set the current ones
+  const existing = await self.registration.getNotifications({ includeTriggered: true });
+  existing
+    .filter((notification) => notification.data && notification.data.reminderId && notification.timestamp > Date.now())
+    .forEach((notification) => notification.close());
+
+  await Promise.all(pending.map((reminder) =>
+    self.registration.showNotification(reminder.title, {
+      body: reminder.body,
+      icon: '/favicon/android-chrome-192x192.png',
+      badge: '/favicon/favicon-32x32.png',
+      // Pending notifications that share a tag replace each other, so each gets its own
+      tag: reminder.id,
+      data: { ...reminder.data, reminderId: reminder.id },
+      actions: reminder.actions || DEFAULT_ACTIONS,
+      requireInteraction: true,
+      showTrigger: new TimestampTrigger(reminder.fireAt)
+    })
+  ));
+}
+
+// The server pushes these when the browser can't fire them itself, and leaves this device alone when it can
+async function syncScheduleWithServer(pending, localTriggers) {
+  const subscription = await self.registration.pushManager.getSubscription();
+  if (!subscription) return;
+  try {
+    const response = await fetch('/api/notifications/schedule', {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        endpoint: subscription.endpoint,
+        localTriggers,
+        coversUntil: (await readCoversUntil()) || Date.now(),
+        reminders: pending.map(toScheduledReminder)
+      })
+    });
+    // 404 means this subscription isn't registered yet; it is sent again on the next change
+    if (!response.ok && response.status !== 404) {
+      console.warn('Saving the reminder schedule failed with status', response.status);
+    }
+  } catch (error) {
+    console.warn('Could not send the reminder schedule to the server:', error);
+  }
+}
+
+async function deliverSchedule() {
+  const pending = await listPendingReminders();
+  const localTriggers = supportsNotificationTriggers();
+  if (localTriggers) {
+    await scheduleTriggeredNotifications(pending);
+  }
+  await syncScheduleWithServer(pending, localTriggers);
+  return pending;
+}
+
+async function replaceSchedule({ reminders, coversUntil }) {
+  const now = Date.now();
+  const previous = new Map((await readReminders()).map((reminder) => [reminder.id, reminder]));
+
+  // A reminder the user cancelled or moved keeps that change when the page re-plans
+  const next = reminders.map((reminder) => {
+    const existing = previous.get(reminder.id);
+    previous.delete(reminder.id);
+    return {
+      ...toScheduledReminder(reminder),
+      fireAt: existing && existing.rescheduled ? existing.fireAt : reminder.fireAt,
+      status: existing ? existing.status : 'pending',
+      rescheduled: existing ? existing.rescheduled : false
+    };
+  });
+  // Cancellations outlast a re-plan that drops the reminder for now, and moved ones still fire
+  previous.forEach((reminder) => {
+    if (reminder.status === 'cancelled' || reminder.rescheduled) next.push(reminder);
+  });
+
+  await writeReminders(next.filter((reminder) => reminder.fireAt > now));
+  await writeCoversUntil(coversUntil);
+  return deliverSchedule();
+}
+
+async function updateReminder(id, change) {
+  const reminders = await readReminders();
+  const reminder = reminders.find((candidate) => candidate.id === id);
+  if (!reminder) {
+    throw new Error('No scheduled reminder with id ' + id);
   }
+  Object.assign(reminder, change);
+  await writeReminders(reminders);
+  return deliverSchedule();
+}
+
+const MESSAGE_HANDLERS = {
+  'reminders:replace': (message) => replaceSchedule(message),
+  'reminders:list': () => listPendingReminders(),
+  'reminders:cancel': (message) => updateReminder(message.id, { status: 'cancelled' }),
+  'reminders:reschedule': (message) => {
+    if (!(message.fireAt > Date.now())) {
+      throw new Error('A reminder can only be moved to a future time');
+    }
+    return updateReminder(message.id, { fireAt: message.fireAt, status: 'pending', rescheduled: true });
+  },
+  'actions:list': () => readActionOutcomes(),
+  'actions:clear': async (message) => {
+    await deleteActionOutcomes(message.ids || []);
+    return readActionOutcomes();
+  }
+};
+
+// Replies on the MessageChannel port the page sent, with { result } or { error }
+self.addEventListener('message', (event) => {
+  const message = event.data || {};
+  if (!Object.prototype.hasOwnProperty.call(MESSAGE_HANDLERS, message.type)) return;
+  const handler = MESSAGE_HANDLERS[message.type];
+  const port = event.ports[0];
+
+  event.waitUntil(
+    enqueueScheduleTask(() => handler(message))
+      .then((result) => port && port.postMessage({ result }))
+      .catch((error) => port && port.postMessage({ error: error.message || String(error) }))
+  );
+});
+
+// --- Notification actions ---
+// The actions of REMINDER_ACTIONS in src/lib/reminder-schedule.ts. Quick logs and snoozes
+// are handled here without opening the app: each outcome is recorded in IndexedDB, and
+// the dashboard applies it to the log the next time it opens
+// (src/lib/notification-actions.ts), then clears it.
+
+const QUICK_LOG_WATER_ML = 250;
+const SNOOZE_MINUTES = 30;
+const CONFIRMATION_TAG = 'notification-action-confirmation';
+
+// Pushed notifications only carry data.type, which a snoozed copy needs as a reminder type
+const REMINDER_TYPES_BY_DATA_TYPE = {
+  'meal-reminder': 'meal',
+  'hydration-reminder': 'hydration',
+  'weigh-in-reminder': 'weigh-in'
+};
+
+const newOutcomeId = () => 'notification-' + Date.now() + '-' + Math.random().toString(36).slice(2, 8);
+
+const readActionOutcomes = async () =>
+  (await runReminderTransaction(ACTIONS_STORE, 'readonly', (store) => store.getAll())).sort((a, b) => a.at - b.at);
+
+const deleteActionOutcomes = (ids) => runReminderTransaction(ACTIONS_STORE, 'readwrite', (store) => {
+  ids.forEach((id) => store.delete(id));
+});
+
+async function recordActionOutcome(outcome) {
+  await runReminderTransaction(ACTIONS_STORE, 'readwrite', (store) => store.put(outcome));
+  // A dashboard that is already open applies it right away
+  const windows = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+  windows.forEach((client) => client.postMessage({ type: 'notification-actions:recorded' }));
+}
+
+// Nothing else shows that a quick log worked, since the app stays closed
+const showConfirmation = (title, body) =>
+  self.registration.showNotification(title, {
+    body,
+    icon: '/favicon/android-chrome-192x192.png',
+    badge: '/favicon/favicon-32x32.png',
+    tag: CONFIRMATION_TAG,
+    silent: true
+  });
+
+// Adds a copy of the reminder to the schedule, SNOOZE_MINUTES from now
+async function snoozeReminder(notification) {
+  const data = notification.data || {};
+  const until = Date.now() + SNOOZE_MINUTES * 60 * 1000;
+
+  await enqueueScheduleTask(async () => {
+    const reminders = await readReminders();
+    // Scheduled reminders are copied as planned; pushed ones are rebuilt from the notification
+    const original = reminders.find((reminder) => reminder.id === data.reminderId) || {
+      type: REMINDER_TYPES_BY_DATA_TYPE[data.type] || 'meal',
+      title: notification.title,
+      body: notification.body,
+      tag: notification.tag,
+      data: { url: data.url || '/', type: data.type || 'general-reminder', quickLog: data.quickLog },
+      actions: (notification.actions || []).map(({ action, title }) => ({ action, title }))
+    };
+    const baseId = (data.reminderId || original.type).replace(/-snoozed-\d+$/, '');
+    reminders.push({
+      ...toScheduledReminder(original),
+      id: baseId + '-snoozed-' + Date.now(),
+      fireAt: until,
+      status: 'pending',
+      rescheduled: true // Keeps it through re-plans, like a reminder moved from the page
+    });
+    await writeReminders(reminders);
+    await deliverSchedule();
+  });
+
+  await recordActionOutcome({ id: newOutcomeId(), kind: 'snooze', title: notification.title, until, at: Date.now() });
+}
+
+// Focuses a tab already showing the page, or opens one
+async function openApp(url) {
+  const target = new URL(url, self.location.origin).href;
+  const windows = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+  const existing = windows.find((client) => client.url === target);
+  return existing ? existing.focus() : self.clients.openWindow(target);
+}
+
+const NOTIFICATION_ACTIONS = {
+  log_water: async () => {
+    await recordActionOutcome({ id: newOutcomeId(), kind: 'water', amountMl: QUICK_LOG_WATER_ML, at: Date.now() });
+    await showConfirmation('Logged ' + QUICK_LOG_WATER_ML + ' ml of water 💧', 'It will be on your dashboard next time you open the app.');
+  },
+  log_usual_meal: async (notification) => {
+    const meal = notification.data && notification.data.quickLog;
+    if (!meal) return openApp('/log-food/manual');
+    await recordActionOutcome({ id: newOutcomeId(), kind: 'meal', meal, at: Date.now() });
+    await showConfirmation('Logged your usual ' + meal.mealType + ' ✅', meal.name + ' · ' + Math.round(meal.calories) + ' kcal');
+  },
+  snooze: (notification) => snoozeReminder(notification),
+  log_meal: () => openApp('/log-food/manual'),
+  dismiss: async () => {}
+};
+
+self.addEventListener('notificationclick', (event) => {
+  const notification = event.notification;
+  notification.close();
+
+  // A tap on the notification itself (event.action is '') opens the page it is about
+  const handler = Object.prototype.hasOwnProperty.call(NOTIFICATION_ACTIONS, event.action)
+    ? NOTIFICATION_ACTIONS[event.action]
+    : () => openApp((notification.data && notification.data.url) || '/');
+  event.waitUntil(handler(notification));
 });
 
 // Background sync for offline functionality
@@ -7,4 +7,5 @@ import '@/ai/flows/analyze-food-text-flow.ts';
 import '@/ai/flows/generate-health-schedule-flow.ts';
 import '@/ai/flows/summarize-daily-log-flow.ts';
 import '@/ai/flows/generateIndianDietChartFlow.ts'; // Ensure this is the correct name and path
-
+import '@/ai/flows/review-period-flow.ts';
+import '@/ai/flows/nutrition-chat-flow.ts';
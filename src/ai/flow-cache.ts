@@ -0,0 +1,156 @@
+import {createHash} from 'node:crypto';
+import {promises as fs} from 'node:fs';
+import path from 'node:path';
+
+/**
+ * Server-side memoization for AI flows. Re-analyzing the same food text or photo
+ * returns the stored result instead of a new, slightly different model answer.
+ * Entries are scoped per user and expire after a TTL.
+ *
+ * The store is chosen with FLOW_CACHE_STORE ('memory' by default, or 'file', which
+ * writes one JSON file per entry under FLOW_CACHE_DIR). FLOW_CACHE_TTL_SECONDS sets
+ * the default lifetime.
+ */
+
+export interface FlowCacheEntry {
+  value: unknown;
+  createdAt: number; // Unix timestamp, ms
+  expiresAt: number; // Unix timestamp, ms
+}
+
+export interface FlowCacheStore {
+  get(key: string): Promise<FlowCacheEntry | undefined>;
+  set(key: string, entry: FlowCacheEntry): Promise<void>;
+  delete(key: string): Promise<void>;
+  clear(): Promise<void>;
+}
+
+/** Passed by callers alongside the flow input. */
+export interface FlowCallOptions {
+  userId?: string; // Scopes cached results; anonymous callers share the 'anonymous' scope
+  skipCache?: boolean; // Forces a fresh model call; the new result replaces the cached one
+}
+
+export type CachedResult<T> = T & {
+  fromCache: boolean;
+  cachedAt?: string; // ISO timestamp of the original model call, when fromCache is true
+};
+
+const DEFAULT_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+export function createMemoryCacheStore(): FlowCacheStore {
+  const entries = new Map<string, FlowCacheEntry>();
+  return {
+    async get(key) {
+      return entries.get(key);
+    },
+    async set(key, entry) {
+      entries.set(key, entry);
+    },
+    async delete(key) {
+      entries.delete(key);
+    },
+    async clear() {
+      entries.clear();
+    },
+  };
+}
+
+/** Persists entries as JSON files, so a cache survives restarts and can be inspected in tests. */
+export function createFileCacheStore(directory: string): FlowCacheStore {
+  // Keys are hex digests, so they are safe as file names
+  const fileFor = (key: string) => path.join(directory, `${key}.json`);
+  return {
+    async get(key) {
+      try {
+        return JSON.parse(await fs.readFile(fileFor(key), 'utf8')) as FlowCacheEntry;
+      } catch {
+        return undefined;
+      }
+    },
+    async set(key, entry) {
+      await fs.mkdir(directory, {recursive: true});
+      await fs.writeFile(fileFor(key), JSON.stringify(entry));
+    },
+    async delete(key) {
+      await fs.rm(fileFor(key), {force: true});
+    },
+    async clear() {
+      await fs.rm(directory, {recursive: true, force: true});
+    },
+  };
+}
+
+let activeStore: FlowCacheStore | null = null;
+
+export function getFlowCacheStore(): FlowCacheStore {
+  if (!activeStore) {
+    activeStore = process.env.FLOW_CACHE_STORE === 'file'
+      ? createFileCacheStore(process.env.FLOW_CACHE_DIR ?? path.join(process.cwd(), '.genkit', 'flow-cache'))
+      : createMemoryCacheStore();
+  }
+  return activeStore;
+}
+
+/** Replaces the store, e.g. with a fresh file store per test. */
+export function setFlowCacheStore(store: FlowCacheStore): void {
+  activeStore = store;
+}
+
+function defaultTtlMs(): number {
+  const seconds = Number(process.env.FLOW_CACHE_TTL_SECONDS);
+  return (Number.isFinite(seconds) && seconds > 0 ? seconds : DEFAULT_TTL_SECONDS) * 1000;
+}
+
+export function sha256(value: string): string {
+  return createHash('sha256').update(value).digest('hex');
+}
+
+/** Lowercases and collapses whitespace so "1 Bowl  dal." and "1 bowl dal" share an entry. */
+export function normalizeFoodText(text: string): string {
+  return text.toLowerCase().replace(/\s+/g, ' ').replace(/[.!?,;\s]+$/, '').trim();
+}
+
+/** Hashes the decoded image bytes, so the same photo matches whatever its data URI header says. */
+export function hashImageDataUri(dataUri: string): string {
+  const base64 = dataUri.slice(dataUri.indexOf(',') + 1);
+  return createHash('sha256').update(Buffer.from(base64, 'base64')).digest('hex');
+}
+
+interface FlowCacheConfig<I> {
+  flowName: string;
+  version: number; // Bump when the prompt or output schema changes, so stale shapes aren't served
+  keyOf: (input: I) => string;
+  ttlMs?: number;
+  store?: () => FlowCacheStore;
+}
+
+/** Wraps a flow so repeated inputs are answered from the cache. Failed calls are never cached. */
+export function withFlowCache<I, O extends object>(
+  config: FlowCacheConfig<I>,
+  run: (input: I) => Promise<O>
+): (input: I, options?: FlowCallOptions) => Promise<CachedResult<O>> {
+  return async (input, options = {}) => {
+    const store = (config.store ?? getFlowCacheStore)();
+    const scope = options.userId || 'anonymous';
+    const key = sha256([config.flowName, config.version, scope, config.keyOf(input)].join('\u0000'));
+    const now = Date.now();
+
+    if (!options.skipCache) {
+      const entry = await store.get(key);
+      if (entry && entry.expiresAt > now) {
+        return {...(entry.value as O), fromCache: true, cachedAt: new Date(entry.createdAt).toISOString()};
+      }
+      if (entry) await store.delete(key);
+    }
+
+    const value = await run(input);
+    try {
+      await store.set(key, {value, createdAt: now, expiresAt: now + (config.ttlMs ?? defaultTtlMs())});
+    } catch (error) {
+      // A cache that can't be written shouldn't cost the user their result
+      console.warn(`Could not cache ${config.flowName} result:`, error);
+    }
+    return {...value, fromCache: false};
+  };
+}
@@ -0,0 +1,48 @@
+/**
+ * Raised when a flow's model output still fails its schema after structured repair
+ * and every re-prompt. Each attempt is recorded so the UI can say what went wrong.
+ *
+ * Thrown errors reach the client without their properties, and in production without
+ * their message, so flows whose callers show the details return a `FlowResult` from
+ * `toFlowResult` instead of throwing.
+ */
+
+export interface FlowOutputAttempt {
+  attempt: number; // 1 is the original call; later attempts are re-prompts
+  issues: string[]; // Validation errors left after repair, as "path: message"
+  repairs: string[]; // Fixes applied before validating, e.g. a numeric string coerced
+}
+
+/** A FlowOutputError as plain data, which survives the server action boundary. */
+export interface FlowOutputFailure {
+  flowName: string;
+  attempts: FlowOutputAttempt[];
+}
+
+export type FlowResult<T> = {ok: true; value: T} | {ok: false; error: FlowOutputFailure};
+
+export class FlowOutputError extends Error {
+  readonly flowName: string;
+  readonly attempts: FlowOutputAttempt[];
+
+  constructor(flowName: string, attempts: FlowOutputAttempt[]) {
+    super(`${flowName} returned output that did not match its schema after ${attempts.length} attempt${attempts.length === 1 ? '' : 's'}.`);
+    this.name = 'FlowOutputError';
+    this.flowName = flowName;
+    this.attempts = attempts;
+  }
+
+  toFailure(): FlowOutputFailure {
+    return {flowName: this.flowName, attempts: this.attempts};
+  }
+}
+
+/** Runs a flow, returning a FlowOutputError as a failed result. Any other error is rethrown. */
+export async function toFlowResult<T>(run: () => Promise<T>): Promise<FlowResult<T>> {
+  try {
+    return {ok: true, value: await run()};
+  } catch (error) {
+    if (error instanceof FlowOutputError) return {ok: false, error: error.toFailure()};
+    throw error;
+  }
+}
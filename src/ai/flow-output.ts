@@ -0,0 +1,213 @@
+import {z, type ActionContext} from 'genkit';
+import {extractJson} from 'genkit/extract';
+import type {GenerateRequestData, MessageData, ModelMiddleware, GenerateResponseData} from 'genkit/model';
+import {ai} from '@/ai/genkit';
+import {FlowOutputError, type FlowOutputAttempt} from '@/ai/flow-output-error';
+
+/**
+ * Shared output handling for every flow. The model's reply is validated against the
+ * flow's zod schema; when it doesn't fit, small structural slips (numbers sent as
+ * strings, null arrays, enum casing) are repaired in place, and anything still wrong
+ * is sent back to the model as a follow-up turn listing the validation errors. After
+ * FLOW_OUTPUT_MAX_RETRIES re-prompts (default 2) a FlowOutputError is thrown.
+ */
+
+const DEFAULT_MAX_RETRIES = 2;
+
+function defaultMaxRetries(): number {
+  const retries = Number(process.env.FLOW_OUTPUT_MAX_RETRIES);
+  return Number.isInteger(retries) && retries >= 0 ? retries : DEFAULT_MAX_RETRIES;
+}
+
+function unwrap(schema: z.ZodTypeAny): z.ZodTypeAny {
+  if (schema instanceof z.ZodOptional || schema instanceof z.ZodNullable) return unwrap(schema.unwrap());
+  if (schema instanceof z.ZodDefault) return unwrap(schema.removeDefault());
+  if (schema instanceof z.ZodEffects) return unwrap(schema.innerType());
+  return schema;
+}
+
+function isOptional(schema: z.ZodTypeAny): boolean {
+  return schema.safeParse(undefined).success;
+}
+
+const NUMERIC_STRING = /^\s*(-?\d+(?:\.\d+)?)\s*(?:[a-z%]+)?\s*$/i;
+
+/**
+ * Returns a copy of `value` with repairable mismatches against `schema` fixed. Every
+ * change is described in `repairs`. Values that can't be repaired are left alone for
+ * validation to report.
+ */
+export function repairOutput(value: unknown, schema: z.ZodTypeAny, repairs: string[] = [], path = ''): unknown {
+  const at = path || '(root)';
+  const inner = unwrap(schema);
+
+  if (value === null || value === undefined) {
+    if (inner instanceof z.ZodArray) {
+      // An omitted optional list is valid, so filling it in isn't reported as a repair
+      if (value === null || !isOptional(schema)) repairs.push(`${at}: filled missing list with []`);
+      return [];
+    }
+    if (value === null && isOptional(schema)) {
+      repairs.push(`${at}: dropped null`);
+      return undefined;
+    }
+    return value;
+  }
+
+  if (inner instanceof z.ZodNumber && typeof value === 'string') {
+    const match = value.replace(/,/g, '').match(NUMERIC_STRING);
+    if (!match) return value;
+    const isInt = inner._def.checks.some(check => check.kind === 'int');
+    const number = isInt ? Math.round(Number(match[1])) : Number(match[1]);
+    repairs.push(`${at}: coerced "${value}" to ${number}`);
+    return number;
+  }
+  if (inner instanceof z.ZodNumber && typeof value === 'number' && !Number.isInteger(value)) {
+    if (inner._def.checks.some(check => check.kind === 'int')) {
+      repairs.push(`${at}: rounded ${value} to ${Math.round(value)}`);
+      return Math.round(value);
+    }
+    return value;
+  }
+  if (inner instanceof z.ZodBoolean && typeof value === 'string' && /^(true|false)$/i.test(value.trim())) {
+    repairs.push(`${at}: coerced "${value}" to a boolean`);
+    return value.trim().toLowerCase() === 'true';
+  }
+  if (inner instanceof z.ZodString && typeof value === 'number') {
+    repairs.push(`${at}: coerced ${value} to a string`);
+    return String(value);
+  }
+  if (inner instanceof z.ZodEnum && typeof value === 'string') {
+    const options = inner.options as string[];
+    if (options.includes(value)) return value;
+    const normalized = value.trim().toLowerCase().replace(/[\s-]+/g, '_');
+    const option = options.find(candidate => candidate.toLowerCase() === normalized);
+    if (option) {
+      repairs.push(`${at}: normalized "${value}" to "${option}"`);
+      return option;
+    }
+    return value;
+  }
+  if (inner instanceof z.ZodArray) {
+    const items = Array.isArray(value) ? value : [value];
+    if (!Array.isArray(value)) repairs.push(`${at}: wrapped a single value in a list`);
+    return items.map((item, index) => repairOutput(item, inner.element, repairs, path ? `${path}.${index}` : String(index)));
+  }
+  if (inner instanceof z.ZodObject && typeof value === 'object' && !Array.isArray(value)) {
+    const shape = inner.shape as Record<string, z.ZodTypeAny>;
+    const repaired: Record<string, unknown> = {...(value as Record<string, unknown>)};
+    for (const [key, fieldSchema] of Object.entries(shape)) {
+      const field = repairOutput(repaired[key], fieldSchema, repairs, path ? `${path}.${key}` : key);
+      if (field === undefined) delete repaired[key];
+      else repaired[key] = field;
+    }
+    return repaired;
+  }
+  return value;
+}
+
+export function describeIssues(error: z.ZodError): string[] {
+  return error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`);
+}
+
+/** Reads the structured output from a raw model reply, before Genkit validates it. */
+function rawOutputOf(response: GenerateResponseData): unknown {
+  const parts = response.message?.content ?? [];
+  const data = parts.find(part => part.data !== undefined)?.data;
+  if (data !== undefined) return data;
+  const text = parts.map(part => part.text ?? '').join('');
+  try {
+    return extractJson(text);
+  } catch {
+    return null;
+  }
+}
+
+function repairFeedback(issues: string[]): string {
+  return [
+    'Your previous reply did not match the required JSON schema:',
+    ...issues.map(issue => `- ${issue}`),
+    'Reply again with the complete, corrected JSON object only. Keep everything that was already valid.',
+  ].join('\n');
+}
+
+interface GenerateWithRepairConfig<S extends z.ZodTypeAny> {
+  flowName: string;
+  schema: S;
+  maxRetries?: number;
+  context?: ActionContext; // Passed to the prompt and re-prompts, e.g. data the flow's tools read
+}
+
+interface ModelExchange {
+  request: GenerateRequestData;
+  response: GenerateResponseData;
+}
+
+// Callers pass their prompt; only the middleware and context options are used here
+type FlowPrompt<I> = (input: I, options: {use: ModelMiddleware[]; context?: ActionContext}) => Promise<unknown>;
+
+/**
+ * Runs `prompt` and returns output that satisfies `schema`, repairing and re-prompting
+ * as needed. Errors other than schema mismatches (network, quota, safety blocks) are
+ * rethrown unchanged.
+ */
+export async function generateWithRepair<I, S extends z.ZodTypeAny>(
+  config: GenerateWithRepairConfig<S>,
+  prompt: FlowPrompt<I>,
+  input: I
+): Promise<z.infer<S>> {
+  const maxRetries = config.maxRetries ?? defaultMaxRetries();
+  const attempts: FlowOutputAttempt[] = [];
+  const captured: {exchange?: ModelExchange} = {};
+
+  // Sees the reply before Genkit's own schema check, which throws without returning it
+  const capture: ModelMiddleware = async (request, next) => {
+    const response = await next(request);
+    captured.exchange = {request, response};
+    return response;
+  };
+
+  for (let attempt = 1; attempt <= maxRetries + 1; attempt++) {
+    const previous = captured.exchange;
+    captured.exchange = undefined;
+    try {
+      if (!previous) {
+        await prompt(input, {use: [capture], context: config.context});
+      } else {
+        const followUp: MessageData = {role: 'user', content: [{text: repairFeedback(attempts[attempts.length - 1].issues)}]};
+        await ai.generate({
+          messages: [...previous.request.messages, previous.response.message!, followUp],
+          output: {schema: config.schema},
+          // The history may hold tool calls, which the model expects to stay declared
+          tools: previous.request.tools?.map(tool => tool.name),
+          context: config.context,
+          use: [capture],
+        });
+      }
+    } catch (error) {
+      // Only a reply that failed validation is worth repairing
+      if (!captured.exchange || (error as {status?: string}).status !== 'INVALID_ARGUMENT') throw error;
+    }
+
+    const reply = captured.exchange as ModelExchange | undefined;
+    if (!reply) throw new Error(`${config.flowName} got no reply from the model.`);
+
+    const repairs: string[] = [];
+    const raw = rawOutputOf(reply.response);
+    const result = raw === null ? null : config.schema.safeParse(repairOutput(raw, config.schema, repairs));
+    if (result?.success) {
+      if (attempts.length > 0 || repairs.length > 0) {
+        console.warn(`${config.flowName} output needed repair on attempt ${attempt}:`, {attempts, repairs});
+      }
+      return result.data;
+    }
+
+    attempts.push({
+      attempt,
+      issues: result ? describeIssues(result.error) : ['(root): the reply was not valid JSON'],
+      repairs,
+    });
+  }
+
+  throw new FlowOutputError(config.flowName, attempts);
+}
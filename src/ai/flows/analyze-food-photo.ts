@@ -7,10 +7,14 @@
  * - analyzeFoodPhoto - A function that handles the food photo analysis process.
  * - AnalyzeFoodPhotoInput - The input type for the analyzeFoodPhoto function.
  * - AnalyzeFoodPhotoOutput - The return type for the analyzeFoodPhoto function.
+ * - DetectedFoodItem - One separately identified item on the plate.
  */
 
 import {ai} from '@/ai/genkit';
 import {z} from 'genkit';
+import {fitNutrientRanges, scaleNutrientRanges} from '@/lib/estimate-confidence';
+import {hashImageDataUri, withFlowCache, type CachedResult, type FlowCallOptions} from '@/ai/flow-cache';
+import {generateWithRepair} from '@/ai/flow-output';
 
 const AnalyzeFoodPhotoInputSchema = z.object({
   photoDataUri: z
@@ -21,55 +25,97 @@ const AnalyzeFoodPhotoInputSchema = z.object({
 });
 export type AnalyzeFoodPhotoInput = z.infer<typeof AnalyzeFoodPhotoInputSchema>;
 
+const DetectedFoodItemSchema = z.object({
+  name: z.string().describe('Common name of this item, e.g. "Dal Tadka", "Jeera Rice", "Roti".'),
+  estimatedGrams: z.number().describe('Visually estimated weight of this item as served, in grams.'),
+  calories: z.number().describe('Estimated calories for this item at estimatedGrams.'),
+  protein: z.number().describe('Estimated protein for this item at estimatedGrams, in grams.'),
+  fat: z.number().describe('Estimated fat for this item at estimatedGrams, in grams.'),
+  carbs: z.number().describe('Estimated carbohydrates for this item at estimatedGrams, in grams.'),
+});
+export type DetectedFoodItem = z.infer<typeof DetectedFoodItemSchema>;
+
+const EstimateRangeSchema = z.object({
+  low: z.number().describe('Lowest plausible value.'),
+  high: z.number().describe('Highest plausible value.'),
+});
+
 const AnalyzeFoodPhotoOutputSchema = z.object({
   isFoodItem: z
     .boolean()
     .describe('Indicates if the image is determined to be a food item.'),
   calorieEstimate: z
     .number()
-    .describe('MUST BE HIGHLY ACCURATE. Estimated calorie count of the meal. Strive for the highest possible precision. Set to 0 if not a food item.'),
+    .describe('Best estimate of the calorie count of the meal. Set to 0 if not a food item.'),
   proteinEstimate: z
     .number()
-    .describe('MUST BE HIGHLY ACCURATE. Estimated protein content of the meal, in grams. Strive for the highest possible precision. Set to 0 if not a food item.'),
-  fatEstimate: z.number().describe('MUST BE HIGHLY ACCURATE. Estimated fat content of the meal, in grams. Strive for the highest possible precision. Set to 0 if not a food item.'),
+    .describe('Best estimate of the protein content of the meal, in grams. Set to 0 if not a food item.'),
+  fatEstimate: z.number().describe('Best estimate of the fat content of the meal, in grams. Set to 0 if not a food item.'),
   carbEstimate: z
     .number()
-    .describe('MUST BE HIGHLY ACCURATE. Estimated carbohydrate content of the meal, in grams. Strive for the highest possible precision. Set to 0 if not a food item.'),
+    .describe('Best estimate of the carbohydrate content of the meal, in grams. Set to 0 if not a food item.'),
+  estimateRanges: z
+    .object({
+      calories: EstimateRangeSchema,
+      protein: EstimateRangeSchema,
+      fat: EstimateRangeSchema,
+      carbs: EstimateRangeSchema,
+    })
+    .describe('Plausible low and high bounds for each meal-level estimate, reflecting uncertainty in portion size, oil and recipe. All 0 if not a food item.'),
+  confidence: z
+    .enum(['low', 'medium', 'high'])
+    .describe("How confident the estimate is. 'low' when the portion is hard to judge, the dish is ambiguous or hidden ingredients (oil, ghee, sugar) could change it a lot."),
+  confidenceReason: z
+    .string()
+    .describe('One short sentence on what most limits the estimate, e.g. "Portion depth of the curry is hard to judge from above."'),
   ingredients: z // This field will now store dish names
     .string()
     .array()
     .describe('List of common names of the primary food item(s) or dish(es) identified (e.g., "Pizza", "Chicken Biryani"). Empty array if not a food item or if names cannot be determined.'),
+  items: DetectedFoodItemSchema
+    .array()
+    .describe('Each separately served item with its own portion and nutrition, e.g. every bowl on a thali. The estimates above are the sum of these. Empty array if not a food item.'),
   estimatedQuantityNote: z
     .string()
     .describe("A clear statement of the visually estimated quantity for which the nutritional estimate is provided (e.g., 'Approximate estimates for approx. 150g of chicken as shown.', 'Estimates for 1 medium apple depicted.'). Empty if not a food item or quantity cannot be reasonably estimated from the photo.")
 });
 export type AnalyzeFoodPhotoOutput = z.infer<typeof AnalyzeFoodPhotoOutputSchema>;
 
-export async function analyzeFoodPhoto(input: AnalyzeFoodPhotoInput): Promise<AnalyzeFoodPhotoOutput> {
-  return analyzeFoodPhotoFlow(input);
+// Keyed on the image bytes, so re-uploading the same photo gives the same numbers
+const cachedAnalyzeFoodPhoto = withFlowCache(
+  {flowName: 'analyzeFoodPhotoFlow', version: 1, keyOf: (input: AnalyzeFoodPhotoInput) => hashImageDataUri(input.photoDataUri)},
+  (input: AnalyzeFoodPhotoInput) => analyzeFoodPhotoFlow(input)
+);
+
+export async function analyzeFoodPhoto(input: AnalyzeFoodPhotoInput, options?: FlowCallOptions): Promise<CachedResult<AnalyzeFoodPhotoOutput>> {
+  return cachedAnalyzeFoodPhoto(input, options);
 }
 
 const prompt = ai.definePrompt({
   name: 'analyzeFoodPhotoPrompt',
   input: {schema: AnalyzeFoodPhotoInputSchema},
   output: {schema: AnalyzeFoodPhotoOutputSchema},
-  prompt: `You are an expert nutritionist and a highly precise nutritional calculator. Your primary goal is to provide the most accurate and consistent possible estimates for the food shown in the image. When re-analyzing an image that appears identical or very similar to a previous one, strive for maximal consistency in your estimations.
+  prompt: `You are an expert nutritionist. Your goal is to give useful, honest estimates for the food shown in the image.
 
-Analyze the provided image with the HIGHEST POSSIBLE PRECISION. Your estimations for calories, protein, fat, and carbohydrates MUST be as accurate as your knowledge allows.
+Estimating nutrition from a photo is uncertain: portion sizes, hidden oil or ghee and recipes vary. Give your best point estimate, and be honest about how far off it could be.
 
 First, determine if the image contains a food item.
 
 If the image IS a food item:
 - Set 'isFoodItem' to true.
 - Perform a careful visual estimation of the quantity or portion size of the food item(s) shown (e.g., "approx. 150g", "1 cup", "2 slices"). This visual estimation is critical for accurate results.
-- Based SOLELY on this visually estimated quantity and your extensive nutritional knowledge, provide **highly accurate and consistent numerical estimates** for its nutritional information (calorie count, protein, fat, carbohydrates in grams). Do not generalize; aim for specific values.
+- Based on this visually estimated quantity and your nutritional knowledge, provide best point estimates for its nutritional information (calorie count, protein, fat, carbohydrates in grams).
+- In 'estimateRanges', give a low and high bound for each of calories, protein, fat and carbs that you believe the true value very likely falls within. The best estimate must lie between its bounds. Wider ranges are better than false precision.
+- Set 'confidence' to 'high' only for clearly identifiable foods with an easily judged portion (e.g. one banana), 'medium' for typical dishes, and 'low' when the portion, dish or hidden ingredients are hard to judge. Explain the main limiting factor in 'confidenceReason'.
 - Populate the 'estimatedQuantityNote' field with a clear statement about the visually estimated quantity used for the nutritional estimation (e.g., "Approximate estimates for approx. 150g of chicken as shown in the image.", "Nutritional details for the single medium apple depicted.").
 - Identify the common name(s) of the primary food item(s) or dish(es) in the meal (e.g., "Pizza", "Chicken Biryani", "Apple Pie"). List these in the 'ingredients' array. If it's a single dish, provide its name as a single element array. If multiple distinct dishes are clearly visible, list their common names. Avoid listing individual raw ingredients unless it's a very simple, unmixed food like "Apple". If no specific dish name can be determined, provide a general category like "Mixed Salad" or "Fruit Bowl".
+- Break the meal down in the 'items' array, one entry per separately served item (for a thali: each katori, the rice, each roti counted together, the salad). Give each item its own visually estimated weight in grams ('estimatedGrams') and its own calories, protein, fat and carbohydrates for that weight. A single dish is one item. The meal-level estimates must equal the sum of the items.
 
 If the image IS NOT a food item:
 - Set 'isFoodItem' to false.
-- Set 'calorieEstimate', 'proteinEstimate', 'fatEstimate', and 'carbEstimate' to 0.
-- Set 'ingredients' to an empty array.
+- Set 'calorieEstimate', 'proteinEstimate', 'fatEstimate', and 'carbEstimate' to 0, and every bound in 'estimateRanges' to 0.
+- Set 'confidence' to 'low' and explain in 'confidenceReason' why the image does not look like food.
+- Set 'ingredients' and 'items' to empty arrays.
 - Set 'estimatedQuantityNote' to "Not a food item." or an empty string.
 
 Analyze the following photo: {{media url=photoDataUri}}
@@ -77,11 +123,15 @@ Analyze the following photo: {{media url=photoDataUri}}
 Format your response as a JSON object:
 {
   "isFoodItem": boolean,
-  "calorieEstimate": number,  // Strive for highest precision
-  "proteinEstimate": number, // Strive for highest precision
-  "fatEstimate": number,     // Strive for highest precision
-  "carbEstimate": number,    // Strive for highest precision
+  "calorieEstimate": number,
+  "proteinEstimate": number,
+  "fatEstimate": number,
+  "carbEstimate": number,
+  "estimateRanges": { "calories": { "low": number, "high": number }, "protein": {...}, "fat": {...}, "carbs": {...} },
+  "confidence": "low" | "medium" | "high",
+  "confidenceReason": string,
   "ingredients": string[],
+  "items": [{ "name": string, "estimatedGrams": number, "calories": number, "protein": number, "fat": number, "carbs": number }],
   "estimatedQuantityNote": string
 }`,
 });
@@ -93,8 +143,50 @@ const analyzeFoodPhotoFlow = ai.defineFlow(
     outputSchema: AnalyzeFoodPhotoOutputSchema,
   },
   async input => {
-    const {output} = await prompt(input);
-    return output!;
+    const output = await generateWithRepair({flowName: 'analyzeFoodPhotoFlow', schema: AnalyzeFoodPhotoOutputSchema}, prompt, input);
+    return reconcileItems(output);
   }
 );
 
+// Keeps the meal-level estimates and ranges in step with the item breakdown, since the items are what the user edits
+function reconcileItems(output: AnalyzeFoodPhotoOutput): AnalyzeFoodPhotoOutput {
+  if (!output.isFoodItem) return {...output, items: []};
+  const modelPoint = {
+    calories: output.calorieEstimate,
+    protein: output.proteinEstimate,
+    fat: output.fatEstimate,
+    carbs: output.carbEstimate,
+  };
+  if (output.items.length === 0) {
+    return {
+      ...output,
+      estimateRanges: fitNutrientRanges(output.estimateRanges, modelPoint),
+      items: [{
+        name: output.ingredients.join(', ') || 'Meal',
+        estimatedGrams: 0, // Unknown, so the portion can't be rescaled
+        calories: output.calorieEstimate,
+        protein: output.proteinEstimate,
+        fat: output.fatEstimate,
+        carbs: output.carbEstimate,
+      }],
+    };
+  }
+  const sum = (pick: (item: DetectedFoodItem) => number) =>
+    Math.round(output.items.reduce((total, item) => total + pick(item), 0) * 10) / 10;
+  const itemPoint = {
+    calories: Math.round(sum(item => item.calories)),
+    protein: sum(item => item.protein),
+    fat: sum(item => item.fat),
+    carbs: sum(item => item.carbs),
+  };
+  return {
+    ...output,
+    calorieEstimate: itemPoint.calories,
+    proteinEstimate: itemPoint.protein,
+    fatEstimate: itemPoint.fat,
+    carbEstimate: itemPoint.carbs,
+    estimateRanges: scaleNutrientRanges(output.estimateRanges, modelPoint, itemPoint),
+    ingredients: output.items.map(item => item.name),
+  };
+}
+
@@ -10,6 +10,9 @@
 
 import {ai} from '@/ai/genkit';
 import {z} from 'genkit';
+import {fitNutrientRanges} from '@/lib/estimate-confidence';
+import {normalizeFoodText, withFlowCache, type CachedResult, type FlowCallOptions} from '@/ai/flow-cache';
+import {generateWithRepair} from '@/ai/flow-output';
 
 const AnalyzeFoodTextInputSchema = z.object({
   description: z
@@ -18,18 +21,37 @@ const AnalyzeFoodTextInputSchema = z.object({
 });
 export type AnalyzeFoodTextInput = z.infer<typeof AnalyzeFoodTextInputSchema>;
 
+const EstimateRangeSchema = z.object({
+  low: z.number().describe('Lowest plausible value.'),
+  high: z.number().describe('Highest plausible value.'),
+});
+
 const AnalyzeFoodTextOutputSchema = z.object({
   calorieEstimate: z
     .number()
-    .describe('Highly accurate estimated calorie count of the described meal. Strive for the highest possible precision.'),
+    .describe('Best estimate of the calorie count of the described meal.'),
   proteinEstimate: z
     .number()
-    .describe('Highly accurate estimated protein content of the described meal, in grams. Strive for the highest possible precision.'),
-  fatEstimate: z.number().describe('Highly accurate estimated fat content of the described meal, in grams. Strive for the highest possible precision.'),
+    .describe('Best estimate of the protein content of the described meal, in grams.'),
+  fatEstimate: z.number().describe('Best estimate of the fat content of the described meal, in grams.'),
   saturatedFatEstimate: z.number().optional().describe('Estimated saturated fat in grams. Set to 0 if not applicable or unknown.'),
   carbEstimate: z
     .number()
-    .describe('Highly accurate estimated carbohydrate content of the described meal, in grams. Strive for the highest possible precision.'),
+    .describe('Best estimate of the carbohydrate content of the described meal, in grams.'),
+  estimateRanges: z
+    .object({
+      calories: EstimateRangeSchema,
+      protein: EstimateRangeSchema,
+      fat: EstimateRangeSchema,
+      carbs: EstimateRangeSchema,
+    })
+    .describe('Plausible low and high bounds for calories, protein, fat and carbs, reflecting uncertainty in quantity and recipe.'),
+  confidence: z
+    .enum(['low', 'medium', 'high'])
+    .describe("How confident the estimate is. 'low' when the quantity had to be assumed or the dish varies a lot between recipes."),
+  confidenceReason: z
+    .string()
+    .describe('One short sentence on what most limits the estimate, e.g. "No quantity given, so a typical serving was assumed."'),
   fiberEstimate: z.number().optional().describe('Estimated dietary fiber in grams. Set to 0 if not applicable or unknown.'),
   sugarEstimate: z.number().optional().describe('Estimated sugars in grams. Set to 0 if not applicable or unknown.'),
   cholesterolEstimate: z.number().optional().describe('Estimated cholesterol in milligrams. Set to 0 if not applicable or unknown.'),
@@ -47,17 +69,23 @@ const AnalyzeFoodTextOutputSchema = z.object({
 });
 export type AnalyzeFoodTextOutput = z.infer<typeof AnalyzeFoodTextOutputSchema>;
 
-export async function analyzeFoodText(input: AnalyzeFoodTextInput): Promise<AnalyzeFoodTextOutput> {
-  return analyzeFoodTextFlow(input);
+// Descriptions that only differ in case, spacing or trailing punctuation share a result
+const cachedAnalyzeFoodText = withFlowCache(
+  {flowName: 'analyzeFoodTextFlow', version: 1, keyOf: (input: AnalyzeFoodTextInput) => normalizeFoodText(input.description)},
+  (input: AnalyzeFoodTextInput) => analyzeFoodTextFlow(input)
+);
+
+export async function analyzeFoodText(input: AnalyzeFoodTextInput, options?: FlowCallOptions): Promise<CachedResult<AnalyzeFoodTextOutput>> {
+  return cachedAnalyzeFoodText(input, options);
 }
 
 const prompt = ai.definePrompt({
   name: 'analyzeFoodTextPrompt',
   input: {schema: AnalyzeFoodTextInputSchema},
   output: {schema: AnalyzeFoodTextOutputSchema},
-  prompt: `You are an expert nutritionist and a highly precise nutritional calculator. Your primary goal is to provide the most accurate possible estimates for the food described.
+  prompt: `You are an expert nutritionist. Your goal is to give useful, honest estimates for the food described, including how uncertain they are.
 
-Based on the following food description, provide a detailed and highly accurate estimate of its nutritional content, including:
+Based on the following food description, provide a best estimate of its nutritional content, including:
 - Calorie count (calorieEstimate)
 - Protein in grams (proteinEstimate)
 - Total fat in grams (fatEstimate)
@@ -81,13 +109,16 @@ IMPORTANT INSTRUCTIONS:
     *   If the user specified a quantity (e.g., "150g salmon"), your note should be like: "Estimates are for your specified quantity of 150g salmon."
     *   If you assumed a quantity for a general item (e.g., user typed "salmon" and you assumed 100g), your note should be like: "Estimates based on an assumed quantity of 100g raw salmon." or "Estimates for 1 medium apple (approx. 150g)."
     *   If the description is too vague for any quantity assumption, state that in the note: "Unable to determine quantity or provide accurate estimates due to vague description."
-3.  **UTMOST PRECISION REQUIRED**: All numerical estimations MUST be as precise as possible. Your main function is to calculate these values accurately. If a detailed nutrient (like saturated fat, fiber, etc.) cannot be reasonably estimated or is not applicable, set its value to 0.
+3.  **Honest Uncertainty**: Give your best point estimate for each value, then report how far off it could be.
+    *   In \`estimateRanges\`, give a low and high bound for calories, protein, fat and carbs that the true value very likely falls within. The best estimate must lie between its bounds. Wider ranges are better than false precision.
+    *   Set \`confidence\` to 'high' when the food and quantity are specific (e.g. "2 boiled eggs"), 'medium' for a typical dish with a stated quantity, and 'low' when you had to assume the quantity or the recipe varies a lot. Explain the main limiting factor in \`confidenceReason\`.
+    *   If a detailed nutrient (like saturated fat, fiber, etc.) cannot be reasonably estimated or is not applicable, set its value to 0.
 4.  **Comprehensive Analysis (Secondary to Precision)**:
     *   \`commonIngredientsInfluence\`: Briefly explain how the main components of the described food (if it's a dish) influence its overall nutritional profile. If not applicable, leave empty.
     *   \`healthBenefits\`: Provide a list of 2-4 concise, distinct potential health benefits as an array of strings. If the item is generally unhealthy or no specific benefits are widely known, provide a neutral statement like ["General source of energy."] or leave the array empty.
     *   \`healthierTips\`: Offer 1-2 actionable tips for making a healthier version of the described food, if applicable. If not applicable, leave empty.
     *   \`estimationDisclaimer\`: Include a brief disclaimer like "Nutritional estimates are approximate and can vary based on specific ingredients and preparation methods."
-5.  **Handling Vague Descriptions**: If the description is too vague to make ANY reasonable estimate (e.g., "food", "a snack"), set ALL numerical estimates to 0. Set \`estimatedQuantityNote\` to "Unable to determine quantity or provide accurate estimates due to vague description." Set \`healthBenefits\` to an empty array. Set other text fields (commonIngredientsInfluence, healthierTips, estimationDisclaimer) to an appropriate "Unable to determine..." message or leave them empty.
+5.  **Handling Vague Descriptions**: If the description is too vague to make ANY reasonable estimate (e.g., "food", "a snack"), set ALL numerical estimates and bounds to 0 and \`confidence\` to 'low'. Set \`estimatedQuantityNote\` to "Unable to determine quantity or provide accurate estimates due to vague description." Set \`healthBenefits\` to an empty array. Set other text fields (commonIngredientsInfluence, healthierTips, estimationDisclaimer) to an appropriate "Unable to determine..." message or leave them empty.
 
 Provide your response as a JSON object matching the output schema.
 `,
@@ -100,8 +131,16 @@ const analyzeFoodTextFlow = ai.defineFlow(
     outputSchema: AnalyzeFoodTextOutputSchema,
   },
   async input => {
-    const {output} = await prompt(input);
-    return output!;
+    const result = await generateWithRepair({flowName: 'analyzeFoodTextFlow', schema: AnalyzeFoodTextOutputSchema}, prompt, input);
+    return {
+      ...result,
+      estimateRanges: fitNutrientRanges(result.estimateRanges, {
+        calories: result.calorieEstimate,
+        protein: result.proteinEstimate,
+        fat: result.fatEstimate,
+        carbs: result.carbEstimate,
+      }),
+    };
   }
 );
 
@@ -10,6 +10,7 @@
 
 import {ai} from '@/ai/genkit';
 import {z} from 'genkit';
+import {generateWithRepair} from '@/ai/flow-output';
 
 const GenerateHealthScheduleInputSchema = z.object({
   calorieGoal: z.number().min(0).describe('Target daily calorie intake (kcal).'),
@@ -141,11 +142,6 @@ const generateHealthScheduleFlow = ai.defineFlow(
     outputSchema: GenerateHealthScheduleOutputSchema,
   },
   async (input) => {
-    const {output} = await prompt(input);
-    // Basic validation or transformation can happen here if needed
-    if (!output) {
-      throw new Error("AI failed to generate a schedule.");
-    }
-    return output;
+    return generateWithRepair({flowName: 'generateHealthScheduleFlow', schema: GenerateHealthScheduleOutputSchema}, prompt, input);
   }
 );
@@ -10,6 +10,7 @@
 
 import {ai} from '@/ai/genkit';
 import {z} from 'genkit';
+import {generateWithRepair} from '@/ai/flow-output';
 
 const indianDietPreferenceEnum = z.enum([
   "vegetarian", 
@@ -144,11 +145,7 @@ Ensure the response is a valid JSON object matching the output schema.
     },
     async (flowInput) => {
       // If certain optional fields are not provided, AI will use defaults based on prompt.
-      const {output} = await prompt(flowInput);
-      if (!output) {
-        throw new Error("AI failed to generate an Indian diet chart.");
-      }
-      return output;
+      return generateWithRepair({flowName: 'generateIndianDietChartFlow', schema: indianDietChartOutputSchema}, prompt, flowInput);
     }
   );
   
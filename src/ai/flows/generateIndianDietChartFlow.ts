@@ -3,13 +3,15 @@
 /**
  * @fileOverview AI flow to generate a personalized Indian diet chart, meal by meal.
  *
- * - generateIndianDietChart - A function that generates the Indian diet plan.
+ * - generateIndianDietChart - A function that generates the Indian diet plan, or returns the output failure.
  * - GenerateIndianDietChartInput - The input type for the function.
  * - GenerateIndianDietChartOutput - The return type for the function.
  */
 
 import {ai} from '@/ai/genkit';
 import {z} from 'genkit';
+import {generateWithRepair} from '@/ai/flow-output';
+import {toFlowResult, type FlowResult} from '@/ai/flow-output-error';
 
 // Input schema to match the form data from /app/diet-chart/page.tsx
 const indianDietChartInputSchema = z.object({
@@ -46,6 +48,13 @@ const indianDietChartInputSchema = z.object({
   allergies: z.array(z.string()).optional().describe('List of food allergies. The plan MUST NOT include these allergens.'),
   medicalConditions: z.array(z.string()).optional().describe('List of medical conditions to consider (e.g., diabetes, hypertension). Adapt the plan accordingly.'),
   duration: z.enum(["daily", "weekly"]).describe('Duration of the diet plan (daily or weekly).'),
+  targetCalories: z.number().optional().describe('Daily calorie target pre-calculated by the app. When present it MUST be used as dailyCalories.'),
+  targetMacros: z.object({
+    protein: z.number(),
+    carbs: z.number(),
+    fats: z.number(),
+  }).optional().describe('Daily macro targets in grams pre-calculated by the app. When present they MUST be used as macroBreakdown.'),
+  corrections: z.array(z.string()).optional().describe('Problems the app found in a previous plan for the same details. The new plan MUST fix every one.'),
 });
 
 export type GenerateIndianDietChartInput = z.infer<typeof indianDietChartInputSchema>;
@@ -91,7 +100,7 @@ const indianDietChartOutputSchema = z.object({
 
 export type GenerateIndianDietChartOutput = z.infer<typeof indianDietChartOutputSchema>;
 
-export async function generateIndianDietChart(input: GenerateIndianDietChartInput): Promise<GenerateIndianDietChartOutput> {
+export async function generateIndianDietChart(input: GenerateIndianDietChartInput): Promise<FlowResult<GenerateIndianDietChartOutput>> {
   const prompt = ai.definePrompt({
     name: 'generateIndianDietChartMealByMealPrompt',
     input: {schema: indianDietChartInputSchema},
@@ -134,11 +143,15 @@ General Instructions (after applying dietary preferences):
     *   Specifically include ingredients like rice, roti (whole wheat, or alternatives for gluten-free), dal (various lentils like moong, masoor, toor), seasonal vegetables (e.g., bhindi, gobi, lauki, palak, carrots, beans, methi), curd (yogurt, or alternatives for dairy-free/vegan), sprouts, poha, upma, and basic fruits (e.g., banana, apple, guava, papaya, seasonal local fruits).
     *   Use simple spices and common Indian cooking methods. Ensure variety.
 3.  Health & Balance: Ensure the diet is nutritionally balanced according to the user's profile and fitness goal, AFTER satisfying all dietary preferences.
+{{#if targetCalories}}
+    *   The app has already calculated the targets. Set 'dailyCalories' to exactly {{{targetCalories}}} kcal{{#if targetMacros}} and 'macroBreakdown' to exactly protein {{{targetMacros.protein}}}g, carbs {{{targetMacros.carbs}}}g, fats {{{targetMacros.fats}}}g{{/if}}. Do not recalculate them. Plan meals whose totals add up to these targets.
+{{else}}
     *   First, estimate BMR (Basal Metabolic Rate) using Mifflin-St Jeor equation:
         *   Men: BMR = (10 * weight) + (6.25 * height) - (5 * age) + 5
         *   Women: BMR = (10 * weight) + (6.25 * height) - (5 * age) - 161
     *   Adjust for activity level (Sedentary: BMR * 1.2; Lightly active: BMR * 1.375; Moderately active: BMR * 1.55; Very active: BMR * 1.725; Extra active: BMR * 1.9).
     *   Adjust for fitness goal (Weight loss: subtract ~500 kcal; Muscle gain: add ~300-500 kcal; Maintain: no change). This calculated value will be 'dailyCalories'.
+{{/if}}
 4.  Meal Details (Crucial for each meal):
     *   'type': Specify Breakfast, Lunch, Dinner, or Snack.
     *   'name': A descriptive Indian name for the meal (e.g., Moong Dal Cheela with Mint Chutney, Chicken Curry with Roti and Salad).
@@ -155,6 +168,13 @@ General Instructions (after applying dietary preferences):
 7.  Macronutrient Breakdown: Provide overall daily 'protein', 'carbs', 'fats' in grams for the 'macroBreakdown' object for an average day.
 8.  Nutrition Tips: Offer 2-5 practical tips relevant to Indian eating habits and user's goals.
 9.  Hydration: Recommend daily water intake.
+{{#if corrections.length}}
+
+CORRECTIONS - A previous plan for these details was checked and failed. The new plan MUST fix every problem below while following all instructions above:
+{{#each corrections}}
+- {{{this}}}
+{{/each}}
+{{/if}}
 
 Ensure the response is a valid JSON object matching the output schema. Be thorough and provide realistic, actionable advice.
 `,
@@ -167,15 +187,11 @@ Ensure the response is a valid JSON object matching the output schema. Be thorou
       outputSchema: indianDietChartOutputSchema,
     },
     async (flowInput) => {
-      const {output} = await prompt(flowInput);
-      if (!output) {
-        throw new Error("AI failed to generate an Indian diet chart.");
-      }
-      return output;
+      return generateWithRepair({flowName: 'generateIndianDietChartMealByMealFlow', schema: indianDietChartOutputSchema}, prompt, flowInput);
     }
   );
   
-  return indianDietChartFlow(input);
+  return toFlowResult(() => indianDietChartFlow(input));
 }
     
 
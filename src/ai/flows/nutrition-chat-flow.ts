@@ -0,0 +1,261 @@
+'use server';
+/**
+ * @fileOverview Multi-turn nutrition assistant that answers questions about the user's own logs.
+ * The model reads goals, food entries and the active diet chart through tools, and cites the
+ * entries its answer is based on.
+ *
+ * Logs live in the browser, so the client sends a snapshot of recent days with each message and
+ * the tools read from that snapshot (passed as action context) instead of from a database.
+ *
+ * - nutritionChat - A function that answers one message in the conversation, or returns why it couldn't.
+ * - NutritionChatInput - The input type for the function.
+ * - NutritionChatOutput - The reply returned by the function.
+ * - NutritionChatResult - The return type for the function.
+ */
+
+import { ai } from '@/ai/genkit';
+import { z, type ActionContext } from 'genkit';
+import { generateWithRepair } from '@/ai/flow-output';
+import { toFlowResult, type FlowResult } from '@/ai/flow-output-error';
+
+const MacroTotalsSchema = z.object({
+  calories: z.number().min(0),
+  protein: z.number().min(0),
+  fat: z.number().min(0),
+  carbs: z.number().min(0),
+});
+
+const ChatFoodEntrySchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  mealType: z.enum(['breakfast', 'lunch', 'snack', 'dinner']),
+  time: z.string().describe('Time logged, HH:mm.'),
+  calories: z.number().min(0),
+  protein: z.number().min(0),
+  fat: z.number().min(0),
+  carbs: z.number().min(0),
+});
+
+const NutritionChatDataSchema = z.object({
+  today: z.string().describe('YYYY-MM-DD in the user\'s timezone.'),
+  defaultGoal: MacroTotalsSchema,
+  days: z.array(z.object({
+    date: z.string(),
+    goal: MacroTotalsSchema.describe('The goal in effect that day.'),
+    entries: z.array(ChatFoodEntrySchema),
+  })).describe('Recent days, oldest first, including days with no entries.'),
+  activeDietChart: z.object({
+    name: z.string(),
+    dailyCalories: z.number(),
+    macroBreakdown: z.object({ protein: z.number(), carbs: z.number(), fats: z.number() }),
+    days: z.array(z.object({
+      day: z.string(),
+      meals: z.array(z.object({
+        type: z.string(),
+        name: z.string(),
+        calories: z.number(),
+        protein: z.number(),
+        carbs: z.number(),
+        fats: z.number(),
+      })),
+    })),
+  }).optional().describe('The saved diet chart the user is following, if any.'),
+});
+export type NutritionChatData = z.infer<typeof NutritionChatDataSchema>;
+
+const ChatHistoryMessageSchema = z.object({
+  role: z.enum(['user', 'model']),
+  text: z.string(),
+});
+
+const NutritionChatInputSchema = z.object({
+  message: z.string().min(1).describe('The user\'s new message.'),
+  history: z.array(ChatHistoryMessageSchema).describe('Earlier messages in the conversation, oldest first.'),
+  data: NutritionChatDataSchema,
+});
+export type NutritionChatInput = z.infer<typeof NutritionChatInputSchema>;
+
+const ChatCitationSchema = ChatFoodEntrySchema.omit({ time: true }).extend({
+  date: z.string(),
+});
+
+const NutritionChatOutputSchema = z.object({
+  answer: z.string(),
+  reasoning: z.string(),
+  citations: z.array(ChatCitationSchema).describe('The logged entries the answer relies on.'),
+});
+export type NutritionChatOutput = z.infer<typeof NutritionChatOutputSchema>;
+
+// The assistant only knows the user's data through tools, so a model without them can't answer
+export type NutritionChatResult = FlowResult<NutritionChatOutput> | { ok: false; toolsUnsupported: true };
+
+export async function nutritionChat(input: NutritionChatInput): Promise<NutritionChatResult> {
+  try {
+    return await toFlowResult(() => nutritionChatFlow(input));
+  } catch (error) {
+    if ((error as { status?: string }).status === 'UNIMPLEMENTED') {
+      console.error('nutritionChat needs a model with tool support:', error);
+      return { ok: false, toolsUnsupported: true };
+    }
+    throw error;
+  }
+}
+
+// What the model returns; citations are resolved against the snapshot afterwards
+const ChatReplySchema = z.object({
+  answer: z.string().describe('The reply to the user, in plain conversational text. Mention specific foods, dates and numbers.'),
+  reasoning: z.string().describe('1-3 sentences on how the answer was worked out: which days, totals and goals were compared.'),
+  citedEntryIds: z.array(z.string()).describe('Ids of the food entries the answer relies on, exactly as returned by getFoodEntries. Empty if none were used.'),
+});
+
+// Keeps long conversations within the prompt budget; older turns are still stored on the device
+const MAX_HISTORY_MESSAGES = 20;
+
+function chatDataFrom(context: ActionContext): NutritionChatData {
+  const data = context.nutritionData as NutritionChatData | undefined;
+  if (!data) throw new Error('No nutrition data was provided for this conversation.');
+  return data;
+}
+
+const DateRangeSchema = z.object({
+  startDate: z.string().describe('First day, YYYY-MM-DD.'),
+  endDate: z.string().describe('Last day, YYYY-MM-DD. Use the same date as startDate for a single day.'),
+});
+
+const daysInRange = (data: NutritionChatData, { startDate, endDate }: z.infer<typeof DateRangeSchema>) =>
+  data.days.filter(day => day.date >= startDate && day.date <= endDate);
+
+const getNutritionGoals = ai.defineTool(
+  {
+    name: 'getNutritionGoals',
+    description: "Returns the user's everyday calorie and macro goal, and the goal in effect on each day of a date range (goals can differ by weekday or for scheduled periods).",
+    inputSchema: DateRangeSchema,
+    outputSchema: z.object({
+      defaultGoal: MacroTotalsSchema,
+      days: z.array(z.object({ date: z.string(), goal: MacroTotalsSchema })),
+    }),
+  },
+  async (range, { context }) => {
+    const data = chatDataFrom(context);
+    return {
+      defaultGoal: data.defaultGoal,
+      days: daysInRange(data, range).map(({ date, goal }) => ({ date, goal })),
+    };
+  }
+);
+
+const getFoodEntries = ai.defineTool(
+  {
+    name: 'getFoodEntries',
+    description: 'Returns every food entry the user logged in a date range, with daily totals. Each entry has an id to cite. Only recent days are available; see availableFrom.',
+    inputSchema: DateRangeSchema,
+    outputSchema: z.object({
+      availableFrom: z.string(),
+      availableTo: z.string(),
+      days: z.array(z.object({
+        date: z.string(),
+        totals: MacroTotalsSchema,
+        entries: z.array(ChatFoodEntrySchema),
+      })),
+      untrackedDates: z.array(z.string()).describe('Days in the range with nothing logged. Not tracking is not the same as eating nothing.'),
+    }),
+  },
+  async (range, { context }) => {
+    const data = chatDataFrom(context);
+    const days = daysInRange(data, range);
+    const round = (value: number) => Math.round(value * 10) / 10;
+    return {
+      availableFrom: data.days[0]?.date ?? data.today,
+      availableTo: data.days[data.days.length - 1]?.date ?? data.today,
+      days: days
+        .filter(day => day.entries.length > 0)
+        .map(({ date, entries }) => ({
+          date,
+          totals: {
+            calories: Math.round(entries.reduce((total, entry) => total + entry.calories, 0)),
+            protein: round(entries.reduce((total, entry) => total + entry.protein, 0)),
+            fat: round(entries.reduce((total, entry) => total + entry.fat, 0)),
+            carbs: round(entries.reduce((total, entry) => total + entry.carbs, 0)),
+          },
+          entries,
+        })),
+      untrackedDates: days.filter(day => day.entries.length === 0).map(day => day.date),
+    };
+  }
+);
+
+const getActiveDietChart = ai.defineTool(
+  {
+    name: 'getActiveDietChart',
+    description: "Returns the saved diet chart the user is following: daily calorie and macro targets and each day's planned meals. Returns active: false when no chart is being followed.",
+    inputSchema: z.object({}),
+    outputSchema: z.object({
+      active: z.boolean(),
+      chart: NutritionChatDataSchema.shape.activeDietChart,
+    }),
+  },
+  async (_input, { context }) => {
+    const chart = chatDataFrom(context).activeDietChart;
+    return { active: Boolean(chart), chart };
+  }
+);
+
+const ChatPromptInputSchema = z.object({
+  message: z.string(),
+  history: z.array(ChatHistoryMessageSchema),
+  today: z.string(),
+  availableFrom: z.string(),
+});
+
+const prompt = ai.definePrompt({
+  name: 'nutritionChatPrompt',
+  input: { schema: ChatPromptInputSchema },
+  output: { schema: ChatReplySchema },
+  tools: [getNutritionGoals, getFoodEntries, getActiveDietChart],
+  maxTurns: 6,
+  system: `You are a friendly AI Nutritionist inside a calorie tracking app, chatting with the user about their own eating. Today is {{today}}. Their food log is available from {{availableFrom}} to {{today}}.
+
+Instructions:
+1.  **Use the tools for facts**: Call getFoodEntries, getNutritionGoals and getActiveDietChart to look up what the user ate, their targets and their plan. Never guess or invent entries, totals or goals. Resolve relative dates such as "this week" or "yesterday" against today's date.
+2.  **Answer the question asked**: Be specific and practical. When explaining why a target was missed, point to the foods and days that drove it. When suggesting what to eat, work from what is left of today's goal (goal minus what has been logged today) and, if the user follows a diet chart, prefer meals from it.
+3.  **Reasoning**: In 'reasoning', briefly say which days, totals and goals you compared to reach the answer.
+4.  **Citations**: List the ids of the food entries the answer relies on in 'citedEntryIds', exactly as returned by getFoodEntries. Leave it empty for general questions that don't use the log.
+5.  Days with nothing logged were not tracked; don't treat them as days without food.
+6.  For medical questions, give general guidance and suggest speaking to a doctor or registered dietitian.
+
+Provide your response as a JSON object matching the output schema. Be empathetic and encouraging in your tone.`,
+  messages: (input) =>
+    input.history.map(message => ({ role: message.role, content: [{ text: message.text }] })),
+  prompt: '{{message}}',
+});
+
+const nutritionChatFlow = ai.defineFlow(
+  {
+    name: 'nutritionChatFlow',
+    inputSchema: NutritionChatInputSchema,
+    outputSchema: NutritionChatOutputSchema,
+  },
+  async ({ message, history, data }) => {
+    const reply = await generateWithRepair(
+      { flowName: 'nutritionChatFlow', schema: ChatReplySchema, context: { nutritionData: data } },
+      prompt,
+      {
+        message,
+        history: history.slice(-MAX_HISTORY_MESSAGES),
+        today: data.today,
+        availableFrom: data.days[0]?.date ?? data.today,
+      }
+    );
+
+    // Only entries that exist in the snapshot can be cited; anything else was made up
+    const entriesById = new Map(
+      data.days.flatMap(day => day.entries.map(({ time: _time, ...entry }) => [entry.id, { ...entry, date: day.date }] as const))
+    );
+    const citations = [...new Set(reply.citedEntryIds)].flatMap(id => {
+      const entry = entriesById.get(id);
+      return entry ? [entry] : [];
+    });
+
+    return { answer: reply.answer, reasoning: reply.reasoning, citations };
+  }
+);
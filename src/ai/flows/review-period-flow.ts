@@ -0,0 +1,124 @@
+'use server';
+/**
+ * @fileOverview AI flow to review a week or month of food logs: trends, consistency, best and
+ * worst days, macro patterns and a plan for the next period. The daily counterpart is summarizeDailyLog.
+ *
+ * - reviewPeriod - A function that generates the periodic review, or the output failure if the model's replies never fit.
+ * - ReviewPeriodInput - The input type for the function.
+ * - ReviewPeriodOutput - The return type for the function.
+ */
+
+import { ai } from '@/ai/genkit';
+import { z } from 'genkit';
+import { generateWithRepair } from '@/ai/flow-output';
+import { toFlowResult, type FlowResult } from '@/ai/flow-output-error';
+
+const MacroTotalsSchema = z.object({
+  calories: z.number().min(0).describe('Calories (kcal).'),
+  protein: z.number().min(0).describe('Protein (grams).'),
+  fat: z.number().min(0).describe('Fat (grams).'),
+  carbs: z.number().min(0).describe('Carbohydrates (grams).'),
+});
+
+const ReviewDaySchema = z.object({
+  date: z.string().describe('The day, in YYYY-MM-DD format.'),
+  weekday: z.string().describe("The day of the week, e.g. 'Monday'."),
+  entriesLogged: z.number().int().min(0).describe('Number of food entries logged. 0 means the day was not tracked, not that nothing was eaten.'),
+  totals: MacroTotalsSchema.describe('Totals of everything logged that day.'),
+  goal: MacroTotalsSchema.describe('The goal in effect that day.'),
+});
+
+const TopFoodSchema = z.object({
+  name: z.string(),
+  timesLogged: z.number().int().min(1),
+  totalCalories: z.number().min(0).describe('Calories from this food over the whole period.'),
+});
+
+const ReviewPeriodInputSchema = z.object({
+  period: z.enum(['weekly', 'monthly']).describe('Whether this is a weekly or monthly review.'),
+  startDate: z.string().describe('First day of the period, YYYY-MM-DD.'),
+  endDate: z.string().describe('Last day of the period, YYYY-MM-DD.'),
+  days: z.array(ReviewDaySchema).describe('Every day in the period, oldest first, including untracked days.'),
+  topFoods: z.array(TopFoodSchema).describe('The most frequently logged foods in the period.'),
+  stats: z.object({
+    daysInPeriod: z.number().int().min(1),
+    daysLogged: z.number().int().min(0),
+    daysWithinCalorieTarget: z.number().int().min(0).describe('Logged days within 10% of that day\'s calorie goal.'),
+    averages: MacroTotalsSchema.describe('Average daily intake over logged days only.'),
+  }).describe('Figures computed from the days, so the review does not have to add them up.'),
+});
+export type ReviewPeriodInput = z.infer<typeof ReviewPeriodInputSchema>;
+
+const NotableDaySchema = z.object({
+  date: z.string().describe('The day, in YYYY-MM-DD format, taken from the input days.'),
+  reason: z.string().describe('One sentence on why this day stood out, citing its numbers.'),
+});
+
+const ReviewPeriodOutputSchema = z.object({
+  overview: z.string().describe('A 2-3 sentence, encouraging overview of the period.'),
+  trends: z.array(z.string()).min(2).max(4).describe('2-4 trends across the period, e.g. intake rising towards the weekend or protein improving week on week.'),
+  consistencyScore: z.number().int().min(0).max(100).describe('0-100 score for how consistently the user tracked and stayed near their goals.'),
+  consistencyExplanation: z.string().describe('One or two sentences explaining the consistency score.'),
+  bestDay: NotableDaySchema.describe('The logged day closest to its goals overall.'),
+  worstDay: NotableDaySchema.describe('The logged day furthest from its goals overall.'),
+  macroObservations: z.array(z.string()).min(2).max(4).describe('2-4 observations about protein, fat and carbohydrate patterns relative to goals, mentioning top foods where relevant.'),
+  nextPeriodPlan: z.array(z.string()).min(3).max(5).describe('3-5 short, concrete steps for the next week or month.'),
+});
+export type ReviewPeriodOutput = z.infer<typeof ReviewPeriodOutputSchema>;
+
+
+export async function reviewPeriod(input: ReviewPeriodInput): Promise<FlowResult<ReviewPeriodOutput>> {
+  return toFlowResult(() => reviewPeriodFlow(input));
+}
+
+const prompt = ai.definePrompt({
+  name: 'reviewPeriodPrompt',
+  input: { schema: ReviewPeriodInputSchema },
+  output: { schema: ReviewPeriodOutputSchema },
+  prompt: `You are an expert AI Nutritionist and Health Coach. Your task is to write a {{period}} review of a user's food log from {{startDate}} to {{endDate}}, looking at the period as a whole rather than at any single day.
+
+Day-by-day totals against the goal in effect that day:
+{{#each days}}
+- {{date}} ({{weekday}}): {{#if entriesLogged}}{{totals.calories}} / {{goal.calories}} kcal, {{totals.protein}} / {{goal.protein}}g Protein, {{totals.fat}} / {{goal.fat}}g Fat, {{totals.carbs}} / {{goal.carbs}}g Carbs ({{entriesLogged}} entries){{else}}not tracked{{/if}}
+{{/each}}
+
+Most frequently logged foods:
+{{#if topFoods.length}}
+{{#each topFoods}}
+- {{name}}: logged {{timesLogged}} times, {{totalCalories}} kcal in total
+{{/each}}
+{{else}}
+- None.
+{{/if}}
+
+Period figures:
+- Days tracked: {{stats.daysLogged}} of {{stats.daysInPeriod}}
+- Tracked days within 10% of the calorie goal: {{stats.daysWithinCalorieTarget}}
+- Average per tracked day: {{stats.averages.calories}} kcal, {{stats.averages.protein}}g Protein, {{stats.averages.fat}}g Fat, {{stats.averages.carbs}}g Carbs
+
+Instructions:
+1.  **Overview**: 2-3 encouraging sentences on how the period went overall.
+2.  **Trends**: 2-4 trends across the period, such as intake changing between weekdays and weekends, a drift up or down over time, or skipped tracking on particular days. Base them on the day-by-day figures.
+3.  **Consistency Score**: An integer from 0 to 100. Weigh how many days were tracked and how many tracked days were near their calorie goal. A period with every day tracked and within target scores close to 100; untracked days and large swings lower it. Explain the score in 1-2 sentences.
+4.  **Best and Worst Day**: Pick only from tracked days and use their exact 'date' values. The best day is closest to its goals overall; the worst day is furthest from them. Give one sentence each, citing the numbers.
+5.  **Macro Observations**: 2-4 observations on protein, fat and carbohydrates against their goals, mentioning top foods that drive the pattern where relevant.
+6.  **Next Period Plan**: 3-5 short, concrete steps for the next {{#ifEquals period "weekly"}}week{{else}}month{{/ifEquals}}, following from the trends and observations above.
+7.  Days that were not tracked must not be treated as days with zero intake.
+
+Provide your response as a JSON object matching the output schema. Be empathetic and encouraging in your tone.
+`,
+});
+
+const reviewPeriodFlow = ai.defineFlow(
+  {
+    name: 'reviewPeriodFlow',
+    inputSchema: ReviewPeriodInputSchema,
+    outputSchema: ReviewPeriodOutputSchema,
+  },
+  async (input) => {
+    if (input.stats.daysLogged === 0) {
+      throw new Error(`No food was logged between ${input.startDate} and ${input.endDate}, so there is nothing to review.`);
+    }
+    return generateWithRepair({ flowName: 'reviewPeriodFlow', schema: ReviewPeriodOutputSchema }, prompt, input);
+  }
+);
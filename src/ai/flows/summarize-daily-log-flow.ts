@@ -9,6 +9,7 @@
 
 import { ai } from '@/ai/genkit';
 import { z } from 'genkit';
+import { generateWithRepair } from '@/ai/flow-output';
 import type { FoodEntryShort, Goal } from '@/types';
 
 const FoodEntryShortSchema = z.object({
@@ -99,10 +100,6 @@ const summarizeDailyLogFlow = ai.defineFlow(
       ...input,
       foodEntries: input.foodEntries || [],
     };
-    const { output } = await prompt(safeInput);
-    if (!output) {
-      throw new Error("AI failed to generate a daily log summary.");
-    }
-    return output;
+    return generateWithRepair({ flowName: 'summarizeDailyLogFlow', schema: SummarizeDailyLogOutputSchema }, prompt, safeInput);
   }
 );
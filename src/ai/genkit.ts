@@ -1,7 +1,51 @@
+import path from 'node:path';
 import {genkit} from 'genkit';
+import type {GenkitPlugin} from 'genkit/plugin';
 import {googleAI} from '@genkit-ai/googleai';
+import {openAICompatible, OPENAI_COMPATIBLE_PROVIDER} from '@/ai/providers/openai-compatible';
+import {fixtureReplay, FIXTURE_REPLAY_MODEL} from '@/ai/providers/fixture-replay';
 
-export const ai = genkit({
-  plugins: [googleAI()],
-  model: 'googleai/gemini-2.0-flash',
-});
+/**
+ * Model provider for every flow, chosen with AI_PROVIDER:
+ * - 'googleai' (default): Gemini through the Google AI API. AI_MODEL overrides the model.
+ * - 'openai-compatible': a local or self-hosted server. Set OPENAI_COMPATIBLE_BASE_URL
+ *   (default http://localhost:11434/v1, Ollama), AI_MODEL and optionally OPENAI_COMPATIBLE_API_KEY.
+ * - 'replay': recorded outputs from AI_FIXTURES_DIR (default src/ai/fixtures), no network.
+ */
+
+type AIProvider = 'googleai' | 'openai-compatible' | 'replay';
+
+function resolveProvider(): {plugins: GenkitPlugin[]; model: string} {
+  const provider = (process.env.AI_PROVIDER ?? 'googleai') as AIProvider;
+
+  switch (provider) {
+    case 'openai-compatible': {
+      const model = process.env.AI_MODEL;
+      if (!model) {
+        throw new Error('AI_MODEL must name the model to use when AI_PROVIDER is openai-compatible.');
+      }
+      return {
+        plugins: [openAICompatible({
+          baseURL: process.env.OPENAI_COMPATIBLE_BASE_URL ?? 'http://localhost:11434/v1',
+          apiKey: process.env.OPENAI_COMPATIBLE_API_KEY,
+          models: [model],
+        })],
+        model: `${OPENAI_COMPATIBLE_PROVIDER}/${model}`,
+      };
+    }
+    case 'replay':
+      return {
+        plugins: [fixtureReplay({fixturesDir: process.env.AI_FIXTURES_DIR ?? path.join(process.cwd(), 'src', 'ai', 'fixtures')})],
+        model: FIXTURE_REPLAY_MODEL,
+      };
+    case 'googleai':
+      return {
+        plugins: [googleAI()],
+        model: `googleai/${process.env.AI_MODEL ?? 'gemini-2.0-flash'}`,
+      };
+    default:
+      throw new Error(`Unknown AI_PROVIDER "${provider}". Use googleai, openai-compatible or replay.`);
+  }
+}
+
+export const ai = genkit(resolveProvider());
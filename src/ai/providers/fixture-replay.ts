@@ -0,0 +1,76 @@
+import {readdirSync, readFileSync} from 'node:fs';
+import path from 'node:path';
+import {genkitPlugin, type GenkitPlugin} from 'genkit/plugin';
+
+/**
+ * Deterministic offline provider for CI and development without network access.
+ * Each fixture file holds a recorded output and the prompt text it answers; the
+ * fixture whose `match` strings all appear in the rendered prompt is replayed, the
+ * most specific one winning. Genkit still validates the reply against the flow's
+ * output schema, so a fixture that drifts from its schema fails loudly.
+ *
+ * A fixture with `toolRequests` first asks for those tool calls, and answers with
+ * `output` once the tool responses are in the conversation.
+ */
+
+export const FIXTURE_REPLAY_PROVIDER = 'fixture-replay';
+export const FIXTURE_REPLAY_MODEL = `${FIXTURE_REPLAY_PROVIDER}/default`;
+
+export interface ModelFixture {
+  flow: string; // For readers and error messages; matching only uses `match`
+  match: string[];
+  toolRequests?: {name: string; input?: unknown}[];
+  output: unknown;
+}
+
+export function loadModelFixtures(directory: string): ModelFixture[] {
+  return readdirSync(directory)
+    .filter(file => file.endsWith('.json'))
+    .sort()
+    .map(file => JSON.parse(readFileSync(path.join(directory, file), 'utf8')) as ModelFixture);
+}
+
+export function findModelFixture(fixtures: ModelFixture[], promptText: string): ModelFixture | undefined {
+  return fixtures
+    .filter(fixture => fixture.match.every(snippet => promptText.includes(snippet)))
+    .sort((a, b) => b.match.length - a.match.length)[0];
+}
+
+export function fixtureReplay(options: {fixturesDir: string}): GenkitPlugin {
+  return genkitPlugin(FIXTURE_REPLAY_PROVIDER, async ai => {
+    const fixtures = loadModelFixtures(options.fixturesDir);
+
+    ai.defineModel(
+      {
+        name: FIXTURE_REPLAY_MODEL,
+        label: 'Fixture replay',
+        supports: {multiturn: true, media: true, systemRole: true, tools: true, output: ['text', 'json']},
+      },
+      async request => {
+        const promptText = request.messages
+          .flatMap(message => message.content.map(part => part.text ?? ''))
+          .join('\n');
+        const fixture = findModelFixture(fixtures, promptText);
+        if (!fixture) {
+          throw new Error(
+            `No model fixture matches this prompt. Known fixtures: ${fixtures.map(f => f.flow).join(', ') || 'none'} (in ${options.fixturesDir}).`
+          );
+        }
+        const toolsAnswered = request.messages.some(message => message.role === 'tool');
+        if (fixture.toolRequests?.length && !toolsAnswered) {
+          return {
+            message: {
+              role: 'model',
+              content: fixture.toolRequests.map(({name, input}, index) => ({toolRequest: {name, input, ref: String(index)}})),
+            },
+            finishReason: 'stop',
+          };
+        }
+        return {
+          message: {role: 'model', content: [{text: JSON.stringify(fixture.output)}]},
+          finishReason: 'stop',
+        };
+      }
+    );
+  });
+}
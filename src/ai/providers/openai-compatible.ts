@@ -0,0 +1,126 @@
+import OpenAI from 'openai';
+import type {
+  ChatCompletionContentPart,
+  ChatCompletionMessageParam,
+  ChatCompletionMessageToolCall,
+  ChatCompletionTool,
+} from 'openai/resources/chat/completions';
+import {genkitPlugin, type GenkitPlugin} from 'genkit/plugin';
+import {GenkitError, type MessageData, type Part} from 'genkit';
+import type {ToolDefinition} from 'genkit/model';
+
+/**
+ * Any server that speaks the OpenAI chat completions API, such as Ollama, LM Studio,
+ * vLLM or llama.cpp. Text and image parts are passed through; structured output is
+ * requested as a JSON object and Genkit validates it against the flow's schema.
+ * Tools are sent as OpenAI functions, and the model's tool calls come back as Genkit
+ * tool requests. A server whose model has no function calling rejects the tools; that
+ * surfaces as an UNIMPLEMENTED error so flows that depend on tools can say so.
+ */
+
+export interface OpenAICompatibleOptions {
+  baseURL: string;
+  apiKey?: string; // Local servers usually ignore it
+  models: string[];
+}
+
+export const OPENAI_COMPATIBLE_PROVIDER = 'openai-compatible';
+
+function toChatTool(tool: ToolDefinition): ChatCompletionTool {
+  return {
+    type: 'function',
+    function: {
+      name: tool.name,
+      description: tool.description,
+      parameters: tool.inputSchema ?? {type: 'object', properties: {}},
+    },
+  };
+}
+
+// OpenAI pairs each tool result with its call by id; Genkit keeps that id as the part's ref.
+// Without one, the nth response answers the nth request.
+const toolCallId = (name: string, ref: string | undefined, index: number) => ref ?? `${name}-${index}`;
+
+function toChatMessages(message: MessageData): ChatCompletionMessageParam[] {
+  const text = message.content.map(part => part.text ?? '').join('');
+  if (message.role === 'system') return [{role: 'system', content: text}];
+  if (message.role === 'tool') {
+    return message.content.flatMap(part => part.toolResponse ?? []).map((response, index) => ({
+      role: 'tool',
+      tool_call_id: toolCallId(response.name, response.ref, index),
+      content: JSON.stringify(response.output ?? null),
+    }));
+  }
+  if (message.role === 'model') {
+    const toolCalls = message.content.flatMap(part => part.toolRequest ?? []).map((toolRequest, index): ChatCompletionMessageToolCall => ({
+      id: toolCallId(toolRequest.name, toolRequest.ref, index),
+      type: 'function',
+      function: {name: toolRequest.name, arguments: JSON.stringify(toolRequest.input ?? {})},
+    }));
+    return [toolCalls.length > 0
+      ? {role: 'assistant', content: text || null, tool_calls: toolCalls}
+      : {role: 'assistant', content: text}];
+  }
+
+  const parts: ChatCompletionContentPart[] = message.content.flatMap((part): ChatCompletionContentPart[] => {
+    if (part.text) return [{type: 'text', text: part.text}];
+    if (part.media) return [{type: 'image_url', image_url: {url: part.media.url}}];
+    return [];
+  });
+  return [{role: 'user', content: parts}];
+}
+
+function fromToolCall(call: ChatCompletionMessageToolCall): Part {
+  let input: unknown;
+  try {
+    input = JSON.parse(call.function.arguments || '{}');
+  } catch {
+    input = call.function.arguments; // Genkit reports the schema mismatch to the model
+  }
+  return {toolRequest: {name: call.function.name, ref: call.id, input}};
+}
+
+export function openAICompatible(options: OpenAICompatibleOptions): GenkitPlugin {
+  return genkitPlugin(OPENAI_COMPATIBLE_PROVIDER, async ai => {
+    const client = new OpenAI({baseURL: options.baseURL, apiKey: options.apiKey || 'not-needed'});
+
+    for (const model of options.models) {
+      ai.defineModel(
+        {
+          name: `${OPENAI_COMPATIBLE_PROVIDER}/${model}`,
+          label: `OpenAI-compatible - ${model}`,
+          supports: {multiturn: true, media: true, systemRole: true, tools: true, toolChoice: true, output: ['text', 'json']},
+        },
+        async request => {
+          const tools = request.tools?.map(toChatTool);
+          const completion = await client.chat.completions.create({
+            model,
+            messages: request.messages.flatMap(toChatMessages),
+            temperature: request.config?.temperature,
+            response_format: request.output?.format === 'json' ? {type: 'json_object'} : undefined,
+            tools: tools?.length ? tools : undefined,
+            tool_choice: tools?.length ? request.toolChoice : undefined,
+          }).catch(error => {
+            if (tools?.length && error instanceof OpenAI.APIError && error.status === 400) {
+              throw new GenkitError({status: 'UNIMPLEMENTED', message: `${model} rejected the request's tools: ${error.message}`});
+            }
+            throw error;
+          });
+          const choice = completion.choices[0];
+          const content: Part[] = [
+            ...(choice?.message.content ? [{text: choice.message.content}] : []),
+            ...(choice?.message.tool_calls ?? []).map(fromToolCall),
+          ];
+          return {
+            message: {role: 'model', content: content.length > 0 ? content : [{text: ''}]},
+            finishReason: choice?.finish_reason === 'length' ? 'length' : 'stop',
+            usage: {
+              inputTokens: completion.usage?.prompt_tokens,
+              outputTokens: completion.usage?.completion_tokens,
+            },
+          };
+        }
+      );
+    }
+  });
+}
@@ -0,0 +1,72 @@
+import { before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+
+// The provider is chosen when '@/ai/genkit' is first imported, so the flows load after this is set
+process.env.AI_PROVIDER = 'replay';
+
+type Flows = {
+  analyzeFoodText: typeof import('@/ai/flows/analyze-food-text-flow').analyzeFoodText;
+  analyzeFoodPhoto: typeof import('@/ai/flows/analyze-food-photo').analyzeFoodPhoto;
+  summarizeDailyLog: typeof import('@/ai/flows/summarize-daily-log-flow').summarizeDailyLog;
+  generateIndianDietChart: typeof import('@/ai/flows/generateIndianDietChartFlow').generateIndianDietChart;
+};
+
+// A 1x1 PNG; the replay provider matches on the prompt text, not the image
+const PHOTO_DATA_URI =
+  'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=';
+
+describe('flows with the replay provider', () => {
+  let flows: Flows;
+
+  before(async () => {
+    flows = {
+      ...(await import('@/ai/flows/analyze-food-text-flow')),
+      ...(await import('@/ai/flows/analyze-food-photo')),
+      ...(await import('@/ai/flows/summarize-daily-log-flow')),
+      ...(await import('@/ai/flows/generateIndianDietChartFlow')),
+    };
+  });
+
+  it('analyzes food text from its fixture', async () => {
+    const result = await flows.analyzeFoodText({ description: '1 bowl of dal tadka' }, { skipCache: true });
+    assert.equal(result.fromCache, false);
+    assert.equal(result.calorieEstimate, 180);
+    assert.equal(result.confidence, 'medium');
+    assert.ok(result.estimateRanges.calories.low <= 180 && 180 <= result.estimateRanges.calories.high);
+  });
+
+  it('analyzes a food photo into its items', async () => {
+    const result = await flows.analyzeFoodPhoto({ photoDataUri: PHOTO_DATA_URI }, { skipCache: true });
+    assert.equal(result.isFoodItem, true);
+    assert.deepEqual(result.items.map(item => item.name), ['Dal Tadka', 'Jeera Rice', 'Roti', 'Mixed Vegetable Sabzi']);
+    assert.equal(result.calorieEstimate, 720);
+  });
+
+  it('summarizes a daily log', async () => {
+    const summary = await flows.summarizeDailyLog({
+      foodEntries: [{ name: 'Dal Tadka', calories: 180, protein: 9.5, fat: 5.2, carbs: 24 }],
+      userGoals: { calories: 2000, protein: 90, fat: 60, carb: 250 },
+      date: '2025-05-23',
+    });
+    assert.equal(summary.actionableSuggestions.length, 3);
+    assert.match(summary.overallAssessment, /balanced meals/);
+  });
+
+  it('generates a diet chart', async () => {
+    const result = await flows.generateIndianDietChart({
+      age: 30,
+      gender: 'female',
+      weight: 65,
+      height: 162,
+      activityLevel: 'lightly_active',
+      fitnessGoal: 'maintain_weight',
+      dietaryPreference: 'vegetarian',
+      duration: 'daily',
+    });
+    assert.ok(result.ok);
+    assert.equal(result.value.dailyCalories, 1680);
+    assert.deepEqual(result.value.macroBreakdown, { protein: 71, carbs: 205, fats: 60 });
+    assert.equal(result.value.mealPlan.length, 1);
+    assert.ok(result.value.mealPlan[0].meals.length >= 3);
+  });
+});
@@ -1,6 +1,6 @@
 "use client";
 
-import React, { useState, type FormEvent, useEffect, useRef } from "react";
+import React, { useState, type FormEvent, useEffect, useRef, useMemo } from "react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
@@ -20,7 +20,7 @@ import {
 } from "lucide-react";
 import { 
   Sparkles, Loader2, AlertCircle, ListChecks, Utensils, Dumbbell, Droplets, 
-  BedDouble, Brain, Info, BarChart3, Edit3, CalendarDays, ChevronDown,
+  BedDouble, Brain, Info, BarChart3, Edit3, CalendarDays, CalendarRange, ChevronDown, MessageCircle,
 
   Zap, ArrowRight, Heart, Award, Lightbulb, Clock, Salad, Flame, User, Check, Printer
 } from "lucide-react";
@@ -39,6 +39,9 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Badge } from "@/components/ui/badge";
 import { Progress } from "@/components/ui/progress";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
+import PeriodReviewSection from "@/components/ai-features/period-review-section";
+import NutritionChat from "@/components/ai-features/nutrition-chat";
+import { useUserProfile } from "@/hooks/use-user-profile";
 
 // Animated card component with hover effects
 const AnimatedCard: React.FC<{
@@ -253,7 +256,12 @@ export default function AiFeaturesPage() {
 
   const { toast } = useToast();
   const { getLogDataForDate, isLoading: isLoadingDailyLog } = useDailyLog(); 
-  const { goals, isLoading: isLoadingGoals } = useGoals();
+  const { goals, getGoalForDate, isLoading: isLoadingGoals } = useGoals();
+  const { userProfile } = useUserProfile();
+  const activeDietChart = useMemo(
+    () => userProfile.savedDietCharts?.find(chart => chart.id === userProfile.activeDietChartId) ?? null,
+    [userProfile.savedDietCharts, userProfile.activeDietChartId]
+  );
 
   useEffect(() => {
     // Initialize summaryDate to today on client side
@@ -365,13 +373,15 @@ export default function AiFeaturesPage() {
       carbs: entry.carbs,
     }));
 
+    // Judge the day against the goal in effect on it, including weekday and date-ranged goals
+    const { goal: dayGoal } = getGoalForDate(summaryDate);
     const input: SummarizeDailyLogInput = {
       foodEntries: shortFoodEntries,
       userGoals: {
-        calories: goals.calories,
-        protein: goals.protein,
-        fat: goals.fat,
-        carb: goals.carbs, // Corrected from carbGoal
+        calories: dayGoal.calories,
+        protein: dayGoal.protein,
+        fat: dayGoal.fat,
+        carb: dayGoal.carbs, // Corrected from carbGoal
       },
       date: format(summaryDate, "MMM d, yyyy"),
     };
@@ -439,7 +449,7 @@ export default function AiFeaturesPage() {
             onValueChange={setActiveTab}
             className="w-full md:w-auto"
           >
-            <TabsList className="grid w-full md:w-auto grid-cols-2">
+            <TabsList className="grid w-full md:w-auto grid-cols-4">
               <TabsTrigger value="planner" className="flex items-center gap-2">
                 <Edit3 className="h-4 w-4" />
                 <span className="hidden sm:inline">Health Planner</span>
@@ -450,6 +460,16 @@ export default function AiFeaturesPage() {
                 <span className="hidden sm:inline">Food Summary</span>
                 <span className="sm:hidden">Summary</span>
               </TabsTrigger>
+              <TabsTrigger value="review" className="flex items-center gap-2">
+                <CalendarRange className="h-4 w-4" />
+                <span className="hidden sm:inline">Weekly Review</span>
+                <span className="sm:hidden">Review</span>
+              </TabsTrigger>
+              <TabsTrigger value="chat" className="flex items-center gap-2">
+                <MessageCircle className="h-4 w-4" />
+                <span className="hidden sm:inline">Ask AI</span>
+                <span className="sm:hidden">Ask</span>
+              </TabsTrigger>
             </TabsList>
           </Tabs>
         </div>
@@ -1133,6 +1153,22 @@ export default function AiFeaturesPage() {
             </AnimatedCard>
           )}
         </TabsContent>
+
+        <TabsContent value="review" className="mt-0">
+          <PeriodReviewSection
+            getLogDataForDate={getLogDataForDate}
+            getGoalForDate={(date) => getGoalForDate(date).goal}
+          />
+        </TabsContent>
+
+        <TabsContent value="chat" className="mt-0">
+          <NutritionChat
+            defaultGoal={goals}
+            getEntriesForDate={(date) => getLogDataForDate(date).entries}
+            getGoalForDate={(date) => getGoalForDate(date).goal}
+            activeDietChart={activeDietChart}
+          />
+        </TabsContent>
       </Tabs>
     </div>
   );
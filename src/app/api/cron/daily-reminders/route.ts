@@ -1,46 +1,102 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { getPushSubscriptionStore, type StoredPushSubscription } from '@/lib/push-subscriptions';
+import { buildPushPayload, sendPushNotifications, type PushDeliveryResult } from '@/lib/push-sender';
+import {
+  REMINDER_NOTIFICATIONS,
+  dueReminderSlots,
+  latestPerType,
+  reminderId,
+  type ReminderContent,
+  type ReminderType,
+} from '@/lib/reminder-schedule';
+import { getReminderSentLog } from '@/lib/reminder-sent-log';
+import { hasCronSecret } from '@/lib/cron-auth';
 
-// This endpoint will be called by a cron job service (Vercel Cron, GitHub Actions, etc.)
+// Looked back over on the first run, before any run time has been recorded
+const FIRST_RUN_WINDOW_MS = 60 * 60 * 1000;
+// Reminders missed for longer than this (e.g. the cron was down) are not sent late
+const MAX_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+interface DueReminder {
+  id: string;
+  type: ReminderType;
+  content: ReminderContent;
+}
+
+/**
+ * A device's reminders due in the window. While the schedule its service worker sent
+ * still covers this run, that schedule decides (and a device with Notification Triggers
+ * delivers its own); otherwise they come from the device's reminder settings.
+ */
+function dueReminders(subscription: StoredPushSubscription, from: Date, now: Date): DueReminder[] {
+  const { schedule } = subscription;
+  if (schedule && schedule.coversUntil >= now.getTime()) {
+    if (schedule.localTriggers) return [];
+    const due = schedule.reminders.filter(reminder => reminder.fireAt > from.getTime() && reminder.fireAt <= now.getTime());
+    return latestPerType(due, reminder => reminder.fireAt).map(({ id, type, title, body, tag, data, actions }) => ({
+      id,
+      type,
+      content: { title, body, tag, data, actions },
+    }));
+  }
+  return dueReminderSlots(subscription.reminders, subscription.timeZone, from, now).map(slot => ({
+    id: reminderId(slot),
+    type: slot.type,
+    content: REMINDER_NOTIFICATIONS[slot.type],
+  }));
+}
+
+/**
+ * Called by a cron job service (Vercel Cron, GitHub Actions, etc.) at any interval.
+ * Each run sends the reminders that fell due since the previous run, worked out per
+ * subscription (see dueReminders). Reminders are claimed in the sent log first, so
+ * overlapping or repeated runs never send one twice.
+ */
 export async function GET(request: NextRequest) {
   try {
-    const { searchParams } = new URL(request.url);
-    const secret = searchParams.get('secret');
-    
     // Verify the request is from your cron job service
-    if (secret !== process.env.CRON_SECRET) {
+    if (!hasCronSecret(request)) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
     
     const now = new Date();
-    const currentHour = now.getHours();
+    const sentLog = getReminderSentLog();
+    const lastRunAt = await sentLog.lastRunAt();
+    const from = new Date(Math.max(
+      lastRunAt?.getTime() ?? now.getTime() - FIRST_RUN_WINDOW_MS,
+      now.getTime() - MAX_WINDOW_MS
+    ));
     
-    // Send different types of notifications based on time
-    let notificationType = 'general';
+    const subscriptions = await getPushSubscriptionStore().list();
+    const due = subscriptions.flatMap(subscription =>
+      dueReminders(subscription, from, now).map(reminder => ({
+        subscription,
+        reminder,
+        key: `${subscription.endpoint}|${reminder.id}`,
+      }))
+    );
     
-    // Morning hydration reminder (8 AM)
-    if (currentHour === 8) {
-      notificationType = 'hydration';
-    }
-    // Evening meal reminder (7 PM)
-    else if (currentHour === 19) {
-      notificationType = 'meal';
-    }
-    // Weekly weigh-in (Monday 8 AM)
-    else if (now.getDay() === 1 && currentHour === 8) {
-      notificationType = 'weigh-in';
+    const claimed = new Set(await sentLog.claim(due.map(reminder => reminder.key), now));
+    const toSend = due.filter(reminder => claimed.has(reminder.key));
+    
+    const results: (PushDeliveryResult & { reminderId: string })[] = [];
+    for (const { subscription, reminder } of toSend) {
+      const { content } = reminder;
+      const payload = buildPushPayload({ ...content, data: { ...content.data, reminderId: reminder.id } });
+      const [result] = await sendPushNotifications([subscription], payload);
+      results.push({ ...result, reminderId: reminder.id });
     }
     
-    // Send the notification
-    const response = await fetch(`${process.env.NEXT_PUBLIC_APP_URL}/api/notifications/send?type=${notificationType}`, {
-      method: 'GET',
-    });
+    await sentLog.completeRun(now);
     
-    const result = await response.json();
+    const successful = results.filter(result => result.success).length;
     
     return NextResponse.json({
       success: true,
-      message: `Daily reminders processed for ${notificationType}`,
-      result
+      message: `Daily reminders processed: ${successful} of ${toSend.length} sent, ${due.length - toSend.length} already sent`,
+      window: { from: from.toISOString(), to: now.toISOString() },
+      subscriptions: subscriptions.length,
+      results
     });
   } catch (error) {
     console.error('Error processing daily reminders:', error);
@@ -49,4 +105,4 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-} 
\ No newline at end of file
+}
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { deviceReminderScheduleSchema, getPushSubscriptionStore } from '@/lib/push-subscriptions';
+
+const scheduleUpdateSchema = deviceReminderScheduleSchema.extend({
+  endpoint: z.string().url(),
+});
+
+// Called by the service worker whenever its reminder schedule changes
+export async function PUT(request: NextRequest) {
+  try {
+    const parsed = scheduleUpdateSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid schedule', issues: parsed.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`) },
+        { status: 400 }
+      );
+    }
+
+    const { endpoint, ...schedule } = parsed.data;
+    const saved = await getPushSubscriptionStore().setSchedule(endpoint, schedule);
+    if (!saved) {
+      return NextResponse.json({ error: 'Subscription is not registered' }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: `Schedule saved with ${schedule.reminders.length} pending reminders`
+    });
+  } catch (error) {
+    console.error('Error saving reminder schedule:', error);
+    return NextResponse.json(
+      { error: 'Failed to save reminder schedule' },
+      { status: 500 }
+    );
+  }
+}
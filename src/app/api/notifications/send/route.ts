@@ -1,89 +1,34 @@
 import { NextRequest, NextResponse } from 'next/server';
-import webpush from 'web-push';
-
-// Configure VAPID keys (you'll need to generate these)
-const vapidKeys = {
-  publicKey: process.env.NEXT_PUBLIC_VAPID_PUBLIC_KEY || '',
-  privateKey: process.env.VAPID_PRIVATE_KEY || ''
-};
-
-webpush.setVapidDetails(
-  'mailto:your-email@example.com', // Replace with your email
-  vapidKeys.publicKey,
-  vapidKeys.privateKey
-);
-
-interface PushSubscription {
-  endpoint: string;
-  keys: {
-    p256dh: string;
-    auth: string;
-  };
-}
+import { getPushSubscriptionStore } from '@/lib/push-subscriptions';
+import { buildPushPayload, sendPushNotifications } from '@/lib/push-sender';
+import { GENERAL_REMINDER, REMINDER_NOTIFICATIONS, REMINDER_TYPES, type ReminderType } from '@/lib/reminder-schedule';
+import { hasCronSecret } from '@/lib/cron-auth';
 
+// Sends to every subscriber, so it takes the same secret as the cron route (see hasCronSecret)
 export async function POST(request: NextRequest) {
+  if (!hasCronSecret(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
   try {
-    const { title, body, icon, data, tag } = await request.json();
+    const { title, body, icon, data, tag, actions, ownerId } = await request.json();
     
-    // TODO: Get all subscriptions from your database
-    // For now, we'll use a placeholder
-    const subscriptions: PushSubscription[] = []; // await db.notifications.findMany();
+    // Everyone subscribed, or only one user's devices when ownerId is given
+    const subscriptions = await getPushSubscriptionStore().list(ownerId ? { ownerId } : undefined);
     
-    const payload = JSON.stringify({
-      title: title || 'Calorie Tracker Reminder',
-      body: body || 'Time to log your meals!',
-      icon: icon || '/favicon/android-chrome-192x192.png',
-      badge: '/favicon/favicon-32x32.png',
-      tag: tag || 'calorie-reminder',
-      data: data || { url: '/' },
-      actions: [
-        {
-          action: 'log_meal',
-          title: 'Log Meal',
-          icon: '/favicon/favicon-32x32.png'
-        },
-        {
-          action: 'dismiss',
-          title: 'Dismiss',
-          icon: '/favicon/favicon-32x32.png'
-        }
-      ]
-    });
-    
-    const results = await Promise.allSettled(
-      subscriptions.map(async (subscription) => {
-        try {
-          await webpush.sendNotification(
-            {
-              endpoint: subscription.endpoint,
-              keys: subscription.keys
-            },
-            payload
-          );
-          return { success: true, endpoint: subscription.endpoint };
-        } catch (error: any) {
-          console.error('Failed to send notification:', error);
-          // If subscription is invalid, remove it
-          if (error.statusCode === 410) {
-            // await db.notifications.delete({ where: { endpoint: subscription.endpoint } });
-          }
-          return { success: false, endpoint: subscription.endpoint, error };
-        }
-      })
-    );
+    const payload = buildPushPayload({ title, body, icon, data, tag, actions });
     
-    const successful = results.filter(result => 
-      result.status === 'fulfilled' && result.value.success
-    ).length;
+    const results = await sendPushNotifications(subscriptions, payload);
     
+    const successful = results.filter(result => result.success).length;
+    const pruned = results.filter(result => result.pruned).length;
     const failed = results.length - successful;
     
     return NextResponse.json({
       success: true,
-      message: `Notifications sent: ${successful} successful, ${failed} failed`,
-      results: results.map(result => 
-        result.status === 'fulfilled' ? result.value : { success: false, error: result.reason }
-      )
+      message: `Notifications sent: ${successful} successful, ${failed} failed (${pruned} expired subscriptions removed)`,
+      // Endpoints are push capability URLs, so they stay on the server
+      results: results.map(({ endpoint: _endpoint, ...result }) => result)
     });
   } catch (error) {
     console.error('Error sending notifications:', error);
@@ -96,42 +41,23 @@ export async function POST(request: NextRequest) {
 
 // Helper function to send daily reminders
 export async function GET(request: NextRequest) {
+  if (!hasCronSecret(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
   try {
     const { searchParams } = new URL(request.url);
     const type = searchParams.get('type'); // 'meal', 'hydration', 'weigh-in'
+    const ownerId = searchParams.get('ownerId') ?? undefined;
     
-    let title, body, tag, data;
-    
-    switch (type) {
-      case 'meal':
-        title = 'Time to Log Your Meal! 🍽️';
-        body = 'Don\'t forget to track your nutrition for today. Tap to log your meal now!';
-        tag = 'daily-meal-reminder';
-        data = { url: '/log-food/manual', type: 'meal-reminder' };
-        break;
-      case 'hydration':
-        title = 'Stay Hydrated! 💧';
-        body = 'Time to drink some water and stay healthy!';
-        tag = 'hydration-reminder';
-        data = { url: '/', type: 'hydration-reminder' };
-        break;
-      case 'weigh-in':
-        title = 'Weekly Weigh-In Reminder ⚖️';
-        body = 'Time for your weekly progress check! Track your weight to monitor your journey.';
-        tag = 'weekly-weigh-in';
-        data = { url: '/progress', type: 'weigh-in-reminder' };
-        break;
-      default:
-        title = 'Calorie Tracker Reminder';
-        body = 'Time to check your nutrition goals!';
-        tag = 'general-reminder';
-        data = { url: '/', type: 'general-reminder' };
-    }
+    const { title, body, tag, data, actions } = REMINDER_TYPES.includes(type as ReminderType)
+      ? REMINDER_NOTIFICATIONS[type as ReminderType]
+      : GENERAL_REMINDER;
     
     // Call the POST method with the notification data
     const response = await POST(new NextRequest(request.url, {
       method: 'POST',
-      body: JSON.stringify({ title, body, tag, data })
+      body: JSON.stringify({ title, body, tag, data, actions, ownerId })
     }));
     
     return response;
@@ -1,24 +1,28 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { getPushSubscriptionStore, pushSubscriptionRegistrationSchema } from '@/lib/push-subscriptions';
 
+// Also called again when reminder preferences change, which updates the stored subscription
 export async function POST(request: NextRequest) {
   try {
-    const subscription = await request.json();
-    
-    // TODO: Save subscription to your database
-    // Example with a simple storage (replace with your database)
-    console.log('Saving subscription:', subscription);
-    
-    // For now, we'll just return success
-    // In production, you'd save this to your database
-    // await db.notifications.create({
-    //   endpoint: subscription.endpoint,
-    //   keys: subscription.keys,
-    //   userId: userId // from auth
-    // });
-    
-    return NextResponse.json({ 
-      success: true, 
-      message: 'Subscription saved successfully' 
+    const parsed = pushSubscriptionRegistrationSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid subscription', issues: parsed.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`) },
+        { status: 400 }
+      );
+    }
+
+    const stored = await getPushSubscriptionStore().upsert(parsed.data);
+
+    return NextResponse.json({
+      success: true,
+      message: 'Subscription saved successfully',
+      subscription: {
+        endpoint: stored.endpoint,
+        deviceLabel: stored.deviceLabel,
+        createdAt: stored.createdAt,
+        lastSuccessAt: stored.lastSuccessAt,
+      }
     });
   } catch (error) {
     console.error('Error saving subscription:', error);
@@ -33,25 +37,19 @@ export async function DELETE(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
     const endpoint = searchParams.get('endpoint');
-    
+
     if (!endpoint) {
       return NextResponse.json(
         { error: 'Endpoint is required' },
         { status: 400 }
       );
     }
-    
-    // TODO: Remove subscription from your database
-    console.log('Removing subscription:', endpoint);
-    
-    // In production, you'd remove from your database
-    // await db.notifications.delete({
-    //   where: { endpoint }
-    // });
-    
-    return NextResponse.json({ 
-      success: true, 
-      message: 'Subscription removed successfully' 
+
+    const removed = await getPushSubscriptionStore().remove(endpoint);
+
+    return NextResponse.json({
+      success: true,
+      message: removed ? 'Subscription removed successfully' : 'Subscription was not registered'
     });
   } catch (error) {
     console.error('Error removing subscription:', error);
@@ -60,4 +58,4 @@ export async function DELETE(request: NextRequest) {
       { status: 500 }
     );
   }
-} 
\ No newline at end of file
+}
@@ -1,7 +1,7 @@
 
 "use client";
 
-import React, { useState, useEffect, useCallback, useRef } from "react";
+import React, { useState, useEffect, useCallback, useRef, useMemo } from "react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
@@ -60,13 +60,22 @@ import {
   Egg, 
   Leaf,
   FileText,
-  ClockIcon
+  ClockIcon,
+  ShoppingCart
 } from "lucide-react";
 import {
   generateIndianDietChart,
   type GenerateIndianDietChartInput,
   type GenerateIndianDietChartOutput,
 } from "@/ai/flows/generateIndianDietChartFlow";
+import { correctionsFor, validateDietChart } from "@/lib/diet-chart-validator";
+import ChartValidationPanel from "@/components/diet-chart/chart-validation-panel";
+import GroceryListDialog from "@/components/diet-chart/grocery-list-dialog";
+import LogPlannedMealControl from "@/components/diet-chart/log-planned-meal-control";
+import { useDailyLog } from "@/hooks/use-daily-log";
+import { foodEntryFromPlannedMeal } from "@/lib/diet-plan-adherence";
+import type { FlowOutputFailure } from "@/ai/flow-output-error";
+import GenerationErrorAlert from "@/components/diet-chart/generation-error-alert";
 import { motion, AnimatePresence } from "framer-motion";
 import { Badge } from "@/components/ui/badge";
 import { Progress } from "@/components/ui/progress";
@@ -91,6 +100,12 @@ import {
   DialogTitle,
 } from "@/components/ui/dialog";
 import { useUserProfile } from "@/hooks/use-user-profile";
+import {
+  bodyMetricsFromProfile,
+  calculateNutritionPlan,
+  suggestMacroPreset,
+  MACRO_PRESET_LABELS,
+} from "@/lib/nutrition-calculator";
 import Link from "next/link";
 import html2pdf from 'html2pdf.js';
 
@@ -249,10 +264,14 @@ const BackgroundBlobs = () => {
 // Memoized Meal component for better performance
 const Meal = React.memo(({ 
   meal, 
-  mealIndex 
+  mealIndex,
+  eatenMultiplier = 0,
+  onLog
 }: { 
   meal: any, 
-  mealIndex: number 
+  mealIndex: number,
+  eatenMultiplier?: number,
+  onLog?: (multiplier: number) => void
 }) => (
   <motion.div
     key={mealIndex}
@@ -410,6 +429,10 @@ const Meal = React.memo(({
             </ul>
           </div>
         )}
+
+        {onLog && (
+          <LogPlannedMealControl mealName={meal.name} eatenMultiplier={eatenMultiplier} onLog={onLog} />
+        )}
       </div>
     </div>
   </motion.div>
@@ -421,12 +444,16 @@ const DaySection = React.memo(({
   day, 
   dayIndex, 
   isOpen, 
-  onToggle 
+  onToggle,
+  eatenMultipliers,
+  onLogMeal
 }: { 
   day: any, 
   dayIndex: number, 
   isOpen: boolean, 
-  onToggle: () => void 
+  onToggle: () => void,
+  eatenMultipliers?: number[],
+  onLogMeal?: (dayIndex: number, mealIndex: number, multiplier: number) => void
 }) => (
   <motion.div
     initial={{ opacity: 0, y: 20 }}
@@ -468,7 +495,13 @@ const DaySection = React.memo(({
       <CollapsibleContent>
         <div className="p-3 sm:p-5 pt-1 sm:pt-2 space-y-3 sm:space-y-4">
           {day.meals.map((meal: any, mealIndex: number) => (
-            <Meal key={mealIndex} meal={meal} mealIndex={mealIndex} />
+            <Meal
+              key={mealIndex}
+              meal={meal}
+              mealIndex={mealIndex}
+              eatenMultiplier={eatenMultipliers?.[mealIndex]}
+              onLog={onLogMeal && ((multiplier: number) => onLogMeal(dayIndex, mealIndex, multiplier))}
+            />
           ))}
         </div>
       </CollapsibleContent>
@@ -516,9 +549,13 @@ export default function DietChartPage() {
   const [showSaveDialog, setShowSaveDialog] = useState(false);
   const [dietChartName, setDietChartName] = useState("");
   const [isSaving, setIsSaving] = useState(false);
-  const { userProfile, saveDietChart } = useUserProfile();
+  const { userProfile, saveDietChart, setActiveDietChart } = useUserProfile();
+  const { foodEntries, addFoodEntry, selectDateForLog } = useDailyLog();
   const [isViewingSaved, setIsViewingSaved] = useState(false);
   const [currentChartId, setCurrentChartId] = useState<string | null>(null);
+  const [generationError, setGenerationError] = useState<FlowOutputFailure | null>(null);
+  const [chartInput, setChartInput] = useState<GenerateIndianDietChartInput | null>(null);
+  const [showShoppingList, setShowShoppingList] = useState(false);
 
   const isMountedRef = useRef(false);
 
@@ -547,6 +584,7 @@ export default function DietChartPage() {
         
         if (savedChart) {
           setDietChart(savedChart.dietChart);
+          setChartInput(savedChart.input ?? null);
           setCurrentChartId(chartId);
           setIsViewingSaved(true);
           setActiveTab("results");
@@ -578,6 +616,75 @@ export default function DietChartPage() {
     }
   }, [userProfile, toast]);
 
+  // Prefill body measurements from the profile, converted to kg/cm, without overwriting anything typed
+  useEffect(() => {
+    const metrics = bodyMetricsFromProfile(userProfile);
+    if (!metrics) return;
+    setFormData(prev => ({
+      ...prev,
+      age: prev.age ?? metrics.age,
+      gender: prev.age === undefined ? metrics.sex : prev.gender,
+      weight: prev.weight ?? Math.round(metrics.weightKg * 10) / 10,
+      height: prev.height ?? Math.round(metrics.heightCm),
+    }));
+  }, [userProfile]);
+
+  // Targets are calculated here rather than by the model so they are reproducible
+  const calculatedPlan = useMemo(() => {
+    const { age, gender, weight, height, activityLevel, fitnessGoal, dietaryPreference } = formData;
+    if (!age || !gender || !weight || !height || !activityLevel || !fitnessGoal) return null;
+    const macroPreset = suggestMacroPreset(fitnessGoal, dietaryPreference);
+    return {
+      macroPreset,
+      ...calculateNutritionPlan({ age, sex: gender, weightKg: weight, heightCm: height, activityLevel, fitnessGoal, macroPreset }),
+    };
+  }, [formData]);
+
+  useEffect(() => {
+    selectDateForLog(new Date());
+  }, [selectDateForLog]);
+
+  // Portions of each meal of the viewed saved chart logged today, by day and meal index
+  const eatenToday = useMemo(() => {
+    const eaten: number[][] = [];
+    for (const entry of foodEntries) {
+      const ref = entry.planMeal;
+      if (!ref || ref.chartId !== currentChartId) continue;
+      eaten[ref.dayIndex] ??= [];
+      eaten[ref.dayIndex][ref.mealIndex] = (eaten[ref.dayIndex][ref.mealIndex] ?? 0) + ref.multiplier;
+    }
+    return eaten;
+  }, [foodEntries, currentChartId]);
+
+  const handleLogPlannedMeal = useCallback((dayIndex: number, mealIndex: number, multiplier: number) => {
+    const meal = dietChart?.mealPlan[dayIndex]?.meals[mealIndex];
+    if (!meal || !currentChartId) return;
+    addFoodEntry(foodEntryFromPlannedMeal(meal, { chartId: currentChartId, dayIndex, mealIndex }, multiplier));
+    toast({
+      title: "Meal Logged",
+      description: `${meal.name}${multiplier === 1 ? "" : ` (×${multiplier})`} added to today's food log.`,
+    });
+  }, [dietChart, currentChartId, addFoodEntry, toast]);
+
+  const isActiveChart = !!currentChartId && userProfile.activeDietChartId === currentChartId;
+
+  const handleToggleActiveChart = () => {
+    if (!currentChartId) return;
+    setActiveDietChart(isActiveChart ? null : currentChartId);
+    toast({
+      title: isActiveChart ? "Stopped Following" : "Following This Chart",
+      description: isActiveChart
+        ? "The dashboard no longer compares your days against this chart."
+        : "The dashboard now compares each day's log with this chart's plan.",
+    });
+  };
+
+  // Totals are always checked; allergies and the dietary preference only when the chart's inputs are known
+  const chartViolations = useMemo(
+    () => (dietChart ? validateDietChart(dietChart, chartInput ?? {}) : []),
+    [dietChart, chartInput]
+  );
+
   const calculateProgress = () => (currentStep / 4) * 100;
 
   const handleInputChange = (
@@ -621,8 +728,8 @@ export default function DietChartPage() {
     if (currentStep > 1) setCurrentStep(currentStep - 1);
   };
 
-  const handleGenerateDietChart = async (e: React.FormEvent) => {
-    e.preventDefault();
+  const handleGenerateDietChart = async (e?: React.FormEvent) => {
+    e?.preventDefault();
     if (
       !formData.age ||
       !formData.gender ||
@@ -641,24 +748,62 @@ export default function DietChartPage() {
       return;
     }
 
+    const input: GenerateIndianDietChartInput = {
+      age: formData.age!,
+      gender: formData.gender! as "male" | "female" | "other",
+      weight: formData.weight!,
+      height: formData.height!,
+      activityLevel: formData.activityLevel! as any,
+      fitnessGoal: formData.fitnessGoal! as any,
+      dietaryPreference: formData.dietaryPreference! as any, // Pass singular preference
+      allergies: formData.allergies || [],
+      medicalConditions: formData.medicalConditions || [],
+      duration: formData.duration! as "daily" | "weekly",
+      ...(calculatedPlan && {
+        targetCalories: calculatedPlan.goal.calories,
+        targetMacros: {
+          protein: calculatedPlan.goal.protein,
+          carbs: calculatedPlan.goal.carbs,
+          fats: calculatedPlan.goal.fat,
+        },
+      }),
+    };
+    await generateChart(input);
+  };
+
+  // Asks for a new plan from the same details, listing what the checker found wrong with the current one
+  const handleRegenerateWithCorrections = () => {
+    if (!chartInput) return;
+    generateChart({ ...chartInput, corrections: correctionsFor(chartViolations) });
+  };
+
+  const generateChart = async (input: GenerateIndianDietChartInput) => {
     try {
       setIsLoading(true);
       setDietChart(null);
-      const input: GenerateIndianDietChartInput = {
-        age: formData.age!,
-        gender: formData.gender! as "male" | "female" | "other",
-        weight: formData.weight!,
-        height: formData.height!,
-        activityLevel: formData.activityLevel! as any,
-        fitnessGoal: formData.fitnessGoal! as any,
-        dietaryPreference: formData.dietaryPreference! as any, // Pass singular preference
-        allergies: formData.allergies || [],
-        medicalConditions: formData.medicalConditions || [],
-        duration: formData.duration! as "daily" | "weekly",
-      };
-
-      const result = await generateIndianDietChart(input);
+      setGenerationError(null);
+
+      const generated = await generateIndianDietChart(input);
+      if (!generated.ok) {
+        setGenerationError(generated.error);
+        setActiveTab("generate");
+        toast({
+          title: "Error",
+          description: "The AI's replies didn't form a complete diet chart. See the details above the form.",
+          variant: "destructive",
+        });
+        return;
+      }
+      const result = generated.value;
       setDietChart(result);
+      setChartInput(input);
+      if (currentChartId) {
+        // The new chart isn't the saved one any more, so stop the URL from reloading it
+        window.history.replaceState(null, "", window.location.pathname);
+        setCurrentChartId(null);
+        setIsViewingSaved(false);
+      }
+      const violations = validateDietChart(result, input);
       
       const initialCollapsibleStates: Record<string, boolean> = {};
       if (result.mealPlan && result.mealPlan.length > 0) {
@@ -672,7 +817,9 @@ export default function DietChartPage() {
 
       toast({
         title: "Indian Diet Chart Generated",
-        description: "Your personalized Indian diet chart is ready!",
+        description: violations.length > 0
+          ? `Your chart is ready, but ${violations.length} check${violations.length === 1 ? "" : "s"} failed. Review them above the chart.`
+          : "Your personalized Indian diet chart is ready!",
         variant: "default",
       });
     } catch (error: any) {
@@ -748,7 +895,7 @@ export default function DietChartPage() {
     setIsSaving(true);
     
     try {
-      saveDietChart(dietChartName, dietChart);
+      saveDietChart(dietChartName, dietChart, chartInput ?? undefined);
       
       toast({ 
         title: "Diet Chart Saved", 
@@ -1097,6 +1244,8 @@ export default function DietChartPage() {
                 dayIndex={dayIndex}
                 isOpen={collapsibleStates[`day-${dayIndex}`] ?? true}
                 onToggle={() => toggleCollapsible(`day-${dayIndex}`)}
+                eatenMultipliers={eatenToday[dayIndex]}
+                onLogMeal={currentChartId ? handleLogPlannedMeal : undefined}
               />
             ))}
           </div>
@@ -1345,6 +1494,20 @@ export default function DietChartPage() {
             ))}
           </div>
         </motion.div>
+        {calculatedPlan && (
+          <motion.div
+            className="rounded-lg border border-primary/20 bg-primary/5 p-4 text-sm"
+            variants={itemVariants}
+          >
+            <p className="font-medium">
+              Your daily target: {calculatedPlan.goal.calories} kcal
+            </p>
+            <p className="text-muted-foreground mt-1">
+              Protein {calculatedPlan.goal.protein}g · Carbs {calculatedPlan.goal.carbs}g · Fat {calculatedPlan.goal.fat}g
+              ({MACRO_PRESET_LABELS[calculatedPlan.macroPreset].toLowerCase()} split, maintenance about {calculatedPlan.tdee} kcal)
+            </p>
+          </motion.div>
+        )}
       </motion.div>
       <motion.div
         className="pt-6 flex justify-between"
@@ -1703,6 +1866,13 @@ export default function DietChartPage() {
           </TabsList>
 
           <TabsContent value="generate" className="space-y-4">
+            {generationError && (
+              <GenerationErrorAlert
+                error={generationError}
+                onRetry={() => handleGenerateDietChart()}
+                onDismiss={() => setGenerationError(null)}
+              />
+            )}
             <motion.div
               className="overflow-hidden border border-white/20 dark:border-white/10 rounded-2xl backdrop-blur-md bg-white/40 dark:bg-black/40 shadow-xl relative"
               initial={{ opacity: 0, y: 20 }}
@@ -1843,6 +2013,26 @@ export default function DietChartPage() {
                       <FileText className="h-3 w-3 sm:h-4 sm:w-4" />
                       Download as PDF
                     </Button>
+                    {isViewingSaved && currentChartId && (
+                      <Button
+                        variant={isActiveChart ? "secondary" : "outline"}
+                        onClick={handleToggleActiveChart}
+                        className="flex-1 sm:flex-auto flex items-center justify-center gap-1 sm:gap-2 text-xs sm:text-sm py-1.5 sm:py-2 h-auto"
+                      >
+                        <Star className={cn("h-3 w-3 sm:h-4 sm:w-4", isActiveChart && "fill-current")} />
+                        {isActiveChart ? "Following" : "Follow This Chart"}
+                      </Button>
+                    )}
+                    {isViewingSaved && (
+                      <Button
+                        variant="outline"
+                        onClick={() => setShowShoppingList(true)}
+                        className="flex-1 sm:flex-auto flex items-center justify-center gap-1 sm:gap-2 text-xs sm:text-sm py-1.5 sm:py-2 h-auto"
+                      >
+                        <ShoppingCart className="h-3 w-3 sm:h-4 sm:w-4" />
+                        Shopping List
+                      </Button>
+                    )}
                     {!isViewingSaved && (
                       <Button
                         onClick={handleSave}
@@ -1855,7 +2045,19 @@ export default function DietChartPage() {
                                   </div>
                                 </div>
 
+                <ChartValidationPanel
+                  violations={chartViolations}
+                  checkedConstraints={!!chartInput}
+                  onRegenerate={chartInput ? handleRegenerateWithCorrections : undefined}
+                  isRegenerating={isLoading}
+                />
+
                 {renderDietChart()}
+
+                <GroceryListDialog
+                  chart={showShoppingList ? userProfile.savedDietCharts?.find(chart => chart.id === currentChartId) ?? null : null}
+                  onClose={() => setShowShoppingList(false)}
+                />
                                             </motion.div>
             ) : (
               <div className="flex items-center justify-center py-32">
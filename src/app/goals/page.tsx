@@ -12,10 +12,14 @@ import {
   RefreshCw, Sparkles
 } from "lucide-react";
 import type { Goal } from "@/types";
+import { goalsRecord } from "@/lib/storage";
 import { motion, AnimatePresence } from "framer-motion";
 import { Slider } from "@/components/ui/slider";
 import { Badge } from "@/components/ui/badge";
 import { Suspense } from "react";
+import AdaptiveGoalCard from "@/components/goals/adaptive-goal-card";
+import GoalCalculatorCard from "@/components/goals/goal-calculator-card";
+import GoalScheduleCard from "@/components/goals/goal-schedule-card";
 
 const initialGoals: Goal = {
   calories: 2000,
@@ -40,11 +44,10 @@ function GoalsPageContent() {
   const { toast } = useToast();
 
   useEffect(() => {
-    const storedGoals = localStorage.getItem("userGoals");
+    const storedGoals = goalsRecord.read();
     if (storedGoals) {
-      const parsedGoals = JSON.parse(storedGoals);
-      setGoals(parsedGoals);
-      setSavedGoals(parsedGoals);
+      setGoals(storedGoals);
+      setSavedGoals(storedGoals);
     }
   }, []);
 
@@ -68,7 +71,7 @@ function GoalsPageContent() {
     setIsLoading(true);
     // Simulate API call
     setTimeout(() => {
-      localStorage.setItem("userGoals", JSON.stringify(goals));
+      goalsRecord.write(goals);
       setSavedGoals(goals);
       toast({
         title: "Goals Updated!",
@@ -80,6 +83,23 @@ function GoalsPageContent() {
     }, 800);
   };
 
+  const handleCalculatedGoal = (calculatedGoal: Goal) => {
+    setGoals(calculatedGoal);
+    toast({
+      title: "Targets Filled In",
+      description: "Review them above and press Save Goals to apply.",
+    });
+  };
+
+  const handleAdaptiveGoalAccepted = (acceptedGoal: Goal) => {
+    setGoals(acceptedGoal);
+    setSavedGoals(acceptedGoal);
+    toast({
+      title: "Goal Adjusted",
+      description: `Your daily calorie goal is now ${acceptedGoal.calories} kcal.`,
+    });
+  };
+
   const getGoalStatus = (goal: keyof Goal) => {
     if (!savedGoals) return null;
     
@@ -322,6 +342,12 @@ function GoalsPageContent() {
             </form>
           </CardContent>
         </Card>
+
+        <GoalCalculatorCard onApply={handleCalculatedGoal} />
+
+        <AdaptiveGoalCard currentGoal={savedGoals ?? initialGoals} onGoalAccepted={handleAdaptiveGoalAccepted} />
+
+        <GoalScheduleCard baseGoal={savedGoals ?? initialGoals} />
       </motion.div>
     </div>
   );
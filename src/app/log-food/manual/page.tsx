@@ -1,18 +1,26 @@
 "use client";
 
-import { useState, type FormEvent, type FC, type KeyboardEvent } from "react";
+import { useState, useMemo, useEffect, type FormEvent, type FC, type KeyboardEvent } from "react";
 import { useRouter } from "next/navigation";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle, CardFooter } from "@/components/ui/card";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
 import { useDailyLog } from "@/hooks/use-daily-log";
-import { PlusCircle, Save, Utensils, Flame, Drumstick, Droplets, Wheat, ChevronLeft, Sparkles, AlertCircle, Loader2, Heart, Info, Brain, UtensilsCrossed, Leaf, Activity, ShieldCheck } from "lucide-react";
-import type { FoodEntry } from "@/types";
+import { PlusCircle, Save, Utensils, Flame, Drumstick, Droplets, Wheat, ChevronLeft, Sparkles, AlertCircle, Loader2, Heart, Info, Brain, UtensilsCrossed, Leaf, Activity, ShieldCheck, Database, X } from "lucide-react";
+import type { FoodEntry, FoodItem, MealType } from "@/types";
+import { MEAL_TYPES, MEAL_TYPE_LABELS, suggestMealType } from "@/lib/meal-slots";
+import { parseFoodQuery, searchFoods, getServingUnits, findServingUnit, calculateNutrition, formatServing } from "@/lib/food-database";
 import { analyzeFoodText, type AnalyzeFoodTextInput, type AnalyzeFoodTextOutput } from "@/ai/flows/analyze-food-text-flow";
+import type { CachedResult } from "@/ai/flow-cache";
+import { getLocalUserId } from "@/lib/user-id";
 import { motion, AnimatePresence } from "framer-motion";
+import { formatRange, needsPortionConfirmation } from "@/lib/estimate-confidence";
+import EstimateConfidencePanel from "@/components/food/estimate-confidence-panel";
+import ConfirmPortionDialog from "@/components/food/confirm-portion-dialog";
 
 interface NutritionDisplayItemProps {
   icon: React.ElementType;
@@ -62,17 +70,85 @@ const NutritionDisplayItem: FC<NutritionDisplayItemProps> = ({
 
 export default function ManualLogPage() {
   const [foodName, setFoodName] = useState("");
-  const [estimatedNutrition, setEstimatedNutrition] = useState<AnalyzeFoodTextOutput | null>(null);
+  const [estimatedNutrition, setEstimatedNutrition] = useState<CachedResult<AnalyzeFoodTextOutput> | null>(null);
   
   const [isSubmittingLog, setIsSubmittingLog] = useState(false);
   const [isAiEstimating, setIsAiEstimating] = useState(false);
   const [aiError, setAiError] = useState<string | null>(null);
+  const [isConfirmingPortion, setIsConfirmingPortion] = useState(false);
+
+  // Offline food database selection
+  const [selectedFood, setSelectedFood] = useState<FoodItem | null>(null);
+  const [servingQuantity, setServingQuantity] = useState("1");
+  const [servingUnitName, setServingUnitName] = useState("");
+  const [mealType, setMealType] = useState<MealType>("breakfast");
+
+  useEffect(() => {
+    // Suggest the meal slot on the client so the time of day matches the user's clock
+    setMealType(suggestMealType());
+  }, []);
 
   const { addFoodEntry, currentSelectedDate } = useDailyLog();
   const { toast } = useToast();
   const router = useRouter();
 
-  const handleAiEstimate = async () => {
+  const parsedQuery = useMemo(() => parseFoodQuery(foodName), [foodName]);
+  const databaseMatches = useMemo(() => searchFoods(parsedQuery.term), [parsedQuery]);
+
+  const selectedServingUnit = selectedFood
+    ? getServingUnits(selectedFood).find(unit => unit.name === servingUnitName) ?? findServingUnit(selectedFood)
+    : null;
+  const selectedQuantity = parseFloat(servingQuantity);
+  const databaseNutrition = selectedFood && selectedServingUnit && selectedQuantity > 0
+    ? calculateNutrition(selectedFood, selectedQuantity, selectedServingUnit)
+    : null;
+
+  const handleSelectFood = (item: FoodItem) => {
+    setSelectedFood(item);
+    setServingQuantity(String(parsedQuery.quantity ?? 1));
+    setServingUnitName(findServingUnit(item, parsedQuery.unit).name);
+    setEstimatedNutrition(null);
+    setAiError(null);
+  };
+
+  const handleLogFromDatabase = () => {
+    if (!selectedFood || !selectedServingUnit || !databaseNutrition) {
+      toast({
+        title: "Cannot Log",
+        description: "Please choose a portion size greater than zero.",
+        variant: "destructive",
+      });
+      return;
+    }
+    setIsSubmittingLog(true);
+
+    const foodEntryData: Omit<FoodEntry, "id" | "timestamp"> = {
+      mealType,
+      name: `${selectedFood.name} (${formatServing(selectedQuantity, selectedServingUnit)})`,
+      grams: databaseNutrition.grams,
+      calories: databaseNutrition.calories,
+      protein: databaseNutrition.protein,
+      fat: databaseNutrition.fat,
+      carbs: databaseNutrition.carbs,
+    };
+
+    addFoodEntry(foodEntryData);
+
+    toast({
+      title: "Meal Logged!",
+      description: `${foodEntryData.name} (${foodEntryData.calories.toFixed(0)} kcal) has been added to your log.`,
+      action: <PlusCircle className="text-green-500" />,
+    });
+
+    setSelectedFood(null);
+    setFoodName("");
+    setIsSubmittingLog(false);
+
+    window.location.href = '/';
+  };
+
+  // skipCache asks for a fresh estimate instead of the saved one for this description
+  const handleAiEstimate = async (skipCache = false) => {
     if (!foodName.trim()) {
       setAiError("Please enter a food description first.");
       setEstimatedNutrition(null);
@@ -83,13 +159,15 @@ export default function ManualLogPage() {
     setEstimatedNutrition(null); 
     try {
       const input: AnalyzeFoodTextInput = { description: foodName };
-      const result: AnalyzeFoodTextOutput = await analyzeFoodText(input);
+      const result = await analyzeFoodText(input, { userId: getLocalUserId(), skipCache });
       
       setEstimatedNutrition(result);
 
       toast({
-        title: "AI Estimation Complete",
-        description: "Nutritional details and benefits have been estimated. Review and log if correct.",
+        title: result.fromCache ? "Saved Estimate" : "AI Estimation Complete",
+        description: result.fromCache
+          ? "You've estimated this food before, so the same numbers are shown. Review and log if correct."
+          : "Nutritional details and benefits have been estimated. Review and log if correct.",
         action: <Sparkles className="text-yellow-500" />,
       });
 
@@ -111,7 +189,9 @@ export default function ManualLogPage() {
   const handleFoodNameKeyDown = (event: KeyboardEvent<HTMLInputElement>) => {
     if (event.key === 'Enter') {
       event.preventDefault(); // Prevent default form submission if it's part of a form
-      if (!isAiEstimating && foodName.trim()) {
+      if (!selectedFood && databaseMatches.length > 0) {
+        handleSelectFood(databaseMatches[0]);
+      } else if (!isAiEstimating && foodName.trim() && databaseMatches.length === 0) {
         handleAiEstimate();
       }
     }
@@ -127,9 +207,20 @@ export default function ManualLogPage() {
       });
       return;
     }
+    // Low-confidence estimates wait for the user to confirm the portion
+    if (needsPortionConfirmation(estimatedNutrition.confidence)) {
+      setIsConfirmingPortion(true);
+      return;
+    }
+    logEstimatedFood();
+  };
+
+  const logEstimatedFood = () => {
+    if (!estimatedNutrition) return;
     setIsSubmittingLog(true);
 
     const foodEntryData: Omit<FoodEntry, "id" | "timestamp"> = {
+      mealType,
       name: foodName || "Unnamed Food", // Use the foodName from input as the primary name
       calories: estimatedNutrition.calorieEstimate,
       protein: estimatedNutrition.proteinEstimate,
@@ -246,7 +337,7 @@ export default function ManualLogPage() {
                   transition={{ delay: 0.1 }}
                   className="text-sm text-muted-foreground"
                 >
-                  Describe your meal to get instant nutrition estimates
+                  Search the food database or describe your meal to get instant nutrition estimates
                 </motion.p>
               </CardDescription>
             </motion.div>
@@ -285,10 +376,11 @@ export default function ManualLogPage() {
                     onChange={(e) => {
                       setFoodName(e.target.value);
                       if(estimatedNutrition) setEstimatedNutrition(null); 
+                      if(selectedFood) setSelectedFood(null);
                       setAiError(null); 
                     }}
                     onKeyDown={handleFoodNameKeyDown}
-                    placeholder="e.g., 200g grilled salmon with asparagus"
+                    placeholder="e.g., 2 rotis, 1 bowl dal or 200g grilled salmon"
                     className="w-full h-12 rounded-md border border-input bg-transparent focus:ring-2 focus:ring-primary/20 transition-all duration-200"
                     required
                   />
@@ -303,6 +395,113 @@ export default function ManualLogPage() {
                   <Info className="h-3 w-3" />
                   <span>Include quantities for better accuracy</span>
                 </motion.div>
+
+                <div className="flex items-center justify-between gap-3">
+                  <Label className="text-sm font-medium">Meal</Label>
+                  <Select value={mealType} onValueChange={(value) => setMealType(value as MealType)}>
+                    <SelectTrigger className="w-40 h-9">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {MEAL_TYPES.map(type => (
+                        <SelectItem key={type} value={type}>{MEAL_TYPE_LABELS[type]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                {foodName.trim() && !selectedFood && (
+                  <DatabaseMatchList
+                    matches={databaseMatches}
+                    onSelect={handleSelectFood}
+                  />
+                )}
+
+                <AnimatePresence>
+                  {selectedFood && selectedServingUnit && (
+                    <motion.div
+                      initial={{ opacity: 0, y: 10 }}
+                      animate={{ opacity: 1, y: 0 }}
+                      exit={{ opacity: 0, y: -10 }}
+                      transition={{ type: "spring", stiffness: 300, damping: 20 }}
+                      className="space-y-4 p-4 rounded-lg border bg-background/70"
+                    >
+                      <div className="flex items-center justify-between">
+                        <div className="flex items-center gap-2">
+                          <Database className="h-4 w-4 text-primary" />
+                          <span className="font-medium">{selectedFood.name}</span>
+                        </div>
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="icon"
+                          className="h-7 w-7"
+                          onClick={() => setSelectedFood(null)}
+                          aria-label="Clear selected food"
+                        >
+                          <X className="h-4 w-4" />
+                        </Button>
+                      </div>
+
+                      <div className="grid grid-cols-2 gap-3">
+                        <div className="space-y-1">
+                          <Label htmlFor="servingQuantity" className="text-xs">Quantity</Label>
+                          <Input
+                            id="servingQuantity"
+                            type="number"
+                            min="0"
+                            step="0.5"
+                            value={servingQuantity}
+                            onChange={(e) => setServingQuantity(e.target.value)}
+                          />
+                        </div>
+                        <div className="space-y-1">
+                          <Label className="text-xs">Serving</Label>
+                          <Select value={selectedServingUnit.name} onValueChange={setServingUnitName}>
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {getServingUnits(selectedFood).map(unit => (
+                                <SelectItem key={unit.name} value={unit.name}>
+                                  {unit.name === "g" ? "grams" : `${unit.name} (${unit.grams}g)`}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </div>
+                      </div>
+
+                      {databaseNutrition && (
+                        <>
+                          <p className="text-xs text-muted-foreground">
+                            {formatServing(selectedQuantity, selectedServingUnit)} &middot; {selectedFood.per100g.calories} kcal per 100g
+                          </p>
+                          <div className="grid grid-cols-2 gap-4">
+                            <NutritionBar label="Calories" value={databaseNutrition.calories.toFixed(0)} unit="kcal" color="bg-red-500" delay={0} percent={100} />
+                            <NutritionBar label="Protein" value={databaseNutrition.protein.toFixed(1)} unit="g" color="bg-blue-500" delay={0.1} percent={90} />
+                            <NutritionBar label="Carbs" value={databaseNutrition.carbs.toFixed(1)} unit="g" color="bg-green-500" delay={0.2} percent={80} />
+                            <NutritionBar label="Fat" value={databaseNutrition.fat.toFixed(1)} unit="g" color="bg-amber-500" delay={0.3} percent={70} />
+                          </div>
+                        </>
+                      )}
+
+                      <Button
+                        type="button"
+                        onClick={handleLogFromDatabase}
+                        disabled={isSubmittingLog || !databaseNutrition}
+                        className="w-full h-11 bg-primary"
+                      >
+                        {isSubmittingLog ? (
+                          <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                        ) : (
+                          <PlusCircle className="mr-2 h-4 w-4" />
+                        )}
+                        <span>Add to Food Log</span>
+                      </Button>
+                    </motion.div>
+                  )}
+                </AnimatePresence>
                 
                 <motion.div
                   whileHover={{ scale: 1.01 }}
@@ -311,7 +510,7 @@ export default function ManualLogPage() {
                 >
                   <Button 
                     type="button" 
-                    onClick={handleAiEstimate} 
+                    onClick={() => handleAiEstimate()} 
                     disabled={isAiEstimating || !foodName.trim()}
                     className="w-full h-11 mt-2 bg-gradient-to-r from-primary to-primary/90 hover:from-primary/90 hover:to-primary relative overflow-hidden group"
                   >
@@ -445,6 +644,22 @@ export default function ManualLogPage() {
                           percent={70}
                         />
                       </div>
+
+                      {estimatedNutrition.fromCache && (
+                        <div className="flex items-center justify-between gap-2 mb-3 text-xs text-muted-foreground rounded-lg bg-muted/40 px-3 py-2">
+                          <span>Saved estimate. The same description gets the same numbers.</span>
+                          <Button type="button" variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={() => handleAiEstimate(true)}>
+                            Estimate again
+                          </Button>
+                        </div>
+                      )}
+
+                      <EstimateConfidencePanel
+                        className="mb-6"
+                        confidence={estimatedNutrition.confidence}
+                        confidenceReason={estimatedNutrition.confidenceReason}
+                        ranges={estimatedNutrition.estimateRanges}
+                      />
                       
                       { (estimatedNutrition.saturatedFatEstimate !== undefined && estimatedNutrition.saturatedFatEstimate > 0) ||
                         (estimatedNutrition.fiberEstimate !== undefined && estimatedNutrition.fiberEstimate > 0) ||
@@ -617,10 +832,56 @@ export default function ManualLogPage() {
           </form>
         </Card>
       </motion.div>
+
+      {estimatedNutrition && (
+        <ConfirmPortionDialog
+          open={isConfirmingPortion}
+          onOpenChange={setIsConfirmingPortion}
+          onConfirm={logEstimatedFood}
+          quantityNote={estimatedNutrition.estimatedQuantityNote}
+          confidenceReason={estimatedNutrition.confidenceReason}
+          calorieRange={formatRange(estimatedNutrition.estimateRanges.calories, "kcal")}
+        />
+      )}
     </div>
   );
 }
 
+const DatabaseMatchList: FC<{
+  matches: FoodItem[];
+  onSelect: (item: FoodItem) => void;
+}> = ({ matches, onSelect }) => {
+  if (matches.length === 0) {
+    return (
+      <div className="flex items-center gap-2 text-xs text-muted-foreground pl-1">
+        <Sparkles className="h-3 w-3" />
+        <span>No match in the food database. Use AI analysis to estimate this meal.</span>
+      </div>
+    );
+  }
+
+  return (
+    <div className="rounded-lg border divide-y bg-background/70">
+      {matches.map(item => (
+        <button
+          key={item.id}
+          type="button"
+          onClick={() => onSelect(item)}
+          className="w-full flex items-center justify-between px-3 py-2 text-left text-sm hover:bg-muted/50 transition-colors"
+        >
+          <span className="flex items-center gap-2">
+            <Database className="h-3.5 w-3.5 text-primary/70" />
+            {item.name}
+          </span>
+          <span className="text-xs text-muted-foreground">
+            {Math.round(item.per100g.calories * item.servings[0].grams / 100)} kcal / {item.servings[0].name}
+          </span>
+        </button>
+      ))}
+    </div>
+  );
+};
+
 const NutritionBar: FC<{
   label: string;
   value: string;
@@ -10,11 +10,16 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Loader2, UploadCloud, AlertCircle, CheckCircle, Pizza, Camera, VideoOff, ThumbsDown, Zap, ZapOff, ZoomIn, ZoomOut, ChevronLeft, Info, ArrowRight, Sparkles } from "lucide-react";
 import Image from "next/image";
 import { analyzeFoodPhoto, type AnalyzeFoodPhotoOutput, type AnalyzeFoodPhotoInput } from "@/ai/flows/analyze-food-photo";
+import type { CachedResult } from "@/ai/flow-cache";
+import { getLocalUserId } from "@/lib/user-id";
 import NutritionDisplay from "@/components/food/nutrition-display";
 import { useToast } from "@/hooks/use-toast";
 import { useDailyLog } from "@/hooks/use-daily-log";
 import { useGoals } from "@/hooks/use-goals"; // Added
 import type { Goal } from "@/types"; // Added
+import { plateItemsFromAnalysis, sumPlateItems, toFoodEntryItems, type PlateItem } from "@/lib/plate-items";
+import { formatRange, needsPortionConfirmation, scaleRange } from "@/lib/estimate-confidence";
+import ConfirmPortionDialog from "@/components/food/confirm-portion-dialog";
 import { Slider } from "@/components/ui/slider";
 import { motion, AnimatePresence } from "framer-motion";
 
@@ -23,10 +28,12 @@ export default function LogFoodByPhotoPage() {
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
   const [previewUrl, setPreviewUrl] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
-  const [analysisResult, setAnalysisResult] = useState<AnalyzeFoodPhotoOutput | null>(null);
+  const [analysisResult, setAnalysisResult] = useState<CachedResult<AnalyzeFoodPhotoOutput> | null>(null);
+  const [plateItems, setPlateItems] = useState<PlateItem[]>([]);
+  const [pendingLogMode, setPendingLogMode] = useState<'items' | 'meal' | null>(null);
   const [error, setError] = useState<string | null>(null);
   const { toast } = useToast();
-  const { addFoodEntry } = useDailyLog();
+  const { addFoodEntries } = useDailyLog();
   const { goals, isLoading: isLoadingGoals } = useGoals(); // Added
   const router = useRouter();
   const analysisResultRef = useRef<HTMLDivElement>(null);
@@ -389,7 +396,8 @@ export default function LogFoodByPhotoPage() {
     }
   }, []);
 
-  const handleSubmit = async () => {
+  // skipCache asks for a fresh analysis instead of the saved result for this photo
+  const handleSubmit = async (skipCache = false) => {
     setIsLoading(true);
     setError(null);
     setAnalysisResult(null);
@@ -444,7 +452,7 @@ export default function LogFoodByPhotoPage() {
 
     try {
       const input: AnalyzeFoodPhotoInput = { photoDataUri: photoDataUriToAnalyze };
-      const result = await analyzeFoodPhoto(input);
+      const result = await analyzeFoodPhoto(input, { userId: getLocalUserId(), skipCache });
       
       // First set isLoading to false, ensuring the loading state is removed
       setIsLoading(false);
@@ -452,6 +460,7 @@ export default function LogFoodByPhotoPage() {
       // Then set the analysis result, which will trigger the results UI
       setTimeout(() => {
         setAnalysisResult(result);
+        setPlateItems(plateItemsFromAnalysis(result.items));
         
         if (!result.isFoodItem) {
           toast({
@@ -462,8 +471,10 @@ export default function LogFoodByPhotoPage() {
           });
         } else {
           toast({
-            title: "Analysis Complete",
-            description: "Nutritional information has been estimated.",
+            title: result.fromCache ? "Saved Analysis" : "Analysis Complete",
+            description: result.fromCache
+              ? "You've analyzed this photo before, so the same estimate is shown."
+              : "Nutritional information has been estimated.",
             variant: "default",
             action: <CheckCircle className="text-green-500" />,
           });
@@ -487,7 +498,17 @@ export default function LogFoodByPhotoPage() {
     }
   };
 
-  const handleAddToLog = () => {
+  // Low-confidence estimates wait for the user to confirm the portion
+  const requestAddToLog = (mode: 'items' | 'meal') => {
+    if (analysisResult && needsPortionConfirmation(analysisResult.confidence)) {
+      setPendingLogMode(mode);
+      return;
+    }
+    handleAddToLog(mode);
+  };
+
+  // 'items' logs each detected item as its own entry; 'meal' logs the plate as one grouped entry
+  const handleAddToLog = (mode: 'items' | 'meal') => {
     if (!analysisResult) return;
 
     if (!analysisResult.isFoodItem) {
@@ -499,25 +520,37 @@ export default function LogFoodByPhotoPage() {
         return;
     }
 
-    let mealName = "Unnamed Meal";
-    if (analysisResult.ingredients && analysisResult.ingredients.length > 0) {
-      mealName = analysisResult.ingredients.join(", ");
-    } else if (analysisResult.isFoodItem) {
-      mealName = "AI Analyzed Meal";
+    if (plateItems.length === 0) {
+        toast({
+            title: "Nothing to Log",
+            description: "All items were removed. Reset the list or analyze another photo.",
+            variant: "destructive",
+        });
+        return;
     }
 
+    const totals = sumPlateItems(plateItems);
+    const mealName = plateItems.map(item => item.name).join(", ") || "AI Analyzed Meal";
 
-    addFoodEntry({
-      name: mealName,
-      calories: analysisResult.calorieEstimate,
-      protein: analysisResult.proteinEstimate,
-      fat: analysisResult.fatEstimate,
-      carbs: analysisResult.carbEstimate,
-    });
+    if (mode === 'items' || plateItems.length === 1) {
+      addFoodEntries(toFoodEntryItems(plateItems));
+    } else {
+      addFoodEntries([{
+        name: mealName,
+        calories: totals.calories,
+        protein: totals.protein,
+        fat: totals.fat,
+        carbs: totals.carbs,
+        grams: totals.grams || undefined,
+        items: toFoodEntryItems(plateItems),
+      }]);
+    }
 
     toast({
       title: "Meal Logged!",
-      description: `${mealName} (${analysisResult.calorieEstimate} kcal) added to your daily log.`,
+      description: mode === 'items' && plateItems.length > 1
+        ? `${plateItems.length} items (${totals.calories} kcal) added to your daily log.`
+        : `${mealName} (${totals.calories} kcal) added to your daily log.`,
       variant: "default",
       action: <CheckCircle className="text-green-500" />,
     });
@@ -1299,6 +1332,9 @@ export default function LogFoodByPhotoPage() {
                     estimatedQuantityNote={analysisResult.estimatedQuantityNote}
                     goals={goals}
                     isLoadingGoals={isLoadingGoals}
+                    items={plateItems}
+                    onItemsChange={setPlateItems}
+                    onReanalyze={() => handleSubmit(true)}
                   />
                 </motion.div>
               )}
@@ -1324,7 +1360,8 @@ export default function LogFoodByPhotoPage() {
                     }}
                   >
                     <Button 
-                      onClick={handleAddToLog} 
+                      onClick={() => requestAddToLog('meal')} 
+                      disabled={plateItems.length === 0}
                       className="w-full bg-gradient-to-r from-green-600 via-green-500 to-green-500 hover:brightness-110 text-white rounded-full shadow-md group overflow-hidden relative"
                     >
                       <motion.span
@@ -1334,9 +1371,18 @@ export default function LogFoodByPhotoPage() {
                         transition={{ duration: 0.5 }}
                       />
                       <CheckCircle className="mr-2 h-4 w-4 group-hover:scale-110 transition-transform" />
-                      <span className="relative z-10">Add to Daily Log</span>
+                      <span className="relative z-10">{plateItems.length > 1 ? "Log as One Meal" : "Add to Daily Log"}</span>
                     </Button>
                   </motion.div>
+                  {plateItems.length > 1 && (
+                    <Button
+                      variant="outline"
+                      onClick={() => requestAddToLog('items')}
+                      className="w-full mt-2 rounded-full"
+                    >
+                      Log {plateItems.length} Items Separately
+                    </Button>
+                  )}
                 </motion.div>
               )}
             </AnimatePresence>
@@ -1354,7 +1400,7 @@ export default function LogFoodByPhotoPage() {
                 whileTap={{ scale: 0.97 }}
               >
                 <Button 
-                  onClick={handleSubmit} 
+                  onClick={() => handleSubmit()} 
                   disabled={(!selectedFile && !capturedDataUriForAnalysis && !previewUrl) || isLoading || isLoadingGoals} 
                   className="w-full bg-gradient-to-r from-primary/90 via-primary to-primary/90 hover:brightness-110 rounded-full shadow-md disabled:opacity-50 group overflow-hidden relative"
                 >
@@ -1399,6 +1445,23 @@ export default function LogFoodByPhotoPage() {
         style={{ display: 'none' }} 
         aria-hidden="true"
       />
+
+      {analysisResult && (
+        <ConfirmPortionDialog
+          open={pendingLogMode !== null}
+          onOpenChange={(open) => { if (!open) setPendingLogMode(null); }}
+          onConfirm={() => {
+            if (pendingLogMode) handleAddToLog(pendingLogMode);
+            setPendingLogMode(null);
+          }}
+          quantityNote={analysisResult.estimatedQuantityNote}
+          confidenceReason={analysisResult.confidenceReason}
+          calorieRange={formatRange(
+            scaleRange(analysisResult.estimateRanges.calories, analysisResult.calorieEstimate, sumPlateItems(plateItems).calories, 0),
+            "kcal"
+          )}
+        />
+      )}
     </motion.div>
   );
 }
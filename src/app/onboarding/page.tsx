@@ -12,6 +12,9 @@ import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { useToast } from "@/hooks/use-toast";
 import { cn } from "@/lib/utils";
 import { useGoals } from "@/hooks/use-goals";
+import { userProfileRecord } from "@/lib/storage";
+import { calculateNutritionPlan, type ActivityLevel, type FitnessGoal, type MacroPreset } from "@/lib/nutrition-calculator";
+import { toKg } from "@/lib/weight-trend";
 import { AnimatedBackground, FadeIn, SimplePulse } from "@/components/ui/optimized-animations";
 import { useAdaptivePerformance } from "@/hooks/use-performance";
 
@@ -29,72 +32,32 @@ interface UserProfile {
   carbs: number;
 }
 
-// Function to calculate BMR (Basal Metabolic Rate) using Mifflin-St Jeor Equation
-const calculateBMR = (weight: number, height: number, age: number, gender: string, unit: "metric" | "imperial"): number => {
-  // Convert imperial to metric if needed
-  let weightKg = weight;
-  let heightCm = height;
-  
-  if (unit === "imperial") {
-    weightKg = weight * 0.453592; // pounds to kg
-    heightCm = height * 2.54; // inches to cm
-  }
-  
-  // Mifflin-St Jeor Equation
-  if (gender === "male") {
-    return (10 * weightKg) + (6.25 * heightCm) - (5 * age) + 5;
-  } else {
-    return (10 * weightKg) + (6.25 * heightCm) - (5 * age) - 161;
-  }
+// Onboarding has no separate activity question, so each goal implies a typical activity level and macro split
+const ONBOARDING_GOAL_PLANS: Record<UserProfile["fitnessGoal"], { activityLevel: ActivityLevel; fitnessGoal: FitnessGoal; macroPreset: MacroPreset }> = {
+  muscle_gain: { activityLevel: "moderately_active", fitnessGoal: "muscle_gain", macroPreset: "high_protein" },
+  weight_loss: { activityLevel: "lightly_active", fitnessGoal: "weight_loss", macroPreset: "high_protein" },
+  get_fit: { activityLevel: "moderately_active", fitnessGoal: "maintain_weight", macroPreset: "balanced" },
+  overall_health: { activityLevel: "lightly_active", fitnessGoal: "general_health", macroPreset: "balanced" },
+  stamina: { activityLevel: "very_active", fitnessGoal: "maintain_weight", macroPreset: "balanced" },
 };
 
-// Calculate recommended macros based on BMR and fitness goal
-const calculateMacros = (bmr: number, fitnessGoal: string): { calories: number; protein: number; fat: number; carbs: number } => {
-  let activityMultiplier = 1.4; // Base: Light activity
-  let proteinPercentage = 0.3; // 30% default
-  let fatPercentage = 0.25; // 25% default
-  let carbsPercentage = 0.45; // 45% default
-  
-  // Adjust based on fitness goal
-  switch (fitnessGoal) {
-    case "muscle_gain":
-      activityMultiplier = 1.6; // Higher for muscle gain
-      proteinPercentage = 0.35; // More protein for muscle building
-      fatPercentage = 0.25;
-      carbsPercentage = 0.40;
-      break;
-    case "weight_loss":
-      activityMultiplier = 1.3; // Slight deficit for weight loss
-      proteinPercentage = 0.35; // Higher protein to preserve muscle
-      fatPercentage = 0.30;
-      carbsPercentage = 0.35; // Lower carbs for fat loss
-      break;
-    case "get_fit":
-      activityMultiplier = 1.5;
-      proteinPercentage = 0.30;
-      fatPercentage = 0.25;
-      carbsPercentage = 0.45;
-      break;
-    case "overall_health":
-      activityMultiplier = 1.4;
-      proteinPercentage = 0.25;
-      fatPercentage = 0.30;
-      carbsPercentage = 0.45;
-      break;
-    case "stamina":
-      activityMultiplier = 1.6;
-      proteinPercentage = 0.25;
-      fatPercentage = 0.25;
-      carbsPercentage = 0.50; // Higher carbs for endurance
-      break;
-  }
-  
-  const calories = Math.round(bmr * activityMultiplier);
-  const protein = Math.round((calories * proteinPercentage) / 4); // 4 calories per gram of protein
-  const fat = Math.round((calories * fatPercentage) / 9); // 9 calories per gram of fat
-  const carbs = Math.round((calories * carbsPercentage) / 4); // 4 calories per gram of carbs
-  
-  return { calories, protein, fat, carbs };
+// Calculate recommended goals from measurements and fitness goal
+const calculateGoals = (
+  weight: number,
+  height: number,
+  age: number,
+  gender: UserProfile["gender"],
+  unit: UserProfile["unit"],
+  fitnessGoal: UserProfile["fitnessGoal"]
+): { calories: number; protein: number; fat: number; carbs: number } => {
+  const imperial = unit === "imperial";
+  return calculateNutritionPlan({
+    age,
+    sex: gender,
+    weightKg: imperial ? toKg(weight, "lbs") : weight,
+    heightCm: imperial ? height * 2.54 : height, // inches to cm
+    ...ONBOARDING_GOAL_PLANS[fitnessGoal],
+  }).goal;
 };
 
 // Default recommended values based on gender (simplified)
@@ -108,9 +71,7 @@ const getDefaultValues = (
 ): Partial<UserProfile> => {
   // If weight and height are provided, calculate based on those
   if (weight > 0 && height > 0) {
-    const bmr = calculateBMR(weight, height, age, gender, unit);
-    const macros = calculateMacros(bmr, fitnessGoal);
-    return macros;
+    return calculateGoals(weight, height, age, gender, unit, fitnessGoal);
   }
   
   // Otherwise use default values
@@ -329,8 +290,7 @@ export default function OnboardingPage() {
 
   // Check if user already completed onboarding
   useEffect(() => {
-    const savedProfile = localStorage.getItem("userProfile");
-    if (savedProfile) {
+    if (userProfileRecord.exists()) {
       setHasUserProfile(true);
       // We'll let the app layout handle redirection to prevent loops
     }
@@ -346,25 +306,21 @@ export default function OnboardingPage() {
   }, []);
 
   const handleGenderChange = useCallback((value: "male" | "female" | "other") => {
-    const defaults = getDefaultValues(value, profile.age);
     setProfile((prev) => ({
       ...prev,
       gender: value,
-      ...defaults,
+      ...getDefaultValues(value, prev.age, prev.weight, prev.height, prev.unit, prev.fitnessGoal),
     }));
-  }, [profile.age]);
+  }, []);
   
   const handleFitnessGoalChange = useCallback((value: "muscle_gain" | "weight_loss" | "get_fit" | "overall_health" | "stamina") => {
     setProfile((prev) => {
       // If we already have weight and height, recalculate nutrition goals based on new fitness goal
       if (prev.weight > 0 && prev.height > 0) {
-        const bmr = calculateBMR(prev.weight, prev.height, prev.age, prev.gender, prev.unit);
-        const macros = calculateMacros(bmr, value);
-        
         return {
           ...prev,
           fitnessGoal: value,
-          ...macros,
+          ...calculateGoals(prev.weight, prev.height, prev.age, prev.gender, prev.unit, value),
         };
       }
       
@@ -411,12 +367,9 @@ export default function OnboardingPage() {
   const updateNutritionGoals = useCallback(() => {
     // Calculate nutrition goals based on profile data
     setProfile((prev) => {
-      const bmr = calculateBMR(prev.weight, prev.height, prev.age, prev.gender, prev.unit);
-      const macros = calculateMacros(bmr, prev.fitnessGoal);
-      
       return {
         ...prev,
-        ...macros
+        ...calculateGoals(prev.weight, prev.height, prev.age, prev.gender, prev.unit, prev.fitnessGoal),
       };
     });
   }, []);
@@ -511,7 +464,7 @@ export default function OnboardingPage() {
     // Simulate API call
     setTimeout(() => {
       // Save user profile to localStorage
-      localStorage.setItem("userProfile", JSON.stringify(profile));
+      userProfileRecord.write({ ...profile });
       
       // Save nutrition goals to the same location used by the Goals page
       const nutritionGoals = {
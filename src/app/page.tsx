@@ -33,10 +33,13 @@ import {
   Delete,
   DeleteIcon,
   Trash,
+  Pencil,
 } from "lucide-react";
-import { useState, type FC, useEffect, ReactNode, useMemo } from "react";
+import { useState, type FC, useEffect, ReactNode, useMemo, useCallback } from "react";
 import type { FoodEntry as LoggedFoodEntry, BlogPost, DailyLogEntry } from "@/types";
 import { useDailyLog } from "@/hooks/use-daily-log";
+import { DAILY_WATER_TARGET_ML, useWaterLog } from "@/hooks/use-water-log";
+import { useNotificationActions } from "@/hooks/use-notification-actions";
 import { useGoals } from "@/hooks/use-goals";
 import { useUserProfile } from "@/hooks/use-user-profile";
 import { format, isToday, subDays } from "date-fns";
@@ -50,6 +53,11 @@ import dynamic from "next/dynamic"; // Added dynamic import
 import { resetOnboarding } from "@/lib/onboarding";
 import { motion, AnimatePresence } from "framer-motion";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuLabel, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
+import { MEAL_TYPES, MEAL_TYPE_LABELS, groupEntriesByMeal } from "@/lib/meal-slots";
+import EditFoodEntrySheet from "@/components/food/edit-food-entry-sheet";
+import PlanAdherenceCard from "@/components/dashboard/plan-adherence-card";
+import WaterIntakeCard from "@/components/dashboard/water-intake-card";
 
 // Dynamically import CalorieDonutChart
 const CalorieDonutChart = dynamic(
@@ -453,11 +461,13 @@ const InfoTooltip = ({ title, description, color }: { title: string; description
 };
 
 export default function DashboardPage() {
-  const { dailyLog, foodEntries, isLoading: isLoadingLog, deleteFoodEntry, currentSelectedDate, selectDateForLog, getLogDataForDate } = useDailyLog();
-  const { goals, isLoading: isLoadingGoals } = useGoals();
+  const { dailyLog, foodEntries, isLoading: isLoadingLog, deleteFoodEntry, updateFoodEntry, moveFoodEntry, currentSelectedDate, selectDateForLog, reloadLog, getLogDataForDate } = useDailyLog();
+  const { entries: waterEntries, totalMl: waterTotalMl, addWater, removeWaterEntry, reload: reloadWaterLog } = useWaterLog(currentSelectedDate);
+  const { getGoalForDate, isLoading: isLoadingGoals } = useGoals();
   const { userProfile, isLoading: isLoadingProfile } = useUserProfile();
   const [isCalendarOpen, setIsCalendarOpen] = useState(false);
   const [showAllMeals, setShowAllMeals] = useState(false);
+  const [editingEntry, setEditingEntry] = useState<LoggedFoodEntry | null>(null);
   const [showFAB, setShowFAB] = useState(false);
 
   // Fetch previous logs for Smart Insights (last 14 days)
@@ -483,6 +493,12 @@ export default function DashboardPage() {
     }
   }, [currentSelectedDate, getLogDataForDate]);
 
+  // Water and meals logged from reminder notifications while the app was closed
+  useNotificationActions(useCallback(() => {
+    reloadLog();
+    reloadWaterLog();
+  }, [reloadLog, reloadWaterLog]));
+
   // Show/hide FAB based on scroll position
   useEffect(() => {
     const handleScroll = () => {
@@ -493,6 +509,17 @@ export default function DashboardPage() {
     return () => window.removeEventListener('scroll', handleScroll);
   }, []);
 
+  // Weekday overrides and date-ranged goals apply to the day being viewed, not just today
+  const goalForDate = useMemo(
+    () => (currentSelectedDate ? getGoalForDate(currentSelectedDate) : null),
+    [currentSelectedDate, getGoalForDate]
+  );
+  const goals = goalForDate?.goal ?? null;
+  const activeDietChart = useMemo(
+    () => userProfile.savedDietCharts?.find(chart => chart.id === userProfile.activeDietChartId) ?? null,
+    [userProfile.savedDietCharts, userProfile.activeDietChartId]
+  );
+
   const consumedCalories = dailyLog?.calories ?? 0;
   const goalCalories = goals?.calories ?? 0;
 
@@ -539,6 +566,7 @@ export default function DashboardPage() {
   const isDataLoading = isLoadingLog || isLoadingGoals || isLoadingProfile;
 
   const displayedFoodEntries = showAllMeals ? foodEntries : foodEntries.slice(0, 3);
+  const mealGroups = useMemo(() => groupEntriesByMeal(foodEntries), [foodEntries]);
 
   // Development tools
   const [showDevTools, setShowDevTools] = useState(false);
@@ -553,6 +581,14 @@ export default function DashboardPage() {
     });
   };
 
+  const handleSaveEditedEntry = (entryId: string, updates: Omit<LoggedFoodEntry, "id" | "timestamp">) => {
+    updateFoodEntry(entryId, updates);
+    toast({
+      title: "Meal Updated",
+      description: `${updates.name} is now ${Math.round(updates.calories)} kcal.`,
+    });
+  };
+
   return (
     <div className="flex flex-col gap-5 p-6 max-w-2xl mx-auto bg-[#F2F2F7] dark:bg-background">
       {/* Header - Apple Health Inspired */}
@@ -749,6 +785,11 @@ export default function DashboardPage() {
                           <span className="mx-1">of</span>
                           <span>{goalCalories} goal</span>
                         </div>
+                        {goalForDate && goalForDate.source !== 'default' && (
+                          <span className="rounded-full bg-[#E5E5EA]/60 dark:bg-gray-800/60 px-2 py-0.5 text-xs">
+                            {goalForDate.label}
+                          </span>
+                        )}
                       </motion.div>
                     )}
                     
@@ -1135,116 +1176,164 @@ export default function DashboardPage() {
           </div>
         ) : foodEntries.length > 0 ? (
           <div className="space-y-4">
-            <AnimatePresence mode="popLayout">
-              {displayedFoodEntries.map((entry: LoggedFoodEntry) => (
-                <motion.div
-                  key={entry.id}
-                  initial={{ opacity: 0, y: 20, scale: 0.98 }}
-                  animate={{ opacity: 1, y: 0, scale: 1 }}
-                  exit={{ opacity: 0, scale: 0.95, y: -10 }}
-                  transition={{ 
-                    duration: 0.4, 
-                    delay: 0.1,
-                    type: "spring",
-                    stiffness: 100
-                  }}
-                  layout
-                  whileHover={{ 
-                    y: -3,
-                    boxShadow: "0 10px 30px -10px rgba(0,0,0,0.15)",
-                    transition: { duration: 0.2 }
-                  }}
-                  className="group"
-                >
-                  <Card className="border border-[#E5E5EA] dark:border-gray-800/20 shadow-sm hover:shadow-md transition-all duration-300 overflow-hidden rounded-xl relative">
-                    <div className="absolute inset-0 bg-gradient-to-br from-white to-amber-50/20 dark:from-gray-900/80 dark:to-amber-900/10 z-0"></div>
-                    <div className="absolute inset-0 bg-gradient-to-br from-transparent to-amber-50/30 dark:to-amber-800/5 opacity-0 group-hover:opacity-100 transition-opacity duration-300 z-0"></div>
+            {mealGroups.map(group => {
+              const visibleEntries = group.entries.filter(entry => displayedFoodEntries.includes(entry));
+              if (visibleEntries.length === 0) return null;
+              return (
+                <div key={group.mealType} className="space-y-3">
+                  <div className="flex items-baseline justify-between px-1">
+                    <h3 className="text-sm font-semibold uppercase tracking-wide text-[#8E8E93]">
+                      {MEAL_TYPE_LABELS[group.mealType]}
+                    </h3>
+                    <span className="text-xs text-[#8E8E93]">
+                      <span className="font-medium text-[#1C1C1E] dark:text-white">{Math.round(group.totals.calories)} kcal</span>
+                      {" "}&middot; P {Math.round(group.totals.protein)}g &middot; F {Math.round(group.totals.fat)}g &middot; C {Math.round(group.totals.carbs)}g
+                    </span>
+                  </div>
+                  <AnimatePresence mode="popLayout">
+                    {visibleEntries.map((entry: LoggedFoodEntry) => (
+                      <motion.div
+                        key={entry.id}
+                        initial={{ opacity: 0, y: 20, scale: 0.98 }}
+                        animate={{ opacity: 1, y: 0, scale: 1 }}
+                        exit={{ opacity: 0, scale: 0.95, y: -10 }}
+                        transition={{ 
+                          duration: 0.4, 
+                          delay: 0.1,
+                          type: "spring",
+                          stiffness: 100
+                        }}
+                        layout
+                        whileHover={{ 
+                          y: -3,
+                          boxShadow: "0 10px 30px -10px rgba(0,0,0,0.15)",
+                          transition: { duration: 0.2 }
+                        }}
+                        className="group"
+                      >
+                        <Card className="border border-[#E5E5EA] dark:border-gray-800/20 shadow-sm hover:shadow-md transition-all duration-300 overflow-hidden rounded-xl relative">
+                          <div className="absolute inset-0 bg-gradient-to-br from-white to-amber-50/20 dark:from-gray-900/80 dark:to-amber-900/10 z-0"></div>
+                          <div className="absolute inset-0 bg-gradient-to-br from-transparent to-amber-50/30 dark:to-amber-800/5 opacity-0 group-hover:opacity-100 transition-opacity duration-300 z-0"></div>
                     
-                    <div className="relative z-10 p-4">
-                      <div className="flex items-start justify-between">
-                        <div className="flex items-start gap-3 max-w-[85%]">
-                          <motion.div 
-                            className="w-12 h-12 bg-gradient-to-br from-amber-100 to-amber-200 dark:from-amber-500/20 dark:to-amber-600/10 rounded-full flex items-center justify-center flex-shrink-0 mt-1"
-                            whileHover={{ scale: 1.05 }}
-                            animate={{ 
-                              boxShadow: ["0px 0px 0px rgba(245, 158, 11, 0)", "0px 0px 8px rgba(245, 158, 11, 0.3)", "0px 0px 0px rgba(245, 158, 11, 0)"]
-                            }}
-                            transition={{ duration: 2, repeat: Infinity }}
-                          >
-                            <Egg className="h-6 w-6 text-amber-500" />
-                          </motion.div>
-                          <div className="min-w-0">
-                            <h3 className="text-xl font-semibold text-[#1C1C1E] dark:text-white truncate">
-                              {entry.name}
-                            </h3>
-                            <div className="flex items-center gap-1 text-sm text-[#8E8E93] mt-1">
-                              <Flame className="h-3.5 w-3.5 text-orange-500" />
-                              <span className="font-medium text-transparent bg-clip-text bg-gradient-to-r from-orange-500 to-amber-500">{Math.round(entry.calories)} kcal</span>
+                          <div className="relative z-10 p-4">
+                            <div className="flex items-start justify-between">
+                              <div className="flex items-start gap-3 max-w-[85%]">
+                                <motion.div 
+                                  className="w-12 h-12 bg-gradient-to-br from-amber-100 to-amber-200 dark:from-amber-500/20 dark:to-amber-600/10 rounded-full flex items-center justify-center flex-shrink-0 mt-1"
+                                  whileHover={{ scale: 1.05 }}
+                                  animate={{ 
+                                    boxShadow: ["0px 0px 0px rgba(245, 158, 11, 0)", "0px 0px 8px rgba(245, 158, 11, 0.3)", "0px 0px 0px rgba(245, 158, 11, 0)"]
+                                  }}
+                                  transition={{ duration: 2, repeat: Infinity }}
+                                >
+                                  <Egg className="h-6 w-6 text-amber-500" />
+                                </motion.div>
+                                <div className="min-w-0">
+                                  <h3 className="text-xl font-semibold text-[#1C1C1E] dark:text-white truncate">
+                                    {entry.name}
+                                  </h3>
+                                  <div className="flex items-center gap-1 text-sm text-[#8E8E93] mt-1">
+                                    <Flame className="h-3.5 w-3.5 text-orange-500" />
+                                    <span className="font-medium text-transparent bg-clip-text bg-gradient-to-r from-orange-500 to-amber-500">{Math.round(entry.calories)} kcal</span>
+                                  </div>
+                                </div>
+                              </div>
+                              <div className="flex items-center flex-shrink-0">
+                                <Button
+                                  variant="ghost"
+                                  size="icon"
+                                  className="h-8 w-8 text-[#8E8E93] hover:text-[#1C1C1E] dark:hover:text-white rounded-full"
+                                  onClick={() => setEditingEntry(entry)}
+                                  aria-label="Edit meal"
+                                >
+                                  <Pencil className="h-4 w-4" />
+                                </Button>
+                                <DropdownMenu>
+                                  <DropdownMenuTrigger asChild>
+                                    <Button
+                                      variant="ghost"
+                                      size="icon"
+                                      className="h-8 w-8 text-[#8E8E93] hover:text-[#1C1C1E] dark:hover:text-white rounded-full"
+                                      aria-label="Move to another meal"
+                                    >
+                                      <MoreVertical className="h-5 w-5" />
+                                    </Button>
+                                  </DropdownMenuTrigger>
+                                  <DropdownMenuContent align="end">
+                                    <DropdownMenuLabel>Move to</DropdownMenuLabel>
+                                    {MEAL_TYPES.filter(type => type !== entry.mealType).map(type => (
+                                      <DropdownMenuItem key={type} onClick={() => moveFoodEntry(entry.id, type)}>
+                                        {MEAL_TYPE_LABELS[type]}
+                                      </DropdownMenuItem>
+                                    ))}
+                                  </DropdownMenuContent>
+                                </DropdownMenu>
+                                <Button
+                                  variant="ghost"
+                                  size="icon"
+                                  className="h-8 w-8 text-[#8E8E93] hover:text-[#FF3B30] dark:hover:text-orange-400 rounded-full"
+                                  onClick={() => deleteFoodEntry(entry.id)}
+                                  aria-label="Delete meal"
+                                >
+                                  <Trash className="h-5 w-5" />
+                                </Button>
+                              </div>
                             </div>
-                          </div>
-                        </div>
-                        <Button
-                          variant="ghost"
-                          size="icon"
-                          className="h-8 w-8 text-[#8E8E93] hover:text-[#FF3B30] dark:hover:text-orange-400 rounded-full flex-shrink-0"
-                          onClick={() => deleteFoodEntry(entry.id)}
-                          aria-label="Menu options"
-                        >
-                          <Trash className="h-5 w-5" />
-                        </Button>
-                      </div>
 
-                      <div className="mt-6 grid grid-cols-3 gap-4">
-                        <div>
-                          <div className="flex justify-between mb-1">
-                            <span className="text-lg font-semibold text-[#1C1C1E] dark:text-white">{Math.round(entry.protein)}g</span>
-                          </div>
-                          <div className="h-2 w-full bg-gray-100 dark:bg-gray-800 rounded-full overflow-hidden">
-                            <motion.div 
-                              className="h-full bg-gradient-to-r from-green-400 to-green-500 rounded-full"
-                              initial={{ width: 0 }}
-                              animate={{ width: `${Math.min(100, (entry.protein / 50) * 100)}%` }}
-                              transition={{ duration: 0.8, delay: 0.2 }}
-                            ></motion.div>
-                          </div>
-                          <span className="text-sm text-gray-600 dark:text-gray-400">Protein</span>
-                        </div>
+                            <div className="mt-6 grid grid-cols-3 gap-4">
+                              <div>
+                                <div className="flex justify-between mb-1">
+                                  <span className="text-lg font-semibold text-[#1C1C1E] dark:text-white">{Math.round(entry.protein)}g</span>
+                                </div>
+                                <div className="h-2 w-full bg-gray-100 dark:bg-gray-800 rounded-full overflow-hidden">
+                                  <motion.div 
+                                    className="h-full bg-gradient-to-r from-green-400 to-green-500 rounded-full"
+                                    initial={{ width: 0 }}
+                                    animate={{ width: `${Math.min(100, (entry.protein / 50) * 100)}%` }}
+                                    transition={{ duration: 0.8, delay: 0.2 }}
+                                  ></motion.div>
+                                </div>
+                                <span className="text-sm text-gray-600 dark:text-gray-400">Protein</span>
+                              </div>
 
-                        <div>
-                          <div className="flex justify-between mb-1">
-                            <span className="text-lg font-semibold text-[#1C1C1E] dark:text-white">{Math.round(entry.fat)}g</span>
-                          </div>
-                          <div className="h-2 w-full bg-gray-100 dark:bg-gray-800 rounded-full overflow-hidden">
-                            <motion.div 
-                              className="h-full bg-gradient-to-r from-orange-400 to-orange-500 rounded-full"
-                              initial={{ width: 0 }}
-                              animate={{ width: `${Math.min(100, (entry.fat / 50) * 100)}%` }}
-                              transition={{ duration: 0.8, delay: 0.3 }}
-                            ></motion.div>
-                          </div>
-                          <span className="text-sm text-gray-600 dark:text-gray-400">Fats</span>
-                        </div>
+                              <div>
+                                <div className="flex justify-between mb-1">
+                                  <span className="text-lg font-semibold text-[#1C1C1E] dark:text-white">{Math.round(entry.fat)}g</span>
+                                </div>
+                                <div className="h-2 w-full bg-gray-100 dark:bg-gray-800 rounded-full overflow-hidden">
+                                  <motion.div 
+                                    className="h-full bg-gradient-to-r from-orange-400 to-orange-500 rounded-full"
+                                    initial={{ width: 0 }}
+                                    animate={{ width: `${Math.min(100, (entry.fat / 50) * 100)}%` }}
+                                    transition={{ duration: 0.8, delay: 0.3 }}
+                                  ></motion.div>
+                                </div>
+                                <span className="text-sm text-gray-600 dark:text-gray-400">Fats</span>
+                              </div>
 
-                        <div>
-                          <div className="flex justify-between mb-1">
-                            <span className="text-lg font-semibold text-[#1C1C1E] dark:text-white">{Math.round(entry.carbs)}g</span>
-                          </div>
-                          <div className="h-2 w-full bg-gray-100 dark:bg-gray-800 rounded-full overflow-hidden">
-                            <motion.div 
-                              className="h-full bg-gradient-to-r from-amber-400 to-amber-500 rounded-full"
-                              initial={{ width: 0 }}
-                              animate={{ width: `${Math.min(100, (entry.carbs / 50) * 100)}%` }}
-                              transition={{ duration: 0.8, delay: 0.4 }}
-                            ></motion.div>
+                              <div>
+                                <div className="flex justify-between mb-1">
+                                  <span className="text-lg font-semibold text-[#1C1C1E] dark:text-white">{Math.round(entry.carbs)}g</span>
+                                </div>
+                                <div className="h-2 w-full bg-gray-100 dark:bg-gray-800 rounded-full overflow-hidden">
+                                  <motion.div 
+                                    className="h-full bg-gradient-to-r from-amber-400 to-amber-500 rounded-full"
+                                    initial={{ width: 0 }}
+                                    animate={{ width: `${Math.min(100, (entry.carbs / 50) * 100)}%` }}
+                                    transition={{ duration: 0.8, delay: 0.4 }}
+                                  ></motion.div>
+                                </div>
+                                <span className="text-sm text-gray-600 dark:text-gray-400">Carbs</span>
+                              </div>
+                            </div>
                           </div>
-                          <span className="text-sm text-gray-600 dark:text-gray-400">Carbs</span>
-                        </div>
-                      </div>
-                    </div>
-                  </Card>
-                </motion.div>
-              ))}
-            </AnimatePresence>
+                        </Card>
+                      </motion.div>
+                    ))}
+                  </AnimatePresence>
+                </div>
+              );
+            })}
             
             {foodEntries.length > 3 && (
               <div className="text-center mt-4">
@@ -1257,6 +1346,12 @@ export default function DashboardPage() {
                 </Button>
               </div>
             )}
+
+            <EditFoodEntrySheet
+              entry={editingEntry}
+              onOpenChange={(open) => { if (!open) setEditingEntry(null); }}
+              onSave={handleSaveEditedEntry}
+            />
           </div>
         ) : (
           <Card className="border border-[#E5E5EA] dark:border-gray-800/20 shadow-md rounded-xl overflow-hidden text-center py-8 px-6 relative bg-white dark:bg-black/20">
@@ -1501,6 +1596,35 @@ export default function DashboardPage() {
         </div>
       </motion.div>
 
+      {/* Diet chart adherence, when the user is following a saved chart */}
+      {activeDietChart && currentSelectedDate && (
+        <motion.div
+          className="mt-10 w-full"
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ duration: 0.5, delay: 0.5, type: "spring" }}
+        >
+          <PlanAdherenceCard chart={activeDietChart} date={currentSelectedDate} entries={foodEntries} />
+        </motion.div>
+      )}
+
+      {currentSelectedDate && (
+        <motion.div
+          className="mt-10 w-full"
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ duration: 0.5, delay: 0.5, type: "spring" }}
+        >
+          <WaterIntakeCard
+            entries={waterEntries}
+            totalMl={waterTotalMl}
+            targetMl={DAILY_WATER_TARGET_ML}
+            onAdd={isToday(currentSelectedDate) ? addWater : undefined}
+            onRemove={removeWaterEntry}
+          />
+        </motion.div>
+      )}
+
       {/* Smart Insights - Apple Health Style */}
       <motion.div 
         className="mt-10 w-full"
@@ -1558,6 +1682,7 @@ export default function DashboardPage() {
             <div className="relative z-10">
               <SmartInsights 
                 goals={goals}
+                goalLabel={goalForDate && goalForDate.source !== 'default' ? goalForDate.label : undefined}
                 dailyLog={dailyLog}
                 currentSelectedDate={currentSelectedDate}
                 previousLogs={previousLogs}
@@ -12,6 +12,8 @@ import { useToast } from "@/hooks/use-toast";
 import { Save, User, Mail, ArrowLeft, UploadCloud, Scale, Ruler, Calendar } from "lucide-react";
 import { Separator } from "@/components/ui/separator";
 import type { UserProfile } from "@/types";
+import { userProfileRecord } from "@/lib/storage";
+import { profileWeightUnit } from "@/lib/weight-trend";
 import { motion, AnimatePresence } from "framer-motion";
 
 const DEFAULT_USER_PROFILE: UserProfile = {
@@ -62,41 +64,32 @@ export default function EditProfilePage() {
   const { toast } = useToast();
 
   useEffect(() => {
-    const storedProfile = localStorage.getItem("userProfile");
-    if (storedProfile) {
-      try {
-        const profile: UserProfile = JSON.parse(storedProfile);
-        setName(profile.name);
-        setEmail(profile.email || "");
-        setAge(profile.age);
-        setHeight(profile.height);
-        setWeight(profile.weight);
-        
-        // Set stored units if available
-        if (profile.heightUnit) setHeightUnit(profile.heightUnit);
-        if (profile.weightUnit) setWeightUnit(profile.weightUnit);
-        
-        // Calculate feet and inches if height is in cm
-        if (profile.height && profile.heightUnit === "ft") {
-          const totalInches = profile.height;
-          setFeet(Math.floor(totalInches / 12));
-          setInches(Math.round(totalInches % 12));
-        } else if (profile.height && heightUnit === "ft") {
-          // Convert cm to feet/inches for display
-          const totalInches = profile.height / 2.54;
-          setFeet(Math.floor(totalInches / 12));
-          setInches(Math.round(totalInches % 12));
-        }
-        
-        setAvatarUrl(profile.avatarUrl || DEFAULT_USER_PROFILE.avatarUrl);
-        setImagePreview(profile.avatarUrl || null);
-      } catch (e) {
-        console.error("Failed to parse user profile from localStorage", e);
-        setName(DEFAULT_USER_PROFILE.name);
-        setEmail(DEFAULT_USER_PROFILE.email);
-        setAvatarUrl(DEFAULT_USER_PROFILE.avatarUrl);
-        setImagePreview(DEFAULT_USER_PROFILE.avatarUrl || null);
+    const profile = userProfileRecord.read();
+    if (profile) {
+      setName(profile.name);
+      setEmail(profile.email || "");
+      setAge(profile.age);
+      setHeight(profile.height);
+      setWeight(profile.weight);
+      
+      // Set stored units if available
+      if (profile.heightUnit) setHeightUnit(profile.heightUnit);
+      setWeightUnit(profileWeightUnit(profile));
+      
+      // Calculate feet and inches if height is in cm
+      if (profile.height && profile.heightUnit === "ft") {
+        const totalInches = profile.height;
+        setFeet(Math.floor(totalInches / 12));
+        setInches(Math.round(totalInches % 12));
+      } else if (profile.height && heightUnit === "ft") {
+        // Convert cm to feet/inches for display
+        const totalInches = profile.height / 2.54;
+        setFeet(Math.floor(totalInches / 12));
+        setInches(Math.round(totalInches % 12));
       }
+      
+      setAvatarUrl(profile.avatarUrl || DEFAULT_USER_PROFILE.avatarUrl);
+      setImagePreview(profile.avatarUrl || null);
     } else {
       setName(DEFAULT_USER_PROFILE.name);
       setEmail(DEFAULT_USER_PROFILE.email);
@@ -192,7 +185,8 @@ export default function EditProfilePage() {
       heightUnit,
       weightUnit
     };
-    localStorage.setItem("userProfile", JSON.stringify(updatedProfile));
+    // Merge so saved diet charts and onboarding details are kept
+    userProfileRecord.write({ ...userProfileRecord.read(), ...updatedProfile });
 
     setTimeout(() => {
       toast({
@@ -23,7 +23,8 @@ import {
   Eye,
   Scale,
   Ruler,
-  Mail
+  Mail,
+  ShoppingCart
 } from "lucide-react";
 import { motion, AnimatePresence } from "framer-motion";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
@@ -42,6 +43,10 @@ import { Skeleton } from "@/components/ui/skeleton";
 import { useUserProfile } from "@/hooks/use-user-profile";
 import { useToast } from "@/hooks/use-toast";
 import { cn } from "@/lib/utils";
+import { profileWeightUnit } from "@/lib/weight-trend";
+import DataTransferCard from "@/components/profile/data-transfer-card";
+import GroceryListDialog from "@/components/diet-chart/grocery-list-dialog";
+import type { SavedDietChart } from "@/types";
 
 interface ListItemProps {
   href?: string;
@@ -127,6 +132,7 @@ export default function ProfilePage() {
   const { userProfile, isLoading, updateUserProfile } = useUserProfile();
   const { toast } = useToast();
   const [avatarHover, setAvatarHover] = useState(false);
+  const [shoppingListChart, setShoppingListChart] = useState<SavedDietChart | null>(null);
   
   const handleLogout = () => {
     toast({
@@ -216,7 +222,7 @@ export default function ProfilePage() {
                     {userProfile.weight && (
                       <Badge variant="outline" className="bg-white/10 text-white border-white/20 font-medium py-1 px-2">
                         <Scale className="h-3 w-3 mr-1 opacity-80" />
-                        {userProfile.weight} {userProfile.weightUnit || "kg"}
+                        {userProfile.weight} {profileWeightUnit(userProfile)}
                       </Badge>
                     )}
                     {userProfile.height && (
@@ -444,6 +450,14 @@ export default function ProfilePage() {
                         </p>
                       </div>
                       <div className="flex gap-2">
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => setShoppingListChart(chart)}
+                          aria-label={`Shopping list for ${chart.name}`}
+                        >
+                          <ShoppingCart className="h-4 w-4" />
+                        </Button>
                         <Button variant="ghost" size="icon" asChild>
                           <Link href={`/diet-chart?id=${chart.id}`}>
                             <Eye className="h-4 w-4" />
@@ -490,6 +504,11 @@ export default function ProfilePage() {
             )}
           </CardContent>
         </Card>
+
+        <GroceryListDialog chart={shoppingListChart} onClose={() => setShoppingListChart(null)} />
+
+        <DataTransferCard />
+
          {/* App Version */}
          <div className="mt-8 text-center text-xs text-muted-foreground">
           <p>Calorie Tracker v1.0.0</p>
@@ -9,6 +9,7 @@ import { useDailyLog } from "@/hooks/use-daily-log";
 import { useGoals } from "@/hooks/use-goals";
 import { format, isToday } from "date-fns";
 import { motion, AnimatePresence } from "framer-motion";
+import WeightTrendCard from "@/components/progress/weight-trend-card";
 
 const CHART_COLORS = ['hsl(var(--chart-1))', 'hsl(var(--chart-2))', 'hsl(var(--chart-3))', 'hsl(var(--chart-4))', 'hsl(var(--chart-5))'];
 
@@ -62,7 +63,7 @@ const renderActiveShape = (props: any) => {
 
 export default function ProgressPage() {
   const { dailyLog, foodEntries, isLoading: isLoadingLog, currentSelectedDate } = useDailyLog();
-  const { goals, isLoading: isLoadingGoals } = useGoals();
+  const { getGoalForDate, isLoading: isLoadingGoals } = useGoals();
   const [activeIndex, setActiveIndex] = useState(0);
   const [chartsVisible, setChartsVisible] = useState(false);
 
@@ -74,7 +75,7 @@ export default function ProgressPage() {
   const carbsToday = dailyLog?.carbs ?? 0;
   const mealsLoggedToday = foodEntries?.length ?? 0;
 
-  const calorieGoal = goals?.calories ?? 0;
+  const calorieGoal = currentSelectedDate ? getGoalForDate(currentSelectedDate).goal.calories : 0;
   const calorieProgress = calorieGoal > 0 ? (caloriesToday / calorieGoal) * 100 : 0;
   const isOnTrackToday = calorieGoal > 0 && caloriesToday <= calorieGoal;
 
@@ -615,6 +616,14 @@ export default function ProgressPage() {
           </Card>
         </motion.div>
       </div>
+
+      <motion.div
+        initial={{ opacity: 0, y: 30 }}
+        animate={{ opacity: chartsVisible ? 1 : 0, y: chartsVisible ? 0 : 30 }}
+        transition={{ delay: 0.7, duration: 0.5 }}
+      >
+        <WeightTrendCard />
+      </motion.div>
     </div>
   );
 }
@@ -8,6 +8,9 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle, CardFooter }
 import { Input } from "@/components/ui/input";
 import { useToast } from "@/hooks/use-toast";
 import { useNotificationService } from "@/lib/notification-service";
+import { useScheduledReminders } from "@/hooks/use-scheduled-reminders";
+import ScheduledRemindersCard from "@/components/reminders/scheduled-reminders-card";
+import { reminderSettingsRecord } from "@/lib/storage";
 import { 
   BellRing, Save, CheckCircle, Clock, Droplets, Scale, 
   CalendarCheck, RefreshCw, BellDot, Bell, BellOff, 
@@ -83,27 +86,29 @@ export default function RemindersPage() {
     initializeNotifications, 
     subscribeToNotifications, 
     unsubscribeFromNotifications, 
+    syncReminderPreferences,
     showTestNotification,
     isSupported,
     subscription 
   } = useNotificationService();
+  const scheduledReminders = useScheduledReminders();
+  const { refresh: refreshScheduledReminders } = scheduledReminders;
 
   // Load settings from localStorage
   useEffect(() => {
-    const storedSettings = localStorage.getItem("reminderSettings");
+    const storedSettings = reminderSettingsRecord.read();
     if (storedSettings) {
-      const parsedSettings = JSON.parse(storedSettings);
-      setSettings(parsedSettings);
-      setSavedSettings(parsedSettings);
+      setSettings(storedSettings);
+      setSavedSettings(storedSettings);
     }
   }, []);
 
   // Initialize notifications on component mount
   useEffect(() => {
     if (isSupported) {
-      initializeNotifications();
+      initializeNotifications().then(refreshScheduledReminders);
     }
-  }, [isSupported, initializeNotifications]);
+  }, [isSupported, initializeNotifications, refreshScheduledReminders]);
 
   const handleSwitchChange = (checked: boolean, name: keyof ReminderSettings) => {
     setSettings((prev) => ({ ...prev, [name]: checked }));
@@ -122,13 +127,16 @@ export default function RemindersPage() {
     setIsLoading(true);
     
     try {
-      // Save settings to localStorage
-      localStorage.setItem("reminderSettings", JSON.stringify(settings));
+      // Save settings to local storage
+      reminderSettingsRecord.write(settings);
       setSavedSettings(settings);
       
       // Initialize notifications if supported
       if (isSupported) {
         await initializeNotifications();
+        // Server-sent reminders follow the preferences stored with this device's subscription
+        await syncReminderPreferences(settings);
+        await refreshScheduledReminders();
       }
       
       toast({
@@ -656,6 +664,16 @@ export default function RemindersPage() {
             </form>
           </CardContent>
       </Card>
+
+        {isSupported && (
+          <ScheduledRemindersCard
+            reminders={scheduledReminders.reminders}
+            isLoading={scheduledReminders.isLoading}
+            error={scheduledReminders.error}
+            onCancel={scheduledReminders.cancelReminder}
+            onMove={scheduledReminders.moveReminder}
+          />
+        )}
       </motion.div>
     </div>
   );
@@ -18,6 +18,7 @@ import {
 import { Button } from "@/components/ui/button";
 import { useToast } from "@/hooks/use-toast";
 import { useAdaptivePerformance } from "@/hooks/use-performance";
+import { userProfileRecord } from "@/lib/storage";
 
 // Add this style tag to extract RGB values from the CSS variables
 // which will be used for background gradients
@@ -117,19 +118,18 @@ export default function WelcomePage() {
 
   useEffect(() => {
     // Load user profile
-    const savedProfile = localStorage.getItem("userProfile");
-    if (!savedProfile) {
+    if (!userProfileRecord.exists()) {
       // Redirect to onboarding if no profile exists
       router.push("/onboarding");
       return;
     }
 
-    try {
-      const parsedProfile = JSON.parse(savedProfile);
-      setProfile(parsedProfile);
+    const savedProfile = userProfileRecord.read();
+    if (savedProfile) {
+      setProfile(savedProfile);
       setIsLoading(false);
-    } catch (error) {
-      console.error("Error parsing profile:", error);
+    } else {
+      // The stored profile was corrupt and has been quarantined
       toast({
         variant: "destructive",
         title: "Error loading profile",
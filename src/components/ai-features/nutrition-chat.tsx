@@ -0,0 +1,167 @@
+"use client";
+
+import { useEffect, useRef, useState, type FC, type FormEvent } from "react";
+import { format, parseISO } from "date-fns";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { AlertCircle, Bot, Loader2, MessageCircle, Send, Trash2 } from "lucide-react";
+import type { FoodEntry, Goal, NutritionChatMessage, SavedDietChart } from "@/types";
+import { useNutritionChat } from "@/hooks/use-nutrition-chat";
+import { CHAT_CONTEXT_DAYS, buildNutritionChatData } from "@/lib/nutrition-chat";
+
+interface NutritionChatProps {
+  defaultGoal: Goal;
+  getEntriesForDate: (date: Date) => FoodEntry[];
+  getGoalForDate: (date: Date) => Goal;
+  activeDietChart?: SavedDietChart | null;
+}
+
+const STARTER_QUESTIONS = [
+  "Why was I over on fat this week?",
+  "What can I eat for dinner to hit my protein goal?",
+  "Which foods give me the most calories?",
+  "How closely have I followed my diet chart?",
+];
+
+const MessageBubble: FC<{ message: NutritionChatMessage }> = ({ message }) => {
+  if (message.role === "user") {
+    return (
+      <div className="flex justify-end">
+        <div className="max-w-[85%] rounded-2xl rounded-br-sm bg-primary text-primary-foreground px-4 py-2 text-sm whitespace-pre-line">
+          {message.text}
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex gap-2">
+      <div className="h-7 w-7 rounded-full bg-primary/10 flex items-center justify-center flex-shrink-0">
+        <Bot className="h-4 w-4 text-primary" />
+      </div>
+      <div className="max-w-[85%] space-y-2">
+        <div className="rounded-2xl rounded-tl-sm bg-muted px-4 py-2 text-sm whitespace-pre-line">{message.text}</div>
+        {message.citations && message.citations.length > 0 && (
+          <div className="flex flex-wrap gap-1.5">
+            {message.citations.map(citation => (
+              <Badge key={citation.id} variant="outline" className="font-normal text-xs">
+                {citation.name} · {format(parseISO(citation.date), "MMM d")} · {Math.round(citation.calories)} kcal
+              </Badge>
+            ))}
+          </div>
+        )}
+        {message.reasoning && (
+          <details className="text-xs text-muted-foreground">
+            <summary className="cursor-pointer">How I worked this out</summary>
+            <p className="mt-1">{message.reasoning}</p>
+          </details>
+        )}
+      </div>
+    </div>
+  );
+};
+
+const NutritionChat: FC<NutritionChatProps> = ({ defaultGoal, getEntriesForDate, getGoalForDate, activeDietChart }) => {
+  const { messages, isSending, error, sendMessage, clearConversation } = useNutritionChat();
+  const [draft, setDraft] = useState("");
+  const bottomRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ behavior: "smooth", block: "nearest" });
+  }, [messages.length, isSending]);
+
+  const send = (text: string) => {
+    if (!text.trim() || isSending) return;
+    setDraft("");
+    // Built per message so the assistant sees entries logged since the last one
+    const data = buildNutritionChatData(new Date(), defaultGoal, getEntriesForDate, getGoalForDate, activeDietChart);
+    void sendMessage(text, data);
+  };
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    send(draft);
+  };
+
+  return (
+    <Card className="w-full shadow-xl overflow-hidden border-t-4 border-t-emerald-500">
+      <CardHeader className="flex flex-row items-start justify-between gap-3">
+        <div>
+          <CardTitle className="text-2xl font-bold flex items-center gap-2">
+            <MessageCircle className="h-6 w-6 text-emerald-600 dark:text-emerald-400" />
+            Ask About Your Nutrition
+          </CardTitle>
+          <CardDescription className="mt-1">
+            Ask questions about the last {CHAT_CONTEXT_DAYS} days of your log, your goals and your diet chart. Answers point to the entries they&apos;re based on.
+          </CardDescription>
+        </div>
+        {messages.length > 0 && (
+          <Button variant="ghost" size="sm" onClick={clearConversation} disabled={isSending}>
+            <Trash2 className="h-4 w-4 mr-1" />
+            Clear
+          </Button>
+        )}
+      </CardHeader>
+
+      <CardContent>
+        <div className="h-[26rem] overflow-y-auto space-y-4 rounded-lg border bg-background/50 p-4">
+          {messages.length === 0 && !isSending && (
+            <div className="h-full flex flex-col items-center justify-center gap-3 text-center">
+              <p className="text-sm text-muted-foreground">Try asking:</p>
+              <div className="flex flex-wrap justify-center gap-2">
+                {STARTER_QUESTIONS.map(question => (
+                  <Button key={question} variant="outline" size="sm" className="h-auto py-1.5 whitespace-normal" onClick={() => send(question)}>
+                    {question}
+                  </Button>
+                ))}
+              </div>
+            </div>
+          )}
+          {messages.map(message => (
+            <MessageBubble key={message.id} message={message} />
+          ))}
+          {isSending && (
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              Looking through your log...
+            </div>
+          )}
+          <div ref={bottomRef} />
+        </div>
+        {error && (
+          <Alert variant="destructive" className="mt-3">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+      </CardContent>
+
+      <CardFooter>
+        <form onSubmit={handleSubmit} className="flex w-full gap-2">
+          <Textarea
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter" && !e.shiftKey) {
+                e.preventDefault();
+                send(draft);
+              }
+            }}
+            placeholder="Ask about your meals, goals or diet chart..."
+            className="min-h-[44px] resize-none"
+            rows={1}
+            aria-label="Message"
+          />
+          <Button type="submit" size="icon" className="h-11 w-11 flex-shrink-0" disabled={isSending || !draft.trim()} aria-label="Send">
+            <Send className="h-4 w-4" />
+          </Button>
+        </form>
+      </CardFooter>
+    </Card>
+  );
+};
+
+export default NutritionChat;
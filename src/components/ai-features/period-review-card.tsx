@@ -0,0 +1,139 @@
+"use client";
+
+import type { FC } from "react";
+import { format, parseISO } from "date-fns";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { Brain, CalendarRange, ListChecks, ThumbsDown, ThumbsUp, TrendingUp } from "lucide-react";
+import type { SavedPeriodReview } from "@/types";
+
+interface PeriodReviewCardProps {
+  savedReview: SavedPeriodReview;
+}
+
+const formatDay = (date: string, pattern = "EEE, MMM d") => {
+  try {
+    return format(parseISO(date), pattern);
+  } catch {
+    return date; // The model may echo a date in another format
+  }
+};
+
+const BulletList: FC<{ items: string[] }> = ({ items }) => (
+  <ul className="list-disc pl-5 space-y-1.5 text-sm text-muted-foreground">
+    {items.map((item, index) => (
+      <li key={index}>{item}</li>
+    ))}
+  </ul>
+);
+
+const PeriodReviewCard: FC<PeriodReviewCardProps> = ({ savedReview }) => {
+  const { input, review } = savedReview;
+  const { stats } = input;
+
+  return (
+    <Card className="w-full shadow-xl border-t-4 border-t-indigo-500 overflow-hidden">
+      <CardHeader className="bg-gradient-to-r from-indigo-50 to-transparent dark:from-indigo-950/20 dark:to-transparent border-b">
+        <div className="flex items-start justify-between gap-3">
+          <div>
+            <CardTitle className="text-xl font-bold flex items-center gap-2">
+              <CalendarRange className="h-5 w-5 text-indigo-600 dark:text-indigo-400" />
+              {input.period === "weekly" ? "Weekly" : "Monthly"} Review
+            </CardTitle>
+            <CardDescription className="mt-1">
+              {formatDay(input.startDate, "MMM d")} – {formatDay(input.endDate, "MMM d, yyyy")} · generated {format(new Date(savedReview.createdAt), "MMM d")}
+            </CardDescription>
+          </div>
+          <Badge variant="outline" className="text-base px-3 py-1">
+            {review.consistencyScore}/100
+          </Badge>
+        </div>
+      </CardHeader>
+
+      <CardContent className="p-0 divide-y">
+        <div className="p-5 space-y-4">
+          <p className="text-muted-foreground">{review.overview}</p>
+          <div className="space-y-1.5">
+            <div className="flex justify-between text-sm">
+              <span className="font-medium">Consistency</span>
+              <span className="text-muted-foreground">{review.consistencyScore}%</span>
+            </div>
+            <Progress value={review.consistencyScore} className="h-2" />
+            <p className="text-xs text-muted-foreground">{review.consistencyExplanation}</p>
+          </div>
+          <div className="grid grid-cols-3 gap-2 text-center text-xs">
+            <div className="rounded-lg bg-muted/40 p-2">
+              <div className="text-muted-foreground">Days tracked</div>
+              <div className="font-semibold">{stats.daysLogged}/{stats.daysInPeriod}</div>
+            </div>
+            <div className="rounded-lg bg-muted/40 p-2">
+              <div className="text-muted-foreground">On calorie target</div>
+              <div className="font-semibold">{stats.daysWithinCalorieTarget} days</div>
+            </div>
+            <div className="rounded-lg bg-muted/40 p-2">
+              <div className="text-muted-foreground">Average</div>
+              <div className="font-semibold">{stats.averages.calories} kcal</div>
+            </div>
+          </div>
+        </div>
+
+        <div className="p-5">
+          <h3 className="text-base font-semibold flex items-center gap-2 mb-3">
+            <TrendingUp className="h-4 w-4 text-indigo-500" />
+            Trends
+          </h3>
+          <BulletList items={review.trends} />
+        </div>
+
+        <div className="p-5 grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <div className="rounded-lg border border-green-200 dark:border-green-900/40 bg-green-50/50 dark:bg-green-950/10 p-3">
+            <div className="text-sm font-semibold flex items-center gap-2 text-green-700 dark:text-green-400">
+              <ThumbsUp className="h-4 w-4" />
+              Best day · {formatDay(review.bestDay.date)}
+            </div>
+            <p className="text-sm text-muted-foreground mt-1">{review.bestDay.reason}</p>
+          </div>
+          <div className="rounded-lg border border-amber-200 dark:border-amber-900/40 bg-amber-50/50 dark:bg-amber-950/10 p-3">
+            <div className="text-sm font-semibold flex items-center gap-2 text-amber-700 dark:text-amber-400">
+              <ThumbsDown className="h-4 w-4" />
+              Toughest day · {formatDay(review.worstDay.date)}
+            </div>
+            <p className="text-sm text-muted-foreground mt-1">{review.worstDay.reason}</p>
+          </div>
+        </div>
+
+        <div className="p-5">
+          <h3 className="text-base font-semibold flex items-center gap-2 mb-3">
+            <Brain className="h-4 w-4 text-indigo-500" />
+            Macro Patterns
+          </h3>
+          <BulletList items={review.macroObservations} />
+          {input.topFoods.length > 0 && (
+            <div className="flex flex-wrap gap-1.5 mt-3">
+              {input.topFoods.map(food => (
+                <Badge key={food.name} variant="secondary" className="font-normal">
+                  {food.name} ×{food.timesLogged}
+                </Badge>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="p-5">
+          <h3 className="text-base font-semibold flex items-center gap-2 mb-3">
+            <ListChecks className="h-4 w-4 text-indigo-500" />
+            Plan for Next {input.period === "weekly" ? "Week" : "Month"}
+          </h3>
+          <ol className="list-decimal pl-5 space-y-1.5 text-sm text-muted-foreground">
+            {review.nextPeriodPlan.map((step, index) => (
+              <li key={index}>{step}</li>
+            ))}
+          </ol>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default PeriodReviewCard;
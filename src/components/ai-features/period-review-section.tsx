@@ -0,0 +1,150 @@
+"use client";
+
+import { useState, type FC } from "react";
+import { format, parseISO } from "date-fns";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { AlertCircle, CalendarRange, History, Loader2, Sparkles, Trash2 } from "lucide-react";
+import type { DailyLogEntry, FoodEntry, Goal } from "@/types";
+import { reviewPeriod } from "@/ai/flows/review-period-flow";
+import { usePeriodReviews } from "@/hooks/use-period-reviews";
+import { useToast } from "@/hooks/use-toast";
+import { REVIEW_PERIOD_DAYS, buildReviewPeriodInput, type ReviewPeriodKind } from "@/lib/period-review";
+import PeriodReviewCard from "@/components/ai-features/period-review-card";
+
+interface PeriodReviewSectionProps {
+  getLogDataForDate: (date: Date) => { summary: DailyLogEntry | null; entries: FoodEntry[] };
+  getGoalForDate: (date: Date) => Goal;
+}
+
+// A trend needs more than one day to compare
+const MIN_LOGGED_DAYS = 2;
+
+const PeriodReviewSection: FC<PeriodReviewSectionProps> = ({ getLogDataForDate, getGoalForDate }) => {
+  const { reviews, saveReview, deleteReview } = usePeriodReviews();
+  const [period, setPeriod] = useState<ReviewPeriodKind>("weekly");
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  // Show the newest review until another one is picked
+  const selected = reviews.find(review => review.id === selectedId) ?? reviews[0];
+
+  const handleGenerate = async () => {
+    setError(null);
+    const input = buildReviewPeriodInput(period, new Date(), getLogDataForDate, getGoalForDate);
+    if (input.stats.daysLogged < MIN_LOGGED_DAYS) {
+      toast({
+        title: "Not Enough Logged Days",
+        description: `Log food on at least ${MIN_LOGGED_DAYS} days in the last ${REVIEW_PERIOD_DAYS[period]} to get a review.`,
+      });
+      return;
+    }
+
+    setIsGenerating(true);
+    try {
+      const result = await reviewPeriod(input);
+      if (!result.ok) {
+        const errorMessage = `The AI's review was incomplete after ${result.error.attempts.length} attempts. Please try again.`;
+        setError(errorMessage);
+        toast({ title: "Error Generating Review", description: errorMessage, variant: "destructive" });
+        return;
+      }
+      const saved = saveReview(input, result.value);
+      setSelectedId(saved.id);
+      toast({ title: "Review Ready", description: `Your ${period} review has been saved.` });
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : "An unknown error occurred.";
+      setError(errorMessage);
+      toast({ title: "Error Generating Review", description: errorMessage, variant: "destructive" });
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  return (
+    <div className="space-y-8">
+      <Card className="w-full shadow-xl overflow-hidden border-t-4 border-t-indigo-500">
+        <CardHeader>
+          <CardTitle className="text-2xl font-bold flex items-center gap-2">
+            <CalendarRange className="h-6 w-6 text-indigo-600 dark:text-indigo-400" />
+            Weekly & Monthly Review
+          </CardTitle>
+          <CardDescription>
+            Look back over the last {REVIEW_PERIOD_DAYS.weekly} or {REVIEW_PERIOD_DAYS.monthly} days: trends, consistency, your best and toughest days, and a plan for what&apos;s next.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="flex flex-col sm:flex-row gap-3">
+          <Select value={period} onValueChange={(value) => setPeriod(value as ReviewPeriodKind)}>
+            <SelectTrigger className="sm:w-48" aria-label="Review period">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="weekly">Last {REVIEW_PERIOD_DAYS.weekly} days</SelectItem>
+              <SelectItem value="monthly">Last {REVIEW_PERIOD_DAYS.monthly} days</SelectItem>
+            </SelectContent>
+          </Select>
+          <Button onClick={handleGenerate} disabled={isGenerating} className="sm:flex-1 bg-gradient-to-r from-indigo-600 to-indigo-500 hover:from-indigo-700 hover:to-indigo-600">
+            {isGenerating ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Reviewing...
+              </>
+            ) : (
+              <>
+                <Sparkles className="mr-2 h-4 w-4" />
+                Generate {period === "weekly" ? "Weekly" : "Monthly"} Review
+              </>
+            )}
+          </Button>
+        </CardContent>
+        {error && (
+          <CardContent className="pt-0">
+            <Alert variant="destructive">
+              <AlertCircle className="h-4 w-4" />
+              <AlertTitle>Review Error</AlertTitle>
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          </CardContent>
+        )}
+      </Card>
+
+      {selected && <PeriodReviewCard savedReview={selected} />}
+
+      {reviews.length > 0 && (
+        <Card className="w-full shadow-lg">
+          <CardHeader className="pb-3">
+            <CardTitle className="text-lg flex items-center gap-2">
+              <History className="h-5 w-5 text-primary" />
+              Past Reviews
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ul className="divide-y divide-border/40">
+              {reviews.map(review => (
+                <li key={review.id} className="flex items-center gap-2 py-2">
+                  <button
+                    type="button"
+                    onClick={() => setSelectedId(review.id)}
+                    className={`flex-1 text-left text-sm hover:underline ${review.id === selected?.id ? "font-semibold text-primary" : ""}`}
+                  >
+                    {review.input.period === "weekly" ? "Weekly" : "Monthly"} · {format(parseISO(review.input.startDate), "MMM d")} – {format(parseISO(review.input.endDate), "MMM d, yyyy")}
+                  </button>
+                  <span className="text-xs text-muted-foreground">{review.review.consistencyScore}/100</span>
+                  <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => deleteReview(review.id)} aria-label="Delete review">
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+};
+
+export default PeriodReviewSection;
@@ -0,0 +1,94 @@
+"use client";
+
+import { useMemo, type FC } from "react";
+import Link from "next/link";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { CheckCircle2, Circle, ClipboardList } from "lucide-react";
+import type { FoodEntry, SavedDietChart } from "@/types";
+import { calculatePlanAdherence } from "@/lib/diet-plan-adherence";
+
+interface PlanAdherenceCardProps {
+  chart: SavedDietChart; // The chart marked as active
+  date: Date;
+  entries: FoodEntry[];
+}
+
+const MACROS = [
+  { key: "protein", label: "Protein" },
+  { key: "carbs", label: "Carbs" },
+  { key: "fat", label: "Fat" },
+] as const;
+
+const PlanAdherenceCard: FC<PlanAdherenceCardProps> = ({ chart, date, entries }) => {
+  const adherence = useMemo(
+    () => calculatePlanAdherence(chart.dietChart, chart.id, date, entries),
+    [chart, date, entries]
+  );
+  const { planned, actual, meals, mealsFollowed, calorieDifference, offPlanCalories } = adherence;
+  const caloriePercent = planned.calories > 0 ? Math.round((actual.calories / planned.calories) * 100) : 0;
+
+  return (
+    <Card className="shadow-lg rounded-xl overflow-hidden">
+      <CardHeader className="pb-3">
+        <div className="flex items-start justify-between gap-3">
+          <div>
+            <CardTitle className="text-lg flex items-center gap-2">
+              <ClipboardList className="h-5 w-5 text-primary" />
+              Plan vs Actual
+            </CardTitle>
+            <CardDescription>
+              <Link href={`/diet-chart?id=${chart.id}`} className="hover:underline">{chart.name}</Link> · {adherence.dayLabel}
+            </CardDescription>
+          </div>
+          <Badge variant={adherence.onPlan ? "default" : "outline"}>
+            {mealsFollowed}/{meals.length} meals
+          </Badge>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-1.5">
+          <div className="flex justify-between text-sm">
+            <span className="font-medium">{actual.calories} of {planned.calories} kcal planned</span>
+            <span className="text-muted-foreground">
+              {calorieDifference === 0 ? "On target" : `${Math.abs(calorieDifference)} kcal ${calorieDifference > 0 ? "over" : "under"}`}
+            </span>
+          </div>
+          <Progress value={Math.min(caloriePercent, 100)} className="h-2" />
+          {offPlanCalories > 0 && (
+            <p className="text-xs text-muted-foreground">{offPlanCalories} kcal came from food not in the plan.</p>
+          )}
+        </div>
+
+        <div className="grid grid-cols-3 gap-2 text-center text-xs">
+          {MACROS.map(({ key, label }) => (
+            <div key={key} className="rounded-lg bg-muted/40 p-2">
+              <div className="text-muted-foreground">{label}</div>
+              <div className="font-semibold">{actual[key]}g <span className="font-normal text-muted-foreground">/ {planned[key]}g</span></div>
+            </div>
+          ))}
+        </div>
+
+        <ul className="space-y-1.5 text-sm">
+          {meals.map(({ meal, mealIndex, eatenMultiplier }) => (
+            <li key={mealIndex} className="flex items-center gap-2">
+              {eatenMultiplier > 0 ? (
+                <CheckCircle2 className="h-4 w-4 text-green-500 flex-shrink-0" />
+              ) : (
+                <Circle className="h-4 w-4 text-muted-foreground flex-shrink-0" />
+              )}
+              <span className="capitalize text-muted-foreground w-20 flex-shrink-0">{meal.type}</span>
+              <span className="truncate">{meal.name}</span>
+              {eatenMultiplier > 0 && eatenMultiplier !== 1 && (
+                <span className="ml-auto text-xs text-muted-foreground">×{eatenMultiplier}</span>
+              )}
+            </li>
+          ))}
+        </ul>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default PlanAdherenceCard;
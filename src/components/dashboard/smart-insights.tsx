@@ -22,7 +22,8 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import type { Goal, DailyLogEntry } from "@/types";
 
 interface SmartInsightsProps {
-  goals: Goal | null;
+  goals: Goal | null; // The goal in effect on currentSelectedDate
+  goalLabel?: string; // Set when a weekday override or date-ranged goal applies
   dailyLog: DailyLogEntry | null;
   currentSelectedDate: Date | null;
   previousLogs: DailyLogEntry[];
@@ -34,7 +35,8 @@ const generateInsights = (
   goals: Goal | null,
   dailyLog: DailyLogEntry | null,
   previousLogs: DailyLogEntry[],
-  currentSelectedDate: Date | null
+  currentSelectedDate: Date | null,
+  goalLabel?: string
 ) => {
   const insights: {
     id: string;
@@ -76,6 +78,19 @@ const generateInsights = (
 
   // Base insights
   if (goals) {
+    if (goalLabel) {
+      insights.push({
+        id: "goal-profile",
+        title: `${goalLabel} targets`,
+        description: `Your ${goalLabel} goal applies ${dayText}: ${goals.calories} kcal, ${goals.protein}g protein, ${goals.carbs}g carbs and ${goals.fat}g fat.`,
+        type: "neutral",
+        icon: Target,
+        priority: 30,
+        actionText: "Edit goals",
+        actionLink: "/goals"
+      });
+    }
+
     // Calorie intake insight
     if (caloriePercentage > 0) {
       if (caloriePercentage < 50 && isCurrentDay) {
@@ -238,6 +253,7 @@ const generateInsights = (
 
 export default function SmartInsights({
   goals,
+  goalLabel,
   dailyLog,
   currentSelectedDate,
   previousLogs,
@@ -248,10 +264,10 @@ export default function SmartInsights({
   
   useEffect(() => {
     if (!loading) {
-      const newInsights = generateInsights(goals, dailyLog, previousLogs, currentSelectedDate);
+      const newInsights = generateInsights(goals, dailyLog, previousLogs, currentSelectedDate, goalLabel);
       setInsights(newInsights);
     }
-  }, [goals, dailyLog, previousLogs, currentSelectedDate, loading]);
+  }, [goals, goalLabel, dailyLog, previousLogs, currentSelectedDate, loading]);
   
   const filteredInsights = activeTab === "all" 
     ? insights 
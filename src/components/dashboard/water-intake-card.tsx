@@ -0,0 +1,62 @@
+"use client";
+
+import type { FC } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { Droplets, Plus, Undo2 } from "lucide-react";
+import type { WaterEntry } from "@/types";
+import { QUICK_LOG_WATER_ML } from "@/lib/reminder-schedule";
+
+interface WaterIntakeCardProps {
+  entries: WaterEntry[];
+  totalMl: number;
+  targetMl: number;
+  onAdd?: (amountMl: number) => void; // Omitted for past days
+  onRemove: (entryId: string) => void;
+}
+
+const WaterIntakeCard: FC<WaterIntakeCardProps> = ({ entries, totalMl, targetMl, onAdd, onRemove }) => {
+  const lastEntry = entries[entries.length - 1];
+
+  return (
+    <Card className="shadow-lg rounded-xl overflow-hidden">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-lg flex items-center gap-2">
+          <Droplets className="h-5 w-5 text-primary" />
+          Water
+        </CardTitle>
+        <CardDescription>
+          Log a glass here or straight from a hydration reminder.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="space-y-1.5">
+          <div className="flex justify-between text-sm">
+            <span className="font-medium">{totalMl} of {targetMl} ml</span>
+            <span className="text-muted-foreground">
+              {entries.length} {entries.length === 1 ? "glass" : "glasses"}
+            </span>
+          </div>
+          <Progress value={Math.min(Math.round((totalMl / targetMl) * 100), 100)} className="h-2" />
+        </div>
+        <div className="flex gap-2">
+          {onAdd && (
+            <Button type="button" size="sm" onClick={() => onAdd(QUICK_LOG_WATER_ML)}>
+              <Plus className="mr-1 h-4 w-4" />
+              {QUICK_LOG_WATER_ML} ml
+            </Button>
+          )}
+          {lastEntry && (
+            <Button type="button" size="sm" variant="ghost" onClick={() => onRemove(lastEntry.id)}>
+              <Undo2 className="mr-1 h-4 w-4" />
+              Remove last
+            </Button>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default WaterIntakeCard;
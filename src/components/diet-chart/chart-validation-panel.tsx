@@ -0,0 +1,68 @@
+"use client";
+
+import type { FC } from "react";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { AlertTriangle, CheckCircle2, Loader2, RefreshCw } from "lucide-react";
+import type { DietChartViolation, DietChartViolationKind } from "@/lib/diet-chart-validator";
+
+const KIND_LABELS: Record<DietChartViolationKind, string> = {
+  allergen: "Allergens",
+  dietary_preference: "Dietary preference",
+  totals: "Daily totals",
+};
+
+interface ChartValidationPanelProps {
+  violations: DietChartViolation[];
+  checkedConstraints: boolean; // False for charts saved without their inputs, where only totals can be checked
+  onRegenerate?: () => void;
+  isRegenerating?: boolean;
+}
+
+const ChartValidationPanel: FC<ChartValidationPanelProps> = ({ violations, checkedConstraints, onRegenerate, isRegenerating }) => {
+  if (violations.length === 0) {
+    return (
+      <div className="mb-4 flex items-center gap-2 rounded-lg border border-green-500/30 bg-green-500/10 px-3 py-2 text-sm">
+        <CheckCircle2 className="h-4 w-4 text-green-600" />
+        {checkedConstraints
+          ? "Checked: meals add up to the daily totals and avoid your allergies and dietary restrictions."
+          : "Checked: meals add up to the daily totals."}
+      </div>
+    );
+  }
+
+  const kinds = (Object.keys(KIND_LABELS) as DietChartViolationKind[]).filter(kind =>
+    violations.some(violation => violation.kind === kind)
+  );
+
+  return (
+    <Alert variant="destructive" className="mb-4">
+      <AlertTriangle className="h-4 w-4" />
+      <AlertTitle>
+        {violations.length} problem{violations.length === 1 ? "" : "s"} found in this chart
+      </AlertTitle>
+      <AlertDescription className="space-y-3">
+        {kinds.map(kind => (
+          <div key={kind}>
+            <div className="font-medium">{KIND_LABELS[kind]}</div>
+            <ul className="list-disc pl-5 text-sm">
+              {violations
+                .filter(violation => violation.kind === kind)
+                .map((violation, index) => (
+                  <li key={index}>{violation.message}</li>
+                ))}
+            </ul>
+          </div>
+        ))}
+        {onRegenerate && (
+          <Button type="button" size="sm" variant="outline" onClick={onRegenerate} disabled={isRegenerating}>
+            {isRegenerating ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <RefreshCw className="h-4 w-4 mr-2" />}
+            Regenerate and Fix These
+          </Button>
+        )}
+      </AlertDescription>
+    </Alert>
+  );
+};
+
+export default ChartValidationPanel;
@@ -0,0 +1,60 @@
+"use client";
+
+import type { FC } from "react";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { AlertCircle, RefreshCw, X } from "lucide-react";
+import type { FlowOutputFailure } from "@/ai/flow-output-error";
+
+interface GenerationErrorAlertProps {
+  error: FlowOutputFailure;
+  onRetry: () => void;
+  onDismiss: () => void;
+}
+
+const GenerationErrorAlert: FC<GenerationErrorAlertProps> = ({ error, onRetry, onDismiss }) => (
+  <Alert variant="destructive" className="relative">
+    <AlertCircle className="h-4 w-4" />
+    <AlertTitle>The AI couldn&apos;t produce a complete diet chart</AlertTitle>
+    <AlertDescription className="space-y-3">
+      <p>
+        It was asked {error.attempts.length} time{error.attempts.length === 1 ? "" : "s"}, and each reply was missing
+        or had malformed parts of the plan. Generating again usually works; simplifying allergies or conditions can help.
+      </p>
+      <details className="text-xs">
+        <summary className="cursor-pointer font-medium">What failed</summary>
+        <ol className="mt-2 space-y-2">
+          {error.attempts.map(attempt => (
+            <li key={attempt.attempt}>
+              <div className="font-medium">Attempt {attempt.attempt}</div>
+              <ul className="list-disc pl-5">
+                {attempt.issues.map(issue => (
+                  <li key={issue} className="break-words">{issue}</li>
+                ))}
+              </ul>
+              {attempt.repairs.length > 0 && (
+                <div className="text-muted-foreground">
+                  Fixed automatically: {attempt.repairs.length} small formatting issue{attempt.repairs.length === 1 ? "" : "s"}
+                </div>
+              )}
+            </li>
+          ))}
+        </ol>
+      </details>
+      <Button type="button" size="sm" variant="outline" onClick={onRetry}>
+        <RefreshCw className="h-4 w-4 mr-2" />
+        Try Again
+      </Button>
+    </AlertDescription>
+    <button
+      type="button"
+      className="absolute right-3 top-3 rounded-sm opacity-70 hover:opacity-100"
+      onClick={onDismiss}
+      aria-label="Dismiss"
+    >
+      <X className="h-4 w-4" />
+    </button>
+  </Alert>
+);
+
+export default GenerationErrorAlert;
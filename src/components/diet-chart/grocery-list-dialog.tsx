@@ -0,0 +1,103 @@
+"use client";
+
+import { useMemo, type FC } from "react";
+import { format } from "date-fns";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Copy, FileSpreadsheet, Share2 } from "lucide-react";
+import type { SavedDietChart } from "@/types";
+import { useToast } from "@/hooks/use-toast";
+import { downloadFile } from "@/lib/utils";
+import {
+  GROCERY_CATEGORY_LABELS,
+  buildGroceryList,
+  formatGroceryItemQuantity,
+  groceryListToCsv,
+  groceryListToText,
+} from "@/lib/grocery-list";
+
+interface GroceryListDialogProps {
+  chart: SavedDietChart | null; // Open while set
+  onClose: () => void;
+}
+
+const fileNameFor = (chart: SavedDietChart) =>
+  `shopping-list-${chart.name.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") || "diet-chart"}-${format(new Date(), "yyyy-MM-dd")}`;
+
+const GroceryListDialog: FC<GroceryListDialogProps> = ({ chart, onClose }) => {
+  const { toast } = useToast();
+  const list = useMemo(() => (chart ? buildGroceryList(chart.dietChart) : null), [chart]);
+  const canShare = typeof navigator !== "undefined" && typeof navigator.share === "function";
+
+  if (!chart || !list) return null;
+
+  const text = groceryListToText(list, chart.name);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(text);
+      toast({ title: "Copied", description: "The shopping list is on your clipboard." });
+    } catch {
+      toast({ title: "Copy Failed", description: "Your browser blocked clipboard access. Try the CSV download instead.", variant: "destructive" });
+    }
+  };
+
+  const handleShare = async () => {
+    try {
+      await navigator.share({ title: `${chart.name} shopping list`, text });
+    } catch (error) {
+      // Closing the share sheet rejects with AbortError, which isn't a failure
+      if ((error as Error).name !== "AbortError") {
+        toast({ title: "Share Failed", description: "Couldn't open the share sheet.", variant: "destructive" });
+      }
+    }
+  };
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Shopping List</DialogTitle>
+          <DialogDescription>
+            Everything in &quot;{chart.name}&quot; for {list.days} day{list.days === 1 ? "" : "s"}, added up across all meals.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="max-h-[55vh] overflow-y-auto space-y-4 pr-1">
+          {list.categories.map(({ category, items }) => (
+            <section key={category}>
+              <h3 className="text-sm font-semibold mb-1">{GROCERY_CATEGORY_LABELS[category]}</h3>
+              <ul className="divide-y divide-border/40 text-sm">
+                {items.map(item => (
+                  <li key={item.name} className="flex justify-between gap-3 py-1.5">
+                    <span>{item.name}</span>
+                    <span className="text-muted-foreground text-right">{formatGroceryItemQuantity(item)}</span>
+                  </li>
+                ))}
+              </ul>
+            </section>
+          ))}
+        </div>
+
+        <DialogFooter className="gap-2 sm:gap-0">
+          <Button type="button" variant="outline" onClick={handleCopy}>
+            <Copy className="h-4 w-4 mr-2" />
+            Copy Text
+          </Button>
+          <Button type="button" variant="outline" onClick={() => downloadFile(groceryListToCsv(list), `${fileNameFor(chart)}.csv`, "text/csv")}>
+            <FileSpreadsheet className="h-4 w-4 mr-2" />
+            Download CSV
+          </Button>
+          {canShare && (
+            <Button type="button" onClick={handleShare}>
+              <Share2 className="h-4 w-4 mr-2" />
+              Share
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default GroceryListDialog;
@@ -0,0 +1,41 @@
+"use client";
+
+import { useState, type FC } from "react";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Check, Plus } from "lucide-react";
+import { PORTION_MULTIPLIERS } from "@/lib/diet-plan-adherence";
+
+interface LogPlannedMealControlProps {
+  mealName: string;
+  eatenMultiplier: number; // Already logged today from this meal; 0 if not
+  onLog: (multiplier: number) => void;
+}
+
+const LogPlannedMealControl: FC<LogPlannedMealControlProps> = ({ mealName, eatenMultiplier, onLog }) => {
+  const [multiplier, setMultiplier] = useState(1);
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 pt-3 border-t border-white/10">
+      <Select value={String(multiplier)} onValueChange={(value) => setMultiplier(Number(value))}>
+        <SelectTrigger className="h-8 w-24 text-xs" aria-label={`Portion of ${mealName}`}>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {PORTION_MULTIPLIERS.map(option => (
+            <SelectItem key={option} value={String(option)}>×{option}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Button type="button" size="sm" variant={eatenMultiplier > 0 ? "outline" : "default"} className="h-8" onClick={() => onLog(multiplier)}>
+        {eatenMultiplier > 0 ? <Plus className="h-3.5 w-3.5 mr-1" /> : <Check className="h-3.5 w-3.5 mr-1" />}
+        {eatenMultiplier > 0 ? "Log Again" : "I Ate This"}
+      </Button>
+      {eatenMultiplier > 0 && (
+        <span className="text-xs text-muted-foreground">Logged today (×{eatenMultiplier})</span>
+      )}
+    </div>
+  );
+};
+
+export default LogPlannedMealControl;
@@ -0,0 +1,51 @@
+"use client";
+
+import type { FC } from "react";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+
+interface ConfirmPortionDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onConfirm: () => void;
+  quantityNote?: string;
+  confidenceReason?: string;
+  calorieRange?: string;
+}
+
+/** Shown before logging a low-confidence AI estimate so the user checks the portion first. */
+const ConfirmPortionDialog: FC<ConfirmPortionDialogProps> = ({ open, onOpenChange, onConfirm, quantityNote, confidenceReason, calorieRange }) => (
+  <AlertDialog open={open} onOpenChange={onOpenChange}>
+    <AlertDialogContent>
+      <AlertDialogHeader>
+        <AlertDialogTitle>Check the portion before logging</AlertDialogTitle>
+        <AlertDialogDescription asChild>
+          <div className="space-y-2 text-sm text-muted-foreground">
+            <p>This estimate has low confidence{confidenceReason ? `: ${confidenceReason}` : "."}</p>
+            {quantityNote && (
+              <p>
+                Portion used: <span className="font-medium text-foreground">{quantityNote}</span>
+              </p>
+            )}
+            {calorieRange && <p>The real value could be anywhere from {calorieRange}.</p>}
+            <p>Is that portion right? If not, go back and adjust it first.</p>
+          </div>
+        </AlertDialogDescription>
+      </AlertDialogHeader>
+      <AlertDialogFooter>
+        <AlertDialogCancel>Adjust Portion</AlertDialogCancel>
+        <AlertDialogAction onClick={onConfirm}>Portion Is Right, Log It</AlertDialogAction>
+      </AlertDialogFooter>
+    </AlertDialogContent>
+  </AlertDialog>
+);
+
+export default ConfirmPortionDialog;
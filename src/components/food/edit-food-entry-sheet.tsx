@@ -0,0 +1,211 @@
+"use client";
+
+import { useEffect, useState, type FC } from "react";
+import { Sheet, SheetContent, SheetDescription, SheetFooter, SheetHeader, SheetTitle } from "@/components/ui/sheet";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Save, Scale } from "lucide-react";
+import type { FoodEntry, MealType } from "@/types";
+import { MEAL_TYPES, MEAL_TYPE_LABELS } from "@/lib/meal-slots";
+
+type EditableFields = Omit<FoodEntry, "id" | "timestamp">;
+
+interface EditFoodEntrySheetProps {
+  entry: FoodEntry | null;
+  onOpenChange: (open: boolean) => void;
+  onSave: (entryId: string, updates: EditableFields) => void;
+}
+
+// Draft values are kept as strings so the inputs can be cleared while typing
+interface Draft {
+  name: string;
+  mealType: MealType;
+  calories: string;
+  protein: string;
+  fat: string;
+  carbs: string;
+  grams: string;
+}
+
+const toDraft = (entry: FoodEntry): Draft => ({
+  name: entry.name,
+  mealType: entry.mealType,
+  calories: String(entry.calories),
+  protein: String(entry.protein),
+  fat: String(entry.fat),
+  carbs: String(entry.carbs),
+  grams: entry.grams !== undefined ? String(entry.grams) : "",
+});
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+const parseAmount = (value: string) => {
+  const parsed = parseFloat(value);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : 0;
+};
+
+const MACRO_FIELDS: { key: "calories" | "protein" | "fat" | "carbs"; label: string; unit: string }[] = [
+  { key: "calories", label: "Calories", unit: "kcal" },
+  { key: "protein", label: "Protein", unit: "g" },
+  { key: "fat", label: "Fat", unit: "g" },
+  { key: "carbs", label: "Carbs", unit: "g" },
+];
+
+const EditFoodEntrySheet: FC<EditFoodEntrySheetProps> = ({ entry, onOpenChange, onSave }) => {
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [targetGrams, setTargetGrams] = useState("");
+
+  useEffect(() => {
+    setDraft(entry ? toDraft(entry) : null);
+    setTargetGrams("");
+  }, [entry]);
+
+  const scaleDraft = (factor: number) => {
+    if (!draft || !(factor > 0)) return;
+    setDraft({
+      ...draft,
+      calories: String(Math.round(parseAmount(draft.calories) * factor)),
+      protein: String(round1(parseAmount(draft.protein) * factor)),
+      fat: String(round1(parseAmount(draft.fat) * factor)),
+      carbs: String(round1(parseAmount(draft.carbs) * factor)),
+      grams: draft.grams ? String(round1(parseAmount(draft.grams) * factor)) : draft.grams,
+    });
+  };
+
+  const currentGrams = draft ? parseAmount(draft.grams) : 0;
+  const newGrams = parseAmount(targetGrams);
+
+  const handleScaleToGrams = () => {
+    if (!draft || currentGrams <= 0 || newGrams <= 0) return;
+    scaleDraft(newGrams / currentGrams);
+    // scaleDraft rounds; store the exact weight the user asked for
+    setDraft(prev => prev && { ...prev, grams: String(newGrams) });
+    setTargetGrams("");
+  };
+
+  const handleSave = () => {
+    if (!entry || !draft) return;
+    onSave(entry.id, {
+      name: draft.name.trim() || entry.name,
+      mealType: draft.mealType,
+      calories: parseAmount(draft.calories),
+      protein: parseAmount(draft.protein),
+      fat: parseAmount(draft.fat),
+      carbs: parseAmount(draft.carbs),
+      grams: currentGrams > 0 ? currentGrams : undefined,
+    });
+    onOpenChange(false);
+  };
+
+  return (
+    <Sheet open={entry !== null} onOpenChange={onOpenChange}>
+      <SheetContent side="bottom" className="max-h-[90vh] overflow-y-auto rounded-t-2xl">
+        <SheetHeader>
+          <SheetTitle>Edit Meal</SheetTitle>
+          <SheetDescription>Adjust the portion or correct the nutrition values. The original log time is kept.</SheetDescription>
+        </SheetHeader>
+
+        {draft && (
+          <div className="space-y-5 py-4">
+            <div className="grid grid-cols-3 gap-3">
+              <div className="col-span-2 space-y-1">
+                <Label htmlFor="edit-entry-name">Name</Label>
+                <Input
+                  id="edit-entry-name"
+                  value={draft.name}
+                  onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label>Meal</Label>
+                <Select value={draft.mealType} onValueChange={(value) => setDraft({ ...draft, mealType: value as MealType })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {MEAL_TYPES.map(type => (
+                      <SelectItem key={type} value={type}>{MEAL_TYPE_LABELS[type]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label className="flex items-center gap-2">
+                <Scale className="h-4 w-4 text-primary" />
+                Portion
+              </Label>
+              <div className="flex gap-2">
+                <Button type="button" variant="outline" size="sm" onClick={() => scaleDraft(0.5)}>×0.5</Button>
+                <Button type="button" variant="outline" size="sm" onClick={() => scaleDraft(1.5)}>×1.5</Button>
+                <Button type="button" variant="outline" size="sm" onClick={() => scaleDraft(2)}>×2</Button>
+              </div>
+              <div className="grid grid-cols-3 gap-3 items-end">
+                <div className="space-y-1">
+                  <Label htmlFor="edit-entry-grams" className="text-xs">Logged portion (g)</Label>
+                  <Input
+                    id="edit-entry-grams"
+                    type="number"
+                    min="0"
+                    placeholder="e.g. 150"
+                    value={draft.grams}
+                    onChange={(e) => setDraft({ ...draft, grams: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="edit-entry-target-grams" className="text-xs">New portion (g)</Label>
+                  <Input
+                    id="edit-entry-target-grams"
+                    type="number"
+                    min="0"
+                    value={targetGrams}
+                    onChange={(e) => setTargetGrams(e.target.value)}
+                  />
+                </div>
+                <Button
+                  type="button"
+                  variant="secondary"
+                  onClick={handleScaleToGrams}
+                  disabled={currentGrams <= 0 || newGrams <= 0}
+                >
+                  Scale
+                </Button>
+              </div>
+              {currentGrams <= 0 && (
+                <p className="text-xs text-muted-foreground">Enter the weight you originally logged to scale to a custom gram amount.</p>
+              )}
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              {MACRO_FIELDS.map(field => (
+                <div key={field.key} className="space-y-1">
+                  <Label htmlFor={`edit-entry-${field.key}`} className="text-xs">{field.label} ({field.unit})</Label>
+                  <Input
+                    id={`edit-entry-${field.key}`}
+                    type="number"
+                    min="0"
+                    step="0.1"
+                    value={draft[field.key]}
+                    onChange={(e) => setDraft({ ...draft, [field.key]: e.target.value })}
+                  />
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <SheetFooter>
+          <Button type="button" onClick={handleSave} disabled={!draft} className="w-full">
+            <Save className="mr-2 h-4 w-4" />
+            Save Changes
+          </Button>
+        </SheetFooter>
+      </SheetContent>
+    </Sheet>
+  );
+};
+
+export default EditFoodEntrySheet;
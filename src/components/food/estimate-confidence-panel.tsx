@@ -0,0 +1,43 @@
+"use client";
+
+import type { FC } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Gauge } from "lucide-react";
+import type { EstimateConfidence, NutrientRanges } from "@/types";
+import { CONFIDENCE_LABELS, formatRange } from "@/lib/estimate-confidence";
+
+const CONFIDENCE_STYLES: Record<EstimateConfidence, string> = {
+  low: "bg-amber-100 text-amber-800 border-amber-200 dark:bg-amber-900/30 dark:text-amber-300 dark:border-amber-800",
+  medium: "bg-blue-100 text-blue-800 border-blue-200 dark:bg-blue-900/30 dark:text-blue-300 dark:border-blue-800",
+  high: "bg-green-100 text-green-800 border-green-200 dark:bg-green-900/30 dark:text-green-300 dark:border-green-800",
+};
+
+interface EstimateConfidencePanelProps {
+  confidence: EstimateConfidence;
+  confidenceReason?: string;
+  ranges: NutrientRanges;
+  className?: string;
+}
+
+const EstimateConfidencePanel: FC<EstimateConfidencePanelProps> = ({ confidence, confidenceReason, ranges, className = "" }) => (
+  <div className={`rounded-lg border border-border/30 bg-background/70 p-3 space-y-2 ${className}`}>
+    <div className="flex items-center justify-between gap-2">
+      <div className="flex items-center text-sm font-medium">
+        <Gauge className="h-4 w-4 mr-2 text-primary/70" />
+        Likely range
+      </div>
+      <Badge variant="outline" className={`text-xs ${CONFIDENCE_STYLES[confidence]}`}>
+        {CONFIDENCE_LABELS[confidence]}
+      </Badge>
+    </div>
+    <div className="grid grid-cols-2 sm:grid-cols-4 gap-2 text-xs">
+      <div><span className="text-muted-foreground">Calories </span>{formatRange(ranges.calories, "kcal")}</div>
+      <div><span className="text-muted-foreground">Protein </span>{formatRange(ranges.protein, "g")}</div>
+      <div><span className="text-muted-foreground">Fat </span>{formatRange(ranges.fat, "g")}</div>
+      <div><span className="text-muted-foreground">Carbs </span>{formatRange(ranges.carbs, "g")}</div>
+    </div>
+    {confidenceReason && <p className="text-xs text-muted-foreground">{confidenceReason}</p>}
+  </div>
+);
+
+export default EstimateConfidencePanel;
@@ -1,11 +1,12 @@
 "use client";
 
 import type { AnalyzeFoodPhotoOutput } from "@/ai/flows/analyze-food-photo";
+import type { CachedResult } from "@/ai/flow-cache";
 import { Card, CardContent, CardHeader, CardTitle, CardFooter } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { 
   Flame, Drumstick, Droplets, Wheat, List, Info, Sparkles,
-  ChevronDown, Activity, Heart, MoveUpRight, Bookmark, AlertCircle, Utensils, Orbit
+  ChevronDown, Activity, Heart, MoveUpRight, Bookmark, AlertCircle, Utensils, Orbit, Trash2, RotateCcw
 } from "lucide-react";
 import React, { useState, useRef, useEffect } from 'react';
 import { motion, AnimatePresence, MotionValue, useMotionValue, useTransform, useSpring, useScroll, useMotionTemplate, useInView } from "framer-motion";
@@ -13,6 +14,11 @@ import { Progress } from "@/components/ui/progress";
 import { Label } from "@/components/ui/label"; // Added Label
 import { Switch } from "@/components/ui/switch"; // Added Switch
 import type { Goal } from "@/types"; // Added Goal type
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { canRescale, plateItemsFromAnalysis, rescalePlateItem, sumPlateItems, type PlateItem } from "@/lib/plate-items";
+import { scaleNutrientRanges } from "@/lib/estimate-confidence";
+import EstimateConfidencePanel from "@/components/food/estimate-confidence-panel";
 import { Bar } from 'react-chartjs-2';
 import {
   Chart as ChartJS,
@@ -35,10 +41,14 @@ ChartJS.register(
 );
 
 interface NutritionDisplayProps {
-  result: AnalyzeFoodPhotoOutput;
+  result: AnalyzeFoodPhotoOutput & Partial<Pick<CachedResult<AnalyzeFoodPhotoOutput>, "fromCache" | "cachedAt">>;
   estimatedQuantityNote?: string;
   goals?: Goal | null; 
   isLoadingGoals?: boolean; 
+  // Editable breakdown of the plate. When given, totals follow the edited items instead of the raw estimate.
+  items?: PlateItem[];
+  onItemsChange?: (items: PlateItem[]) => void;
+  onReanalyze?: () => void; // Offered when the result came from the cache
 }
 
 // 3D Card effect with mouse tracking
@@ -549,7 +559,7 @@ const ParticleBackground: React.FC<{
   );
 };
 
-export default function NutritionDisplay({ result, estimatedQuantityNote, goals, isLoadingGoals }: NutritionDisplayProps) {
+export default function NutritionDisplay({ result, estimatedQuantityNote, goals, isLoadingGoals, items, onItemsChange, onReanalyze }: NutritionDisplayProps) {
   const quantityNote = result.estimatedQuantityNote || estimatedQuantityNote;
   const [showDetails, setShowDetails] = useState(false);
   const [activeTab, setActiveTab] = useState<'macros' | 'calories' | 'chart'>('macros');
@@ -564,7 +574,30 @@ export default function NutritionDisplay({ result, estimatedQuantityNote, goals,
   
   const backgroundY = useTransform(scrollYProgress, [0, 1], ['0%', '20%']);
   
-  const { calorieEstimate, proteinEstimate, fatEstimate, carbEstimate } = result;
+  const itemTotals = items ? sumPlateItems(items) : null;
+  const calorieEstimate = itemTotals ? itemTotals.calories : result.calorieEstimate;
+  const proteinEstimate = itemTotals ? itemTotals.protein : result.proteinEstimate;
+  const fatEstimate = itemTotals ? itemTotals.fat : result.fatEstimate;
+  const carbEstimate = itemTotals ? itemTotals.carbs : result.carbEstimate;
+
+  // Ranges move with the edited portions so they stay around the totals shown
+  const estimateRanges = scaleNutrientRanges(
+    result.estimateRanges,
+    { calories: result.calorieEstimate, protein: result.proteinEstimate, fat: result.fatEstimate, carbs: result.carbEstimate },
+    { calories: calorieEstimate, protein: proteinEstimate, fat: fatEstimate, carbs: carbEstimate }
+  );
+
+  const handleItemGramsChange = (itemId: string, value: string) => {
+    if (!items || !onItemsChange) return;
+    const grams = Number(value);
+    if (!Number.isFinite(grams)) return;
+    onItemsChange(items.map(item => item.id === itemId ? rescalePlateItem(item, grams) : item));
+  };
+
+  const handleRemoveItem = (itemId: string) => {
+    if (!items || !onItemsChange) return;
+    onItemsChange(items.filter(item => item.id !== itemId));
+  };
 
   const caloriePercentage = (goals && goals.calories > 0) 
     ? (calorieEstimate / goals.calories) * 100 
@@ -711,6 +744,28 @@ export default function NutritionDisplay({ result, estimatedQuantityNote, goals,
                 </motion.div>
               )}
             </AnimatePresence>
+
+            {result.fromCache && (
+              <div className="flex items-center justify-between gap-2 text-xs text-muted-foreground rounded-lg bg-muted/40 px-3 py-2">
+                <span>
+                  Saved result{result.cachedAt ? ` from ${new Date(result.cachedAt).toLocaleString()}` : ""}. The same photo gets the same estimate.
+                </span>
+                {onReanalyze && (
+                  <Button type="button" variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={onReanalyze}>
+                    <RotateCcw className="h-3 w-3 mr-1" />
+                    Analyze again
+                  </Button>
+                )}
+              </div>
+            )}
+
+            {result.isFoodItem && (
+              <EstimateConfidencePanel
+                confidence={result.confidence}
+                confidenceReason={result.confidenceReason}
+                ranges={estimateRanges}
+              />
+            )}
             
             <div className="flex justify-center">
               <div className="bg-muted/30 backdrop-blur-sm rounded-full p-1 flex space-x-1 border border-border/40">
@@ -1097,14 +1152,71 @@ export default function NutritionDisplay({ result, estimatedQuantityNote, goals,
                   <Utensils className="h-4 w-4 text-primary/70 mr-2" />
                   <h4 className="font-medium text-sm">Identified Dish(es)</h4>
                 </div>
-                {result.ingredients && result.ingredients.length > 0 && (
+                {items && onItemsChange ? (
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    className="h-6 px-2 text-xs"
+                    onClick={() => onItemsChange(plateItemsFromAnalysis(result.items))}
+                  >
+                    <RotateCcw className="h-3 w-3 mr-1" />
+                    Reset
+                  </Button>
+                ) : result.ingredients && result.ingredients.length > 0 && (
                   <Badge variant="outline" className="text-xs px-2 py-0 h-5 bg-primary/5 text-primary">
                     {result.ingredients.length} item{result.ingredients.length !== 1 ? 's' : ''}
                   </Badge>
                 )}
           </div>
               
-          {result.ingredients && result.ingredients.length > 0 ? (
+          {items && onItemsChange ? (
+                items.length > 0 ? (
+                  <ul className="divide-y divide-border/20">
+                    {items.map(item => (
+                      <li key={item.id} className="p-3 flex items-center gap-3">
+                        <div className="flex-1 min-w-0">
+                          <div className="text-sm font-medium truncate">{item.name}</div>
+                          <div className="text-xs text-muted-foreground">
+                            {item.calories} kcal · P {item.protein}g · F {item.fat}g · C {item.carbs}g
+                          </div>
+                        </div>
+                        {canRescale(item) ? (
+                          <div className="flex items-center gap-1">
+                            <Input
+                              type="number"
+                              min="0"
+                              step="5"
+                              value={item.grams}
+                              onChange={(e) => handleItemGramsChange(item.id, e.target.value)}
+                              className="h-8 w-20 text-right"
+                              aria-label={`Grams of ${item.name}`}
+                            />
+                            <span className="text-xs text-muted-foreground">g</span>
+                          </div>
+                        ) : (
+                          <span className="text-xs text-muted-foreground">Portion unknown</span>
+                        )}
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="icon"
+                          className="h-8 w-8"
+                          onClick={() => handleRemoveItem(item.id)}
+                          aria-label={`Remove ${item.name}`}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </li>
+                    ))}
+                  </ul>
+                ) : (
+                  <div className="p-4 flex items-center justify-center text-xs text-muted-foreground">
+                    <Orbit className="h-3.5 w-3.5 mr-1.5" />
+                    <span>All items removed. Reset to start over.</span>
+                  </div>
+                )
+          ) : result.ingredients && result.ingredients.length > 0 ? (
                 <div className="p-3">
                   <div className="flex flex-wrap gap-1.5">
               {result.ingredients.map((ingredient, index) => (
@@ -0,0 +1,161 @@
+"use client";
+
+import type { FC } from "react";
+import { addDays, format, parseISO } from "date-fns";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Check, Gauge, Info, X } from "lucide-react";
+import type { Goal } from "@/types";
+import { useAdaptiveGoal } from "@/hooks/use-adaptive-goal";
+import { useUserProfile } from "@/hooks/use-user-profile";
+import { REVIEW_INTERVAL_DAYS } from "@/lib/adaptive-goal";
+import { formatWeight, profileWeightUnit } from "@/lib/weight-trend";
+
+const TARGET_RATES_KG = [-0.75, -0.5, -0.25, 0, 0.25];
+
+interface AdaptiveGoalCardProps {
+  currentGoal: Goal;
+  onGoalAccepted: (goal: Goal) => void;
+}
+
+const AdaptiveGoalCard: FC<AdaptiveGoalCardProps> = ({ currentGoal, onGoalAccepted }) => {
+  const { settings, intake, proposal, isDue, isLoading, setEnabled, setTargetRate, acceptProposal, dismissProposal } = useAdaptiveGoal(currentGoal);
+  const { userProfile } = useUserProfile();
+  const unit = profileWeightUnit(userProfile);
+
+  const describeRate = (kgPerWeek: number) =>
+    kgPerWeek === 0 ? "Maintain weight" : `${kgPerWeek < 0 ? "Lose" : "Gain"} ${formatWeight(Math.abs(kgPerWeek), unit)} / week`;
+
+  const handleAccept = () => {
+    const acceptedGoal = acceptProposal();
+    if (acceptedGoal) onGoalAccepted(acceptedGoal);
+  };
+
+  const nextReview = settings.lastReviewedAt
+    ? format(addDays(parseISO(settings.lastReviewedAt), REVIEW_INTERVAL_DAYS), "EEE, MMM d")
+    : null;
+
+  return (
+    <Card className="border border-border/40 shadow-lg overflow-hidden mt-6">
+      <CardHeader className="border-b border-border/10 pb-4">
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <CardTitle className="text-xl font-semibold flex items-center">
+              <Gauge className="h-5 w-5 mr-2 text-primary" />
+              Adaptive Calorie Goal
+            </CardTitle>
+            <CardDescription className="mt-1">
+              Estimates your real maintenance calories from what you log and how your weight trends, then suggests a weekly adjustment.
+            </CardDescription>
+          </div>
+          <Switch checked={settings.enabled} onCheckedChange={setEnabled} disabled={isLoading} aria-label="Enable adaptive calorie goal" />
+        </div>
+      </CardHeader>
+
+      {settings.enabled && (
+        <CardContent className="py-6 space-y-5">
+          <div className="space-y-1">
+            <Label>Target rate</Label>
+            <Select value={String(settings.targetRateKgPerWeek)} onValueChange={(value) => setTargetRate(Number(value))}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {TARGET_RATES_KG.map(rate => (
+                  <SelectItem key={rate} value={String(rate)}>{describeRate(rate)}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {proposal.status === "insufficient-data" ? (
+            <div className="rounded-lg bg-muted/40 p-4 text-sm space-y-2">
+              <div className="flex items-center font-medium">
+                <Info className="h-4 w-4 mr-2 text-primary" />
+                Not enough data yet
+              </div>
+              <ul className="list-disc pl-5 text-muted-foreground space-y-1">
+                {proposal.reasons.map(reason => <li key={reason}>{reason}</li>)}
+              </ul>
+            </div>
+          ) : (
+            <>
+              <div className="space-y-2 text-sm">
+                <h3 className="font-medium">How this was worked out</h3>
+                <ul className="list-disc pl-5 text-muted-foreground space-y-1">
+                  <li>
+                    You averaged <span className="font-medium text-foreground">{proposal.evidence.averageIntake} kcal</span> on{" "}
+                    {proposal.evidence.loggedDays} logged days out of the last {proposal.evidence.windowDays}.
+                  </li>
+                  <li>
+                    Your trend weight changed by{" "}
+                    <span className="font-medium text-foreground">
+                      {proposal.evidence.trendChangeKg >= 0 ? "+" : "−"}{formatWeight(Math.abs(proposal.evidence.trendChangeKg), unit)}
+                    </span>{" "}
+                    over {proposal.evidence.weightSpanDays} days ({proposal.evidence.weighIns} weigh-ins).
+                  </li>
+                  <li>
+                    That puts your maintenance at about{" "}
+                    <span className="font-medium text-foreground">{proposal.evidence.estimatedMaintenance} kcal</span> a day.
+                  </li>
+                  <li>
+                    To {describeRate(settings.targetRateKgPerWeek).toLowerCase()} you'd eat about{" "}
+                    <span className="font-medium text-foreground">{proposal.evidence.targetCalories} kcal</span> a day.
+                  </li>
+                </ul>
+              </div>
+
+              <div className="space-y-1">
+                <h4 className="text-xs font-medium text-muted-foreground">Logged intake used</h4>
+                <div className="flex flex-wrap gap-1.5">
+                  {intake.map(day => (
+                    <span key={day.date} className="text-xs rounded-md bg-muted px-2 py-1">
+                      {format(parseISO(day.date), "MMM d")}: {Math.round(day.calories)}
+                    </span>
+                  ))}
+                </div>
+              </div>
+
+              {proposal.status === "no-change" ? (
+                <p className="text-sm rounded-lg bg-green-50 dark:bg-green-900/20 text-green-700 dark:text-green-400 p-3">
+                  Your current goal of {currentGoal.calories} kcal already fits. No change needed.
+                </p>
+              ) : isDue ? (
+                <div className="rounded-lg border border-primary/30 bg-primary/5 p-4 space-y-3">
+                  <div className="text-sm">
+                    Suggested goal:{" "}
+                    <span className="font-semibold">{currentGoal.calories} → {proposal.proposedGoal.calories} kcal</span>{" "}
+                    ({proposal.change > 0 ? "+" : ""}{proposal.change})
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    Protein stays at {proposal.proposedGoal.protein}g; fat {currentGoal.fat} → {proposal.proposedGoal.fat}g, carbs {currentGoal.carbs} → {proposal.proposedGoal.carbs}g.
+                    {proposal.limited && " Changes are limited to 150 kcal a week, so the goal moves gradually."}
+                  </p>
+                  <div className="flex gap-2 justify-end">
+                    <Button type="button" variant="ghost" size="sm" onClick={dismissProposal}>
+                      <X className="h-4 w-4 mr-1" />
+                      Not now
+                    </Button>
+                    <Button type="button" size="sm" onClick={handleAccept}>
+                      <Check className="h-4 w-4 mr-1" />
+                      Accept
+                    </Button>
+                  </div>
+                </div>
+              ) : (
+                <p className="text-sm text-muted-foreground">
+                  Goal reviewed this week. The next suggestion will be available {nextReview ? `on ${nextReview}` : "soon"}.
+                </p>
+              )}
+            </>
+          )}
+        </CardContent>
+      )}
+    </Card>
+  );
+};
+
+export default AdaptiveGoalCard;
@@ -0,0 +1,178 @@
+"use client";
+
+import { useMemo, useState, type FC } from "react";
+import Link from "next/link";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Calculator, Wand2 } from "lucide-react";
+import type { Goal } from "@/types";
+import { useUserProfile } from "@/hooks/use-user-profile";
+import {
+  ACTIVITY_LEVEL_LABELS,
+  ACTIVITY_MULTIPLIERS,
+  FITNESS_GOAL_LABELS,
+  MACRO_PRESET_LABELS,
+  bodyMetricsFromProfile,
+  calculateNutritionPlan,
+  suggestMacroPreset,
+  type ActivityLevel,
+  type FitnessGoal,
+  type MacroPreset,
+} from "@/lib/nutrition-calculator";
+
+interface GoalCalculatorCardProps {
+  onApply: (goal: Goal) => void;
+}
+
+const GoalCalculatorCard: FC<GoalCalculatorCardProps> = ({ onApply }) => {
+  const { userProfile, isLoading } = useUserProfile();
+  const [activityLevel, setActivityLevel] = useState<ActivityLevel>("moderately_active");
+  const [fitnessGoal, setFitnessGoal] = useState<FitnessGoal>("general_health");
+  const [macroPreset, setMacroPreset] = useState<MacroPreset>("balanced");
+  const [bodyFat, setBodyFat] = useState("");
+
+  const metrics = useMemo(() => bodyMetricsFromProfile(userProfile), [userProfile]);
+
+  const plan = useMemo(() => {
+    if (!metrics) return null;
+    const bodyFatPercent = parseFloat(bodyFat);
+    return calculateNutritionPlan({
+      ...metrics,
+      bodyFatPercent: Number.isFinite(bodyFatPercent) ? bodyFatPercent : undefined,
+      activityLevel,
+      fitnessGoal,
+      macroPreset,
+    });
+  }, [metrics, bodyFat, activityLevel, fitnessGoal, macroPreset]);
+
+  const handleFitnessGoalChange = (value: string) => {
+    setFitnessGoal(value as FitnessGoal);
+    setMacroPreset(suggestMacroPreset(value as FitnessGoal));
+  };
+
+  return (
+    <Card className="border border-border/40 shadow-lg overflow-hidden mt-6">
+      <CardHeader className="border-b border-border/10 pb-4">
+        <CardTitle className="text-xl font-semibold flex items-center">
+          <Calculator className="h-5 w-5 mr-2 text-primary" />
+          Calculate From Your Profile
+        </CardTitle>
+        <CardDescription>
+          Work out targets from your age, sex, height and weight, then fine-tune them with the sliders above.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="py-6 space-y-5">
+        {isLoading ? null : !metrics ? (
+          <p className="text-sm text-muted-foreground">
+            Add your age, height and weight to your{" "}
+            <Link href="/profile/edit" className="text-primary underline-offset-4 hover:underline">profile</Link>{" "}
+            to calculate targets.
+          </p>
+        ) : (
+          <>
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div className="space-y-1">
+                <Label>Activity level</Label>
+                <Select value={activityLevel} onValueChange={(value) => setActivityLevel(value as ActivityLevel)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(ACTIVITY_LEVEL_LABELS) as ActivityLevel[]).map(level => (
+                      <SelectItem key={level} value={level}>
+                        {ACTIVITY_LEVEL_LABELS[level]} (×{ACTIVITY_MULTIPLIERS[level]})
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label>Fitness goal</Label>
+                <Select value={fitnessGoal} onValueChange={handleFitnessGoalChange}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(FITNESS_GOAL_LABELS) as FitnessGoal[]).map(goal => (
+                      <SelectItem key={goal} value={goal}>{FITNESS_GOAL_LABELS[goal]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label>Macro split</Label>
+                <Select value={macroPreset} onValueChange={(value) => setMacroPreset(value as MacroPreset)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(MACRO_PRESET_LABELS) as MacroPreset[]).map(preset => (
+                      <SelectItem key={preset} value={preset}>{MACRO_PRESET_LABELS[preset]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="body-fat">Body fat % (optional)</Label>
+                <Input
+                  id="body-fat"
+                  type="number"
+                  min="3"
+                  max="60"
+                  step="0.5"
+                  value={bodyFat}
+                  onChange={(e) => setBodyFat(e.target.value)}
+                  placeholder="e.g. 22"
+                />
+              </div>
+            </div>
+
+            {plan && (
+              <div className="rounded-lg bg-muted/40 p-4 space-y-3">
+                <div className="grid grid-cols-2 gap-2 text-sm">
+                  <div>
+                    <div className="text-xs text-muted-foreground">
+                      BMR ({plan.formula === "katch_mcardle" ? "Katch-McArdle" : "Mifflin-St Jeor"})
+                    </div>
+                    <div className="font-semibold">{plan.bmr} kcal</div>
+                  </div>
+                  <div>
+                    <div className="text-xs text-muted-foreground">Maintenance (TDEE)</div>
+                    <div className="font-semibold">{plan.tdee} kcal</div>
+                  </div>
+                </div>
+                <div className="grid grid-cols-4 gap-2 text-center">
+                  <div className="rounded bg-background p-2">
+                    <div className="text-xs text-muted-foreground">Calories</div>
+                    <div className="font-semibold">{plan.goal.calories}</div>
+                  </div>
+                  <div className="rounded bg-background p-2">
+                    <div className="text-xs text-muted-foreground">Protein</div>
+                    <div className="font-semibold">{plan.goal.protein}g</div>
+                  </div>
+                  <div className="rounded bg-background p-2">
+                    <div className="text-xs text-muted-foreground">Fat</div>
+                    <div className="font-semibold">{plan.goal.fat}g</div>
+                  </div>
+                  <div className="rounded bg-background p-2">
+                    <div className="text-xs text-muted-foreground">Carbs</div>
+                    <div className="font-semibold">{plan.goal.carbs}g</div>
+                  </div>
+                </div>
+                <Button type="button" variant="secondary" className="w-full" onClick={() => onApply(plan.goal)}>
+                  <Wand2 className="h-4 w-4 mr-2" />
+                  Use These Targets
+                </Button>
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default GoalCalculatorCard;
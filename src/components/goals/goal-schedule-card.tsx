@@ -0,0 +1,221 @@
+"use client";
+
+import { useEffect, useState, type FC } from "react";
+import { format, parseISO } from "date-fns";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { CalendarRange, Plus, Save, Trash2 } from "lucide-react";
+import type { DateRangeGoal, Goal, GoalSchedule } from "@/types";
+import { useGoals } from "@/hooks/use-goals";
+import { useToast } from "@/hooks/use-toast";
+import { WEEKDAYS } from "@/lib/goal-schedule";
+
+const GOAL_FIELDS: { key: keyof Goal; label: string; unit: string }[] = [
+  { key: "calories", label: "Calories", unit: "kcal" },
+  { key: "protein", label: "Protein", unit: "g" },
+  { key: "fat", label: "Fat", unit: "g" },
+  { key: "carbs", label: "Carbs", unit: "g" },
+];
+
+const GoalFields: FC<{ idPrefix: string; goal: Goal; onChange: (goal: Goal) => void }> = ({ idPrefix, goal, onChange }) => (
+  <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+    {GOAL_FIELDS.map(field => (
+      <div key={field.key} className="space-y-1">
+        <Label htmlFor={`${idPrefix}-${field.key}`} className="text-xs text-muted-foreground">
+          {field.label} ({field.unit})
+        </Label>
+        <Input
+          id={`${idPrefix}-${field.key}`}
+          type="number"
+          min="0"
+          value={goal[field.key]}
+          onChange={(e) => onChange({ ...goal, [field.key]: Math.max(0, Number(e.target.value) || 0) })}
+        />
+      </div>
+    ))}
+  </div>
+);
+
+interface GoalScheduleCardProps {
+  baseGoal: Goal; // Prefills new overrides
+}
+
+const GoalScheduleCard: FC<GoalScheduleCardProps> = ({ baseGoal }) => {
+  const { goalSchedule, updateGoalSchedule, isLoading } = useGoals();
+  const { toast } = useToast();
+  const [draft, setDraft] = useState<GoalSchedule>(goalSchedule);
+  const [newRange, setNewRange] = useState({ label: "", startDate: "", endDate: "" });
+  const [newRangeGoal, setNewRangeGoal] = useState<Goal>(baseGoal);
+
+  useEffect(() => {
+    if (!isLoading) setDraft(goalSchedule);
+  }, [goalSchedule, isLoading]);
+
+  useEffect(() => {
+    setNewRangeGoal(baseGoal);
+  }, [baseGoal]);
+
+  const toggleWeekday = (weekday: number, label: string, enabled: boolean) => {
+    setDraft(prev => ({
+      ...prev,
+      weekdays: enabled
+        ? [...prev.weekdays, { weekday, label, goal: { ...baseGoal } }]
+        : prev.weekdays.filter(override => override.weekday !== weekday),
+    }));
+  };
+
+  const updateWeekday = (weekday: number, updates: { label?: string; goal?: Goal }) => {
+    setDraft(prev => ({
+      ...prev,
+      weekdays: prev.weekdays.map(override => (override.weekday === weekday ? { ...override, ...updates } : override)),
+    }));
+  };
+
+  const addDateRange = () => {
+    const label = newRange.label.trim();
+    if (!label || !newRange.startDate || !newRange.endDate) {
+      toast({ title: "Missing details", description: "Give the date range a name, a start date and an end date.", variant: "destructive" });
+      return;
+    }
+    if (newRange.endDate < newRange.startDate) {
+      toast({ title: "Invalid dates", description: "The end date must be on or after the start date.", variant: "destructive" });
+      return;
+    }
+    const range: DateRangeGoal = { id: `range-${Date.now()}`, label, startDate: newRange.startDate, endDate: newRange.endDate, goal: newRangeGoal };
+    setDraft(prev => ({ ...prev, dateRanges: [...prev.dateRanges, range].sort((a, b) => a.startDate.localeCompare(b.startDate)) }));
+    setNewRange({ label: "", startDate: "", endDate: "" });
+    setNewRangeGoal(baseGoal);
+  };
+
+  const removeDateRange = (id: string) => {
+    setDraft(prev => ({ ...prev, dateRanges: prev.dateRanges.filter(range => range.id !== id) }));
+  };
+
+  const handleSave = () => {
+    updateGoalSchedule(draft);
+    toast({ title: "Goal schedule saved", description: "The dashboard and AI summaries now use the goal in effect for each day." });
+  };
+
+  return (
+    <Card className="border border-border/40 shadow-lg overflow-hidden mt-6">
+      <CardHeader className="border-b border-border/10 pb-4">
+        <CardTitle className="text-xl font-semibold flex items-center">
+          <CalendarRange className="h-5 w-5 mr-2 text-primary" />
+          Goal Schedule
+        </CardTitle>
+        <CardDescription>
+          Use different targets on some days of the week, or for a set period such as a two-week cut or a festival week.
+          A date range takes priority over a weekday, which takes priority over your everyday goal.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="py-6 space-y-6">
+        <section className="space-y-3">
+          <h3 className="text-sm font-medium">Weekdays</h3>
+          {WEEKDAYS.map(day => {
+            const override = draft.weekdays.find(candidate => candidate.weekday === day.weekday);
+            return (
+              <div key={day.weekday} className="rounded-lg border border-border/40 p-3 space-y-3">
+                <div className="flex items-center justify-between gap-3">
+                  <span className="text-sm font-medium">{day.label}</span>
+                  <div className="flex items-center gap-2">
+                    <span className="text-xs text-muted-foreground">{override ? "Custom" : "Everyday goal"}</span>
+                    <Switch
+                      checked={!!override}
+                      onCheckedChange={(checked) => toggleWeekday(day.weekday, `${day.label} goal`, checked)}
+                      aria-label={`Custom targets on ${day.label}`}
+                    />
+                  </div>
+                </div>
+                {override && (
+                  <>
+                    <div className="space-y-1">
+                      <Label htmlFor={`weekday-${day.weekday}-label`} className="text-xs text-muted-foreground">Name</Label>
+                      <Input
+                        id={`weekday-${day.weekday}-label`}
+                        value={override.label}
+                        onChange={(e) => updateWeekday(day.weekday, { label: e.target.value })}
+                        placeholder="e.g. Training day"
+                      />
+                    </div>
+                    <GoalFields idPrefix={`weekday-${day.weekday}`} goal={override.goal} onChange={(goal) => updateWeekday(day.weekday, { goal })} />
+                  </>
+                )}
+              </div>
+            );
+          })}
+        </section>
+
+        <section className="space-y-3">
+          <h3 className="text-sm font-medium">Date ranges</h3>
+          {draft.dateRanges.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No date ranges yet.</p>
+          ) : (
+            <ul className="space-y-2">
+              {draft.dateRanges.map(range => (
+                <li key={range.id} className="flex items-center justify-between gap-3 rounded-lg bg-muted/40 p-3 text-sm">
+                  <div>
+                    <div className="font-medium">{range.label}</div>
+                    <div className="text-xs text-muted-foreground">
+                      {format(parseISO(range.startDate), "MMM d, yyyy")} – {format(parseISO(range.endDate), "MMM d, yyyy")} ·{" "}
+                      {range.goal.calories} kcal, P {range.goal.protein}g, F {range.goal.fat}g, C {range.goal.carbs}g
+                    </div>
+                  </div>
+                  <Button type="button" variant="ghost" size="icon" onClick={() => removeDateRange(range.id)} aria-label={`Remove ${range.label}`}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <div className="rounded-lg border border-dashed border-border/60 p-3 space-y-3">
+            <div className="grid gap-2 sm:grid-cols-3">
+              <div className="space-y-1">
+                <Label htmlFor="range-label" className="text-xs text-muted-foreground">Name</Label>
+                <Input
+                  id="range-label"
+                  value={newRange.label}
+                  onChange={(e) => setNewRange(prev => ({ ...prev, label: e.target.value }))}
+                  placeholder="e.g. Festival week"
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="range-start" className="text-xs text-muted-foreground">Start</Label>
+                <Input
+                  id="range-start"
+                  type="date"
+                  value={newRange.startDate}
+                  onChange={(e) => setNewRange(prev => ({ ...prev, startDate: e.target.value }))}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="range-end" className="text-xs text-muted-foreground">End</Label>
+                <Input
+                  id="range-end"
+                  type="date"
+                  value={newRange.endDate}
+                  onChange={(e) => setNewRange(prev => ({ ...prev, endDate: e.target.value }))}
+                />
+              </div>
+            </div>
+            <GoalFields idPrefix="range" goal={newRangeGoal} onChange={setNewRangeGoal} />
+            <Button type="button" variant="secondary" size="sm" onClick={addDateRange}>
+              <Plus className="h-4 w-4 mr-1" />
+              Add Date Range
+            </Button>
+          </div>
+        </section>
+
+        <Button type="button" className="w-full" onClick={handleSave} disabled={isLoading}>
+          <Save className="h-4 w-4 mr-2" />
+          Save Schedule
+        </Button>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default GoalScheduleCard;
@@ -5,6 +5,8 @@ import BottomNavigationBar from "./bottom-navigation";
 import { motion, AnimatePresence } from "framer-motion";
 import { usePathname, useRouter } from "next/navigation";
 import { needsOnboarding } from "@/lib/onboarding";
+import { runStorageMigrations } from "@/lib/storage";
+import { repairDailyLogs } from "@/lib/daily-summary";
 import Image from "next/image";
 // Import icons for health and calories
 import { 
@@ -56,6 +58,18 @@ export function AppLayout({ children }: PropsWithChildren) {
   const pathname = usePathname();
   const router = useRouter();
   const [isLoading, setIsLoading] = useState(true);
+
+  // Pages only mount after the loading screen, so stored data is migrated before any of them read it
+  useEffect(() => {
+    runStorageMigrations();
+    const { corrected, unreadable } = repairDailyLogs();
+    if (corrected.length > 0) {
+      console.info(`Rebuilt daily totals from logged entries for: ${corrected.map(day => day.date).join(', ')}`);
+    }
+    if (unreadable.length > 0) {
+      console.warn(`Kept the saved daily totals for days with unreadable entries: ${unreadable.join(', ')}`);
+    }
+  }, []);
   
   useEffect(() => {
     // Check if we need to redirect to onboarding
@@ -0,0 +1,163 @@
+"use client";
+
+import { useRef, useState, type ChangeEvent, type FC } from "react";
+import { format } from "date-fns";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Database, Download, FileSpreadsheet, Upload, AlertTriangle } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import {
+  applyImport,
+  buildDataExport,
+  foodEntriesToCsv,
+  parseDataExport,
+  previewImport,
+  type DataExport,
+  type ImportMode,
+} from "@/lib/data-transfer";
+import { downloadFile } from "@/lib/utils";
+
+const DataTransferCard: FC = () => {
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [pendingImport, setPendingImport] = useState<{ fileName: string; data: DataExport } | null>(null);
+  const [importMode, setImportMode] = useState<ImportMode>("merge");
+
+  const stamp = () => format(new Date(), "yyyy-MM-dd");
+
+  const handleExportJson = () => {
+    const data = buildDataExport();
+    downloadFile(JSON.stringify(data, null, 2), `calorie-tracker-export-${stamp()}.json`, "application/json");
+    toast({ title: "Export Ready", description: `${data.days.length} logged days exported.` });
+  };
+
+  const handleExportCsv = () => {
+    downloadFile(foodEntriesToCsv(buildDataExport()), `calorie-tracker-entries-${stamp()}.csv`, "text/csv");
+  };
+
+  const handleFileSelected = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ""; // Allow picking the same file again
+    if (!file) return;
+
+    const result = parseDataExport(await file.text());
+    if (!result.success) {
+      setPendingImport(null);
+      toast({ title: "Import Failed", description: result.error, variant: "destructive" });
+      return;
+    }
+    setPendingImport({ fileName: file.name, data: result.data });
+  };
+
+  const handleConfirmImport = () => {
+    if (!pendingImport) return;
+    applyImport(pendingImport.data, importMode);
+    // Hooks on every page read storage on mount, so reload to show the imported data
+    window.location.reload();
+  };
+
+  const preview = pendingImport ? previewImport(pendingImport.data, importMode) : null;
+  // A changed section the file doesn't have is cleared (replace mode only)
+  const outcome = (section: unknown, verb = "replaced") => (section === null ? "cleared" : verb);
+
+  return (
+    <Card className="mt-6">
+      <CardHeader className="pb-3">
+        <div className="flex items-center gap-2">
+          <Database className="h-5 w-5 text-primary" />
+          <CardTitle className="text-xl">Your Data</CardTitle>
+        </div>
+        <CardDescription>
+          Back up your logs, goals and settings, or move them to another device.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+          <Button variant="outline" onClick={handleExportJson}>
+            <Download className="h-4 w-4 mr-2" />
+            Export (JSON)
+          </Button>
+          <Button variant="outline" onClick={handleExportCsv}>
+            <FileSpreadsheet className="h-4 w-4 mr-2" />
+            Food Log (CSV)
+          </Button>
+          <Button variant="outline" onClick={() => fileInputRef.current?.click()}>
+            <Upload className="h-4 w-4 mr-2" />
+            Import
+          </Button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={handleFileSelected}
+          />
+        </div>
+
+        {pendingImport && preview && (
+          <div className="rounded-lg border p-4 space-y-4">
+            <div>
+              <h3 className="font-medium">{pendingImport.fileName}</h3>
+              <p className="text-xs text-muted-foreground">
+                Exported {format(new Date(preview.exportedAt), "MMM d, yyyy 'at' HH:mm")} · {preview.daysInFile} days
+              </p>
+            </div>
+
+            <RadioGroup value={importMode} onValueChange={(value) => setImportMode(value as ImportMode)}>
+              <div className="flex items-start gap-2">
+                <RadioGroupItem value="merge" id="import-merge" className="mt-0.5" />
+                <Label htmlFor="import-merge" className="font-normal">
+                  <span className="font-medium">Merge</span> — add new entries and update ones with the same id. Keeps everything else on this device.
+                </Label>
+              </div>
+              <div className="flex items-start gap-2">
+                <RadioGroupItem value="replace" id="import-replace" className="mt-0.5" />
+                <Label htmlFor="import-replace" className="font-normal">
+                  <span className="font-medium">Replace</span> — make this device match the file exactly.
+                </Label>
+              </div>
+            </RadioGroup>
+
+            <ul className="text-sm space-y-1">
+              <li>{preview.entriesAdded} entries added</li>
+              <li>{preview.entriesUpdated} entries updated</li>
+              <li>{preview.entriesUnchanged} entries unchanged</li>
+              {preview.entriesRemoved > 0 && <li className="text-destructive">{preview.entriesRemoved} entries removed</li>}
+              {preview.dietChartsAdded > 0 && <li>{preview.dietChartsAdded} saved diet charts added</li>}
+              {preview.weighInsAdded > 0 && <li>{preview.weighInsAdded} weigh-ins imported</li>}
+              {preview.weighInsRemoved > 0 && <li className="text-destructive">{preview.weighInsRemoved} weigh-ins removed</li>}
+              {preview.waterEntriesAdded > 0 && <li>{preview.waterEntriesAdded} water entries added</li>}
+              {preview.goalsChanged && <li>Nutrition goals will be {outcome(pendingImport.data.goals)}</li>}
+              {preview.goalScheduleChanged && (
+                <li>Weekday and date-range goals will be {outcome(pendingImport.data.goalSchedule, "updated")}</li>
+              )}
+              {preview.adaptiveGoalChanged && <li>Adaptive goal settings will be {outcome(pendingImport.data.adaptiveGoal)}</li>}
+              {preview.profileChanged && <li>Profile details will be {outcome(pendingImport.data.profile)}</li>}
+              {preview.reminderSettingsChanged && <li>Reminder settings will be {outcome(pendingImport.data.reminderSettings)}</li>}
+            </ul>
+
+            {importMode === "replace" && (
+              <Alert variant="destructive">
+                <AlertTriangle className="h-4 w-4" />
+                <AlertTitle>This cannot be undone</AlertTitle>
+                <AlertDescription>Export your current data first if you might need it.</AlertDescription>
+              </Alert>
+            )}
+
+            <div className="flex gap-2 justify-end">
+              <Button variant="ghost" onClick={() => setPendingImport(null)}>Cancel</Button>
+              <Button variant={importMode === "replace" ? "destructive" : "default"} onClick={handleConfirmImport}>
+                {importMode === "replace" ? "Replace My Data" : "Merge Into My Data"}
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default DataTransferCard;
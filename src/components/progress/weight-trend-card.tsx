@@ -0,0 +1,204 @@
+"use client";
+
+import { useState, type FC, type FormEvent } from "react";
+import { format, parseISO } from "date-fns";
+import { ComposedChart, Line, Scatter, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine } from "recharts";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Scale, Target, Trash2, Trophy } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useWeightLog } from "@/hooks/use-weight-log";
+import { formatWeight, fromKg, type GoalProjection, type WeightUnit } from "@/lib/weight-trend";
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+const describeProjection = (projection: GoalProjection, unit: WeightUnit) => {
+  const rate = "ratePerWeekKg" in projection && projection.ratePerWeekKg !== null
+    ? `${projection.ratePerWeekKg > 0 ? "+" : "−"}${formatWeight(Math.abs(projection.ratePerWeekKg), unit)}/week`
+    : null;
+
+  switch (projection.status) {
+    case "no-goal":
+      return "Set a goal weight to see when you're on course to reach it.";
+    case "insufficient-data":
+      return "Log weigh-ins across at least a week to project a goal date.";
+    case "reached":
+      return "You're at your goal weight. Nice work!";
+    case "stalled":
+      return `Your trend is flat (${rate}), so there's no projected goal date yet.`;
+    case "moving-away":
+      return `Your trend is moving away from your goal (${rate}).`;
+    case "on-track":
+      return `At ${rate} you'll reach your goal around ${format(projection.projectedDate, "MMM d, yyyy")} (${projection.daysRemaining} days).`;
+  }
+};
+
+const WeightTrendCard: FC = () => {
+  const { entries, trend, projection, goalWeightKg, unit, isLoading, addWeightEntry, deleteWeightEntry, updateGoalWeight } = useWeightLog();
+  const { toast } = useToast();
+  const [weightInput, setWeightInput] = useState("");
+  const [goalInput, setGoalInput] = useState("");
+
+  const latest = trend[trend.length - 1];
+
+  const chartData = trend.map(point => ({
+    date: point.date,
+    weight: round1(fromKg(point.weightKg, unit)),
+    trend: round1(fromKg(point.trendKg, unit)),
+  }));
+
+  const handleLogWeight = (e: FormEvent) => {
+    e.preventDefault();
+    const value = parseFloat(weightInput);
+    if (!Number.isFinite(value) || value <= 0) {
+      toast({ title: "Invalid weight", description: `Enter your weight in ${unit}.`, variant: "destructive" });
+      return;
+    }
+    addWeightEntry(value);
+    setWeightInput("");
+    toast({ title: "Weigh-in Logged", description: `${value} ${unit} saved for today.` });
+  };
+
+  const handleSaveGoal = (e: FormEvent) => {
+    e.preventDefault();
+    const value = parseFloat(goalInput);
+    updateGoalWeight(Number.isFinite(value) && value > 0 ? value : undefined);
+    setGoalInput("");
+  };
+
+  return (
+    <Card className="overflow-hidden shadow-lg border-border/50 bg-card/50 backdrop-blur-sm">
+      <div className="absolute top-0 left-0 right-0 h-1 bg-gradient-to-r from-primary/40 via-primary to-primary/40"></div>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <Scale className="mr-2 h-5 w-5 text-primary" />
+          <span>Weight Trend</span>
+        </CardTitle>
+        <CardDescription>Daily weigh-ins with a smoothed trend line, so one heavy day doesn't hide your progress.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-5">
+        <div className="grid gap-3 sm:grid-cols-2">
+          <form onSubmit={handleLogWeight} className="space-y-1">
+            <Label htmlFor="weigh-in">Today's weight ({unit})</Label>
+            <div className="flex gap-2">
+              <Input
+                id="weigh-in"
+                type="number"
+                step="0.1"
+                min="0"
+                value={weightInput}
+                onChange={(e) => setWeightInput(e.target.value)}
+                placeholder={unit === "kg" ? "e.g. 70.5" : "e.g. 155"}
+              />
+              <Button type="submit" disabled={!weightInput}>Log</Button>
+            </div>
+          </form>
+          <form onSubmit={handleSaveGoal} className="space-y-1">
+            <Label htmlFor="goal-weight">
+              Goal weight ({unit}){goalWeightKg ? `: ${formatWeight(goalWeightKg, unit)}` : ""}
+            </Label>
+            <div className="flex gap-2">
+              <Input
+                id="goal-weight"
+                type="number"
+                step="0.1"
+                min="0"
+                value={goalInput}
+                onChange={(e) => setGoalInput(e.target.value)}
+                placeholder={goalWeightKg ? "Leave empty to clear" : "Set a goal"}
+              />
+              <Button type="submit" variant="outline">
+                <Target className="h-4 w-4" />
+              </Button>
+            </div>
+          </form>
+        </div>
+
+        {isLoading ? (
+          <div className="h-[260px] w-full bg-muted rounded-lg animate-pulse" />
+        ) : chartData.length === 0 ? (
+          <div className="h-[160px] flex flex-col items-center justify-center bg-muted/30 rounded-lg text-muted-foreground">
+            <Scale className="h-10 w-10 mb-3 text-muted-foreground/50" />
+            <p className="text-sm">No weigh-ins yet. Log one above to start your trend.</p>
+          </div>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 gap-3 text-sm">
+              <div className="rounded-lg bg-primary/5 p-3">
+                <div className="text-xs text-muted-foreground">Trend weight</div>
+                <div className="text-xl font-bold">{formatWeight(latest.trendKg, unit)}</div>
+              </div>
+              <div className="rounded-lg bg-primary/5 p-3">
+                <div className="text-xs text-muted-foreground">Last weigh-in</div>
+                <div className="text-xl font-bold">{formatWeight(latest.weightKg, unit)}</div>
+              </div>
+            </div>
+
+            <div className="h-[260px] w-full">
+              <ResponsiveContainer width="100%" height="100%">
+                <ComposedChart data={chartData} margin={{ top: 10, right: 10, left: -10, bottom: 0 }}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+                  <XAxis
+                    dataKey="date"
+                    tickFormatter={(date: string) => format(parseISO(date), "MMM d")}
+                    stroke="hsl(var(--muted-foreground))"
+                    fontSize={12}
+                  />
+                  <YAxis domain={["dataMin - 1", "dataMax + 1"]} stroke="hsl(var(--muted-foreground))" fontSize={12} />
+                  <Tooltip
+                    contentStyle={{
+                      backgroundColor: "hsl(var(--card))",
+                      borderColor: "hsl(var(--border))",
+                      borderRadius: "8px",
+                    }}
+                    labelFormatter={(date: string) => format(parseISO(date), "MMM d, yyyy")}
+                    formatter={(value: number, name: string) => [`${value} ${unit}`, name === "trend" ? "Trend" : "Weigh-in"]}
+                  />
+                  {goalWeightKg && (
+                    <ReferenceLine y={round1(fromKg(goalWeightKg, unit))} stroke="hsl(142, 76%, 36%)" strokeDasharray="6 4" label={{ value: "Goal", fontSize: 11, fill: "hsl(var(--muted-foreground))" }} />
+                  )}
+                  <Scatter dataKey="weight" fill="hsl(var(--chart-2))" />
+                  <Line type="monotone" dataKey="trend" stroke="hsl(var(--primary))" strokeWidth={2.5} dot={false} />
+                </ComposedChart>
+              </ResponsiveContainer>
+            </div>
+
+            {projection.status === "reached" ? (
+              <div className="weight-milestone flex items-center gap-2 rounded-lg bg-green-100 dark:bg-green-900/30 px-3 py-2 text-sm text-green-700 dark:text-green-400">
+                <Trophy className="h-4 w-4" />
+                Goal weight milestone reached!
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground">{describeProjection(projection, unit)}</p>
+            )}
+
+            <div className="space-y-1">
+              <h4 className="text-xs font-medium text-muted-foreground">Recent weigh-ins</h4>
+              {entries.slice(-5).reverse().map(entry => (
+                <div key={entry.id} className="flex items-center justify-between text-sm py-1">
+                  <span>{format(parseISO(entry.date), "EEE, MMM d")}</span>
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">{formatWeight(entry.weightKg, unit)}</span>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 w-7"
+                      aria-label="Delete weigh-in"
+                      onClick={() => deleteWeightEntry(entry.id)}
+                    >
+                      <Trash2 className="h-3.5 w-3.5 text-muted-foreground" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default WeightTrendCard;
@@ -0,0 +1,98 @@
+"use client";
+
+import type { FC } from "react";
+import { addHours, format } from "date-fns";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { CalendarClock, Droplets, Scale, Utensils, X } from "lucide-react";
+import type { PendingReminder } from "@/lib/reminder-scheduler";
+import type { ReminderType } from "@/lib/reminder-schedule";
+
+// The list is a preview; hydration alone can fill a week with dozens of reminders
+const VISIBLE_REMINDERS = 8;
+
+const TYPE_ICONS: Record<ReminderType, typeof Utensils> = {
+  meal: Utensils,
+  hydration: Droplets,
+  "weigh-in": Scale,
+};
+
+interface ScheduledRemindersCardProps {
+  reminders: PendingReminder[];
+  isLoading: boolean;
+  error: string | null;
+  onCancel: (id: string) => void;
+  onMove: (id: string, fireAt: Date) => void;
+}
+
+const ScheduledRemindersCard: FC<ScheduledRemindersCardProps> = ({ reminders, isLoading, error, onCancel, onMove }) => {
+  const visible = reminders.slice(0, VISIBLE_REMINDERS);
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <CalendarClock className="h-5 w-5 text-primary" />
+          Upcoming reminders
+        </CardTitle>
+        <CardDescription>
+          Scheduled on this device for the next week, and delivered even when the app is closed.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {error ? (
+          <p className="text-sm text-muted-foreground">{error}</p>
+        ) : isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading scheduled reminders…</p>
+        ) : visible.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            Nothing scheduled. Save your reminder settings to plan the coming week.
+          </p>
+        ) : (
+          <ul className="divide-y divide-border/50">
+            {visible.map(reminder => {
+              const Icon = TYPE_ICONS[reminder.type];
+              return (
+                <li key={reminder.id} className="flex items-center gap-3 py-2">
+                  <Icon className="h-4 w-4 shrink-0 text-muted-foreground" />
+                  <div className="min-w-0 flex-1">
+                    <p className="truncate text-sm font-medium">{reminder.title}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {format(reminder.fireAt, "EEE, MMM d 'at' h:mm a")}
+                      {reminder.rescheduled && <Badge variant="outline" className="ml-2 text-[10px]">Moved</Badge>}
+                    </p>
+                  </div>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={() => onMove(reminder.id, addHours(reminder.fireAt, 1))}
+                  >
+                    +1 hour
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    aria-label={`Cancel ${reminder.title}`}
+                    onClick={() => onCancel(reminder.id)}
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+        {reminders.length > visible.length && (
+          <p className="mt-2 text-xs text-muted-foreground">
+            And {reminders.length - visible.length} more this week.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ScheduledRemindersCard;
@@ -0,0 +1,79 @@
+"use client";
+
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import type { AdaptiveGoalSettings, DailyLogEntry, Goal } from '@/types';
+import { adaptiveGoalRecord, goalsRecord, weightLogRecord } from '@/lib/storage';
+import { computeWeightTrend, type WeightTrendPoint } from '@/lib/weight-trend';
+import { collectRecentIntake, isReviewDue, proposeAdaptiveGoal } from '@/lib/adaptive-goal';
+
+const DEFAULT_SETTINGS: AdaptiveGoalSettings = {
+  enabled: false,
+  targetRateKgPerWeek: -0.25,
+  history: [],
+};
+
+/**
+ * Adaptive goal mode for the goals page. Proposals never apply on their own:
+ * the current goal only changes through acceptProposal.
+ */
+export function useAdaptiveGoal(currentGoal: Goal) {
+  const [settings, setSettings] = useState<AdaptiveGoalSettings>(DEFAULT_SETTINGS);
+  const [intake, setIntake] = useState<DailyLogEntry[]>([]);
+  const [trend, setTrend] = useState<WeightTrendPoint[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    setSettings(adaptiveGoalRecord.read() ?? DEFAULT_SETTINGS);
+    setIntake(collectRecentIntake());
+    setTrend(computeWeightTrend(weightLogRecord.read()?.entries ?? []));
+    setIsLoading(false);
+  }, []);
+
+  const saveSettings = useCallback((updates: Partial<AdaptiveGoalSettings>) => {
+    setSettings(prevSettings => {
+      const updatedSettings = { ...prevSettings, ...updates };
+      adaptiveGoalRecord.write(updatedSettings);
+      return updatedSettings;
+    });
+  }, []);
+
+  const proposal = useMemo(
+    () => proposeAdaptiveGoal({ currentGoal, targetRateKgPerWeek: settings.targetRateKgPerWeek, intake, trend }),
+    [currentGoal, settings.targetRateKgPerWeek, intake, trend]
+  );
+
+  const isDue = settings.enabled && isReviewDue(settings.lastReviewedAt);
+
+  /** Saves the proposed goal. Returns it so the caller can update its own state, or null if there was nothing to accept. */
+  const acceptProposal = useCallback((): Goal | null => {
+    if (proposal.status !== 'proposal') return null;
+    const reviewedAt = new Date().toISOString();
+    goalsRecord.write(proposal.proposedGoal);
+    saveSettings({
+      lastReviewedAt: reviewedAt,
+      history: [...settings.history, { reviewedAt, fromCalories: currentGoal.calories, toCalories: proposal.proposedGoal.calories, accepted: true }],
+    });
+    return proposal.proposedGoal;
+  }, [proposal, currentGoal.calories, settings.history, saveSettings]);
+
+  const dismissProposal = useCallback(() => {
+    if (proposal.status !== 'proposal') return;
+    const reviewedAt = new Date().toISOString();
+    saveSettings({
+      lastReviewedAt: reviewedAt,
+      history: [...settings.history, { reviewedAt, fromCalories: currentGoal.calories, toCalories: proposal.proposedGoal.calories, accepted: false }],
+    });
+  }, [proposal, currentGoal.calories, settings.history, saveSettings]);
+
+  return {
+    settings,
+    intake,
+    proposal,
+    isDue,
+    isLoading,
+    setEnabled: (enabled: boolean) => saveSettings({ enabled }),
+    setTargetRate: (targetRateKgPerWeek: number) => saveSettings({ targetRateKgPerWeek }),
+    acceptProposal,
+    dismissProposal,
+  };
+}
@@ -1,16 +1,18 @@
 
 "use client";
 
-import { useState, useEffect, useCallback } from 'react';
-import type { FoodEntry, DailyLogEntry } from '@/types';
-import { format } from 'date-fns';
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import type { FoodEntry, DailyLogEntry, MealType } from '@/types';
+import { format, isToday } from 'date-fns';
 import { useToast } from "@/hooks/use-toast";
-
-const getLocalStorageKey = (base: string, date: Date) => `${base}_${format(date, 'yyyy-MM-dd')}`;
+import { suggestMealType } from '@/lib/meal-slots';
+import { foodEntriesKey, foodEntriesRecord, isQuarantined } from '@/lib/storage';
+import { readDailySummary, saveFoodEntries, summarizeEntries } from '@/lib/daily-summary';
+import { shareReminderLogStateWithApp } from '@/lib/reminder-rules';
+import { syncReminderSchedule } from '@/lib/reminder-scheduler';
 
 export function useDailyLog() {
   const [currentSelectedDateInternal, setCurrentSelectedDateInternal] = useState<Date | null>(null);
-  const [dailyLog, setDailyLog] = useState<DailyLogEntry | null>(null);
   const [foodEntries, setFoodEntries] = useState<FoodEntry[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const { toast } = useToast();
@@ -23,27 +25,10 @@ export function useDailyLog() {
   const loadLogForDate = useCallback((dateToLoad: Date) => {
     setIsLoading(true);
     try {
-      const summaryKey = getLocalStorageKey('dailyLog', dateToLoad);
-      const entriesKey = getLocalStorageKey('foodEntries', dateToLoad);
-
-      const storedSummary = localStorage.getItem(summaryKey);
-      const storedEntries = localStorage.getItem(entriesKey);
-
-      if (storedSummary) {
-        setDailyLog(JSON.parse(storedSummary));
-      } else {
-        setDailyLog({ date: format(dateToLoad, 'yyyy-MM-dd'), calories: 0, protein: 0, fat: 0, carbs: 0 });
-      }
-
-      if (storedEntries) {
-        setFoodEntries(JSON.parse(storedEntries).sort((a: FoodEntry, b: FoodEntry) => a.timestamp - b.timestamp));
-      } else {
-        setFoodEntries([]);
-      }
+      const storedEntries = foodEntriesRecord(dateToLoad).read() ?? [];
+      setFoodEntries(storedEntries.sort((a, b) => a.timestamp - b.timestamp));
     } catch (error) {
       console.error("Failed to load daily log from localStorage", error);
-      const formattedDate = format(dateToLoad, 'yyyy-MM-dd');
-      setDailyLog({ date: formattedDate, calories: 0, protein: 0, fat: 0, carbs: 0 });
       setFoodEntries([]);
       toast({
         title: "Error Loading Log",
@@ -61,52 +46,73 @@ export function useDailyLog() {
     }
   }, [currentSelectedDateInternal, loadLogForDate]);
 
+  // Pick up entries written by another tab so this one doesn't save over them with stale state
+  useEffect(() => {
+    if (!currentSelectedDateInternal) return;
+    const watchedKey = foodEntriesKey(currentSelectedDateInternal);
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key === watchedKey) loadLogForDate(currentSelectedDateInternal);
+    };
+    window.addEventListener('storage', handleStorage);
+    return () => window.removeEventListener('storage', handleStorage);
+  }, [currentSelectedDateInternal, loadLogForDate]);
+
+  // Meal reminders are planned from today's log, in the service worker and in the Android app
+  useEffect(() => {
+    if (!isLoading && currentSelectedDateInternal && isToday(currentSelectedDateInternal)) {
+      shareReminderLogStateWithApp(currentSelectedDateInternal);
+      syncReminderSchedule();
+    }
+  }, [currentSelectedDateInternal, foodEntries, isLoading]);
+
+  // The summary is always derived from the entries, so it cannot drift from them. A day
+  // whose entries were quarantined keeps its cached totals until something is logged.
+  const dailyLog = useMemo<DailyLogEntry | null>(() => {
+    if (!currentSelectedDateInternal) return null;
+    if (foodEntries.length === 0 && isQuarantined(foodEntriesKey(currentSelectedDateInternal))) {
+      return readDailySummary(currentSelectedDateInternal);
+    }
+    return summarizeEntries(currentSelectedDateInternal, foodEntries);
+  }, [currentSelectedDateInternal, foodEntries]);
+
   const selectDateForLog = useCallback((newDate: Date) => {
     setCurrentSelectedDateInternal(newDate);
   }, []);
 
-  const addFoodEntry = useCallback((newEntryData: Omit<FoodEntry, 'id' | 'timestamp'>) => {
+  /** Re-reads the selected day, e.g. after entries were added outside this hook. */
+  const reloadLog = useCallback(() => {
+    if (currentSelectedDateInternal) loadLogForDate(currentSelectedDateInternal);
+  }, [currentSelectedDateInternal, loadLogForDate]);
+
+  /** Adds several entries in one write, e.g. each item detected on a plate. */
+  const addFoodEntries = useCallback((newEntriesData: (Omit<FoodEntry, 'id' | 'timestamp' | 'mealType'> & { mealType?: MealType })[]) => {
     if (!currentSelectedDateInternal) {
       toast({ title: "Error", description: "No date selected to log food.", variant: "destructive" });
       return;
     }
     
-    const newId = Date.now().toString(); // Simple ID for localStorage
-    const entryWithMeta: FoodEntry = {
+    const now = Date.now();
+    const mealType = suggestMealType();
+    const entriesWithMeta: FoodEntry[] = newEntriesData.map((newEntryData, index) => ({
       ...newEntryData,
-      id: newId,
-      timestamp: Date.now(),
-    };
+      // Simple ID for local storage records; the suffix keeps entries added together distinct
+      id: index === 0 ? now.toString() : `${now}-${index}`,
+      timestamp: now,
+      mealType: newEntryData.mealType ?? mealType,
+    }));
 
     setFoodEntries(prevEntries => {
-      const updatedEntries = [...prevEntries, entryWithMeta].sort((a, b) => a.timestamp - b.timestamp);
-      try {
-        localStorage.setItem(getLocalStorageKey('foodEntries', currentSelectedDateInternal), JSON.stringify(updatedEntries));
-      } catch (error) {
-        console.error("Failed to save food entries to localStorage", error);
-      }
+      const updatedEntries = [...prevEntries, ...entriesWithMeta].sort((a, b) => a.timestamp - b.timestamp);
+      saveFoodEntries(currentSelectedDateInternal, updatedEntries);
       return updatedEntries;
     });
 
-    setDailyLog(prevLog => {
-      const currentSummary = prevLog || { date: format(currentSelectedDateInternal, 'yyyy-MM-dd'), calories: 0, protein: 0, fat: 0, carbs: 0 };
-      const updatedSummary: DailyLogEntry = {
-        ...currentSummary,
-        calories: currentSummary.calories + newEntryData.calories,
-        protein: currentSummary.protein + newEntryData.protein,
-        fat: currentSummary.fat + newEntryData.fat,
-        carbs: currentSummary.carbs + newEntryData.carbs,
-      };
-      try {
-        localStorage.setItem(getLocalStorageKey('dailyLog', currentSelectedDateInternal), JSON.stringify(updatedSummary));
-      } catch (error) {
-        console.error("Failed to save daily log summary to localStorage", error);
-      }
-      return updatedSummary;
-    });
-
   }, [currentSelectedDateInternal, toast]);
 
+  const addFoodEntry = useCallback((newEntryData: Omit<FoodEntry, 'id' | 'timestamp' | 'mealType'> & { mealType?: MealType }) => {
+    addFoodEntries([newEntryData]);
+  }, [addFoodEntries]);
+
   const deleteFoodEntry = useCallback(async (entryId: string) => {
     if (!currentSelectedDateInternal) {
       toast({ title: "Error", description: "No date selected for deletion.", variant: "destructive" });
@@ -121,30 +127,9 @@ export function useDailyLog() {
     
     setFoodEntries(prevEntries => {
       const updatedEntries = prevEntries.filter(entry => entry.id !== entryId);
-      try {
-        localStorage.setItem(getLocalStorageKey('foodEntries', currentSelectedDateInternal), JSON.stringify(updatedEntries));
-      } catch (error) {
-        console.error("Failed to save food entries to localStorage after deletion", error);
-      }
+      saveFoodEntries(currentSelectedDateInternal, updatedEntries);
       return updatedEntries;
     });
-
-    setDailyLog(prevLog => {
-      if (!prevLog) return null; // Should not happen if an entry was deleted
-      const updatedSummary: DailyLogEntry = {
-        ...prevLog,
-        calories: Math.max(0, prevLog.calories - entryToDelete.calories),
-        protein: Math.max(0, prevLog.protein - entryToDelete.protein),
-        fat: Math.max(0, prevLog.fat - entryToDelete.fat),
-        carbs: Math.max(0, prevLog.carbs - entryToDelete.carbs),
-      };
-      try {
-        localStorage.setItem(getLocalStorageKey('dailyLog', currentSelectedDateInternal), JSON.stringify(updatedSummary));
-      } catch (error) {
-        console.error("Failed to save daily log summary to localStorage after deletion", error);
-      }
-      return updatedSummary;
-    });
     
     setTimeout(() => {
         toast({
@@ -155,31 +140,49 @@ export function useDailyLog() {
 
   }, [currentSelectedDateInternal, foodEntries, toast]);
 
+  const updateFoodEntry = useCallback((entryId: string, updates: Partial<Omit<FoodEntry, 'id' | 'timestamp'>>) => {
+    if (!currentSelectedDateInternal) {
+      toast({ title: "Error", description: "No date selected to update food.", variant: "destructive" });
+      return;
+    }
+
+    const entryToUpdate = foodEntries.find(entry => entry.id === entryId);
+    if (!entryToUpdate) {
+      console.warn("Entry to update not found in local state:", entryId);
+      return;
+    }
+
+    // Keep the original id and timestamp so the entry stays in place in the log
+    const updatedEntry: FoodEntry = { ...entryToUpdate, ...updates, id: entryToUpdate.id, timestamp: entryToUpdate.timestamp };
+
+    setFoodEntries(prevEntries => {
+      const updatedEntries = prevEntries.map(entry => entry.id === entryId ? updatedEntry : entry);
+      saveFoodEntries(currentSelectedDateInternal, updatedEntries);
+      return updatedEntries;
+    });
+  }, [currentSelectedDateInternal, foodEntries, toast]);
+
+  const moveFoodEntry = useCallback((entryId: string, mealType: MealType) => {
+    if (!currentSelectedDateInternal) {
+      toast({ title: "Error", description: "No date selected to move food.", variant: "destructive" });
+      return;
+    }
+
+    setFoodEntries(prevEntries => {
+      const updatedEntries = prevEntries.map(entry => entry.id === entryId ? { ...entry, mealType } : entry);
+      saveFoodEntries(currentSelectedDateInternal, updatedEntries);
+      return updatedEntries;
+    });
+  }, [currentSelectedDateInternal, toast]);
+
   const getLogDataForDate = useCallback((dateToFetch: Date): { summary: DailyLogEntry | null; entries: FoodEntry[] } => {
-    // This function is now synchronous as it reads from localStorage
+    // This function is synchronous as it reads from the local storage records
     try {
-      const summaryKey = getLocalStorageKey('dailyLog', dateToFetch);
-      const entriesKey = getLocalStorageKey('foodEntries', dateToFetch);
-
-      const storedSummary = localStorage.getItem(summaryKey);
-      const storedEntries = localStorage.getItem(entriesKey);
-
-      let summary: DailyLogEntry | null = null;
-      if (storedSummary) {
-        summary = JSON.parse(storedSummary);
-      } else {
-         summary = { 
-          date: format(dateToFetch, 'yyyy-MM-dd'), 
-          calories: 0, protein: 0, fat: 0, carbs: 0 
-        };
-      }
-
-      let entries: FoodEntry[] = [];
-      if (storedEntries) {
-        entries = JSON.parse(storedEntries).sort((a: FoodEntry, b: FoodEntry) => a.timestamp - b.timestamp);
-      }
-      
-      return { summary, entries };
+      // null when the entries are unreadable, so the summary falls back to the cached totals
+      const storedEntries = foodEntriesRecord(dateToFetch).read()?.sort((a, b) => a.timestamp - b.timestamp) ?? null;
+      const summary = readDailySummary(dateToFetch, storedEntries);
+
+      return { summary, entries: storedEntries ?? [] };
 
     } catch (error) {
       console.error("Failed to fetch log data from localStorage for date:", format(dateToFetch, 'yyyy-MM-dd'), error);
@@ -201,10 +204,14 @@ export function useDailyLog() {
     dailyLog, 
     foodEntries, 
     addFoodEntry, 
+    addFoodEntries,
     deleteFoodEntry, 
+    updateFoodEntry,
+    moveFoodEntry,
     isLoading, 
     currentSelectedDate: currentSelectedDateInternal, 
     selectDateForLog, 
+    reloadLog,
     getLogDataForDate
   };
 }
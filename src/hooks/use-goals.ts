@@ -1,47 +1,49 @@
-
 "use client";
 
 import { useState, useEffect, useCallback } from 'react';
-import type { Goal } from '@/types';
+import type { Goal, GoalSchedule } from '@/types';
+import { goalScheduleRecord, goalsRecord } from '@/lib/storage';
+import { EMPTY_GOAL_SCHEDULE, resolveGoalForDate, type ResolvedGoal } from '@/lib/goal-schedule';
 
-const DEFAULT_GOALS: Goal = {
+export const DEFAULT_GOALS: Goal = {
   calories: 2000,
   protein: 150,
   fat: 70,
   carbs: 250,
 };
 
-const LOCAL_STORAGE_KEY = 'userGoals';
-
 export function useGoals() {
   const [goals, setGoals] = useState<Goal>(DEFAULT_GOALS);
+  const [goalSchedule, setGoalSchedule] = useState<GoalSchedule>(EMPTY_GOAL_SCHEDULE);
   const [isLoading, setIsLoading] = useState(true);
 
   useEffect(() => {
-    try {
-      const storedGoals = localStorage.getItem(LOCAL_STORAGE_KEY);
-      if (storedGoals) {
-        setGoals(JSON.parse(storedGoals));
-      }
-    } catch (error) {
-      console.error("Failed to load goals from localStorage", error);
-      setGoals(DEFAULT_GOALS);
-    } finally {
-      setIsLoading(false);
+    const storedGoals = goalsRecord.read();
+    if (storedGoals) {
+      setGoals(storedGoals);
     }
+    setGoalSchedule(goalScheduleRecord.read() ?? EMPTY_GOAL_SCHEDULE);
+    setIsLoading(false);
   }, []);
 
   const updateGoals = useCallback((newGoals: Partial<Goal>) => {
     setGoals((prevGoals) => {
       const updatedGoals = { ...prevGoals, ...newGoals };
-      try {
-        localStorage.setItem(LOCAL_STORAGE_KEY, JSON.stringify(updatedGoals));
-      } catch (error) {
-        console.error("Failed to save goals to localStorage", error);
-      }
+      goalsRecord.write(updatedGoals);
       return updatedGoals;
     });
   }, []);
 
-  return { goals, updateGoals, isLoading };
+  const updateGoalSchedule = useCallback((newSchedule: GoalSchedule) => {
+    goalScheduleRecord.write(newSchedule);
+    setGoalSchedule(newSchedule);
+  }, []);
+
+  /** The goal in effect on a date: `goals` is only the everyday default. */
+  const getGoalForDate = useCallback(
+    (date: Date): ResolvedGoal => resolveGoalForDate(goals, goalSchedule, date),
+    [goals, goalSchedule]
+  );
+
+  return { goals, goalSchedule, getGoalForDate, updateGoals, updateGoalSchedule, isLoading };
 }
@@ -0,0 +1,100 @@
+"use client";
+
+import { useEffect, useCallback, useRef } from 'react';
+import { useToast } from '@/hooks/use-toast';
+import { MEAL_TYPE_LABELS } from '@/lib/meal-slots';
+import {
+  applyNotificationActions,
+  clearRecordedNotificationActions,
+  listRecordedNotificationActions,
+  parseNotificationActionOutcomes,
+  type NotificationActionOutcome,
+} from '@/lib/notification-actions';
+
+interface NativeAppBridge {
+  postMessage(message: string): void;
+}
+
+function describeOutcomes(outcomes: NotificationActionOutcome[]): string {
+  const logged: string[] = [];
+  const waterMl = outcomes.reduce((sum, outcome) => sum + (outcome.kind === 'water' ? outcome.amountMl : 0), 0);
+  if (waterMl > 0) logged.push(`${waterMl} ml of water`);
+  for (const outcome of outcomes) {
+    if (outcome.kind === 'meal') logged.push(`your usual ${MEAL_TYPE_LABELS[outcome.meal.mealType].toLowerCase()}`);
+  }
+  const snoozed = outcomes.filter(outcome => outcome.kind === 'snooze').length;
+  return [
+    logged.length > 0 ? `Logged ${logged.join(', ')}.` : '',
+    snoozed > 0 ? `Snoozed ${snoozed} ${snoozed === 1 ? 'reminder' : 'reminders'}.` : '',
+  ].filter(Boolean).join(' ');
+}
+
+/**
+ * Applies the reminder actions taken from notifications while the app was closed, from
+ * the service worker or, inside the Android app, from the native side. Runs on mount
+ * and whenever the worker records a new action; `onApplied` runs after the log changed.
+ */
+export function useNotificationActions(onApplied: () => void) {
+  const { toast } = useToast();
+  const onAppliedRef = useRef(onApplied);
+  onAppliedRef.current = onApplied;
+
+  // Returns the outcomes that are now in the log and can be cleared from the queue
+  const apply = useCallback((outcomes: NotificationActionOutcome[]): NotificationActionOutcome[] => {
+    const { added, failed } = applyNotificationActions(outcomes);
+    if (added.length > 0) {
+      onAppliedRef.current();
+      toast({ title: 'From your notifications', description: describeOutcomes(added) });
+    }
+    return outcomes.filter(outcome => !failed.includes(outcome));
+  }, [toast]);
+
+  useEffect(() => {
+    if (typeof navigator === 'undefined' || !('serviceWorker' in navigator)) return;
+
+    const drain = async () => {
+      try {
+        const settled = apply(await listRecordedNotificationActions());
+        if (settled.length > 0) await clearRecordedNotificationActions(settled.map(outcome => outcome.id));
+      } catch (error) {
+        console.error('Failed to apply notification actions:', error);
+      }
+    };
+
+    const handleMessage = (event: MessageEvent) => {
+      if (event.data?.type === 'notification-actions:recorded') drain();
+    };
+
+    drain();
+    navigator.serviceWorker.addEventListener('message', handleMessage);
+    return () => navigator.serviceWorker.removeEventListener('message', handleMessage);
+  }, [apply]);
+
+  useEffect(() => {
+    const bridge = (window as { ReactNativeWebView?: NativeAppBridge }).ReactNativeWebView;
+    if (!bridge) return;
+
+    const handleMessage = (event: Event) => {
+      const { data } = event as MessageEvent;
+      if (typeof data !== 'string') return;
+      let message: { type?: unknown; actions?: unknown };
+      try {
+        message = JSON.parse(data);
+      } catch {
+        return;
+      }
+      if (message?.type !== 'notification_actions') return;
+      const settled = apply(parseNotificationActionOutcomes(message.actions));
+      bridge.postMessage(JSON.stringify({ type: 'notification_actions_applied', ids: settled.map(outcome => outcome.id) }));
+    };
+
+    // react-native-webview delivers messages on document on Android and on window on iOS
+    window.addEventListener('message', handleMessage);
+    document.addEventListener('message', handleMessage);
+    bridge.postMessage(JSON.stringify({ type: 'notification_actions_request' }));
+    return () => {
+      window.removeEventListener('message', handleMessage);
+      document.removeEventListener('message', handleMessage);
+    };
+  }, [apply]);
+}
@@ -0,0 +1,77 @@
+"use client";
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import type { NutritionChatMessage } from '@/types';
+import { nutritionChat, type NutritionChatData } from '@/ai/flows/nutrition-chat-flow';
+import { chatHistoryRecord } from '@/lib/storage';
+import { getLocalUserId } from '@/lib/user-id';
+import { generateId } from '@/lib/utils';
+
+/** The nutrition assistant conversation, persisted on this device for the local user. */
+export function useNutritionChat() {
+  const [messages, setMessages] = useState<NutritionChatMessage[]>([]);
+  const [isSending, setIsSending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const userIdRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    userIdRef.current = getLocalUserId();
+    setMessages(chatHistoryRecord(userIdRef.current).read() ?? []);
+    setIsLoading(false);
+  }, []);
+
+  const saveMessages = (nextMessages: NutritionChatMessage[]) => {
+    if (userIdRef.current) chatHistoryRecord(userIdRef.current).write(nextMessages);
+  };
+
+  const appendMessage = useCallback((message: NutritionChatMessage) => {
+    setMessages(prevMessages => {
+      const updatedMessages = [...prevMessages, message];
+      saveMessages(updatedMessages);
+      return updatedMessages;
+    });
+  }, []);
+
+  /** Sends a message with a fresh snapshot of the user's data. The user's message is kept even if the reply fails. */
+  const sendMessage = useCallback(async (text: string, data: NutritionChatData) => {
+    const trimmed = text.trim();
+    if (!trimmed) return;
+
+    const history = messages.map(({ role, text: messageText }) => ({ role, text: messageText }));
+    appendMessage({ id: generateId(), role: 'user', text: trimmed, createdAt: Date.now() });
+    setIsSending(true);
+    setError(null);
+
+    try {
+      const result = await nutritionChat({ message: trimmed, history, data });
+      if (!result.ok) {
+        setError('toolsUnsupported' in result
+          ? "The AI model this app is set up with can't look up your logs, so the assistant isn't available. Other AI features still work."
+          : "The assistant's reply came back incomplete. Please try asking again.");
+        return;
+      }
+      const reply = result.value;
+      appendMessage({
+        id: generateId(),
+        role: 'model',
+        text: reply.answer,
+        createdAt: Date.now(),
+        reasoning: reply.reasoning,
+        citations: reply.citations,
+      });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An unknown error occurred.');
+    } finally {
+      setIsSending(false);
+    }
+  }, [messages, appendMessage]);
+
+  const clearConversation = useCallback(() => {
+    if (userIdRef.current) chatHistoryRecord(userIdRef.current).remove();
+    setMessages([]);
+    setError(null);
+  }, []);
+
+  return { messages, isSending, isLoading, error, sendMessage, clearConversation };
+}
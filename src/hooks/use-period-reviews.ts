@@ -0,0 +1,40 @@
+"use client";
+
+import { useState, useEffect, useCallback } from 'react';
+import type { SavedPeriodReview } from '@/types';
+import type { ReviewPeriodInput, ReviewPeriodOutput } from '@/ai/flows/review-period-flow';
+import { generateId } from '@/lib/utils';
+import { periodReviewsRecord } from '@/lib/storage';
+
+// Newest first
+const sortReviews = (reviews: SavedPeriodReview[]) => reviews.slice().sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+
+export function usePeriodReviews() {
+  const [reviews, setReviews] = useState<SavedPeriodReview[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    setReviews(sortReviews(periodReviewsRecord.read() ?? []));
+    setIsLoading(false);
+  }, []);
+
+  const saveReview = useCallback((input: ReviewPeriodInput, review: ReviewPeriodOutput): SavedPeriodReview => {
+    const saved: SavedPeriodReview = { id: generateId(), createdAt: new Date().toISOString(), input, review };
+    setReviews(prevReviews => {
+      const updatedReviews = sortReviews([saved, ...prevReviews]);
+      periodReviewsRecord.write(updatedReviews);
+      return updatedReviews;
+    });
+    return saved;
+  }, []);
+
+  const deleteReview = useCallback((reviewId: string) => {
+    setReviews(prevReviews => {
+      const updatedReviews = prevReviews.filter(review => review.id !== reviewId);
+      periodReviewsRecord.write(updatedReviews);
+      return updatedReviews;
+    });
+  }, []);
+
+  return { reviews, isLoading, saveReview, deleteReview };
+}
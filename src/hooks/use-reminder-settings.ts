@@ -2,6 +2,7 @@
 "use client";
 
 import { useState, useEffect, useCallback } from 'react';
+import { reminderSettingsRecord } from '@/lib/storage';
 
 export interface ReminderSettings {
   logMeals: boolean;
@@ -13,7 +14,7 @@ export interface ReminderSettings {
   weighInTime: string;
 }
 
-const DEFAULT_REMINDER_SETTINGS: ReminderSettings = {
+export const DEFAULT_REMINDER_SETTINGS: ReminderSettings = {
   logMeals: true,
   logMealsTime: "19:00",
   drinkWater: false,
@@ -23,37 +24,20 @@ const DEFAULT_REMINDER_SETTINGS: ReminderSettings = {
   weighInTime: "08:00",
 };
 
-const LOCAL_STORAGE_KEY = 'reminderSettings';
-
 export function useReminderSettings() {
   const [settings, setSettings] = useState<ReminderSettings>(DEFAULT_REMINDER_SETTINGS);
   const [isLoading, setIsLoading] = useState(true);
 
   useEffect(() => {
     setIsLoading(true);
-    try {
-      const storedSettings = localStorage.getItem(LOCAL_STORAGE_KEY);
-      if (storedSettings) {
-        setSettings(JSON.parse(storedSettings));
-      } else {
-        setSettings(DEFAULT_REMINDER_SETTINGS);
-      }
-    } catch (error) {
-      console.error("Failed to load reminder settings from localStorage", error);
-      setSettings(DEFAULT_REMINDER_SETTINGS);
-    } finally {
-      setIsLoading(false);
-    }
+    setSettings(reminderSettingsRecord.read() ?? DEFAULT_REMINDER_SETTINGS);
+    setIsLoading(false);
   }, []);
 
   const updateSettings = useCallback((newSettings: Partial<ReminderSettings>) => {
     setSettings(prevSettings => {
       const updatedSettings = { ...prevSettings, ...newSettings };
-      try {
-        localStorage.setItem(LOCAL_STORAGE_KEY, JSON.stringify(updatedSettings));
-      } catch (error) {
-        console.error("Failed to save reminder settings to localStorage", error);
-      }
+      reminderSettingsRecord.write(updatedSettings);
       return updatedSettings;
     });
   }, []);
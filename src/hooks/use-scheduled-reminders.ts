@@ -0,0 +1,40 @@
+"use client";
+
+import { useState, useEffect, useCallback } from 'react';
+import {
+  cancelScheduledReminder,
+  listScheduledReminders,
+  rescheduleReminder,
+  type PendingReminder,
+} from '@/lib/reminder-scheduler';
+
+/** The service worker's pending reminders, with actions to cancel or move one. */
+export function useScheduledReminders() {
+  const [reminders, setReminders] = useState<PendingReminder[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Every worker call answers with the pending reminders after the change
+  const run = useCallback(async (action: () => Promise<PendingReminder[]>) => {
+    try {
+      setReminders(await action());
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not reach the reminder schedule.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  const refresh = useCallback(() => run(listScheduledReminders), [run]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const cancelReminder = useCallback((id: string) => run(() => cancelScheduledReminder(id)), [run]);
+
+  const moveReminder = useCallback((id: string, fireAt: Date) => run(() => rescheduleReminder(id, fireAt)), [run]);
+
+  return { reminders, isLoading, error, refresh, cancelReminder, moveReminder };
+}
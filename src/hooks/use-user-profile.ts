@@ -2,7 +2,9 @@
 
 import { useState, useEffect } from 'react';
 import type { UserProfile, SavedDietChart } from '@/types';
+import type { GenerateIndianDietChartInput } from '@/ai/flows/generateIndianDietChartFlow';
 import { generateId } from '@/lib/utils';
+import { userProfileRecord } from '@/lib/storage';
 
 const DEFAULT_USER_PROFILE: UserProfile = {
   name: "Guest User",
@@ -11,61 +13,26 @@ const DEFAULT_USER_PROFILE: UserProfile = {
   savedDietCharts: [],
 };
 
-const LOCAL_STORAGE_KEY = 'userProfile';
-
 export function useUserProfile() {
   const [userProfile, setUserProfile] = useState<UserProfile>(DEFAULT_USER_PROFILE);
   const [isLoading, setIsLoading] = useState(true);
 
   useEffect(() => {
     setIsLoading(true);
-    try {
-      // First check for userProfile from profile edit
-      const storedProfile = localStorage.getItem(LOCAL_STORAGE_KEY);
-      
-      // Then check for onboarding profile data
-      const onboardingProfile = localStorage.getItem('userProfile');
-      
-      if (storedProfile) {
-        const parsedProfile: UserProfile = JSON.parse(storedProfile);
-        setUserProfile({
-          name: parsedProfile.name || DEFAULT_USER_PROFILE.name,
-          email: parsedProfile.email || DEFAULT_USER_PROFILE.email,
-          avatarUrl: parsedProfile.avatarUrl || DEFAULT_USER_PROFILE.avatarUrl,
-          age: parsedProfile.age,
-          gender: parsedProfile.gender,
-          savedDietCharts: parsedProfile.savedDietCharts || [],
-        });
-      } else if (onboardingProfile) {
-        // If no regular profile exists but onboarding data does, use that
-        const parsedOnboardingData = JSON.parse(onboardingProfile);
-        setUserProfile({
-          name: parsedOnboardingData.name || DEFAULT_USER_PROFILE.name,
-          email: DEFAULT_USER_PROFILE.email, // Onboarding doesn't collect email
-          avatarUrl: DEFAULT_USER_PROFILE.avatarUrl,
-          age: parsedOnboardingData.age,
-          gender: parsedOnboardingData.gender,
-          savedDietCharts: [],
-        });
-        
-        // Save this data to the regular profile storage to consolidate
-        localStorage.setItem(LOCAL_STORAGE_KEY, JSON.stringify({
-          name: parsedOnboardingData.name,
-          email: DEFAULT_USER_PROFILE.email,
-          avatarUrl: DEFAULT_USER_PROFILE.avatarUrl,
-          age: parsedOnboardingData.age,
-          gender: parsedOnboardingData.gender,
-          savedDietCharts: [],
-        }));
-      } else {
-        setUserProfile(DEFAULT_USER_PROFILE);
-      }
-    } catch (error) {
-      console.error("Failed to load user profile from localStorage", error);
+    // Onboarding and profile edit both save to the same record
+    const storedProfile = userProfileRecord.read();
+    if (storedProfile) {
+      setUserProfile({
+        ...storedProfile,
+        name: storedProfile.name || DEFAULT_USER_PROFILE.name,
+        email: storedProfile.email || DEFAULT_USER_PROFILE.email,
+        avatarUrl: storedProfile.avatarUrl || DEFAULT_USER_PROFILE.avatarUrl,
+        savedDietCharts: storedProfile.savedDietCharts || [],
+      });
+    } else {
       setUserProfile(DEFAULT_USER_PROFILE);
-    } finally {
-      setIsLoading(false);
     }
+    setIsLoading(false);
   }, []);
 
   // This function is not directly used by the profile page to update,
@@ -74,16 +41,12 @@ export function useUserProfile() {
   const updateUserProfile = (newProfile: Partial<UserProfile>) => {
     setUserProfile(prevProfile => {
       const updatedProfile = { ...prevProfile, ...newProfile };
-      try {
-        localStorage.setItem(LOCAL_STORAGE_KEY, JSON.stringify(updatedProfile));
-      } catch (error) {
-        console.error("Failed to save user profile to localStorage", error);
-      }
+      userProfileRecord.write(updatedProfile);
       return updatedProfile;
     });
   };
 
-  const saveDietChart = (name: string, dietChart: any) => {
+  const saveDietChart = (name: string, dietChart: any, input?: GenerateIndianDietChartInput) => {
     setUserProfile(prevProfile => {
       const savedDietCharts = [...(prevProfile.savedDietCharts || [])];
       
@@ -92,6 +55,7 @@ export function useUserProfile() {
         name,
         createdAt: new Date().toISOString(),
         dietChart,
+        ...(input && { input }),
       };
       
       savedDietCharts.push(newDietChart);
@@ -101,16 +65,17 @@ export function useUserProfile() {
         savedDietCharts 
       };
       
-      try {
-        localStorage.setItem(LOCAL_STORAGE_KEY, JSON.stringify(updatedProfile));
-      } catch (error) {
-        console.error("Failed to save diet chart to localStorage", error);
-      }
+      userProfileRecord.write(updatedProfile);
       
       return updatedProfile;
     });
   };
 
 
-  return { userProfile, isLoading, updateUserProfile, saveDietChart };
+  /** Marks a saved chart as the one being followed, or clears it with null. */
+  const setActiveDietChart = (chartId: string | null) => {
+    updateUserProfile({ activeDietChartId: chartId ?? undefined });
+  };
+
+  return { userProfile, isLoading, updateUserProfile, saveDietChart, setActiveDietChart };
 }
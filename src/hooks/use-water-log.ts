@@ -0,0 +1,49 @@
+"use client";
+
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import type { WaterEntry } from '@/types';
+import { waterLogKey, waterLogRecord } from '@/lib/storage';
+
+// A common daily guideline; shown for progress only, not tied to the user's goals
+export const DAILY_WATER_TARGET_ML = 2000;
+
+/** Water logged on `date`, including glasses logged from hydration reminders. */
+export function useWaterLog(date: Date | null) {
+  const [entries, setEntries] = useState<WaterEntry[]>([]);
+
+  const reload = useCallback(() => {
+    setEntries(date ? waterLogRecord(date).read() ?? [] : []);
+  }, [date]);
+
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  // Another tab (or the dashboard applying notification actions) may have written this day
+  useEffect(() => {
+    if (!date) return;
+    const watchedKey = waterLogKey(date);
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key === watchedKey) reload();
+    };
+    window.addEventListener('storage', handleStorage);
+    return () => window.removeEventListener('storage', handleStorage);
+  }, [date, reload]);
+
+  const addWater = useCallback((amountMl: number) => {
+    if (!date) return;
+    const now = Date.now();
+    const updated = [...(waterLogRecord(date).read() ?? []), { id: now.toString(), amountMl, timestamp: now }];
+    if (waterLogRecord(date).write(updated)) setEntries(updated);
+  }, [date]);
+
+  const removeWaterEntry = useCallback((entryId: string) => {
+    if (!date) return;
+    const updated = (waterLogRecord(date).read() ?? []).filter(entry => entry.id !== entryId);
+    if (waterLogRecord(date).write(updated)) setEntries(updated);
+  }, [date]);
+
+  const totalMl = useMemo(() => entries.reduce((sum, entry) => sum + entry.amountMl, 0), [entries]);
+
+  return { entries, totalMl, addWater, removeWaterEntry, reload };
+}
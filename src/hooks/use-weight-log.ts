@@ -0,0 +1,82 @@
+"use client";
+
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { format } from 'date-fns';
+import type { WeightEntry } from '@/types';
+import { generateId } from '@/lib/utils';
+import { userProfileRecord, weightLogRecord } from '@/lib/storage';
+import { computeWeightTrend, fromKg, profileWeightUnit, projectGoalDate, toKg, type WeightUnit } from '@/lib/weight-trend';
+
+const sortByDate = (entries: WeightEntry[]) => entries.slice().sort((a, b) => a.date.localeCompare(b.date));
+
+export function useWeightLog() {
+  const [entries, setEntries] = useState<WeightEntry[]>([]);
+  const [goalWeightKg, setGoalWeightKg] = useState<number | undefined>(undefined);
+  const [unit, setUnit] = useState<WeightUnit>('kg');
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    const storedLog = weightLogRecord.read();
+    if (storedLog) {
+      setEntries(sortByDate(storedLog.entries));
+      setGoalWeightKg(storedLog.goalWeightKg);
+    }
+    setUnit(profileWeightUnit(userProfileRecord.read()));
+    setIsLoading(false);
+  }, []);
+
+  const saveLog = (nextEntries: WeightEntry[], nextGoalKg: number | undefined) => {
+    weightLogRecord.write({ entries: nextEntries, goalWeightKg: nextGoalKg });
+  };
+
+  /**
+   * Logs a weigh-in in the user's unit. A second weigh-in on the same day replaces the first.
+   * When it is the most recent weigh-in, the profile's current weight is updated too.
+   */
+  const addWeightEntry = useCallback((value: number, date: Date = new Date()) => {
+    const dateKey = format(date, 'yyyy-MM-dd');
+    const entry: WeightEntry = { id: generateId(), date: dateKey, weightKg: toKg(value, unit), timestamp: Date.now() };
+
+    setEntries(prevEntries => {
+      const updatedEntries = sortByDate([...prevEntries.filter(existing => existing.date !== dateKey), entry]);
+      saveLog(updatedEntries, goalWeightKg);
+
+      const profile = userProfileRecord.read();
+      if (profile && updatedEntries[updatedEntries.length - 1].id === entry.id) {
+        // The profile keeps weight in its own unit
+        userProfileRecord.write({ ...profile, weight: Math.round(fromKg(entry.weightKg, profileWeightUnit(profile)) * 10) / 10 });
+      }
+      return updatedEntries;
+    });
+  }, [unit, goalWeightKg]);
+
+  const deleteWeightEntry = useCallback((entryId: string) => {
+    setEntries(prevEntries => {
+      const updatedEntries = prevEntries.filter(entry => entry.id !== entryId);
+      saveLog(updatedEntries, goalWeightKg);
+      return updatedEntries;
+    });
+  }, [goalWeightKg]);
+
+  /** Sets the goal weight in the user's unit, or clears it when undefined. */
+  const updateGoalWeight = useCallback((value: number | undefined) => {
+    const nextGoalKg = value && value > 0 ? toKg(value, unit) : undefined;
+    setGoalWeightKg(nextGoalKg);
+    saveLog(entries, nextGoalKg);
+  }, [unit, entries]);
+
+  const trend = useMemo(() => computeWeightTrend(entries), [entries]);
+  const projection = useMemo(() => projectGoalDate(trend, goalWeightKg), [trend, goalWeightKg]);
+
+  return {
+    entries,
+    trend,
+    projection,
+    goalWeightKg,
+    unit,
+    isLoading,
+    addWeightEntry,
+    deleteWeightEntry,
+    updateGoalWeight,
+  };
+}
@@ -0,0 +1,134 @@
+import { differenceInCalendarDays, format, parseISO, subDays } from 'date-fns';
+import type { DailyLogEntry, Goal } from '@/types';
+import { foodEntriesRecord } from '@/lib/storage';
+import { readDailySummary } from '@/lib/daily-summary';
+import type { WeightTrendPoint } from '@/lib/weight-trend';
+
+/**
+ * Adaptive calorie goal. Maintenance is estimated from energy balance: whatever was
+ * eaten on average, minus the energy stored or released as the trend weight changed.
+ * A new goal is then proposed at most once a week, moving a limited step toward the
+ * intake that would produce the user's target rate of change.
+ */
+
+// Approximate energy content of a kilogram of body weight change
+export const KCAL_PER_KG = 7700;
+
+export const ADAPTIVE_WINDOW_DAYS = 21;
+const MIN_LOGGED_DAYS = 10;
+const MIN_WEIGHT_SPAN_DAYS = 10;
+export const REVIEW_INTERVAL_DAYS = 7;
+// Large jumps are hard to stick to and amplify noise in the estimate
+const MAX_STEP_KCAL = 150;
+// Differences smaller than this are within the noise of the estimate
+const MIN_CHANGE_KCAL = 50;
+const MIN_CALORIES = 1200;
+
+export interface AdaptiveGoalInput {
+  currentGoal: Goal;
+  targetRateKgPerWeek: number;
+  intake: DailyLogEntry[]; // Only days that have logged entries
+  trend: WeightTrendPoint[];
+  today?: Date;
+}
+
+export interface AdaptiveGoalEvidence {
+  windowDays: number;
+  loggedDays: number;
+  averageIntake: number;
+  weighIns: number;
+  weightSpanDays: number;
+  trendChangeKg: number;
+  observedRateKgPerWeek: number;
+  estimatedMaintenance: number;
+  targetCalories: number; // Intake that would produce the target rate, before step limits
+}
+
+export type AdaptiveGoalProposal =
+  | { status: 'insufficient-data'; reasons: string[] }
+  | { status: 'no-change'; evidence: AdaptiveGoalEvidence }
+  | { status: 'proposal'; evidence: AdaptiveGoalEvidence; proposedGoal: Goal; change: number; limited: boolean };
+
+/** Days in the window that have at least one logged entry, oldest first. */
+export function collectRecentIntake(today: Date = new Date(), windowDays: number = ADAPTIVE_WINDOW_DAYS): DailyLogEntry[] {
+  const intake: DailyLogEntry[] = [];
+  for (let offset = windowDays; offset >= 1; offset--) {
+    // Today is left out because it is usually only partly logged
+    const date = format(subDays(today, offset), 'yyyy-MM-dd');
+    const entries = foodEntriesRecord(date).read();
+    if (entries && entries.length > 0) intake.push(readDailySummary(date, entries));
+  }
+  return intake;
+}
+
+/**
+ * Rescales fat and carbs to hit the new calorie target, keeping protein as it is
+ * since it is usually set from body weight rather than energy needs.
+ */
+export function scaleGoalToCalories(goal: Goal, calories: number): Goal {
+  const proteinKcal = goal.protein * 4;
+  const currentRest = goal.calories - proteinKcal;
+  const factor = currentRest > 0 ? Math.max(0, calories - proteinKcal) / currentRest : 1;
+  return {
+    calories,
+    protein: goal.protein,
+    fat: Math.round(goal.fat * factor),
+    carbs: Math.round(goal.carbs * factor),
+  };
+}
+
+export function proposeAdaptiveGoal({ currentGoal, targetRateKgPerWeek, intake, trend, today = new Date() }: AdaptiveGoalInput): AdaptiveGoalProposal {
+  const windowStart = subDays(today, ADAPTIVE_WINDOW_DAYS);
+  const windowTrend = trend.filter(point => parseISO(point.date) >= windowStart);
+
+  const reasons: string[] = [];
+  if (intake.length < MIN_LOGGED_DAYS) {
+    reasons.push(`Log food on at least ${MIN_LOGGED_DAYS} of the last ${ADAPTIVE_WINDOW_DAYS} days (${intake.length} so far).`);
+  }
+  const first = windowTrend[0];
+  const last = windowTrend[windowTrend.length - 1];
+  const weightSpanDays = first && last ? differenceInCalendarDays(parseISO(last.date), parseISO(first.date)) : 0;
+  if (weightSpanDays < MIN_WEIGHT_SPAN_DAYS) {
+    reasons.push(`Weigh in at least twice, ${MIN_WEIGHT_SPAN_DAYS} or more days apart, within the last ${ADAPTIVE_WINDOW_DAYS} days.`);
+  }
+  if (reasons.length > 0) return { status: 'insufficient-data', reasons };
+
+  const averageIntake = intake.reduce((sum, day) => sum + day.calories, 0) / intake.length;
+  const trendChangeKg = last.trendKg - first.trendKg;
+  const storedPerDay = (trendChangeKg * KCAL_PER_KG) / weightSpanDays;
+  const estimatedMaintenance = averageIntake - storedPerDay;
+  const targetCalories = estimatedMaintenance + (targetRateKgPerWeek * KCAL_PER_KG) / 7;
+
+  const evidence: AdaptiveGoalEvidence = {
+    windowDays: ADAPTIVE_WINDOW_DAYS,
+    loggedDays: intake.length,
+    averageIntake: Math.round(averageIntake),
+    weighIns: windowTrend.length,
+    weightSpanDays,
+    trendChangeKg: Math.round(trendChangeKg * 100) / 100,
+    observedRateKgPerWeek: Math.round((trendChangeKg / weightSpanDays) * 7 * 100) / 100,
+    estimatedMaintenance: Math.round(estimatedMaintenance),
+    targetCalories: Math.round(targetCalories),
+  };
+
+  const wantedChange = Math.max(MIN_CALORIES, targetCalories) - currentGoal.calories;
+  if (Math.abs(wantedChange) < MIN_CHANGE_KCAL) return { status: 'no-change', evidence };
+
+  const limited = Math.abs(wantedChange) > MAX_STEP_KCAL;
+  const step = limited ? Math.sign(wantedChange) * MAX_STEP_KCAL : wantedChange;
+  const proposedCalories = Math.round((currentGoal.calories + step) / 10) * 10;
+
+  return {
+    status: 'proposal',
+    evidence,
+    proposedGoal: scaleGoalToCalories(currentGoal, proposedCalories),
+    change: proposedCalories - currentGoal.calories,
+    limited,
+  };
+}
+
+/** Proposals are offered once a week; a dismissed one is not offered again until the next review. */
+export function isReviewDue(lastReviewedAt: string | undefined, now: Date = new Date()): boolean {
+  if (!lastReviewedAt) return true;
+  return differenceInCalendarDays(now, parseISO(lastReviewedAt)) >= REVIEW_INTERVAL_DAYS;
+}
@@ -0,0 +1,10 @@
+import type { NextRequest } from 'next/server';
+
+/**
+ * Routes that send to every subscriber are for the cron job service and operators only.
+ * They are called with `?secret=<CRON_SECRET>`; without CRON_SECRET set, every call is refused.
+ */
+export function hasCronSecret(request: NextRequest): boolean {
+  const expected = process.env.CRON_SECRET;
+  return Boolean(expected) && request.nextUrl.searchParams.get('secret') === expected;
+}
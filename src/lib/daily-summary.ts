@@ -0,0 +1,145 @@
+import { format } from 'date-fns';
+import type { DailyLogEntry, FoodEntry } from '@/types';
+import {
+  DAILY_LOG_PREFIX,
+  FOOD_ENTRIES_PREFIX,
+  dailyLogRecord,
+  foodEntriesRecord,
+  isQuarantined,
+  listStorageKeys,
+} from '@/lib/storage';
+
+/**
+ * Food entries are the source of truth for a day. The `dailyLog_*` key is only a
+ * cache of their totals, tagged with a checksum of the entries it was built from,
+ * so a stale or drifted summary is detected and rebuilt on the next read.
+ */
+
+const toDateKey = (date: Date | string) => (typeof date === 'string' ? date : format(date, 'yyyy-MM-dd'));
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+export function summarizeEntries(date: Date | string, entries: FoodEntry[]): DailyLogEntry {
+  const totals = entries.reduce(
+    (sum, entry) => ({
+      calories: sum.calories + entry.calories,
+      protein: sum.protein + entry.protein,
+      fat: sum.fat + entry.fat,
+      carbs: sum.carbs + entry.carbs,
+    }),
+    { calories: 0, protein: 0, fat: 0, carbs: 0 }
+  );
+  // Rounded so float noise from fractional macros does not show up as drift
+  return {
+    date: toDateKey(date),
+    calories: round1(totals.calories),
+    protein: round1(totals.protein),
+    fat: round1(totals.fat),
+    carbs: round1(totals.carbs),
+  };
+}
+
+/** FNV-1a hash over the fields that contribute to the totals. Order independent. */
+export function entriesChecksum(entries: FoodEntry[]): string {
+  const source = entries
+    .map(entry => `${entry.id}:${entry.calories}:${entry.protein}:${entry.fat}:${entry.carbs}`)
+    .sort()
+    .join('|');
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < source.length; i++) {
+    hash ^= source.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+const stripChecksum = ({ date, calories, protein, fat, carbs }: DailyLogEntry & { checksum?: string }): DailyLogEntry =>
+  ({ date, calories, protein, fat, carbs });
+
+/** Writes the summary cache for a day, or removes it when the day has no entries. */
+function writeSummaryCache(date: Date | string, entries: FoodEntry[]): DailyLogEntry {
+  const summary = summarizeEntries(date, entries);
+  const record = dailyLogRecord(date);
+  if (entries.length === 0) {
+    record.remove();
+  } else {
+    record.write({ ...summary, checksum: entriesChecksum(entries) });
+  }
+  return summary;
+}
+
+/**
+ * Returns the totals for a day. The cached summary is used only when its checksum
+ * matches the stored entries; otherwise it is recomputed and the cache refreshed.
+ * `entries` is what the caller already read, including null for unreadable entries.
+ */
+export function readDailySummary(date: Date | string, entries?: FoodEntry[] | null): DailyLogEntry {
+  const storedEntries = entries === undefined ? foodEntriesRecord(date).read() : entries;
+  const cached = dailyLogRecord(date).read();
+  // With the entries quarantined, the cached totals are all that is left of the day
+  if (!storedEntries && isQuarantined(foodEntriesRecord(date).key)) {
+    return cached ? stripChecksum(cached) : summarizeEntries(date, []);
+  }
+  const dayEntries = storedEntries ?? [];
+  if (cached && cached.checksum === entriesChecksum(dayEntries)) {
+    return stripChecksum(cached);
+  }
+  return writeSummaryCache(date, dayEntries);
+}
+
+/** Saves a day's entries and the matching summary cache. Returns false if the entries were rejected. */
+export function saveFoodEntries(date: Date | string, entries: FoodEntry[]): boolean {
+  if (!foodEntriesRecord(date).write(entries)) return false;
+  writeSummaryCache(date, entries);
+  return true;
+}
+
+export interface DailyLogCorrection {
+  date: string;
+  before: DailyLogEntry | null;
+  after: DailyLogEntry;
+}
+
+export interface DailyLogRepairReport {
+  daysChecked: number;
+  corrected: DailyLogCorrection[];
+  unreadable: string[]; // Days whose entries are quarantined, left untouched
+}
+
+const totalsMatch = (a: DailyLogEntry, b: DailyLogEntry) =>
+  a.calories === b.calories && a.protein === b.protein && a.fat === b.fat && a.carbs === b.carbs;
+
+/**
+ * Rebuilds every day's `dailyLog_*` key from its `foodEntries_*` key and reports the
+ * days whose stored totals disagreed with their entries. Summaries left behind for
+ * days without entries are removed. Days whose entries were quarantined keep their
+ * summary, since it is the only data left for them, and are reported as unreadable.
+ */
+export function repairDailyLogs(): DailyLogRepairReport {
+  const dates = new Set([
+    ...listStorageKeys(FOOD_ENTRIES_PREFIX).map(key => key.slice(FOOD_ENTRIES_PREFIX.length)),
+    ...listStorageKeys(DAILY_LOG_PREFIX).map(key => key.slice(DAILY_LOG_PREFIX.length)),
+  ]);
+
+  const corrected: DailyLogCorrection[] = [];
+  const unreadable: string[] = [];
+  for (const date of Array.from(dates).sort()) {
+    const entriesRecord = foodEntriesRecord(date);
+    const storedEntries = entriesRecord.read();
+    if (!storedEntries && isQuarantined(entriesRecord.key)) {
+      unreadable.push(date);
+      continue;
+    }
+    const entries = storedEntries ?? [];
+    const stored = dailyLogRecord(date).read();
+    const before = stored ? stripChecksum(stored) : null;
+    const after = writeSummaryCache(date, entries);
+
+    const changed = before ? !totalsMatch(before, after) : entries.length > 0;
+    if (changed) {
+      corrected.push({ date, before, after });
+    }
+  }
+
+  return { daysChecked: dates.size, corrected, unreadable };
+}
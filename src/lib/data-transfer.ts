@@ -0,0 +1,390 @@
+import { z } from 'zod';
+import { format } from 'date-fns';
+import type { FoodEntry, GoalSchedule, WaterEntry } from '@/types';
+import {
+  FOOD_ENTRIES_PREFIX,
+  WATER_LOG_PREFIX,
+  adaptiveGoalRecord,
+  adaptiveGoalSettingsSchema,
+  foodEntriesRecord,
+  foodEntriesSchema,
+  getStoredSchemaVersion,
+  goalScheduleRecord,
+  goalScheduleSchema,
+  goalSchema,
+  goalsRecord,
+  listStorageKeys,
+  reminderSettingsRecord,
+  reminderSettingsSchema,
+  userProfileRecord,
+  userProfileSchema,
+  waterLogRecord,
+  waterLogSchema,
+  weightLogRecord,
+  weightLogSchema,
+} from '@/lib/storage';
+import { saveFoodEntries } from '@/lib/daily-summary';
+
+/**
+ * Export and import of all locally stored user data, for moving between devices
+ * or browsers. Daily totals are not exported; they are rebuilt from the entries.
+ */
+
+export const EXPORT_FORMAT = 'calorie-tracker-export';
+export const EXPORT_VERSION = 1;
+
+const dateKeySchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/);
+
+const exportedDaySchema = z.object({
+  date: dateKeySchema,
+  entries: foodEntriesSchema,
+});
+
+const exportedWaterDaySchema = z.object({
+  date: dateKeySchema,
+  entries: waterLogSchema,
+});
+
+const { savedDietCharts: savedDietChartsSchema } = userProfileSchema.shape;
+
+export const dataExportSchema = z.object({
+  format: z.literal(EXPORT_FORMAT),
+  version: z.number().int().min(1).max(EXPORT_VERSION),
+  exportedAt: z.string(),
+  storageSchemaVersion: z.number().int().nonnegative(),
+  days: z.array(exportedDaySchema),
+  waterDays: z.array(exportedWaterDaySchema).default([]), // Missing from exports made before the water log
+  goals: goalSchema.nullable(),
+  profile: userProfileSchema.nullable(),
+  savedDietCharts: savedDietChartsSchema.unwrap(),
+  reminderSettings: reminderSettingsSchema.nullable(),
+  weightLog: weightLogSchema.nullable().default(null), // Missing from exports made before the weight log existed
+  goalSchedule: goalScheduleSchema.nullable().default(null), // Missing from exports made before weekday and date-range goals
+  adaptiveGoal: adaptiveGoalSettingsSchema.nullable().default(null), // Missing from exports made before adaptive goals
+});
+
+export type DataExport = z.infer<typeof dataExportSchema>;
+
+export type ImportMode = 'merge' | 'replace';
+
+export interface ImportPreview {
+  mode: ImportMode;
+  exportedAt: string;
+  daysInFile: number;
+  entriesAdded: number;
+  entriesUpdated: number;
+  entriesUnchanged: number;
+  entriesRemoved: number;
+  dietChartsAdded: number;
+  weighInsAdded: number;
+  weighInsRemoved: number;
+  waterEntriesAdded: number;
+  goalsChanged: boolean;
+  goalScheduleChanged: boolean;
+  adaptiveGoalChanged: boolean;
+  profileChanged: boolean;
+  reminderSettingsChanged: boolean;
+}
+
+export type ParseImportResult =
+  | { success: true; data: DataExport }
+  | { success: false; error: string };
+
+// --- Export ---
+
+function readAllDays(): Map<string, FoodEntry[]> {
+  const days = new Map<string, FoodEntry[]>();
+  for (const key of listStorageKeys(FOOD_ENTRIES_PREFIX)) {
+    const date = key.slice(FOOD_ENTRIES_PREFIX.length);
+    const entries = foodEntriesRecord(date).read();
+    if (entries && entries.length > 0) days.set(date, entries);
+  }
+  return days;
+}
+
+function readAllWaterDays(): Map<string, WaterEntry[]> {
+  const days = new Map<string, WaterEntry[]>();
+  for (const key of listStorageKeys(WATER_LOG_PREFIX)) {
+    const date = key.slice(WATER_LOG_PREFIX.length);
+    const entries = waterLogRecord(date).read();
+    if (entries && entries.length > 0) days.set(date, entries);
+  }
+  return days;
+}
+
+export function buildDataExport(): DataExport {
+  const storedProfile = userProfileRecord.read();
+  // Saved charts get their own section so they can be merged independently of the profile
+  const { savedDietCharts = [], ...profile } = storedProfile ?? { savedDietCharts: [] };
+
+  return {
+    format: EXPORT_FORMAT,
+    version: EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    storageSchemaVersion: getStoredSchemaVersion(),
+    days: Array.from(readAllDays(), ([date, entries]) => ({ date, entries })),
+    waterDays: Array.from(readAllWaterDays(), ([date, entries]) => ({ date, entries })),
+    goals: goalsRecord.read(),
+    profile: storedProfile ? (profile as DataExport['profile']) : null,
+    savedDietCharts,
+    reminderSettings: reminderSettingsRecord.read(),
+    weightLog: weightLogRecord.read(),
+    goalSchedule: goalScheduleRecord.read(),
+    adaptiveGoal: adaptiveGoalRecord.read(),
+  };
+}
+
+export const escapeCsv = (value: string | number | undefined) => {
+  const text = value === undefined ? '' : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/** Flat CSV of every food entry, one row per entry, oldest first. */
+export function foodEntriesToCsv(data: DataExport): string {
+  const header = ['date', 'time', 'meal', 'name', 'calories', 'protein_g', 'fat_g', 'carbs_g', 'portion_g'];
+  const rows = data.days
+    .slice()
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .flatMap(day =>
+      day.entries
+        .slice()
+        .sort((a, b) => a.timestamp - b.timestamp)
+        .map(entry => [
+          day.date,
+          format(entry.timestamp, 'HH:mm'),
+          entry.mealType,
+          entry.name,
+          entry.calories,
+          entry.protein,
+          entry.fat,
+          entry.carbs,
+          entry.grams,
+        ])
+    );
+  return [header, ...rows].map(row => row.map(escapeCsv).join(',')).join('\n');
+}
+
+// --- Import ---
+
+export function parseDataExport(text: string): ParseImportResult {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    return { success: false, error: 'The file is not valid JSON.' };
+  }
+
+  if (typeof json === 'object' && json !== null && (json as { format?: unknown }).format !== EXPORT_FORMAT) {
+    return { success: false, error: 'This file is not a Calorie Tracker export.' };
+  }
+
+  const result = dataExportSchema.safeParse(json);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    if (issue?.path[0] === 'version') {
+      return { success: false, error: 'This export was made by a newer version of the app. Please update and try again.' };
+    }
+    return { success: false, error: `The export is damaged: ${issue?.path.join('.') || 'file'} ${issue?.message ?? ''}`.trim() };
+  }
+  return { success: true, data: result.data };
+}
+
+const sameEntry = (a: FoodEntry, b: FoodEntry) => JSON.stringify(a) === JSON.stringify(b);
+const sameValue = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+interface ImportPlan {
+  preview: ImportPreview;
+  days: Map<string, FoodEntry[]>;
+  waterDays: Map<string, WaterEntry[]>;
+  goalSchedule: GoalSchedule | null; // The schedule to save, or null to leave it alone (or clear it, in replace mode)
+}
+
+/**
+ * Weekday goals are keyed on weekday and date ranges on id; in merge mode the file wins
+ * for both, like weigh-ins for a date.
+ */
+function planGoalSchedule(incoming: GoalSchedule | null, local: GoalSchedule | null, mode: ImportMode): GoalSchedule | null {
+  if (!incoming) return null;
+  if (mode === 'replace' || !local) return incoming;
+  const importedWeekdays = new Set(incoming.weekdays.map(weekday => weekday.weekday));
+  const importedRangeIds = new Set(incoming.dateRanges.map(range => range.id));
+  return {
+    weekdays: [...local.weekdays.filter(weekday => !importedWeekdays.has(weekday.weekday)), ...incoming.weekdays],
+    dateRanges: [...local.dateRanges.filter(range => !importedRangeIds.has(range.id)), ...incoming.dateRanges],
+  };
+}
+
+/**
+ * Water entries are keyed on id within their day; in merge mode the file wins for ids in
+ * both and local-only glasses are kept. `added` counts ids that weren't stored locally.
+ */
+function planWaterDays(incoming: DataExport['waterDays'], mode: ImportMode): { days: Map<string, WaterEntry[]>; added: number } {
+  const localDays = readAllWaterDays();
+  const days = new Map<string, WaterEntry[]>();
+  localDays.forEach((entries, date) => days.set(date, mode === 'merge' ? entries.slice() : []));
+
+  let added = 0;
+  for (const day of incoming) {
+    const localIds = new Set((localDays.get(day.date) ?? []).map(entry => entry.id));
+    const importedIds = new Set(day.entries.map(entry => entry.id));
+    added += day.entries.filter(entry => !localIds.has(entry.id)).length;
+    const kept = (days.get(day.date) ?? []).filter(entry => !importedIds.has(entry.id));
+    days.set(day.date, [...kept, ...day.entries]);
+  }
+  return { days, added };
+}
+
+/**
+ * Works out the resulting days without writing anything.
+ * - merge: imported entries overwrite local entries with the same id (even on another
+ *   day), new ids are added and local-only entries are kept. Local goals, profile,
+ *   reminder settings and adaptive goal settings are only filled in when missing.
+ * - replace: all local entries and settings are replaced by the file's contents, and
+ *   sections the file doesn't have (null) are cleared.
+ */
+function planImport(data: DataExport, mode: ImportMode): ImportPlan {
+  const localDays = readAllDays();
+  const localById = new Map<string, { date: string; entry: FoodEntry }>();
+  localDays.forEach((entries, date) => entries.forEach(entry => localById.set(entry.id, { date, entry })));
+
+  const days = new Map<string, FoodEntry[]>();
+  if (mode === 'merge') {
+    localDays.forEach((entries, date) => days.set(date, entries.slice()));
+  } else {
+    localDays.forEach((_, date) => days.set(date, []));
+  }
+
+  let added = 0;
+  let updated = 0;
+  let unchanged = 0;
+  const importedIds = new Set<string>();
+
+  for (const day of data.days) {
+    for (const entry of day.entries) {
+      importedIds.add(entry.id);
+      const local = localById.get(entry.id);
+      if (!local) added++;
+      else if (local.date === day.date && sameEntry(local.entry, entry)) unchanged++;
+      else updated++;
+
+      if (mode === 'merge' && local) {
+        days.set(local.date, (days.get(local.date) ?? []).filter(existing => existing.id !== entry.id));
+      }
+      const target = (days.get(day.date) ?? []).filter(existing => existing.id !== entry.id);
+      days.set(day.date, [...target, entry]);
+    }
+  }
+
+  const removed = mode === 'replace' ? Array.from(localById.keys()).filter(id => !importedIds.has(id)).length : 0;
+
+  const localProfile = userProfileRecord.read();
+  const localChartIds = new Set((localProfile?.savedDietCharts ?? []).map(chart => chart.id));
+  const dietChartsAdded = data.savedDietCharts.filter(chart => !localChartIds.has(chart.id)).length;
+
+  const localWeighIns = weightLogRecord.read()?.entries ?? [];
+  const localWeighInDates = new Set(localWeighIns.map(entry => entry.date));
+  const importedWeighInDates = new Set((data.weightLog?.entries ?? []).map(entry => entry.date));
+  const weighInsAdded = (data.weightLog?.entries ?? []).filter(entry => mode === 'replace' || !localWeighInDates.has(entry.date)).length;
+  const weighInsRemoved = mode === 'replace' ? localWeighIns.filter(entry => !importedWeighInDates.has(entry.date)).length : 0;
+
+  const water = planWaterDays(data.waterDays, mode);
+
+  const localGoals = goalsRecord.read();
+  const localReminders = reminderSettingsRecord.read();
+  const localSchedule = goalScheduleRecord.read();
+  const goalSchedule = planGoalSchedule(data.goalSchedule, localSchedule, mode);
+  // In replace mode a section the file doesn't have clears the local one
+  const willWrite = (incoming: unknown, local: unknown) =>
+    (mode === 'replace' || (incoming !== null && local === null)) && !sameValue(incoming, local);
+
+  const { savedDietCharts: _charts, ...localProfileFields } = localProfile ?? {};
+
+  return {
+    days,
+    waterDays: water.days,
+    goalSchedule,
+    preview: {
+      mode,
+      exportedAt: data.exportedAt,
+      daysInFile: data.days.length,
+      entriesAdded: added,
+      entriesUpdated: updated,
+      entriesUnchanged: unchanged,
+      entriesRemoved: removed,
+      dietChartsAdded,
+      weighInsAdded,
+      weighInsRemoved,
+      waterEntriesAdded: water.added,
+      goalsChanged: willWrite(data.goals, localGoals),
+      goalScheduleChanged: (mode === 'replace' || goalSchedule !== null) && !sameValue(goalSchedule, localSchedule),
+      adaptiveGoalChanged: willWrite(data.adaptiveGoal, adaptiveGoalRecord.read()),
+      profileChanged: willWrite(data.profile, localProfile ? localProfileFields : null),
+      reminderSettingsChanged: willWrite(data.reminderSettings, localReminders),
+    },
+  };
+}
+
+/** Dry run: reports what an import would change without touching storage. */
+export function previewImport(data: DataExport, mode: ImportMode): ImportPreview {
+  return planImport(data, mode).preview;
+}
+
+export function applyImport(data: DataExport, mode: ImportMode): ImportPreview {
+  const { preview, days, waterDays, goalSchedule } = planImport(data, mode);
+
+  days.forEach((entries, date) => {
+    saveFoodEntries(date, entries.sort((a, b) => a.timestamp - b.timestamp));
+    if (entries.length === 0) foodEntriesRecord(date).remove();
+  });
+  waterDays.forEach((entries, date) => {
+    if (entries.length === 0) waterLogRecord(date).remove();
+    else waterLogRecord(date).write(entries.sort((a, b) => a.timestamp - b.timestamp));
+  });
+
+  // A changed section that is null in the file is only possible in replace mode, and clears it
+  if (preview.goalsChanged) {
+    if (data.goals) goalsRecord.write(data.goals);
+    else goalsRecord.remove();
+  }
+  if (preview.reminderSettingsChanged) {
+    if (data.reminderSettings) reminderSettingsRecord.write(data.reminderSettings);
+    else reminderSettingsRecord.remove();
+  }
+  if (preview.goalScheduleChanged) {
+    if (goalSchedule) goalScheduleRecord.write(goalSchedule);
+    else goalScheduleRecord.remove();
+  }
+  if (preview.adaptiveGoalChanged) {
+    if (data.adaptiveGoal) adaptiveGoalRecord.write(data.adaptiveGoal);
+    else adaptiveGoalRecord.remove();
+  }
+
+  // Weigh-ins are keyed on date; in merge mode the file wins for days present in both
+  if (!data.weightLog) {
+    if (mode === 'replace') weightLogRecord.remove();
+  } else {
+    const localLog = weightLogRecord.read();
+    const importedDates = new Set(data.weightLog.entries.map(entry => entry.date));
+    const keptEntries = mode === 'merge' ? (localLog?.entries ?? []).filter(entry => !importedDates.has(entry.date)) : [];
+    weightLogRecord.write({
+      entries: [...keptEntries, ...data.weightLog.entries].sort((a, b) => a.date.localeCompare(b.date)),
+      goalWeightKg: mode === 'merge' ? localLog?.goalWeightKg ?? data.weightLog.goalWeightKg : data.weightLog.goalWeightKg,
+    });
+  }
+
+  const localProfile = userProfileRecord.read();
+  const baseProfile = preview.profileChanged ? data.profile : localProfile;
+  if (!baseProfile) {
+    // Saved charts are stored on the profile, so a file without one leaves nowhere to keep them
+    if (localProfile) userProfileRecord.remove();
+  } else {
+    const localCharts = mode === 'merge' ? localProfile?.savedDietCharts ?? [] : [];
+    const localChartIds = new Set(localCharts.map(chart => chart.id));
+    userProfileRecord.write({
+      ...baseProfile,
+      savedDietCharts: [...localCharts, ...data.savedDietCharts.filter(chart => !localChartIds.has(chart.id))],
+    });
+  }
+
+  return preview;
+}
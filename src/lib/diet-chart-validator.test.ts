@@ -0,0 +1,51 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { GenerateIndianDietChartOutput } from '@/ai/flows/generateIndianDietChartFlow';
+import { checkTotals, correctionsFor, validateDietChart } from '@/lib/diet-chart-validator';
+
+const meal = (type: 'breakfast' | 'lunch' | 'dinner', calories: number) => ({
+  type,
+  name: 'Vegetable khichdi',
+  foodItems: [{ name: 'Vegetable khichdi', quantity: '1 bowl' }],
+  calories,
+  nutrients: { protein: 20, carbs: 60, fats: 10 },
+});
+
+// Three meals a day, declaring and adding up to 1800 kcal, 60g protein, 180g carbs and 30g fat
+const chart = (dailyCalories = 1800): GenerateIndianDietChartOutput => ({
+  dailyCalories,
+  macroBreakdown: { protein: 60, carbs: 180, fats: 30 },
+  mealPlan: [{ meals: [meal('breakfast', 600), meal('lunch', 600), meal('dinner', 600)] }],
+  nutritionTips: ['Eat slowly.', 'Add a bowl of dal.'],
+  hydrationRecommendation: '2-3 liters of water per day',
+});
+
+const targetMacros = { protein: 60, carbs: 180, fats: 30 };
+
+describe('checkTotals', () => {
+  it('accepts meals that add up to the declared totals when no targets are given', () => {
+    assert.deepEqual(checkTotals(chart()), []);
+  });
+
+  it('flags a declared total that misses the calculated target', () => {
+    const violations = checkTotals(chart(), { targetCalories: 2200, targetMacros });
+    assert.deepEqual(violations.map(violation => violation.message), [
+      'The chart declares 1800 kcal a day, 18% under the calculated target of 2200 kcal.',
+      'The plan: meals add up to 1800 kcal, 18% under the calculated target of 2200 kcal.',
+    ]);
+  });
+
+  it('checks the meals against the calculated target even when the declared total matches it', () => {
+    const violations = checkTotals(chart(2200), { targetCalories: 2200, targetMacros });
+    assert.deepEqual(violations.map(violation => violation.message), [
+      'The plan: meals add up to 1800 kcal, 18% under the calculated target of 2200 kcal.',
+    ]);
+  });
+});
+
+describe('validateDietChart', () => {
+  it('turns a missed target into a correction', () => {
+    const corrections = correctionsFor(validateDietChart(chart(), { targetCalories: 2200 }));
+    assert.ok(corrections.some(correction => correction.includes('calculated target of 2200 kcal')));
+  });
+});
@@ -0,0 +1,299 @@
+import type { GenerateIndianDietChartInput, GenerateIndianDietChartOutput } from '@/ai/flows/generateIndianDietChartFlow';
+
+/**
+ * Checks a generated diet chart against what it was asked for: that its declared totals
+ * and each day's meals match the daily targets the app calculated (or, without them,
+ * that the meals add up to the declared totals), that no food item names a listed
+ * allergen (matching regional names too), and that the dietary preference holds. The
+ * model is told all of this, but nothing else verifies it was followed.
+ */
+
+export type DietChartViolationKind = 'totals' | 'allergen' | 'dietary_preference';
+
+export interface DietChartViolation {
+  kind: DietChartViolationKind;
+  message: string;
+  day?: string;
+  meal?: string;
+  item?: string;
+}
+
+export type DietChartConstraints = Pick<GenerateIndianDietChartInput, 'allergies' | 'dietaryPreference' | 'targetCalories' | 'targetMacros'>;
+
+// Meals may drift a little from the declared totals; beyond this the plan misstates them
+export const CALORIE_TOLERANCE = 0.1;
+export const MACRO_TOLERANCE = 0.15;
+const MIN_MACRO_GRAMS_OFF = 5;
+
+// Keto's defining limit; the prompt asks for 20-30 g net carbs
+const KETO_MAX_DAILY_CARBS = 50;
+
+// English, Hindi and common regional names for each ingredient group, matched as whole words
+export const FOOD_GROUP_TERMS = {
+  peanut: ['peanut', 'groundnut', 'moongphali', 'mungfali', 'moongfali', 'shengdana', 'singdana', 'verkadalai', 'kadalai'],
+  tree_nut: ['almond', 'badam', 'cashew', 'kaju', 'walnut', 'akhrot', 'pistachio', 'pista', 'hazelnut', 'pecan', 'macadamia', 'chilgoza', 'pine nut'],
+  dairy: [
+    'milk', 'doodh', 'curd', 'dahi', 'yogurt', 'yoghurt', 'paneer', 'ghee', 'butter', 'makhan', 'cheese', 'cream', 'malai',
+    'khoya', 'mawa', 'buttermilk', 'chaas', 'lassi', 'raita', 'kheer', 'shrikhand', 'whey',
+  ],
+  egg: ['egg', 'anda', 'omelette', 'omelet'],
+  gluten: ['wheat', 'atta', 'gehun', 'roti', 'chapati', 'phulka', 'paratha', 'naan', 'puri', 'suji', 'sooji', 'semolina', 'rava', 'maida', 'daliya', 'dalia', 'bread', 'barley', 'jau', 'seitan'],
+  soy: ['soy', 'soya', 'tofu', 'edamame', 'tempeh'],
+  sesame: ['sesame', 'til', 'gingelly', 'tahini'],
+  fish: ['fish', 'machli', 'machhli', 'rohu', 'pomfret', 'surmai', 'bangda', 'hilsa', 'salmon', 'tuna', 'sardine', 'mackerel'],
+  shellfish: ['prawn', 'jhinga', 'shrimp', 'crab', 'lobster', 'squid', 'clam', 'mussel'],
+  mustard: ['mustard', 'sarson', 'rai'],
+  meat: ['chicken', 'murgh', 'mutton', 'lamb', 'goat', 'gosht', 'keema', 'beef', 'pork', 'bacon', 'ham', 'turkey', 'meat'],
+  honey: ['honey', 'shahad'],
+  root_vegetable: [
+    'onion', 'pyaz', 'pyaaz', 'garlic', 'lehsun', 'lahsun', 'ginger', 'adrak', 'potato', 'aloo', 'alu', 'carrot', 'gajar',
+    'beetroot', 'beet', 'radish', 'mooli', 'sweet potato', 'shakarkandi', 'yam', 'suran', 'arbi', 'turnip', 'shalgam',
+  ],
+  grain: ['rice', 'chawal', 'oats', 'poha', 'millet', 'jowar', 'bajra', 'ragi', 'corn', 'makki', 'quinoa', 'idli', 'dosa', 'upma'],
+  legume: ['dal', 'daal', 'lentil', 'chana', 'chickpea', 'rajma', 'moong', 'masoor', 'toor', 'arhar', 'urad', 'besan', 'sprout', 'lobia', 'soybean'],
+} satisfies Record<string, string[]>;
+
+export type FoodGroup = keyof typeof FOOD_GROUP_TERMS;
+
+const GROUP_LABELS: Record<FoodGroup, string> = {
+  peanut: 'peanuts',
+  tree_nut: 'tree nuts',
+  dairy: 'dairy',
+  egg: 'eggs',
+  gluten: 'gluten',
+  soy: 'soy',
+  sesame: 'sesame',
+  fish: 'fish',
+  shellfish: 'shellfish',
+  mustard: 'mustard',
+  meat: 'meat',
+  honey: 'honey',
+  root_vegetable: 'onion, garlic or root vegetables',
+  grain: 'grains',
+  legume: 'legumes',
+};
+
+// Names people type for an allergy, mapped to the group whose terms should be searched
+const ALLERGY_ALIASES: Record<string, FoodGroup[]> = {
+  nut: ['peanut', 'tree_nut'],
+  nuts: ['peanut', 'tree_nut'],
+  'tree nut': ['tree_nut'],
+  'tree nuts': ['tree_nut'],
+  milk: ['dairy'],
+  lactose: ['dairy'],
+  dairy: ['dairy'],
+  wheat: ['gluten'],
+  gluten: ['gluten'],
+  seafood: ['fish', 'shellfish'],
+  shellfish: ['shellfish'],
+};
+
+const PREFERENCE_EXCLUSIONS: Partial<Record<GenerateIndianDietChartInput['dietaryPreference'], FoodGroup[]>> = {
+  vegetarian: ['meat', 'fish', 'shellfish', 'egg'],
+  eggetarian: ['meat', 'fish', 'shellfish'],
+  vegan: ['meat', 'fish', 'shellfish', 'egg', 'dairy', 'honey'],
+  jain: ['meat', 'fish', 'shellfish', 'egg', 'root_vegetable'],
+  gluten_free: ['gluten'],
+  dairy_free: ['dairy'],
+  nut_free: ['peanut', 'tree_nut'],
+  paleo: ['grain', 'gluten', 'legume', 'dairy'],
+};
+
+// Plant-based stand-ins named after dairy. The dairy word is dropped and the base kept, so "almond milk" still counts as a nut.
+const PLANT_BASED_DAIRY = /\b(coconut|almond|soy|soya|oat|rice|cashew|peanut|vegan|plant[- ]based)\s+(milk|curd|yogurt|yoghurt|cream|butter|cheese|paneer|dahi)\b/gi;
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/** Whole-word, plural-tolerant match, so "eggs" matches egg but "eggplant" doesn't. */
+function mentions(text: string, term: string): boolean {
+  return new RegExp(`\\b${escapeRegExp(term)}(?:s|es)?\\b`, 'i').test(text);
+}
+
+function firstMatch(name: string, terms: string[]): string | undefined {
+  const text = name.replace(PLANT_BASED_DAIRY, '$1');
+  return terms.find(term => mentions(text, term));
+}
+
+/** Search terms for one allergy as the user typed it: its whole group when it names one, else itself. */
+export function allergenTerms(allergy: string): string[] {
+  const normalized = allergy.trim().toLowerCase();
+  if (!normalized) return [];
+  const groups = ALLERGY_ALIASES[normalized]
+    ?? (Object.keys(FOOD_GROUP_TERMS) as FoodGroup[]).filter(group =>
+      FOOD_GROUP_TERMS[group].some(term => [term, `${term}s`, `${term}es`].includes(normalized))
+    );
+  // Don't widen e.g. "rice" to all grains; only allergen groups expand to their synonyms
+  const expandable = groups.filter(group => group !== 'grain' && group !== 'legume' && group !== 'meat' && group !== 'root_vegetable');
+  return expandable.length > 0 ? [...new Set(expandable.flatMap(group => FOOD_GROUP_TERMS[group]))] : [normalized];
+}
+
+interface ScannedItem {
+  day?: string;
+  meal: string;
+  name: string;
+}
+
+function itemsOf(chart: GenerateIndianDietChartOutput): ScannedItem[] {
+  return chart.mealPlan.flatMap(plan =>
+    plan.meals.flatMap(meal => [
+      ...meal.foodItems.map(item => ({ day: plan.day, meal: meal.name, name: item.name })),
+      ...(meal.ingredients ?? []).map(name => ({ day: plan.day, meal: meal.name, name })),
+    ])
+  );
+}
+
+function dayLabel(day: string | undefined, index: number, dayCount: number): string {
+  return day || (dayCount > 1 ? `Day ${index + 1}` : 'The plan');
+}
+
+function percentOff(actual: number, target: number): number {
+  return Math.round((Math.abs(actual - target) / target) * 100);
+}
+
+const caloriesOff = (calories: number, target: number) =>
+  target > 0 && Math.abs(calories - target) > target * CALORIE_TOLERANCE;
+
+const macroOff = (grams: number, target: number) => {
+  const off = Math.abs(grams - target);
+  return target > 0 && off > target * MACRO_TOLERANCE && off > MIN_MACRO_GRAMS_OFF;
+};
+
+const MACROS = [
+  { key: 'protein', label: 'protein' },
+  { key: 'carbs', label: 'carbs' },
+  { key: 'fats', label: 'fat' },
+] as const;
+
+/**
+ * Each day's meals are checked against the app's calculated targets when the chart was
+ * generated from them, since the totals the chart declares come from the model too.
+ */
+export function checkTotals(
+  chart: GenerateIndianDietChartOutput,
+  targets: Pick<Partial<DietChartConstraints>, 'targetCalories' | 'targetMacros'> = {}
+): DietChartViolation[] {
+  const violations: DietChartViolation[] = [];
+  const { targetCalories, targetMacros } = targets;
+
+  if (targetCalories && caloriesOff(chart.dailyCalories, targetCalories)) {
+    violations.push({
+      kind: 'totals',
+      message: `The chart declares ${chart.dailyCalories} kcal a day, ${percentOff(chart.dailyCalories, targetCalories)}% ${chart.dailyCalories < targetCalories ? 'under' : 'over'} the calculated target of ${targetCalories} kcal.`,
+    });
+  }
+  for (const { key, label } of MACROS) {
+    if (targetMacros && macroOff(chart.macroBreakdown[key], targetMacros[key])) {
+      violations.push({
+        kind: 'totals',
+        message: `The chart declares ${chart.macroBreakdown[key]}g ${label} a day, ${percentOff(chart.macroBreakdown[key], targetMacros[key])}% ${chart.macroBreakdown[key] < targetMacros[key] ? 'under' : 'over'} the calculated target of ${targetMacros[key]}g.`,
+      });
+    }
+  }
+
+  const calorieTarget = targetCalories
+    ? { value: targetCalories, label: `the calculated target of ${targetCalories} kcal` }
+    : { value: chart.dailyCalories, label: `the declared ${chart.dailyCalories} kcal` };
+  const macroTargets = MACROS.map(({ key, label }) => {
+    const value = targetMacros ? targetMacros[key] : chart.macroBreakdown[key];
+    return { key, label, value, description: targetMacros ? `the calculated target of ${value}g` : `the declared ${value}g` };
+  });
+
+  chart.mealPlan.forEach((plan, index) => {
+    const day = dayLabel(plan.day, index, chart.mealPlan.length);
+    const calories = plan.meals.reduce((total, meal) => total + meal.calories, 0);
+    if (caloriesOff(calories, calorieTarget.value)) {
+      violations.push({
+        kind: 'totals',
+        day: plan.day,
+        message: `${day}: meals add up to ${calories} kcal, ${percentOff(calories, calorieTarget.value)}% ${calories < calorieTarget.value ? 'under' : 'over'} ${calorieTarget.label}.`,
+      });
+    }
+    for (const { key, label, value, description } of macroTargets) {
+      const grams = Math.round(plan.meals.reduce((total, meal) => total + meal.nutrients[key], 0));
+      if (macroOff(grams, value)) {
+        violations.push({
+          kind: 'totals',
+          day: plan.day,
+          message: `${day}: meals add up to ${grams}g ${label}, ${percentOff(grams, value)}% ${grams < value ? 'under' : 'over'} ${description}.`,
+        });
+      }
+    }
+  });
+  return violations;
+}
+
+export function checkAllergens(chart: GenerateIndianDietChartOutput, allergies: string[] = []): DietChartViolation[] {
+  const violations: DietChartViolation[] = [];
+  const items = itemsOf(chart);
+  for (const allergy of allergies) {
+    const terms = allergenTerms(allergy);
+    for (const item of items) {
+      const term = firstMatch(item.name, terms);
+      if (term) {
+        violations.push({
+          kind: 'allergen',
+          day: item.day,
+          meal: item.meal,
+          item: item.name,
+          message: `${item.meal}${item.day ? ` (${item.day})` : ''}: "${item.name}" contains ${term}, which matches the listed allergy "${allergy}".`,
+        });
+      }
+    }
+  }
+  return violations;
+}
+
+export function checkDietaryPreference(
+  chart: GenerateIndianDietChartOutput,
+  preference?: GenerateIndianDietChartInput['dietaryPreference']
+): DietChartViolation[] {
+  if (!preference) return [];
+  const violations: DietChartViolation[] = [];
+  const excluded = PREFERENCE_EXCLUSIONS[preference] ?? [];
+  const preferenceLabel = preference.replace(/_/g, ' ');
+
+  for (const item of itemsOf(chart)) {
+    for (const group of excluded) {
+      const term = firstMatch(item.name, FOOD_GROUP_TERMS[group]);
+      if (term) {
+        violations.push({
+          kind: 'dietary_preference',
+          day: item.day,
+          meal: item.meal,
+          item: item.name,
+          message: `${item.meal}${item.day ? ` (${item.day})` : ''}: "${item.name}" contains ${term}, but the ${preferenceLabel} preference excludes ${GROUP_LABELS[group]}.`,
+        });
+        break;
+      }
+    }
+  }
+
+  if (preference === 'keto') {
+    chart.mealPlan.forEach((plan, index) => {
+      const carbs = Math.round(plan.meals.reduce((total, meal) => total + meal.nutrients.carbs, 0));
+      if (carbs > KETO_MAX_DAILY_CARBS) {
+        violations.push({
+          kind: 'dietary_preference',
+          day: plan.day,
+          message: `${dayLabel(plan.day, index, chart.mealPlan.length)}: ${carbs}g of carbs is above the ${KETO_MAX_DAILY_CARBS}g keto limit.`,
+        });
+      }
+    });
+  }
+  return violations;
+}
+
+export function validateDietChart(chart: GenerateIndianDietChartOutput, constraints: Partial<DietChartConstraints> = {}): DietChartViolation[] {
+  return [
+    ...checkAllergens(chart, constraints.allergies),
+    ...checkDietaryPreference(chart, constraints.dietaryPreference),
+    ...checkTotals(chart, constraints),
+  ];
+}
+
+/** One instruction per violation, passed to the flow's `corrections` when regenerating. */
+export function correctionsFor(violations: DietChartViolation[]): string[] {
+  return [...new Set(violations.map(violation => violation.message))];
+}
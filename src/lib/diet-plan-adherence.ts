@@ -0,0 +1,113 @@
+import { format } from 'date-fns';
+import type { GenerateIndianDietChartOutput } from '@/ai/flows/generateIndianDietChartFlow';
+import type { FoodEntry, Goal, PlanMealRef } from '@/types';
+
+/**
+ * Links between a saved diet chart and the food log: turning a planned meal into a
+ * food entry, and comparing a logged day with the chart's plan for that day.
+ */
+
+export type PlannedMeal = GenerateIndianDietChartOutput['mealPlan'][number]['meals'][number];
+
+export const PORTION_MULTIPLIERS = [0.5, 0.75, 1, 1.25, 1.5, 2];
+
+// Logged calories within this share of the plan count as on plan
+export const ON_PLAN_TOLERANCE = 0.1;
+
+/**
+ * The chart day to follow on `date`. Weekly charts are matched by weekday name when
+ * the model labelled days "Monday" etc.; otherwise days run Monday first.
+ */
+export function planDayIndexForDate(chart: GenerateIndianDietChartOutput, date: Date): number {
+  const days = chart.mealPlan.length;
+  if (days <= 1) return 0;
+  const weekday = format(date, 'EEEE').toLowerCase();
+  const named = chart.mealPlan.findIndex(plan => plan.day?.toLowerCase().includes(weekday));
+  if (named !== -1) return named;
+  const mondayFirst = (date.getDay() + 6) % 7;
+  return mondayFirst % days;
+}
+
+const scale = (value: number, multiplier: number) => Math.round(value * multiplier * 10) / 10;
+
+/** Food entry data for eating a planned meal, scaled by the portion multiplier. */
+export function foodEntryFromPlannedMeal(
+  meal: PlannedMeal,
+  ref: Omit<PlanMealRef, 'multiplier'>,
+  multiplier = 1
+): Omit<FoodEntry, 'id' | 'timestamp'> {
+  return {
+    name: multiplier === 1 ? meal.name : `${meal.name} (×${multiplier})`,
+    calories: Math.round(meal.calories * multiplier),
+    protein: scale(meal.nutrients.protein, multiplier),
+    fat: scale(meal.nutrients.fats, multiplier),
+    carbs: scale(meal.nutrients.carbs, multiplier),
+    mealType: meal.type,
+    planMeal: { ...ref, multiplier },
+  };
+}
+
+export interface PlannedMealStatus {
+  meal: PlannedMeal;
+  mealIndex: number;
+  eatenMultiplier: number; // Sum over matching entries; 0 when not logged
+}
+
+export interface PlanAdherence {
+  dayIndex: number;
+  dayLabel: string;
+  meals: PlannedMealStatus[];
+  mealsFollowed: number;
+  planned: Goal;
+  actual: Goal; // Everything logged that day, on plan or not
+  offPlanCalories: number; // From entries not logged from this chart
+  calorieDifference: number; // actual - planned
+  onPlan: boolean;
+}
+
+export function calculatePlanAdherence(
+  chart: GenerateIndianDietChartOutput,
+  chartId: string,
+  date: Date,
+  entries: FoodEntry[]
+): PlanAdherence {
+  const dayIndex = planDayIndexForDate(chart, date);
+  const plan = chart.mealPlan[dayIndex];
+  const fromChart = entries.filter(entry => entry.planMeal?.chartId === chartId && entry.planMeal.dayIndex === dayIndex);
+
+  const meals = plan.meals.map((meal, mealIndex) => ({
+    meal,
+    mealIndex,
+    eatenMultiplier: fromChart
+      .filter(entry => entry.planMeal!.mealIndex === mealIndex)
+      .reduce((total, entry) => total + entry.planMeal!.multiplier, 0),
+  }));
+
+  const planned: Goal = {
+    calories: plan.meals.reduce((total, meal) => total + meal.calories, 0),
+    protein: Math.round(plan.meals.reduce((total, meal) => total + meal.nutrients.protein, 0)),
+    fat: Math.round(plan.meals.reduce((total, meal) => total + meal.nutrients.fats, 0)),
+    carbs: Math.round(plan.meals.reduce((total, meal) => total + meal.nutrients.carbs, 0)),
+  };
+  const actual: Goal = {
+    calories: Math.round(entries.reduce((total, entry) => total + entry.calories, 0)),
+    protein: Math.round(entries.reduce((total, entry) => total + entry.protein, 0)),
+    fat: Math.round(entries.reduce((total, entry) => total + entry.fat, 0)),
+    carbs: Math.round(entries.reduce((total, entry) => total + entry.carbs, 0)),
+  };
+  const calorieDifference = actual.calories - planned.calories;
+
+  return {
+    dayIndex,
+    dayLabel: plan.day || (chart.mealPlan.length > 1 ? `Day ${dayIndex + 1}` : 'Daily plan'),
+    meals,
+    mealsFollowed: meals.filter(status => status.eatenMultiplier > 0).length,
+    planned,
+    actual,
+    offPlanCalories: Math.round(
+      entries.filter(entry => !fromChart.includes(entry)).reduce((total, entry) => total + entry.calories, 0)
+    ),
+    calorieDifference,
+    onPlan: planned.calories > 0 && Math.abs(calorieDifference) <= planned.calories * ON_PLAN_TOLERANCE,
+  };
+}
@@ -0,0 +1,64 @@
+import type { EstimateConfidence, EstimateRange, NutrientRanges } from '@/types';
+
+/**
+ * Helpers for the uncertainty reported by the food analysis flows. Models don't always
+ * return bounds that contain their own point estimate, so ranges are fitted before use.
+ */
+
+export interface NutrientPoint {
+  calories: number;
+  protein: number;
+  fat: number;
+  carbs: number;
+}
+
+export const CONFIDENCE_LABELS: Record<EstimateConfidence, string> = {
+  low: 'Low confidence',
+  medium: 'Medium confidence',
+  high: 'High confidence',
+};
+
+const round = (value: number, decimals: number) => {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+};
+
+/** Orders the bounds and widens them to include the point estimate. */
+export function fitRange(range: EstimateRange, point: number, decimals = 1): EstimateRange {
+  const low = Math.max(0, Math.min(range.low, range.high, point));
+  const high = Math.max(range.low, range.high, point);
+  return { low: round(low, decimals), high: round(high, decimals) };
+}
+
+/** Moves a range with its point estimate, e.g. after the user changes a portion. */
+export function scaleRange(range: EstimateRange, fromPoint: number, toPoint: number, decimals = 1): EstimateRange {
+  if (fromPoint <= 0) return fitRange({ low: toPoint, high: toPoint }, toPoint, decimals);
+  const factor = toPoint / fromPoint;
+  return fitRange({ low: range.low * factor, high: range.high * factor }, toPoint, decimals);
+}
+
+export function fitNutrientRanges(ranges: NutrientRanges, point: NutrientPoint): NutrientRanges {
+  return {
+    calories: fitRange(ranges.calories, point.calories, 0),
+    protein: fitRange(ranges.protein, point.protein),
+    fat: fitRange(ranges.fat, point.fat),
+    carbs: fitRange(ranges.carbs, point.carbs),
+  };
+}
+
+export function scaleNutrientRanges(ranges: NutrientRanges, from: NutrientPoint, to: NutrientPoint): NutrientRanges {
+  return {
+    calories: scaleRange(ranges.calories, from.calories, to.calories, 0),
+    protein: scaleRange(ranges.protein, from.protein, to.protein),
+    fat: scaleRange(ranges.fat, from.fat, to.fat),
+    carbs: scaleRange(ranges.carbs, from.carbs, to.carbs),
+  };
+}
+
+export function formatRange(range: EstimateRange, unit: string): string {
+  return range.low === range.high ? `${range.low} ${unit}` : `${range.low}–${range.high} ${unit}`;
+}
+
+export function needsPortionConfirmation(confidence: EstimateConfidence | undefined): boolean {
+  return confidence === 'low';
+}
@@ -0,0 +1,261 @@
+/**
+ * Bundled offline food database used by the manual logger.
+ *
+ * Nutrient values are per 100g of the food as typically eaten (cooked dishes
+ * are measured cooked). Serving units map household portions to grams so that
+ * "2 rotis" always resolves to the same numbers without calling the AI flow.
+ */
+
+import type { FoodEntry, FoodItem, ServingUnit } from '@/types';
+
+type Macros = [calories: number, protein: number, fat: number, carbs: number];
+
+const food = (
+  id: string,
+  name: string,
+  category: FoodItem['category'],
+  [calories, protein, fat, carbs]: Macros,
+  servings: ServingUnit[],
+  aliases: string[] = []
+): FoodItem => ({
+  id,
+  name,
+  aliases,
+  category,
+  per100g: { calories, protein, fat, carbs },
+  servings,
+});
+
+export const GRAM_UNIT: ServingUnit = { name: 'g', grams: 1 };
+
+export const FOOD_DATABASE: FoodItem[] = [
+  // Breads
+  food('roti', 'Roti (Chapati)', 'breads', [297, 9.6, 3.7, 55.8], [{ name: 'roti', grams: 40 }], ['chapati', 'phulka', 'fulka']),
+  food('plain-paratha', 'Plain Paratha', 'breads', [326, 6.4, 13.2, 45.4], [{ name: 'paratha', grams: 80 }], ['parantha']),
+  food('aloo-paratha', 'Aloo Paratha', 'breads', [242, 5.2, 10.4, 32.5], [{ name: 'paratha', grams: 120 }], ['potato paratha']),
+  food('naan', 'Naan', 'breads', [291, 9.6, 5.7, 50.4], [{ name: 'naan', grams: 90 }], ['nan']),
+  food('poori', 'Poori', 'breads', [340, 6.5, 17, 40], [{ name: 'poori', grams: 30 }], ['puri']),
+  food('white-bread', 'White Bread', 'breads', [265, 9, 3.2, 49], [{ name: 'slice', grams: 25 }], ['bread']),
+  food('brown-bread', 'Brown Bread', 'breads', [247, 13, 3.4, 41], [{ name: 'slice', grams: 28 }], ['whole wheat bread']),
+
+  // Rice and grains
+  food('white-rice', 'Steamed White Rice', 'grains', [130, 2.7, 0.3, 28.2], [{ name: 'bowl', grams: 150 }, { name: 'cup', grams: 158 }], ['rice', 'chawal', 'plain rice']),
+  food('brown-rice', 'Brown Rice', 'grains', [123, 2.7, 1, 25.6], [{ name: 'bowl', grams: 150 }, { name: 'cup', grams: 195 }]),
+  food('jeera-rice', 'Jeera Rice', 'grains', [160, 3, 3.6, 28], [{ name: 'bowl', grams: 150 }], ['cumin rice']),
+  food('veg-pulao', 'Veg Pulao', 'grains', [150, 3.2, 4.2, 25], [{ name: 'bowl', grams: 200 }], ['pulav', 'vegetable pulao']),
+  food('chicken-biryani', 'Chicken Biryani', 'grains', [180, 9.5, 6.8, 20], [{ name: 'plate', grams: 250 }], ['biryani']),
+  food('veg-biryani', 'Veg Biryani', 'grains', [155, 3.6, 5, 24], [{ name: 'plate', grams: 250 }], ['vegetable biryani']),
+  food('khichdi', 'Khichdi', 'grains', [120, 4.5, 2.8, 19], [{ name: 'bowl', grams: 200 }], ['khichri']),
+  food('poha', 'Poha', 'grains', [130, 2.5, 4.2, 21], [{ name: 'plate', grams: 150 }], ['aval', 'chivda']),
+  food('upma', 'Rava Upma', 'grains', [125, 3, 4.5, 18.5], [{ name: 'bowl', grams: 200 }], ['uppittu', 'suji upma']),
+  food('idli', 'Idli', 'grains', [135, 4.5, 0.4, 28.5], [{ name: 'idli', grams: 40 }], ['idly']),
+  food('plain-dosa', 'Plain Dosa', 'grains', [168, 3.9, 3.7, 29], [{ name: 'dosa', grams: 80 }], ['dosai', 'sada dosa']),
+  food('masala-dosa', 'Masala Dosa', 'grains', [200, 4, 8.5, 27], [{ name: 'dosa', grams: 175 }]),
+  food('uttapam', 'Uttapam', 'grains', [160, 4.5, 4, 27], [{ name: 'uttapam', grams: 120 }], ['uthappam']),
+  food('oats-porridge', 'Oats Porridge (with water)', 'grains', [71, 2.5, 1.5, 12], [{ name: 'bowl', grams: 234 }], ['oatmeal', 'oats']),
+
+  // Dals and curries
+  food('dal-tadka', 'Dal Tadka', 'pulses', [110, 5.5, 3.6, 14], [{ name: 'bowl', grams: 150 }, { name: 'katori', grams: 100 }], ['dal', 'dhal', 'toor dal', 'arhar dal']),
+  food('dal-makhani', 'Dal Makhani', 'pulses', [140, 5.5, 7, 14], [{ name: 'bowl', grams: 150 }, { name: 'katori', grams: 100 }]),
+  food('moong-dal', 'Moong Dal', 'pulses', [100, 6.5, 2.2, 14], [{ name: 'bowl', grams: 150 }, { name: 'katori', grams: 100 }], ['mung dal', 'yellow dal']),
+  food('chana-masala', 'Chana Masala', 'pulses', [150, 6.5, 5.5, 19], [{ name: 'bowl', grams: 150 }], ['chole', 'chickpea curry']),
+  food('rajma', 'Rajma Masala', 'pulses', [140, 6, 4.5, 19], [{ name: 'bowl', grams: 150 }], ['rajma', 'kidney bean curry']),
+  food('sambar', 'Sambar', 'pulses', [65, 3, 1.8, 9.5], [{ name: 'bowl', grams: 150 }, { name: 'katori', grams: 100 }], ['sambhar']),
+  food('rasam', 'Rasam', 'pulses', [30, 1, 0.8, 5], [{ name: 'bowl', grams: 150 }]),
+  food('sprouts-salad', 'Sprouts Salad', 'pulses', [80, 6, 1, 12], [{ name: 'bowl', grams: 100 }], ['moong sprouts']),
+
+  // Vegetables and paneer
+  food('paneer', 'Paneer', 'dairy', [265, 18.3, 20.8, 1.2], [{ name: 'cube', grams: 15 }], ['cottage cheese']),
+  food('paneer-butter-masala', 'Paneer Butter Masala', 'dairy', [225, 8, 18, 8], [{ name: 'bowl', grams: 200 }], ['paneer makhani']),
+  food('palak-paneer', 'Palak Paneer', 'vegetables', [150, 7, 11, 6], [{ name: 'bowl', grams: 150 }], ['saag paneer']),
+  food('aloo-gobi', 'Aloo Gobi', 'vegetables', [95, 2.2, 5, 11], [{ name: 'bowl', grams: 150 }]),
+  food('bhindi-masala', 'Bhindi Masala', 'vegetables', [95, 2.2, 6.5, 8], [{ name: 'bowl', grams: 150 }], ['okra', 'bhindi']),
+  food('mixed-veg', 'Mixed Vegetable Sabzi', 'vegetables', [85, 2.3, 5, 8], [{ name: 'bowl', grams: 150 }], ['sabzi', 'sabji', 'mix veg']),
+
+  // Eggs, meat and fish
+  food('boiled-egg', 'Boiled Egg', 'eggs', [155, 12.6, 10.6, 1.1], [{ name: 'egg', grams: 50 }], ['egg', 'anda']),
+  food('omelette', 'Masala Omelette', 'eggs', [180, 11, 14, 2.5], [{ name: 'omelette', grams: 120 }], ['omelet']),
+  food('egg-bhurji', 'Egg Bhurji', 'eggs', [185, 11, 14.5, 3], [{ name: 'plate', grams: 150 }], ['scrambled eggs', 'anda bhurji']),
+  food('egg-curry', 'Egg Curry', 'eggs', [150, 8.5, 11, 5], [{ name: 'bowl', grams: 200 }]),
+  food('chicken-breast', 'Grilled Chicken Breast', 'meat', [165, 31, 3.6, 0], [{ name: 'piece', grams: 120 }], ['chicken']),
+  food('chicken-curry', 'Chicken Curry', 'meat', [145, 14, 8.5, 4], [{ name: 'bowl', grams: 200 }]),
+  food('butter-chicken', 'Butter Chicken', 'meat', [195, 13, 13, 6], [{ name: 'bowl', grams: 200 }], ['murgh makhani']),
+  food('tandoori-chicken', 'Tandoori Chicken', 'meat', [150, 25, 5, 2], [{ name: 'piece', grams: 100 }]),
+  food('fish-curry', 'Fish Curry', 'meat', [125, 13, 7, 3], [{ name: 'bowl', grams: 200 }], ['machli']),
+
+  // Dairy and beverages
+  food('curd', 'Curd (Dahi)', 'dairy', [61, 3.5, 3.3, 4.7], [{ name: 'katori', grams: 100 }, { name: 'cup', grams: 245 }], ['dahi', 'yogurt', 'yoghurt']),
+  food('raita', 'Raita', 'dairy', [70, 3, 3.5, 6], [{ name: 'katori', grams: 100 }]),
+  food('milk', 'Milk (Toned)', 'dairy', [58, 3.1, 3, 4.7], [{ name: 'glass', grams: 250 }, { name: 'cup', grams: 150 }], ['doodh']),
+  food('sweet-lassi', 'Sweet Lassi', 'beverages', [90, 3, 2.5, 14], [{ name: 'glass', grams: 250 }], ['lassi']),
+  food('buttermilk', 'Buttermilk (Chaas)', 'beverages', [22, 1.1, 0.9, 2.4], [{ name: 'glass', grams: 250 }], ['chaas', 'chhaas', 'mattha']),
+  food('masala-chai', 'Masala Chai (with milk and sugar)', 'beverages', [45, 1.3, 1.4, 7], [{ name: 'cup', grams: 150 }], ['chai', 'tea']),
+
+  // Snacks
+  food('samosa', 'Samosa', 'snacks', [310, 5, 17, 34], [{ name: 'samosa', grams: 80 }]),
+  food('pakora', 'Pakora', 'snacks', [315, 7, 20, 28], [{ name: 'piece', grams: 20 }, { name: 'plate', grams: 120 }], ['pakoda', 'bhajji', 'bhaji']),
+  food('medu-vada', 'Medu Vada', 'snacks', [300, 9, 17, 28], [{ name: 'vada', grams: 50 }], ['vada', 'vadai']),
+  food('dhokla', 'Dhokla', 'snacks', [160, 6.5, 4.5, 23], [{ name: 'piece', grams: 30 }], ['khaman']),
+  food('pav-bhaji', 'Pav Bhaji', 'snacks', [200, 5, 8, 27], [{ name: 'plate', grams: 300 }]),
+  food('vada-pav', 'Vada Pav', 'snacks', [200, 5, 8.5, 26], [{ name: 'vada pav', grams: 150 }]),
+
+  // Sweets
+  food('gulab-jamun', 'Gulab Jamun', 'sweets', [320, 4.5, 13, 47], [{ name: 'piece', grams: 50 }]),
+  food('jalebi', 'Jalebi', 'sweets', [380, 2.5, 15, 60], [{ name: 'piece', grams: 25 }]),
+  food('kheer', 'Kheer', 'sweets', [140, 3.8, 4.5, 21], [{ name: 'katori', grams: 100 }], ['payasam', 'rice pudding']),
+  food('besan-laddoo', 'Besan Laddoo', 'sweets', [480, 9, 26, 52], [{ name: 'laddoo', grams: 40 }], ['ladoo', 'laddu']),
+
+  // Fruits
+  food('banana', 'Banana', 'fruits', [89, 1.1, 0.3, 22.8], [{ name: 'medium', grams: 118 }], ['kela']),
+  food('apple', 'Apple', 'fruits', [52, 0.3, 0.2, 13.8], [{ name: 'medium', grams: 182 }], ['seb']),
+  food('mango', 'Mango', 'fruits', [60, 0.8, 0.4, 15], [{ name: 'cup', grams: 165 }, { name: 'medium', grams: 200 }], ['aam']),
+  food('papaya', 'Papaya', 'fruits', [43, 0.5, 0.3, 10.8], [{ name: 'cup', grams: 145 }]),
+  food('guava', 'Guava', 'fruits', [68, 2.6, 1, 14.3], [{ name: 'medium', grams: 100 }], ['amrood']),
+  food('orange', 'Orange', 'fruits', [47, 0.9, 0.1, 11.8], [{ name: 'medium', grams: 131 }], ['santra']),
+
+  // Nuts, fats and extras
+  food('almonds', 'Almonds', 'nuts', [579, 21, 50, 22], [{ name: 'handful', grams: 28 }, { name: 'piece', grams: 1.2 }], ['badam']),
+  food('peanuts', 'Roasted Peanuts', 'nuts', [585, 24, 50, 21], [{ name: 'handful', grams: 28 }], ['groundnut', 'moongphali']),
+  food('peanut-butter', 'Peanut Butter', 'nuts', [588, 25, 50, 20], [{ name: 'tbsp', grams: 16 }]),
+  food('ghee', 'Ghee', 'fats', [900, 0, 100, 0], [{ name: 'tsp', grams: 5 }, { name: 'tbsp', grams: 14 }], ['clarified butter']),
+  food('sugar', 'Sugar', 'fats', [387, 0, 0, 100], [{ name: 'tsp', grams: 4 }], ['cheeni', 'chini']),
+];
+
+const normalize = (text: string) =>
+  text.toLowerCase().replace(/[^a-z0-9\s]/g, ' ').replace(/\s+/g, ' ').trim();
+
+// Crude singularisation so "rotis", "idlis" and "eggs" match their entries
+const stem = (word: string) =>
+  word.length > 3 && word.endsWith('s') && !word.endsWith('ss') ? word.slice(0, -1) : word;
+
+const toWords = (text: string) => normalize(text).split(' ').filter(Boolean).map(stem);
+
+const QUANTITY_WORDS: Record<string, number> = { a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, half: 0.5, quarter: 0.25 };
+const GRAM_WORDS = ['g', 'gm', 'gms', 'gram'];
+// Household measures that can precede any food, e.g. "1 bowl dal" or "2 cups of milk"
+const COMMON_UNITS = ['bowl', 'katori', 'cup', 'glass', 'plate', 'piece', 'slice', 'tbsp', 'tsp', 'handful'];
+
+export interface ParsedFoodQuery {
+  quantity?: number;
+  unit?: string;
+  term: string;
+}
+
+/**
+ * Splits a free-text query like "2 rotis", "150g rice" or "half bowl dal"
+ * into a quantity, an optional unit and the food search term.
+ */
+export function parseFoodQuery(query: string): ParsedFoodQuery {
+  let rest = query.toLowerCase().trim();
+  let quantity: number | undefined;
+
+  const numberMatch = rest.match(/^(\d+(?:\.\d+)?)(?:\/(\d+))?\s*/);
+  const wordMatch = rest.match(/^([a-z]+)\s+/);
+  if (numberMatch) {
+    quantity = numberMatch[2] ? Number(numberMatch[1]) / Number(numberMatch[2]) : Number(numberMatch[1]);
+    rest = rest.slice(numberMatch[0].length);
+  } else if (wordMatch && QUANTITY_WORDS[wordMatch[1]] !== undefined) {
+    quantity = QUANTITY_WORDS[wordMatch[1]];
+    rest = rest.slice(wordMatch[0].length);
+  }
+
+  let unit: string | undefined;
+  const unitMatch = quantity !== undefined ? rest.match(/^([a-z]+)\s+(?:of\s+)?/) : null;
+  if (unitMatch) {
+    const candidate = stem(unitMatch[1]);
+    if (GRAM_WORDS.includes(candidate)) {
+      unit = GRAM_UNIT.name;
+    } else if (COMMON_UNITS.includes(candidate)) {
+      unit = candidate;
+    }
+    if (unit) rest = rest.slice(unitMatch[0].length);
+  }
+
+  return { quantity, unit, term: normalize(rest) };
+}
+
+const scoreWords = (queryWords: string[], target: string) => {
+  const targetWords = toWords(target);
+  if (targetWords.join(' ') === queryWords.join(' ')) return 100;
+
+  let score = 0;
+  for (const queryWord of queryWords) {
+    if (targetWords.includes(queryWord)) {
+      score += 30;
+    } else if (targetWords.some(word => word.startsWith(queryWord))) {
+      score += 20;
+    } else if (targetWords.some(word => word.includes(queryWord))) {
+      score += 10;
+    } else {
+      return 0; // every query word must match somewhere
+    }
+  }
+  // Prefer shorter names when several entries match equally well
+  return score - targetWords.length;
+};
+
+/**
+ * Searches the bundled food database by name and aliases.
+ * Returns the best matches first; an empty array means the AI estimate should be used instead.
+ */
+export function searchFoods(query: string, limit = 6): FoodItem[] {
+  const queryWords = toWords(query);
+  if (queryWords.length === 0) return [];
+
+  return FOOD_DATABASE
+    .map(item => ({
+      item,
+      score: Math.max(scoreWords(queryWords, item.name), ...(item.aliases ?? []).map(alias => scoreWords(queryWords, alias))),
+    }))
+    .filter(result => result.score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map(result => result.item);
+}
+
+export function getFoodById(id: string): FoodItem | undefined {
+  return FOOD_DATABASE.find(item => item.id === id);
+}
+
+/** Serving units for a food item, always including plain grams as the last option. */
+export function getServingUnits(item: FoodItem): ServingUnit[] {
+  return [...item.servings, GRAM_UNIT];
+}
+
+/** Picks the serving unit matching a parsed unit name, falling back to the item's first serving. */
+export function findServingUnit(item: FoodItem, unitName?: string): ServingUnit {
+  const units = getServingUnits(item);
+  if (unitName) {
+    const match = units.find(unit => stem(unit.name) === stem(unitName));
+    if (match) return match;
+  }
+  // A query like "2 rotis" names the food itself as the unit
+  return units[0];
+}
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+/** Calculates the macros for a number of serving units of a food item. */
+export function calculateNutrition(
+  item: FoodItem,
+  quantity: number,
+  unit: ServingUnit
+): Pick<FoodEntry, 'calories' | 'protein' | 'fat' | 'carbs'> & { grams: number } {
+  const grams = Math.max(0, quantity) * unit.grams;
+  const factor = grams / 100;
+  return {
+    grams: round1(grams),
+    calories: Math.round(item.per100g.calories * factor),
+    protein: round1(item.per100g.protein * factor),
+    fat: round1(item.per100g.fat * factor),
+    carbs: round1(item.per100g.carbs * factor),
+  };
+}
+
+/** Human-readable portion label, e.g. "2 roti (80g)" or "150g". */
+export function formatServing(quantity: number, unit: ServingUnit): string {
+  if (unit === GRAM_UNIT || unit.name === GRAM_UNIT.name) {
+    return `${round1(quantity)}g`;
+  }
+  return `${round1(quantity)} ${unit.name} (${round1(quantity * unit.grams)}g)`;
+}
@@ -0,0 +1,41 @@
+import { format } from 'date-fns';
+import type { Goal, GoalSchedule } from '@/types';
+
+export const EMPTY_GOAL_SCHEDULE: GoalSchedule = { weekdays: [], dateRanges: [] };
+
+// Display order starts on Monday; values follow Date.getDay
+export const WEEKDAYS: { weekday: number; label: string; short: string }[] = [
+  { weekday: 1, label: 'Monday', short: 'Mon' },
+  { weekday: 2, label: 'Tuesday', short: 'Tue' },
+  { weekday: 3, label: 'Wednesday', short: 'Wed' },
+  { weekday: 4, label: 'Thursday', short: 'Thu' },
+  { weekday: 5, label: 'Friday', short: 'Fri' },
+  { weekday: 6, label: 'Saturday', short: 'Sat' },
+  { weekday: 0, label: 'Sunday', short: 'Sun' },
+];
+
+export type GoalSource = 'default' | 'weekday' | 'date_range';
+
+export interface ResolvedGoal {
+  goal: Goal;
+  source: GoalSource;
+  label: string;
+}
+
+/**
+ * Returns the goal in effect on a date. A date range beats a weekday override, which
+ * beats the everyday goal. When ranges overlap, the one that started most recently wins.
+ */
+export function resolveGoalForDate(baseGoal: Goal, schedule: GoalSchedule, date: Date): ResolvedGoal {
+  const dateKey = format(date, 'yyyy-MM-dd');
+
+  const range = schedule.dateRanges
+    .filter(candidate => candidate.startDate <= dateKey && dateKey <= candidate.endDate)
+    .sort((a, b) => b.startDate.localeCompare(a.startDate))[0];
+  if (range) return { goal: range.goal, source: 'date_range', label: range.label };
+
+  const weekday = schedule.weekdays.find(candidate => candidate.weekday === date.getDay());
+  if (weekday) return { goal: weekday.goal, source: 'weekday', label: weekday.label };
+
+  return { goal: baseGoal, source: 'default', label: 'Everyday goal' };
+}
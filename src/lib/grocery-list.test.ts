@@ -0,0 +1,50 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { categorizeGroceryItem, type GroceryCategory } from '@/lib/grocery-list';
+
+const expectCategories = (cases: [string, GroceryCategory][]) => {
+  for (const [name, category] of cases) assert.equal(categorizeGroceryItem(name), category, name);
+};
+
+describe('categorizeGroceryItem', () => {
+  it('files dishes by their main ingredient, not a spice they are flavoured with', () => {
+    expectCategories([
+      ['Masala oats', 'grains'],
+      ['Jeera rice', 'grains'],
+      ['Pepper chicken', 'protein'],
+      ['Haldi doodh', 'dairy'],
+      ['Jeera aloo', 'produce'],
+    ]);
+  });
+
+  it('prefers the main ingredient over a dairy one', () => {
+    expectCategories([
+      ['Butter chicken', 'protein'],
+      ['Curd rice', 'grains'],
+      ['Palak paneer', 'dairy'],
+    ]);
+  });
+
+  it('matches multi-word terms before the single words in them', () => {
+    expectCategories([
+      ['Bell pepper', 'produce'],
+      ['Red bell peppers', 'produce'],
+      ['Sweet potato', 'produce'],
+    ]);
+  });
+
+  it('still files spices and condiments on their own as spices', () => {
+    expectCategories([
+      ['Red chilli powder', 'spices'],
+      ['Garam masala', 'spices'],
+      ['Black pepper', 'spices'],
+      ['Jeera', 'spices'],
+      ['Mustard oil', 'spices'],
+      ['Honey', 'spices'],
+    ]);
+  });
+
+  it('falls back to other for unknown items', () => {
+    expectCategories([['Green tea', 'other']]);
+  });
+});
@@ -0,0 +1,238 @@
+import type { GenerateIndianDietChartOutput } from '@/ai/flows/generateIndianDietChartFlow';
+import { FOOD_GROUP_TERMS } from '@/lib/diet-chart-validator';
+import { escapeCsv } from '@/lib/data-transfer';
+
+/**
+ * Shopping list for a saved diet chart. Food item quantities are free text from the
+ * model ("1 bowl (150g)", "2 tablespoons", "1 medium apple"), so each is parsed into
+ * an amount and a unit, units are converted to grams, millilitres or a count where
+ * possible, and the same item is summed across every meal and day.
+ */
+
+export type GroceryCategory = 'produce' | 'dairy' | 'grains' | 'pulses' | 'protein' | 'spices' | 'other';
+
+export const GROCERY_CATEGORY_LABELS: Record<GroceryCategory, string> = {
+  produce: 'Fruits & vegetables',
+  dairy: 'Dairy',
+  grains: 'Grains & flours',
+  pulses: 'Pulses & legumes',
+  protein: 'Eggs, meat & fish',
+  spices: 'Spices & condiments',
+  other: 'Other',
+};
+
+// 'g' and 'ml' are canonical; household measures that can't be converted keep their own unit
+export type GroceryUnit = 'g' | 'ml' | 'piece' | 'bowl' | 'plate' | 'slice' | 'serving' | 'handful';
+
+export interface ParsedQuantity {
+  amount: number;
+  unit: GroceryUnit;
+}
+
+export interface GroceryItem {
+  name: string;
+  category: GroceryCategory;
+  quantities: ParsedQuantity[]; // One per unit, e.g. 300 g plus 2 pieces when the chart mixes them
+  unparsed: string[]; // Quantities that couldn't be read, kept verbatim
+  occurrences: number; // Meals the item appears in
+}
+
+export interface GroceryList {
+  days: number;
+  categories: { category: GroceryCategory; items: GroceryItem[] }[];
+}
+
+// Conversions to the canonical unit. Spoons and cups are measured as volume.
+const UNIT_ALIASES: Record<string, { unit: GroceryUnit; factor: number }> = {
+  g: { unit: 'g', factor: 1 },
+  gm: { unit: 'g', factor: 1 },
+  gms: { unit: 'g', factor: 1 },
+  gram: { unit: 'g', factor: 1 },
+  grams: { unit: 'g', factor: 1 },
+  kg: { unit: 'g', factor: 1000 },
+  kgs: { unit: 'g', factor: 1000 },
+  ml: { unit: 'ml', factor: 1 },
+  l: { unit: 'ml', factor: 1000 },
+  litre: { unit: 'ml', factor: 1000 },
+  liter: { unit: 'ml', factor: 1000 },
+  litres: { unit: 'ml', factor: 1000 },
+  liters: { unit: 'ml', factor: 1000 },
+  tsp: { unit: 'ml', factor: 5 },
+  teaspoon: { unit: 'ml', factor: 5 },
+  teaspoons: { unit: 'ml', factor: 5 },
+  tbsp: { unit: 'ml', factor: 15 },
+  tablespoon: { unit: 'ml', factor: 15 },
+  tablespoons: { unit: 'ml', factor: 15 },
+  cup: { unit: 'ml', factor: 240 },
+  cups: { unit: 'ml', factor: 240 },
+  glass: { unit: 'ml', factor: 250 },
+  glasses: { unit: 'ml', factor: 250 },
+  piece: { unit: 'piece', factor: 1 },
+  pieces: { unit: 'piece', factor: 1 },
+  pc: { unit: 'piece', factor: 1 },
+  pcs: { unit: 'piece', factor: 1 },
+  nos: { unit: 'piece', factor: 1 },
+  bowl: { unit: 'bowl', factor: 1 },
+  bowls: { unit: 'bowl', factor: 1 },
+  katori: { unit: 'bowl', factor: 1 },
+  katoris: { unit: 'bowl', factor: 1 },
+  plate: { unit: 'plate', factor: 1 },
+  plates: { unit: 'plate', factor: 1 },
+  slice: { unit: 'slice', factor: 1 },
+  slices: { unit: 'slice', factor: 1 },
+  serving: { unit: 'serving', factor: 1 },
+  servings: { unit: 'serving', factor: 1 },
+  handful: { unit: 'handful', factor: 1 },
+  handfuls: { unit: 'handful', factor: 1 },
+};
+
+// Fractions first, or "1/2" would be read as 1
+const NUMBER = String.raw`(\d+\s*\/\s*\d+|\d+(?:\.\d+)?|[½¼¾⅓⅔])`;
+const AMOUNT_PATTERN = new RegExp(String.raw`${NUMBER}(?:\s*(?:-|to)\s*${NUMBER})?\s*([a-z]+)?`, 'i');
+// A metric amount in brackets, e.g. "1 bowl (150g)", is more precise than the household measure
+const METRIC_IN_BRACKETS = new RegExp(String.raw`\(\s*(?:about\s+|~\s*)?${NUMBER}\s*(g|gm|gms|grams?|kg|ml|l|litres?|liters?)\s*\)`, 'i');
+
+const FRACTIONS: Record<string, number> = { '½': 0.5, '¼': 0.25, '¾': 0.75, '⅓': 1 / 3, '⅔': 2 / 3 };
+
+function toNumber(text: string): number {
+  if (FRACTIONS[text]) return FRACTIONS[text];
+  const [numerator, denominator] = text.split('/').map(part => Number(part.trim()));
+  return denominator ? numerator / denominator : numerator;
+}
+
+/** Reads an amount and unit from a quantity string, or returns null when there is no number in it. */
+export function parseQuantity(quantity: string): ParsedQuantity | null {
+  const text = quantity.toLowerCase();
+
+  const metric = text.match(METRIC_IN_BRACKETS);
+  if (metric) {
+    const alias = UNIT_ALIASES[metric[2]];
+    return { amount: toNumber(metric[1]) * alias.factor, unit: alias.unit };
+  }
+
+  const match = text.match(AMOUNT_PATTERN);
+  if (!match) return null;
+  // For a range such as "1-2 rotis", buy for the upper end
+  const amount = toNumber(match[2] ?? match[1]);
+  const alias = match[3] ? UNIT_ALIASES[match[3]] : undefined;
+  // Anything else ("2 medium apples", "3 rotis") counts pieces
+  return alias ? { amount: amount * alias.factor, unit: alias.unit } : { amount, unit: 'piece' };
+}
+
+const SPICE_TERMS = [
+  'salt', 'sugar', 'jaggery', 'gur', 'asafoetida', 'powder', 'seeds', 'cardamom', 'elaichi', 'cinnamon', 'dalchini', 'clove',
+  'laung', 'kali mirch', 'bay leaf', 'tej patta', 'chutney', 'pickle', 'achaar', 'oil', 'vinegar', 'sauce', 'ketchup',
+];
+// Spices that also name dishes made with them ("Masala oats", "Jeera rice", "Pepper chicken")
+const SPICE_MODIFIER_TERMS = ['masala', 'jeera', 'cumin', 'ajwain', 'hing', 'turmeric', 'haldi', 'pepper', 'honey'];
+const PRODUCE_TERMS = [
+  'vegetable', 'sabzi', 'salad', 'fruit', 'apple', 'banana', 'orange', 'guava', 'papaya', 'mango', 'pomegranate', 'grape',
+  'watermelon', 'melon', 'pear', 'berries', 'lemon', 'lime', 'tomato', 'cucumber', 'kheera', 'spinach', 'palak', 'methi',
+  'cabbage', 'cauliflower', 'gobi', 'broccoli', 'bhindi', 'okra', 'lauki', 'bottle gourd', 'tinda', 'karela', 'brinjal',
+  'baingan', 'eggplant', 'capsicum', 'bell pepper', 'beans', 'peas', 'matar', 'mushroom', 'pumpkin', 'coriander', 'mint',
+  'pudina', 'curry leaves', 'chilli', 'chili', 'avocado', 'coconut', 'dates', 'raisin',
+  ...FOOD_GROUP_TERMS.root_vegetable,
+];
+
+const CATEGORY_TERMS: [GroceryCategory, string[]][] = [
+  // Checked in order. Main ingredients come first so "Butter chicken" is protein and "Curd rice" a grain;
+  // condiments come before produce so "chilli powder" isn't filed as produce.
+  ['protein', [...FOOD_GROUP_TERMS.egg, ...FOOD_GROUP_TERMS.meat, ...FOOD_GROUP_TERMS.fish, ...FOOD_GROUP_TERMS.shellfish, ...FOOD_GROUP_TERMS.soy]],
+  ['pulses', FOOD_GROUP_TERMS.legume],
+  ['grains', [...FOOD_GROUP_TERMS.grain, ...FOOD_GROUP_TERMS.gluten, 'flour', 'muesli', 'cornflakes']],
+  ['dairy', FOOD_GROUP_TERMS.dairy],
+  ['spices', SPICE_TERMS],
+  ['produce', PRODUCE_TERMS],
+  ['spices', SPICE_MODIFIER_TERMS],
+];
+
+export function categorizeGroceryItem(name: string): GroceryCategory {
+  const text = name.toLowerCase();
+  const mentions = (term: string) => new RegExp(`\\b${term}(?:s|es)?\\b`).test(text);
+  const categoryOf = (matches: (term: string) => boolean) =>
+    CATEGORY_TERMS.find(([, terms]) => terms.some(matches))?.[0];
+  // A multi-word term ("bell pepper", "sweet potato") is more specific than any single word in the name
+  return categoryOf(term => term.includes(' ') && mentions(term)) ?? categoryOf(mentions) ?? 'other';
+}
+
+// Groups "Banana" with "bananas" and "Tomatoes" with "tomato"
+function itemKey(name: string): string {
+  return name.toLowerCase().replace(/\s+/g, ' ').trim().replace(/(?<=\w{2})oes$/, 'o').replace(/(?<=\w{2}[^s])s$/, '');
+}
+
+export function buildGroceryList(chart: GenerateIndianDietChartOutput): GroceryList {
+  const items = new Map<string, GroceryItem>();
+
+  for (const plan of chart.mealPlan) {
+    for (const meal of plan.meals) {
+      for (const foodItem of meal.foodItems) {
+        const key = itemKey(foodItem.name);
+        const item = items.get(key) ?? {
+          name: foodItem.name.trim(),
+          category: categorizeGroceryItem(foodItem.name),
+          quantities: [],
+          unparsed: [],
+          occurrences: 0,
+        };
+        item.occurrences += 1;
+
+        const parsed = parseQuantity(foodItem.quantity);
+        if (!parsed) {
+          item.unparsed.push(foodItem.quantity.trim());
+        } else {
+          const existing = item.quantities.find(quantity => quantity.unit === parsed.unit);
+          if (existing) existing.amount += parsed.amount;
+          else item.quantities.push({ ...parsed });
+        }
+        items.set(key, item);
+      }
+    }
+  }
+
+  const categories = (Object.keys(GROCERY_CATEGORY_LABELS) as GroceryCategory[])
+    .map(category => ({
+      category,
+      items: [...items.values()].filter(item => item.category === category).sort((a, b) => a.name.localeCompare(b.name)),
+    }))
+    .filter(group => group.items.length > 0);
+
+  return { days: chart.mealPlan.length, categories };
+}
+
+const roundTo = (value: number, step: number) => Math.round(value / step) * step;
+
+export function formatQuantity({ amount, unit }: ParsedQuantity): string {
+  if (unit === 'g') return amount >= 1000 ? `${roundTo(amount / 1000, 0.1).toFixed(1)} kg` : `${roundTo(amount, 5)} g`;
+  if (unit === 'ml') return amount >= 1000 ? `${roundTo(amount / 1000, 0.1).toFixed(1)} L` : `${roundTo(amount, 5)} ml`;
+  const count = roundTo(amount, 0.5);
+  return unit === 'piece' ? `${count}` : `${count} ${unit}${count === 1 ? '' : 's'}`;
+}
+
+export function formatGroceryItemQuantity(item: GroceryItem): string {
+  const parts = [...item.quantities.map(formatQuantity), ...new Set(item.unparsed)];
+  return parts.join(' + ') || 'as needed';
+}
+
+export function groceryListToText(list: GroceryList, title: string): string {
+  const lines = [`${title} – shopping list for ${list.days} day${list.days === 1 ? '' : 's'}`];
+  for (const { category, items } of list.categories) {
+    lines.push('', GROCERY_CATEGORY_LABELS[category]);
+    for (const item of items) lines.push(`- ${item.name}: ${formatGroceryItemQuantity(item)}`);
+  }
+  return lines.join('\n');
+}
+
+/** One row per item and unit, so amounts stay machine-readable. */
+export function groceryListToCsv(list: GroceryList): string {
+  const header = ['category', 'item', 'amount', 'unit', 'quantity', 'meals'];
+  const rows = list.categories.flatMap(({ category, items }) =>
+    items.flatMap(item => {
+      const measured = item.quantities.map(quantity => [
+        GROCERY_CATEGORY_LABELS[category], item.name, Math.round(quantity.amount * 10) / 10, quantity.unit, formatQuantity(quantity), item.occurrences,
+      ]);
+      const verbatim = [...new Set(item.unparsed)].map(text => [GROCERY_CATEGORY_LABELS[category], item.name, undefined, undefined, text, item.occurrences]);
+      return [...measured, ...verbatim];
+    })
+  );
+  return [header, ...rows].map(row => row.map(escapeCsv).join(',')).join('\n');
+}
@@ -0,0 +1,60 @@
+import type { FoodEntry, MealType } from '@/types';
+
+// Display order for the dashboard, matching the meal types used by the diet chart flows
+export const MEAL_TYPES: MealType[] = ['breakfast', 'lunch', 'snack', 'dinner'];
+
+export const MEAL_TYPE_LABELS: Record<MealType, string> = {
+  breakfast: 'Breakfast',
+  lunch: 'Lunch',
+  snack: 'Snack',
+  dinner: 'Dinner',
+};
+
+/**
+ * Suggests a meal slot from the time of day.
+ * Breakfast 04:00-10:59, lunch 11:00-15:59, snack 16:00-18:59, dinner otherwise.
+ */
+export function suggestMealType(time: Date | number = new Date()): MealType {
+  const hour = new Date(time).getHours();
+  if (hour >= 4 && hour < 11) return 'breakfast';
+  if (hour >= 11 && hour < 16) return 'lunch';
+  if (hour >= 16 && hour < 19) return 'snack';
+  return 'dinner';
+}
+
+export function isMealType(value: unknown): value is MealType {
+  return typeof value === 'string' && (MEAL_TYPES as string[]).includes(value);
+}
+
+/** Fills in the meal slot for entries saved before meal slots were introduced. */
+export function withMealType(entry: Omit<FoodEntry, 'mealType'> & { mealType?: unknown }): FoodEntry {
+  return {
+    ...entry,
+    mealType: isMealType(entry.mealType) ? entry.mealType : suggestMealType(entry.timestamp),
+  };
+}
+
+export interface MealGroup {
+  mealType: MealType;
+  entries: FoodEntry[];
+  totals: { calories: number; protein: number; fat: number; carbs: number };
+}
+
+/** Groups entries by meal slot in display order, with per-slot subtotals. Empty slots are omitted. */
+export function groupEntriesByMeal(entries: FoodEntry[]): MealGroup[] {
+  return MEAL_TYPES
+    .map(mealType => {
+      const slotEntries = entries.filter(entry => entry.mealType === mealType);
+      const totals = slotEntries.reduce(
+        (sum, entry) => ({
+          calories: sum.calories + entry.calories,
+          protein: sum.protein + entry.protein,
+          fat: sum.fat + entry.fat,
+          carbs: sum.carbs + entry.carbs,
+        }),
+        { calories: 0, protein: 0, fat: 0, carbs: 0 }
+      );
+      return { mealType, entries: slotEntries, totals };
+    })
+    .filter(group => group.entries.length > 0);
+}
@@ -0,0 +1,76 @@
+import { format } from 'date-fns';
+import { z } from 'zod';
+import type { FoodEntry, WaterEntry } from '@/types';
+import { saveFoodEntries } from '@/lib/daily-summary';
+import { activeServiceWorker, postToServiceWorker } from '@/lib/reminder-scheduler';
+import { foodEntriesRecord, foodEntrySchema, waterLogRecord } from '@/lib/storage';
+
+/**
+ * Reminder actions taken from a notification without opening the app ("Log water
+ * 250ml", "Log usual breakfast", "Snooze 30 min"). The service worker, or the Android
+ * app for its own notifications, records each outcome; the next time the dashboard
+ * opens it applies them to local storage and clears them.
+ *
+ * Outcome ids become the ids of the entries they create, so applying the same outcome
+ * twice (e.g. the tab closed before the queue was cleared) adds nothing.
+ */
+
+export const notificationActionOutcomeSchema = z.discriminatedUnion('kind', [
+  z.object({ id: z.string().min(1), kind: z.literal('water'), amountMl: z.number().positive(), at: z.number() }),
+  z.object({
+    id: z.string().min(1),
+    kind: z.literal('meal'),
+    meal: foodEntrySchema.pick({ name: true, calories: true, protein: true, fat: true, carbs: true, mealType: true, grams: true, items: true }),
+    at: z.number(),
+  }),
+  // Nothing to store; the snoozed reminder is already back in the schedule
+  z.object({ id: z.string().min(1), kind: z.literal('snooze'), title: z.string(), until: z.number(), at: z.number() }),
+]);
+
+export type NotificationActionOutcome = z.infer<typeof notificationActionOutcomeSchema>;
+
+/** Keeps the well-formed outcomes, e.g. from an older worker or app version. */
+export function parseNotificationActionOutcomes(value: unknown): NotificationActionOutcome[] {
+  if (!Array.isArray(value)) return [];
+  return value.flatMap(outcome => {
+    const parsed = notificationActionOutcomeSchema.safeParse(outcome);
+    return parsed.success ? [parsed.data] : [];
+  });
+}
+
+export interface AppliedNotificationActions {
+  added: NotificationActionOutcome[]; // Not in the log before
+  failed: NotificationActionOutcome[]; // Could not be saved, so they stay queued
+}
+
+/** Writes the outcomes to the log of the day each action was taken. */
+export function applyNotificationActions(outcomes: NotificationActionOutcome[]): AppliedNotificationActions {
+  const result: AppliedNotificationActions = { added: [], failed: [] };
+  for (const outcome of outcomes) {
+    const date = format(outcome.at, 'yyyy-MM-dd');
+    let saved = true;
+    if (outcome.kind === 'water') {
+      const entries = waterLogRecord(date).read() ?? [];
+      if (entries.some(entry => entry.id === outcome.id)) continue;
+      const entry: WaterEntry = { id: outcome.id, amountMl: outcome.amountMl, timestamp: outcome.at };
+      saved = waterLogRecord(date).write([...entries, entry].sort((a, b) => a.timestamp - b.timestamp));
+    } else if (outcome.kind === 'meal') {
+      const entries = foodEntriesRecord(date).read() ?? [];
+      if (entries.some(entry => entry.id === outcome.id)) continue;
+      const entry: FoodEntry = { ...outcome.meal, id: outcome.id, timestamp: outcome.at };
+      saved = saveFoodEntries(date, [...entries, entry].sort((a, b) => a.timestamp - b.timestamp));
+    }
+    (saved ? result.added : result.failed).push(outcome);
+  }
+  return result;
+}
+
+/** Outcomes the service worker recorded since they were last cleared; none without a worker. */
+export async function listRecordedNotificationActions(): Promise<NotificationActionOutcome[]> {
+  if (!(await activeServiceWorker())) return [];
+  return parseNotificationActionOutcomes(await postToServiceWorker<unknown[]>({ type: 'actions:list' }));
+}
+
+export async function clearRecordedNotificationActions(ids: string[]): Promise<void> {
+  await postToServiceWorker<unknown[]>({ type: 'actions:clear', ids });
+}
@@ -1,6 +1,9 @@
 "use client";
 
+import { useCallback } from 'react';
 import { useReminderSettings, ReminderSettings } from '@/hooks/use-reminder-settings';
+import { scheduleReminders } from '@/lib/reminder-scheduler';
+import { getLocalUserId } from '@/lib/user-id';
 
 export interface NotificationData {
   title: string;
@@ -50,7 +53,7 @@ class NotificationService {
     return permission;
   }
 
-  async subscribeToPushNotifications(): Promise<PushSubscription | null> {
+  async subscribeToPushNotifications(reminders: ReminderSettings): Promise<PushSubscription | null> {
     if (!this.registration || !this.isSupported) {
       return null;
     }
@@ -82,8 +85,10 @@ class NotificationService {
 
       console.log('Push subscription created:', this.subscription);
       
-      // Save subscription to backend (you'll implement this)
-      await this.saveSubscriptionToBackend(this.subscription);
+      // Save subscription to backend so server-sent reminders reach this device
+      await this.saveSubscriptionToBackend(this.subscription, reminders);
+      // Rescheduling sends the worker's schedule to the server, now that it knows this device
+      await this.scheduleReminders(reminders);
       
       return this.subscription;
     } catch (error) {
@@ -98,11 +103,12 @@ class NotificationService {
     }
 
     try {
+      const { endpoint } = this.subscription;
       await this.subscription.unsubscribe();
       this.subscription = null;
       
       // Remove subscription from backend
-      await this.removeSubscriptionFromBackend();
+      await this.removeSubscriptionFromBackend(endpoint);
       
       return true;
     } catch (error) {
@@ -111,22 +117,6 @@ class NotificationService {
     }
   }
 
-  async scheduleLocalNotification(notification: NotificationData, delay: number): Promise<void> {
-    if (!this.isSupported) {
-      return;
-    }
-
-    try {
-      // Schedule notification using setTimeout (for demo purposes)
-      // In production, you'd use a more robust scheduling system
-      setTimeout(() => {
-        this.showLocalNotification(notification);
-      }, delay);
-    } catch (error) {
-      console.error('Failed to schedule local notification:', error);
-    }
-  }
-
   async showLocalNotification(notification: NotificationData): Promise<void> {
     if (!this.isSupported) {
       return;
@@ -157,127 +147,22 @@ class NotificationService {
     }
   }
 
-  async scheduleDailyReminders(settings: ReminderSettings): Promise<void> {
-    if (!settings.logMeals) {
+  /**
+   * Hands the upcoming reminders to the service worker, which keeps delivering them after
+   * the tab closes. Planning again replaces the schedule, so reloads don't duplicate it.
+   */
+  async scheduleReminders(settings: ReminderSettings): Promise<void> {
+    if (!this.registration) {
       return;
     }
 
-    // Parse reminder time
-    const [hours, minutes] = settings.logMealsTime.split(':').map(Number);
-    const now = new Date();
-    const reminderTime = new Date();
-    reminderTime.setHours(hours, minutes, 0, 0);
-
-    // If time has passed today, schedule for tomorrow
-    if (reminderTime <= now) {
-      reminderTime.setDate(reminderTime.getDate() + 1);
-    }
-
-    const delay = reminderTime.getTime() - now.getTime();
-
-    // Schedule the notification
-    await this.scheduleLocalNotification({
-      title: 'Time to Log Your Meal! 🍽️',
-      body: 'Don\'t forget to track your nutrition for today. Tap to log your meal now!',
-      tag: 'daily-meal-reminder',
-      data: {
-        url: '/log-food/manual',
-        type: 'meal-reminder'
-      }
-    }, delay);
-
-    // Schedule recurring reminder (every 24 hours)
-    setInterval(async () => {
-      await this.showLocalNotification({
-        title: 'Time to Log Your Meal! 🍽️',
-        body: 'Don\'t forget to track your nutrition for today. Tap to log your meal now!',
-        tag: 'daily-meal-reminder',
-        data: {
-          url: '/log-food/manual',
-          type: 'meal-reminder'
-        }
-      });
-    }, 24 * 60 * 60 * 1000); // 24 hours
-  }
-
-  async scheduleHydrationReminders(settings: ReminderSettings): Promise<void> {
-    if (!settings.drinkWater) {
-      return;
-    }
-
-    const frequencyMap = {
-      'every_hour': 60 * 60 * 1000,
-      'every_2_hours': 2 * 60 * 60 * 1000,
-      'every_3_hours': 3 * 60 * 60 * 1000
-    };
-
-    const interval = frequencyMap[settings.drinkWaterFrequency as keyof typeof frequencyMap] || 2 * 60 * 60 * 1000;
-
-    // Schedule recurring hydration reminders
-    setInterval(async () => {
-      await this.showLocalNotification({
-        title: 'Stay Hydrated! 💧',
-        body: 'Time to drink some water and stay healthy!',
-        tag: 'hydration-reminder',
-        data: {
-          url: '/',
-          type: 'hydration-reminder'
-        }
-      });
-    }, interval);
-  }
-
-  async scheduleWeeklyWeighIn(settings: ReminderSettings): Promise<void> {
-    if (!settings.weighIn) {
-      return;
+    try {
+      // A worker registered moments ago may still be installing
+      await navigator.serviceWorker.ready;
+      await scheduleReminders(settings);
+    } catch (error) {
+      console.error('Failed to schedule reminders:', error);
     }
-
-    const dayMap = {
-      'monday': 1,
-      'tuesday': 2,
-      'wednesday': 3,
-      'thursday': 4,
-      'friday': 5,
-      'saturday': 6,
-      'sunday': 0
-    };
-
-    const targetDay = dayMap[settings.weighInDay as keyof typeof dayMap] || 1;
-    const [hours, minutes] = settings.weighInTime.split(':').map(Number);
-
-    const scheduleWeeklyReminder = () => {
-      const now = new Date();
-      const targetDate = new Date();
-      targetDate.setHours(hours, minutes, 0, 0);
-
-      // Find next occurrence of the target day
-      const daysUntilTarget = (targetDay - now.getDay() + 7) % 7;
-      targetDate.setDate(now.getDate() + daysUntilTarget);
-
-      // If time has passed today and it's the target day, schedule for next week
-      if (daysUntilTarget === 0 && targetDate <= now) {
-        targetDate.setDate(targetDate.getDate() + 7);
-      }
-
-      const delay = targetDate.getTime() - now.getTime();
-
-      setTimeout(async () => {
-        await this.showLocalNotification({
-          title: 'Weekly Weigh-In Reminder ⚖️',
-          body: 'Time for your weekly progress check! Track your weight to monitor your journey.',
-          tag: 'weekly-weigh-in',
-          data: {
-            url: '/progress',
-            type: 'weigh-in-reminder'
-          }
-        });
-
-        // Schedule next week's reminder
-        scheduleWeeklyReminder();
-      }, delay);
-    };
-
-    scheduleWeeklyReminder();
   }
 
   private urlBase64ToUint8Array(base64String: string): Uint8Array {
@@ -295,26 +180,55 @@ class NotificationService {
     return outputArray;
   }
 
-  private async saveSubscriptionToBackend(subscription: PushSubscription): Promise<void> {
-    // TODO: Implement backend API call to save subscription
-    console.log('Saving subscription to backend:', subscription);
-    
-    // Example implementation:
-    // await fetch('/api/notifications/subscribe', {
-    //   method: 'POST',
-    //   headers: { 'Content-Type': 'application/json' },
-    //   body: JSON.stringify(subscription)
-    // });
+  /** Re-plans the schedule and sends updated reminder preferences for this device's subscription, if it has one. */
+  async syncReminderPreferences(reminders: ReminderSettings): Promise<void> {
+    if (this.subscription) {
+      await this.saveSubscriptionToBackend(this.subscription, reminders);
+    }
+    await this.scheduleReminders(reminders);
+  }
+
+  // e.g. "Chrome on Android", so a user can tell their subscribed devices apart
+  private describeDevice(): string {
+    const userAgent = navigator.userAgent;
+    const browser = /Edg\//.test(userAgent) ? 'Edge'
+      : /Firefox\//.test(userAgent) ? 'Firefox'
+      : /Chrome\//.test(userAgent) ? 'Chrome'
+      : /Safari\//.test(userAgent) ? 'Safari'
+      : 'Browser';
+    const platform = /Android/.test(userAgent) ? 'Android'
+      : /iPhone|iPad/.test(userAgent) ? 'iOS'
+      : /Windows/.test(userAgent) ? 'Windows'
+      : /Mac OS X/.test(userAgent) ? 'macOS'
+      : /Linux/.test(userAgent) ? 'Linux'
+      : 'unknown device';
+    return `${browser} on ${platform}`;
+  }
+
+  private async saveSubscriptionToBackend(subscription: PushSubscription, reminders: ReminderSettings): Promise<void> {
+    const response = await fetch('/api/notifications/subscribe', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        subscription: subscription.toJSON(),
+        ownerId: getLocalUserId(),
+        deviceLabel: this.describeDevice(),
+        reminders,
+        timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone, // Reminders are scheduled in the device's local time
+      })
+    });
+    if (!response.ok) {
+      throw new Error(`Saving the push subscription failed with status ${response.status}`);
+    }
   }
 
-  private async removeSubscriptionFromBackend(): Promise<void> {
-    // TODO: Implement backend API call to remove subscription
-    console.log('Removing subscription from backend');
-    
-    // Example implementation:
-    // await fetch('/api/notifications/unsubscribe', {
-    //   method: 'DELETE'
-    // });
+  private async removeSubscriptionFromBackend(endpoint: string): Promise<void> {
+    const response = await fetch(`/api/notifications/subscribe?endpoint=${encodeURIComponent(endpoint)}`, {
+      method: 'DELETE'
+    });
+    if (!response.ok) {
+      throw new Error(`Removing the push subscription failed with status ${response.status}`);
+    }
   }
 
   getSubscription(): PushSubscription | null {
@@ -331,26 +245,29 @@ export const notificationService = new NotificationService();
 
 // React hook for using notification service
 export function useNotificationService() {
-  const { settings } = useReminderSettings();
+  const { settings, isLoading } = useReminderSettings();
 
-  const initializeNotifications = async () => {
+  // Stable between renders, since pages run it from an effect and each call re-plans the schedule
+  const initializeNotifications = useCallback(async () => {
     const initialized = await notificationService.initialize();
-    if (initialized) {
-      await notificationService.scheduleDailyReminders(settings);
-      await notificationService.scheduleHydrationReminders(settings);
-      await notificationService.scheduleWeeklyWeighIn(settings);
+    if (initialized && !isLoading) {
+      await notificationService.scheduleReminders(settings);
     }
     return initialized;
-  };
+  }, [settings, isLoading]);
 
   const subscribeToNotifications = async () => {
-    return await notificationService.subscribeToPushNotifications();
+    return await notificationService.subscribeToPushNotifications(settings);
   };
 
   const unsubscribeFromNotifications = async () => {
     return await notificationService.unsubscribeFromPushNotifications();
   };
 
+  const syncReminderPreferences = async (reminders: ReminderSettings) => {
+    await notificationService.syncReminderPreferences(reminders);
+  };
+
   const showTestNotification = async () => {
     await notificationService.showLocalNotification({
       title: 'Test Notification',
@@ -363,6 +280,7 @@ export function useNotificationService() {
     initializeNotifications,
     subscribeToNotifications,
     unsubscribeFromNotifications,
+    syncReminderPreferences,
     showTestNotification,
     isSupported: notificationService.isNotificationSupported(),
     subscription: notificationService.getSubscription()
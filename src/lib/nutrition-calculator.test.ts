@@ -0,0 +1,128 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  ACTIVITY_MULTIPLIERS,
+  MACRO_PRESETS,
+  MIN_DAILY_CALORIES,
+  bodyMetricsFromProfile,
+  calculateBmr,
+  calculateNutritionPlan,
+  calculateTdee,
+  katchMcArdle,
+  mifflinStJeor,
+  splitMacros,
+  suggestMacroPreset,
+  type BodyMetrics,
+} from '@/lib/nutrition-calculator';
+
+const male: BodyMetrics = { age: 30, sex: 'male', weightKg: 80, heightCm: 180 };
+const female: BodyMetrics = { age: 25, sex: 'female', weightKg: 60, heightCm: 165 };
+
+describe('mifflinStJeor', () => {
+  it('matches the published equation for men and women', () => {
+    assert.equal(mifflinStJeor(male), 1780); // 800 + 1125 - 150 + 5
+    assert.equal(mifflinStJeor(female), 1345.25); // 600 + 1031.25 - 125 - 161
+  });
+
+  it('uses the midpoint of the sex constants for other', () => {
+    assert.equal(mifflinStJeor({ ...male, sex: 'other' }), 1697);
+  });
+});
+
+describe('katchMcArdle', () => {
+  it('is based on lean body mass', () => {
+    assert.equal(katchMcArdle(80, 20), 370 + 21.6 * 64);
+  });
+});
+
+describe('calculateBmr', () => {
+  it('prefers Katch-McArdle when body fat is known', () => {
+    assert.deepEqual(calculateBmr({ ...male, bodyFatPercent: 20 }), { bmr: 1752.4, formula: 'katch_mcardle' });
+  });
+
+  it('falls back to Mifflin-St Jeor without a plausible body fat', () => {
+    assert.deepEqual(calculateBmr(male), { bmr: 1780, formula: 'mifflin_st_jeor' });
+    assert.equal(calculateBmr({ ...male, bodyFatPercent: 0 }).formula, 'mifflin_st_jeor');
+    assert.equal(calculateBmr({ ...male, bodyFatPercent: 75 }).formula, 'mifflin_st_jeor');
+  });
+});
+
+describe('calculateTdee', () => {
+  it('applies the standard activity multipliers', () => {
+    assert.equal(calculateTdee(1000, 'sedentary'), 1200);
+    assert.equal(calculateTdee(1000, 'lightly_active'), 1375);
+    assert.equal(calculateTdee(1000, 'moderately_active'), 1550);
+    assert.equal(calculateTdee(1000, 'very_active'), 1725);
+    assert.equal(calculateTdee(1000, 'extra_active'), 1900);
+    assert.equal(Object.keys(ACTIVITY_MULTIPLIERS).length, 5);
+  });
+});
+
+describe('macro presets', () => {
+  it('each split all calories', () => {
+    for (const [preset, split] of Object.entries(MACRO_PRESETS)) {
+      assert.ok(Math.abs(split.protein + split.fat + split.carbs - 1) < 1e-9, preset);
+    }
+  });
+
+  it('convert calories to grams at 4/9/4 kcal per gram', () => {
+    assert.deepEqual(splitMacros(2000, 'balanced'), { calories: 2000, protein: 125, fat: 67, carbs: 225 });
+    assert.deepEqual(splitMacros(2000, 'high_protein'), { calories: 2000, protein: 175, fat: 67, carbs: 175 });
+    assert.deepEqual(splitMacros(2000, 'low_carb'), { calories: 2000, protein: 150, fat: 100, carbs: 125 });
+    assert.deepEqual(splitMacros(2000, 'keto'), { calories: 2000, protein: 125, fat: 156, carbs: 25 });
+  });
+
+  it('are suggested from the dietary preference, then the goal', () => {
+    assert.equal(suggestMacroPreset('maintain_weight', 'keto'), 'keto');
+    assert.equal(suggestMacroPreset('weight_loss', 'low_carb'), 'low_carb');
+    assert.equal(suggestMacroPreset('muscle_gain'), 'high_protein');
+    assert.equal(suggestMacroPreset('weight_loss'), 'high_protein');
+    assert.equal(suggestMacroPreset('general_health', 'vegetarian'), 'balanced');
+  });
+});
+
+describe('calculateNutritionPlan', () => {
+  it('adjusts TDEE for the goal and rounds to 10 kcal', () => {
+    const plan = calculateNutritionPlan({
+      ...male,
+      activityLevel: 'moderately_active',
+      fitnessGoal: 'weight_loss',
+      macroPreset: 'high_protein',
+    });
+
+    // 1780 * 1.55 = 2759, minus 20% = 2207.2
+    assert.deepEqual(plan, {
+      bmr: 1780,
+      formula: 'mifflin_st_jeor',
+      tdee: 2759,
+      goal: { calories: 2210, protein: 193, fat: 74, carbs: 193 },
+    });
+  });
+
+  it('never goes below the minimum daily calories', () => {
+    const plan = calculateNutritionPlan({
+      age: 60,
+      sex: 'female',
+      weightKg: 45,
+      heightCm: 150,
+      activityLevel: 'sedentary',
+      fitnessGoal: 'weight_loss',
+      macroPreset: 'balanced',
+    });
+
+    assert.equal(plan.goal.calories, MIN_DAILY_CALORIES);
+  });
+});
+
+describe('bodyMetricsFromProfile', () => {
+  it('converts imperial onboarding profiles', () => {
+    const metrics = bodyMetricsFromProfile({ name: 'A', email: '', age: 30, height: 70, weight: 176, gender: 'male', unit: 'imperial' });
+
+    assert.equal(metrics?.heightCm, 177.8);
+    assert.ok(Math.abs((metrics?.weightKg ?? 0) - 79.83) < 0.01);
+  });
+
+  it('needs age, height and weight', () => {
+    assert.equal(bodyMetricsFromProfile({ name: 'A', email: '', age: 30, height: 180, gender: 'male' }), null);
+  });
+});
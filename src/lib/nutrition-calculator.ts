@@ -0,0 +1,167 @@
+import type { Goal, UserProfile } from '@/types';
+import { profileWeightUnit, toKg } from '@/lib/weight-trend';
+
+/**
+ * Deterministic calorie and macro targets. Onboarding, the goals page and the diet
+ * chart all prefill their numbers from here so they agree with each other and work
+ * offline; the diet chart flow is given the result instead of estimating its own.
+ */
+
+export type Sex = 'male' | 'female' | 'other';
+
+// Same values as the diet chart flow's activityLevel and fitnessGoal enums
+export type ActivityLevel = 'sedentary' | 'lightly_active' | 'moderately_active' | 'very_active' | 'extra_active';
+export type FitnessGoal = 'weight_loss' | 'maintain_weight' | 'muscle_gain' | 'general_health';
+
+export type MacroPreset = 'balanced' | 'high_protein' | 'low_carb' | 'keto';
+
+export type BmrFormula = 'mifflin_st_jeor' | 'katch_mcardle';
+
+export interface BodyMetrics {
+  age: number;
+  sex: Sex;
+  weightKg: number;
+  heightCm: number;
+  bodyFatPercent?: number; // Enables Katch-McArdle when known
+}
+
+export const ACTIVITY_MULTIPLIERS: Record<ActivityLevel, number> = {
+  sedentary: 1.2,
+  lightly_active: 1.375,
+  moderately_active: 1.55,
+  very_active: 1.725,
+  extra_active: 1.9,
+};
+
+export const ACTIVITY_LEVEL_LABELS: Record<ActivityLevel, string> = {
+  sedentary: 'Sedentary',
+  lightly_active: 'Lightly active',
+  moderately_active: 'Moderately active',
+  very_active: 'Very active',
+  extra_active: 'Extra active',
+};
+
+// Applied to TDEE. Percentages scale better than fixed offsets across body sizes.
+export const FITNESS_GOAL_ADJUSTMENTS: Record<FitnessGoal, number> = {
+  weight_loss: -0.2,
+  maintain_weight: 0,
+  muscle_gain: 0.1,
+  general_health: 0,
+};
+
+export const FITNESS_GOAL_LABELS: Record<FitnessGoal, string> = {
+  weight_loss: 'Lose weight',
+  maintain_weight: 'Maintain weight',
+  muscle_gain: 'Gain muscle',
+  general_health: 'General health',
+};
+
+// Share of calories from each macro. Each preset sums to 1.
+export const MACRO_PRESETS: Record<MacroPreset, { protein: number; fat: number; carbs: number }> = {
+  balanced: { protein: 0.25, fat: 0.3, carbs: 0.45 },
+  high_protein: { protein: 0.35, fat: 0.3, carbs: 0.35 },
+  low_carb: { protein: 0.3, fat: 0.45, carbs: 0.25 },
+  keto: { protein: 0.25, fat: 0.7, carbs: 0.05 },
+};
+
+export const MACRO_PRESET_LABELS: Record<MacroPreset, string> = {
+  balanced: 'Balanced',
+  high_protein: 'High protein',
+  low_carb: 'Low carb',
+  keto: 'Keto',
+};
+
+const KCAL_PER_GRAM = { protein: 4, fat: 9, carbs: 4 };
+
+// Below this, intake is hard to make nutritionally complete without supervision
+export const MIN_DAILY_CALORIES = 1200;
+
+export function mifflinStJeor({ weightKg, heightCm, age, sex }: BodyMetrics): number {
+  const base = 10 * weightKg + 6.25 * heightCm - 5 * age;
+  // No sex-specific constant applies to 'other', so use the midpoint of the two
+  const offset = sex === 'male' ? 5 : sex === 'female' ? -161 : -78;
+  return base + offset;
+}
+
+export function katchMcArdle(weightKg: number, bodyFatPercent: number): number {
+  const leanMassKg = weightKg * (1 - bodyFatPercent / 100);
+  return 370 + 21.6 * leanMassKg;
+}
+
+/** Katch-McArdle when body fat is known, since it accounts for lean mass; Mifflin-St Jeor otherwise. */
+export function calculateBmr(metrics: BodyMetrics): { bmr: number; formula: BmrFormula } {
+  const { bodyFatPercent } = metrics;
+  if (bodyFatPercent !== undefined && bodyFatPercent > 0 && bodyFatPercent < 70) {
+    return { bmr: katchMcArdle(metrics.weightKg, bodyFatPercent), formula: 'katch_mcardle' };
+  }
+  return { bmr: mifflinStJeor(metrics), formula: 'mifflin_st_jeor' };
+}
+
+export function calculateTdee(bmr: number, activityLevel: ActivityLevel): number {
+  return bmr * ACTIVITY_MULTIPLIERS[activityLevel];
+}
+
+export function splitMacros(calories: number, preset: MacroPreset): Goal {
+  const split = MACRO_PRESETS[preset];
+  return {
+    calories,
+    protein: Math.round((calories * split.protein) / KCAL_PER_GRAM.protein),
+    fat: Math.round((calories * split.fat) / KCAL_PER_GRAM.fat),
+    carbs: Math.round((calories * split.carbs) / KCAL_PER_GRAM.carbs),
+  };
+}
+
+/** Picks a macro split that fits the goal and, for diet chart users, their dietary preference. */
+export function suggestMacroPreset(fitnessGoal: FitnessGoal, dietaryPreference?: string): MacroPreset {
+  if (dietaryPreference === 'keto') return 'keto';
+  if (dietaryPreference === 'low_carb') return 'low_carb';
+  if (fitnessGoal === 'muscle_gain' || fitnessGoal === 'weight_loss') return 'high_protein';
+  return 'balanced';
+}
+
+export interface NutritionPlanInput extends BodyMetrics {
+  activityLevel: ActivityLevel;
+  fitnessGoal: FitnessGoal;
+  macroPreset: MacroPreset;
+}
+
+export interface NutritionPlan {
+  bmr: number;
+  formula: BmrFormula;
+  tdee: number;
+  goal: Goal;
+}
+
+export function calculateNutritionPlan(input: NutritionPlanInput): NutritionPlan {
+  const { bmr, formula } = calculateBmr(input);
+  const tdee = calculateTdee(bmr, input.activityLevel);
+  const adjusted = tdee * (1 + FITNESS_GOAL_ADJUSTMENTS[input.fitnessGoal]);
+  // Rounded to 10 kcal; finer precision than that is false accuracy
+  const calories = Math.max(MIN_DAILY_CALORIES, Math.round(adjusted / 10) * 10);
+  return {
+    bmr: Math.round(bmr),
+    formula,
+    tdee: Math.round(tdee),
+    goal: splitMacros(calories, input.macroPreset),
+  };
+}
+
+/**
+ * Reads body metrics from a stored profile, converting from the units it was saved in.
+ * Profile edit stores height in inches when heightUnit is 'ft'; onboarding stores a
+ * single 'imperial' unit for pounds and inches. Returns null when something is missing.
+ */
+export function bodyMetricsFromProfile(profile: UserProfile & { unit?: string }): BodyMetrics | null {
+  const { age, height, weight, gender } = profile;
+  if (!age || !height || !weight) return null;
+
+  const imperial = profile.unit === 'imperial';
+  const heightInInches = profile.heightUnit ? profile.heightUnit === 'ft' : imperial;
+
+  return {
+    age,
+    sex: gender ?? 'other',
+    weightKg: toKg(weight, profileWeightUnit(profile)),
+    heightCm: heightInInches ? height * 2.54 : height,
+  };
+}
@@ -0,0 +1,61 @@
+import { eachDayOfInterval, format, subDays } from 'date-fns';
+import type { NutritionChatData } from '@/ai/flows/nutrition-chat-flow';
+import type { FoodEntry, Goal, SavedDietChart } from '@/types';
+
+/**
+ * The snapshot of the user's data sent with each chat message. The assistant's tools
+ * can only read what is in here, so it covers a fixed window of recent days.
+ */
+
+export const CHAT_CONTEXT_DAYS = 30;
+
+const toGoal = ({ calories, protein, fat, carbs }: Goal): Goal => ({ calories, protein, fat, carbs });
+
+function chartSnapshot({ name, dietChart }: SavedDietChart): NonNullable<NutritionChatData['activeDietChart']> {
+  return {
+    name,
+    dailyCalories: dietChart.dailyCalories,
+    macroBreakdown: dietChart.macroBreakdown,
+    days: dietChart.mealPlan.map((plan, index) => ({
+      day: plan.day || (dietChart.mealPlan.length > 1 ? `Day ${index + 1}` : 'Daily plan'),
+      meals: plan.meals.map(meal => ({
+        type: meal.type,
+        name: meal.name,
+        calories: meal.calories,
+        protein: meal.nutrients.protein,
+        carbs: meal.nutrients.carbs,
+        fats: meal.nutrients.fats,
+      })),
+    })),
+  };
+}
+
+export function buildNutritionChatData(
+  today: Date,
+  defaultGoal: Goal,
+  getEntriesForDate: (date: Date) => FoodEntry[],
+  getGoalForDate: (date: Date) => Goal,
+  activeDietChart?: SavedDietChart | null
+): NutritionChatData {
+  const dates = eachDayOfInterval({ start: subDays(today, CHAT_CONTEXT_DAYS - 1), end: today });
+
+  return {
+    today: format(today, 'yyyy-MM-dd'),
+    defaultGoal: toGoal(defaultGoal),
+    days: dates.map(date => ({
+      date: format(date, 'yyyy-MM-dd'),
+      goal: toGoal(getGoalForDate(date)),
+      entries: getEntriesForDate(date).map(entry => ({
+        id: entry.id,
+        name: entry.name,
+        mealType: entry.mealType,
+        time: format(entry.timestamp, 'HH:mm'),
+        calories: entry.calories,
+        protein: entry.protein,
+        fat: entry.fat,
+        carbs: entry.carbs,
+      })),
+    })),
+    activeDietChart: activeDietChart ? chartSnapshot(activeDietChart) : undefined,
+  };
+}
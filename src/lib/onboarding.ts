@@ -1,5 +1,7 @@
 "use client";
 
+import { userProfileRecord } from '@/lib/storage';
+
 /**
  * Checks if the user needs to complete onboarding
  * @returns {boolean} true if user needs onboarding, false otherwise
@@ -9,8 +11,7 @@ export function needsOnboarding(): boolean {
   if (typeof window === 'undefined') return false;
   
   // Check if user profile exists in localStorage
-  const userProfile = localStorage.getItem('userProfile');
-  return !userProfile;
+  return !userProfileRecord.exists();
 }
 
 /**
@@ -21,8 +22,8 @@ export function skipOnboarding(): void {
   if (typeof window === 'undefined') return;
   
   // Only if the profile doesn't already exist
-  if (!localStorage.getItem('userProfile')) {
-    localStorage.setItem('userProfile', JSON.stringify({
+  if (!userProfileRecord.exists()) {
+    userProfileRecord.write({
       name: "Test User",
       age: 30,
       gender: "other",
@@ -30,7 +31,7 @@ export function skipOnboarding(): void {
       protein: 160,
       fat: 70,
       carbs: 280,
-    }));
+    });
   }
 }
 
@@ -40,5 +41,5 @@ export function skipOnboarding(): void {
  */
 export function resetOnboarding(): void {
   if (typeof window === 'undefined') return;
-  localStorage.removeItem('userProfile');
+  userProfileRecord.remove();
 } 
\ No newline at end of file
@@ -0,0 +1,99 @@
+import { eachDayOfInterval, format, subDays } from 'date-fns';
+import type { ReviewPeriodInput } from '@/ai/flows/review-period-flow';
+import type { DailyLogEntry, FoodEntry, Goal } from '@/types';
+
+/**
+ * Builds the input for the weekly and monthly AI review: every day of a rolling period
+ * with its totals and the goal in effect that day, the most logged foods, and the
+ * averages the review is judged on.
+ */
+
+export type ReviewPeriodKind = ReviewPeriodInput['period'];
+
+export const REVIEW_PERIOD_DAYS: Record<ReviewPeriodKind, number> = {
+  weekly: 7,
+  monthly: 30,
+};
+
+export const TOP_FOODS_LIMIT = 8;
+
+// Logged calories within this share of the day's goal count as on target
+const CALORIE_TARGET_TOLERANCE = 0.1;
+
+/** The period ending on (and including) `endDate`. */
+export function reviewPeriodDates(period: ReviewPeriodKind, endDate: Date): Date[] {
+  return eachDayOfInterval({ start: subDays(endDate, REVIEW_PERIOD_DAYS[period] - 1), end: endDate });
+}
+
+// "Dal Tadka" and "dal tadka " are the same food
+const foodKey = (name: string) => name.toLowerCase().replace(/\s+/g, ' ').trim();
+
+export function topLoggedFoods(entries: FoodEntry[], limit = TOP_FOODS_LIMIT): ReviewPeriodInput['topFoods'] {
+  const foods = new Map<string, ReviewPeriodInput['topFoods'][number]>();
+  for (const entry of entries) {
+    const key = foodKey(entry.name);
+    const food = foods.get(key) ?? { name: entry.name.trim(), timesLogged: 0, totalCalories: 0 };
+    food.timesLogged += 1;
+    food.totalCalories += entry.calories;
+    foods.set(key, food);
+  }
+  return [...foods.values()]
+    .map(food => ({ ...food, totalCalories: Math.round(food.totalCalories) }))
+    .sort((a, b) => b.timesLogged - a.timesLogged || b.totalCalories - a.totalCalories)
+    .slice(0, limit);
+}
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+export function buildReviewPeriodInput(
+  period: ReviewPeriodKind,
+  endDate: Date,
+  getLogDataForDate: (date: Date) => { summary: DailyLogEntry | null; entries: FoodEntry[] },
+  getGoalForDate: (date: Date) => Goal
+): ReviewPeriodInput {
+  const dates = reviewPeriodDates(period, endDate);
+  const allEntries: FoodEntry[] = [];
+
+  const days = dates.map(date => {
+    const { summary, entries } = getLogDataForDate(date);
+    allEntries.push(...entries);
+    const goal = getGoalForDate(date);
+    return {
+      date: format(date, 'yyyy-MM-dd'),
+      weekday: format(date, 'EEEE'),
+      entriesLogged: entries.length,
+      totals: {
+        calories: Math.round(summary?.calories ?? 0),
+        protein: round1(summary?.protein ?? 0),
+        fat: round1(summary?.fat ?? 0),
+        carbs: round1(summary?.carbs ?? 0),
+      },
+      goal: { calories: goal.calories, protein: goal.protein, fat: goal.fat, carbs: goal.carbs },
+    };
+  });
+
+  const logged = days.filter(day => day.entriesLogged > 0);
+  const average = (key: keyof Goal) =>
+    logged.length > 0 ? round1(logged.reduce((total, day) => total + day.totals[key], 0) / logged.length) : 0;
+
+  return {
+    period,
+    startDate: days[0].date,
+    endDate: days[days.length - 1].date,
+    days,
+    topFoods: topLoggedFoods(allEntries),
+    stats: {
+      daysInPeriod: days.length,
+      daysLogged: logged.length,
+      daysWithinCalorieTarget: logged.filter(
+        day => day.goal.calories > 0 && Math.abs(day.totals.calories - day.goal.calories) <= day.goal.calories * CALORIE_TARGET_TOLERANCE
+      ).length,
+      averages: {
+        calories: Math.round(average('calories')),
+        protein: average('protein'),
+        fat: average('fat'),
+        carbs: average('carbs'),
+      },
+    },
+  };
+}
@@ -0,0 +1,72 @@
+import type { DetectedFoodItem } from '@/ai/flows/analyze-food-photo';
+import type { FoodEntryItem } from '@/types';
+
+/**
+ * Items detected on a photographed plate, as the user edits them before logging.
+ * Portions rescale linearly from the AI's own estimate for that item.
+ */
+
+export interface PlateItem extends FoodEntryItem {
+  id: string;
+  grams: number;
+  estimate: DetectedFoodItem; // As returned by the flow
+}
+
+const roundTo = (value: number, decimals: number) => {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+};
+
+export function plateItemsFromAnalysis(items: DetectedFoodItem[]): PlateItem[] {
+  return items.map((item, index) => ({
+    id: `item-${index}`,
+    name: item.name,
+    grams: item.estimatedGrams,
+    calories: Math.round(item.calories),
+    protein: roundTo(item.protein, 1),
+    fat: roundTo(item.fat, 1),
+    carbs: roundTo(item.carbs, 1),
+    estimate: item,
+  }));
+}
+
+/** Whether the portion is known, so grams can be changed. */
+export function canRescale(item: PlateItem): boolean {
+  return item.estimate.estimatedGrams > 0;
+}
+
+export function rescalePlateItem(item: PlateItem, grams: number): PlateItem {
+  if (!canRescale(item)) return item;
+  const factor = Math.max(0, grams) / item.estimate.estimatedGrams;
+  return {
+    ...item,
+    grams: Math.max(0, grams),
+    calories: Math.round(item.estimate.calories * factor),
+    protein: roundTo(item.estimate.protein * factor, 1),
+    fat: roundTo(item.estimate.fat * factor, 1),
+    carbs: roundTo(item.estimate.carbs * factor, 1),
+  };
+}
+
+export function sumPlateItems(items: FoodEntryItem[]): Omit<FoodEntryItem, 'name'> {
+  const total = (pick: (item: FoodEntryItem) => number) => roundTo(items.reduce((sum, item) => sum + pick(item), 0), 1);
+  return {
+    grams: total(item => item.grams ?? 0),
+    calories: Math.round(total(item => item.calories)),
+    protein: total(item => item.protein),
+    fat: total(item => item.fat),
+    carbs: total(item => item.carbs),
+  };
+}
+
+/** Strips editing state so the items can be stored on a grouped FoodEntry. */
+export function toFoodEntryItems(items: PlateItem[]): FoodEntryItem[] {
+  return items.map(({ name, grams, calories, protein, fat, carbs }) => ({
+    name,
+    grams: grams > 0 ? grams : undefined,
+    calories,
+    protein,
+    fat,
+    carbs,
+  }));
+}
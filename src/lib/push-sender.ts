@@ -0,0 +1,98 @@
+import webpush from 'web-push';
+import { getPushSubscriptionStore, type PushSubscriptionStore, type StoredPushSubscription } from '@/lib/push-subscriptions';
+
+/**
+ * Sends web push payloads to stored subscriptions. Endpoints the push service reports
+ * as gone (404 or 410) are removed from the store; accepted pushes update lastSuccessAt.
+ */
+
+export interface PushPayload {
+  title: string;
+  body: string;
+  icon?: string;
+  badge?: string;
+  tag?: string;
+  data?: Record<string, unknown>;
+  actions?: { action: string; title: string; icon?: string }[];
+}
+
+export interface PushDeliveryResult {
+  endpoint: string;
+  deviceLabel: string;
+  success: boolean;
+  pruned?: boolean; // The endpoint no longer exists and was removed
+  statusCode?: number;
+  error?: string;
+}
+
+/** A complete notification, with the app icons and, unless the content has its own, the default actions. */
+export function buildPushPayload(content: Partial<Pick<PushPayload, 'title' | 'body' | 'icon' | 'tag' | 'data' | 'actions'>> = {}): PushPayload {
+  return {
+    title: content.title || 'Calorie Tracker Reminder',
+    body: content.body || 'Time to log your meals!',
+    icon: content.icon || '/favicon/android-chrome-192x192.png',
+    badge: '/favicon/favicon-32x32.png',
+    tag: content.tag || 'calorie-reminder',
+    data: content.data || { url: '/' },
+    actions: content.actions ?? [
+      {
+        action: 'log_meal',
+        title: 'Log Meal',
+        icon: '/favicon/favicon-32x32.png'
+      },
+      {
+        action: 'dismiss',
+        title: 'Dismiss',
+        icon: '/favicon/favicon-32x32.png'
+      }
+    ]
+  };
+}
+
+// Push services answer these for subscriptions that were revoked or expired
+const GONE_STATUS_CODES = new Set([404, 410]);
+
+let vapidConfigured = false;
+
+function configureVapid() {
+  if (vapidConfigured) return;
+  const publicKey = process.env.NEXT_PUBLIC_VAPID_PUBLIC_KEY;
+  const privateKey = process.env.VAPID_PRIVATE_KEY;
+  if (!publicKey || !privateKey) {
+    throw new Error('Web push is not configured: set NEXT_PUBLIC_VAPID_PUBLIC_KEY and VAPID_PRIVATE_KEY.');
+  }
+  webpush.setVapidDetails(process.env.VAPID_SUBJECT ?? 'mailto:your-email@example.com', publicKey, privateKey);
+  vapidConfigured = true;
+}
+
+export async function sendPushNotifications(
+  subscriptions: StoredPushSubscription[],
+  payload: PushPayload,
+  store: PushSubscriptionStore = getPushSubscriptionStore()
+): Promise<PushDeliveryResult[]> {
+  if (subscriptions.length === 0) return [];
+  configureVapid();
+  const body = JSON.stringify(payload);
+
+  const results = await Promise.all(
+    subscriptions.map(async ({ endpoint, keys, deviceLabel }): Promise<PushDeliveryResult> => {
+      try {
+        await webpush.sendNotification({ endpoint, keys }, body);
+        return { endpoint, deviceLabel, success: true };
+      } catch (error) {
+        const statusCode = (error as { statusCode?: number }).statusCode;
+        const message = error instanceof Error ? error.message : String(error);
+        if (statusCode !== undefined && GONE_STATUS_CODES.has(statusCode)) {
+          await store.remove(endpoint);
+          return { endpoint, deviceLabel, success: false, pruned: true, statusCode, error: message };
+        }
+        console.error(`Failed to send notification to ${deviceLabel}:`, error);
+        return { endpoint, deviceLabel, success: false, statusCode, error: message };
+      }
+    })
+  );
+
+  const delivered = results.filter(result => result.success).map(result => result.endpoint);
+  if (delivered.length > 0) await store.markSuccess(delivered);
+  return results;
+}
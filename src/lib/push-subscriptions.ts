@@ -0,0 +1,240 @@
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import { z } from 'zod';
+import { REMINDER_TYPES, isValidTimeZone } from '@/lib/reminder-schedule';
+import { foodEntrySchema, reminderSettingsSchema } from '@/lib/storage';
+
+/**
+ * Server-side repository of web push subscriptions. Each browser that enables
+ * notifications registers its endpoint here together with the local user id that owns
+ * it, a device label, and the reminder preferences and IANA timezone the server should
+ * send by.
+ *
+ * The store is chosen with PUSH_SUBSCRIPTION_STORE ('file' by default, which keeps all
+ * subscriptions in the JSON file at PUSH_SUBSCRIPTION_FILE, or 'memory').
+ */
+
+export const pushSubscriptionKeysSchema = z.object({
+  endpoint: z.string().url(),
+  keys: z.object({
+    p256dh: z.string().min(1),
+    auth: z.string().min(1),
+  }),
+});
+
+/** Body of POST /api/notifications/subscribe. */
+export const pushSubscriptionRegistrationSchema = z.object({
+  subscription: pushSubscriptionKeysSchema,
+  ownerId: z.string().min(1),
+  deviceLabel: z.string().max(100).default('Unknown device'),
+  reminders: reminderSettingsSchema,
+  timeZone: z.string().refine(isValidTimeZone, 'Unknown timezone').default('UTC'),
+});
+
+export type PushSubscriptionRegistration = z.infer<typeof pushSubscriptionRegistrationSchema>;
+
+export const scheduledReminderSchema = z.object({
+  id: z.string().min(1), // See reminderId in reminder-schedule
+  type: z.enum(REMINDER_TYPES),
+  fireAt: z.number().int(), // Unix timestamp
+  title: z.string().max(200),
+  body: z.string().max(500),
+  tag: z.string().max(100),
+  data: z.object({
+    url: z.string(),
+    type: z.string(),
+    quickLog: foodEntrySchema
+      .pick({ name: true, calories: true, protein: true, fat: true, carbs: true, mealType: true, grams: true, items: true })
+      .optional(),
+  }),
+  actions: z.array(z.object({ action: z.string().max(50), title: z.string().max(100) })).max(2).optional(),
+});
+
+export type ScheduledReminder = z.infer<typeof scheduledReminderSchema>;
+
+/**
+ * Body of PUT /api/notifications/schedule: the pending reminders a device's service
+ * worker holds. Without Notification Triggers the cron route delivers them by push; with
+ * them the device fires its own, and the cron route leaves it alone until `coversUntil`.
+ */
+export const deviceReminderScheduleSchema = z.object({
+  localTriggers: z.boolean(),
+  coversUntil: z.number().int(), // Unix timestamp the schedule was planned up to
+  reminders: z.array(scheduledReminderSchema).max(500),
+});
+
+export type DeviceReminderSchedule = z.infer<typeof deviceReminderScheduleSchema>;
+
+export const storedPushSubscriptionSchema = pushSubscriptionKeysSchema.extend({
+  ownerId: z.string(),
+  deviceLabel: z.string(),
+  reminders: reminderSettingsSchema,
+  timeZone: z.string().default('UTC'), // Subscriptions saved before timezones were sent
+  createdAt: z.string(), // ISO timestamp
+  updatedAt: z.string(),
+  lastSuccessAt: z.string().optional(), // Last push the push service accepted
+  schedule: deviceReminderScheduleSchema.optional(),
+});
+
+export type StoredPushSubscription = z.infer<typeof storedPushSubscriptionSchema>;
+
+export interface PushSubscriptionStore {
+  list(filter?: { ownerId?: string }): Promise<StoredPushSubscription[]>;
+  get(endpoint: string): Promise<StoredPushSubscription | undefined>;
+  /** Creates or replaces the subscription for its endpoint, keeping the original createdAt. */
+  upsert(registration: PushSubscriptionRegistration): Promise<StoredPushSubscription>;
+  /** Returns false if no subscription had that endpoint. */
+  remove(endpoint: string): Promise<boolean>;
+  /** Records a push accepted by the push service for each endpoint. */
+  markSuccess(endpoints: string[], at?: Date): Promise<void>;
+  /** Replaces the device's reminder schedule. Returns false if no subscription had that endpoint. */
+  setSchedule(endpoint: string, schedule: DeviceReminderSchedule): Promise<boolean>;
+}
+
+type SubscriptionMap = Map<string, StoredPushSubscription>;
+
+function applyUpsert(subscriptions: SubscriptionMap, registration: PushSubscriptionRegistration): StoredPushSubscription {
+  const now = new Date().toISOString();
+  const existing = subscriptions.get(registration.subscription.endpoint);
+  const stored: StoredPushSubscription = {
+    endpoint: registration.subscription.endpoint,
+    keys: registration.subscription.keys,
+    ownerId: registration.ownerId,
+    deviceLabel: registration.deviceLabel,
+    reminders: registration.reminders,
+    timeZone: registration.timeZone,
+    createdAt: existing?.createdAt ?? now,
+    updatedAt: now,
+    lastSuccessAt: existing?.lastSuccessAt,
+    schedule: existing?.schedule,
+  };
+  subscriptions.set(stored.endpoint, stored);
+  return stored;
+}
+
+function applySuccess(subscriptions: SubscriptionMap, endpoints: string[], at: Date) {
+  for (const endpoint of endpoints) {
+    const existing = subscriptions.get(endpoint);
+    if (existing) subscriptions.set(endpoint, { ...existing, lastSuccessAt: at.toISOString() });
+  }
+}
+
+function applySchedule(subscriptions: SubscriptionMap, endpoint: string, schedule: DeviceReminderSchedule): boolean {
+  const existing = subscriptions.get(endpoint);
+  if (!existing) return false;
+  subscriptions.set(endpoint, { ...existing, schedule, updatedAt: new Date().toISOString() });
+  return true;
+}
+
+const filterByOwner = (subscriptions: SubscriptionMap, filter?: { ownerId?: string }) =>
+  [...subscriptions.values()].filter(subscription => !filter?.ownerId || subscription.ownerId === filter.ownerId);
+
+export function createMemoryPushSubscriptionStore(): PushSubscriptionStore {
+  const subscriptions: SubscriptionMap = new Map();
+  return {
+    async list(filter) {
+      return filterByOwner(subscriptions, filter);
+    },
+    async get(endpoint) {
+      return subscriptions.get(endpoint);
+    },
+    async upsert(registration) {
+      return applyUpsert(subscriptions, registration);
+    },
+    async remove(endpoint) {
+      return subscriptions.delete(endpoint);
+    },
+    async markSuccess(endpoints, at = new Date()) {
+      applySuccess(subscriptions, endpoints, at);
+    },
+    async setSchedule(endpoint, schedule) {
+      return applySchedule(subscriptions, endpoint, schedule);
+    },
+  };
+}
+
+const subscriptionFileSchema = z.object({
+  subscriptions: z.array(storedPushSubscriptionSchema),
+});
+
+/**
+ * Keeps every subscription in one JSON file. Writes go to a temporary file that is then
+ * renamed over the original, and are queued so concurrent requests can't lose updates.
+ */
+export function createFilePushSubscriptionStore(filePath: string): PushSubscriptionStore {
+  let queue: Promise<unknown> = Promise.resolve();
+
+  const load = async (): Promise<SubscriptionMap> => {
+    let raw: string;
+    try {
+      raw = await fs.readFile(filePath, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return new Map();
+      throw error;
+    }
+    // A corrupt file is an error rather than an empty store, so subscriptions aren't silently dropped
+    const { subscriptions } = subscriptionFileSchema.parse(JSON.parse(raw));
+    return new Map(subscriptions.map(subscription => [subscription.endpoint, subscription]));
+  };
+
+  const save = async (subscriptions: SubscriptionMap) => {
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    const temporaryPath = `${filePath}.${process.pid}.tmp`;
+    await fs.writeFile(temporaryPath, JSON.stringify({ subscriptions: [...subscriptions.values()] }, null, 2));
+    await fs.rename(temporaryPath, filePath);
+  };
+
+  // Runs after every earlier read or write has settled, failed or not
+  const enqueue = <T>(task: () => Promise<T>): Promise<T> => {
+    const result = queue.then(task, task);
+    queue = result.catch(() => undefined);
+    return result;
+  };
+
+  const mutate = <T>(change: (subscriptions: SubscriptionMap) => T): Promise<T> =>
+    enqueue(async () => {
+      const subscriptions = await load();
+      const result = change(subscriptions);
+      await save(subscriptions);
+      return result;
+    });
+
+  return {
+    list(filter) {
+      return enqueue(async () => filterByOwner(await load(), filter));
+    },
+    get(endpoint) {
+      return enqueue(async () => (await load()).get(endpoint));
+    },
+    upsert(registration) {
+      return mutate(subscriptions => applyUpsert(subscriptions, registration));
+    },
+    remove(endpoint) {
+      return mutate(subscriptions => subscriptions.delete(endpoint));
+    },
+    markSuccess(endpoints, at = new Date()) {
+      return mutate(subscriptions => applySuccess(subscriptions, endpoints, at));
+    },
+    setSchedule(endpoint, schedule) {
+      return mutate(subscriptions => applySchedule(subscriptions, endpoint, schedule));
+    },
+  };
+}
+
+let activeStore: PushSubscriptionStore | null = null;
+
+export function getPushSubscriptionStore(): PushSubscriptionStore {
+  if (!activeStore) {
+    activeStore = process.env.PUSH_SUBSCRIPTION_STORE === 'memory'
+      ? createMemoryPushSubscriptionStore()
+      : createFilePushSubscriptionStore(
+          process.env.PUSH_SUBSCRIPTION_FILE ?? path.join(process.cwd(), '.data', 'push-subscriptions.json')
+        );
+  }
+  return activeStore;
+}
+
+/** Replaces the store, e.g. with a memory store in scripts and checks. */
+export function setPushSubscriptionStore(store: PushSubscriptionStore): void {
+  activeStore = store;
+}
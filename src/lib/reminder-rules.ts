@@ -0,0 +1,149 @@
+import { format, subDays } from 'date-fns';
+import type { FoodEntry, MealType, QuickLogMeal } from '@/types';
+import { DEFAULT_GOALS } from '@/hooks/use-goals';
+import { EMPTY_GOAL_SCHEDULE, resolveGoalForDate } from '@/lib/goal-schedule';
+import { MEAL_TYPES, MEAL_TYPE_LABELS, suggestMealType } from '@/lib/meal-slots';
+import { REMINDER_ACTIONS, REMINDER_NOTIFICATIONS, logUsualMealAction, type ReminderContent } from '@/lib/reminder-schedule';
+import { foodEntriesRecord, goalScheduleRecord, goalsRecord } from '@/lib/storage';
+
+/**
+ * Decides what a meal reminder should say, or whether to send it at all, from what the
+ * user has already logged that day. The reminder is skipped once the meal it falls in
+ * has an entry, and in the evening it reports how far the day is under its calorie target.
+ * When the user has a usual meal for the slot, the reminder offers to log it from the
+ * notification.
+ *
+ * android-app/lib/reminder-rules.ts applies the same rules to the app's scheduled
+ * reminders, using the state this module posts to it from the WebView.
+ */
+
+export interface ReminderLogState {
+  date: string; // yyyy-MM-dd
+  entries: Pick<FoodEntry, 'timestamp' | 'mealType' | 'calories'>[];
+  calorieTarget: number;
+  usualMeals: Partial<Record<MealType, QuickLogMeal>>; // See findUsualMeal
+}
+
+// Matches the slots suggestMealType assigns, so an entry logged since then counts toward the meal
+const MEAL_WINDOW_START_HOUR: Record<MealType, number> = {
+  breakfast: 4,
+  lunch: 11,
+  snack: 16,
+  dinner: 19,
+};
+
+// From this hour the reminder reports the calorie gap instead of a plain nudge
+export const EVENING_REMINDER_HOUR = 17;
+// Smaller gaps are within a normal day's variation and not worth mentioning
+export const MIN_CALORIE_GAP = 200;
+
+// A meal counts as usual once it was logged in the same slot on this many of the recent days
+export const USUAL_MEAL_LOOKBACK_DAYS = 14;
+export const USUAL_MEAL_MIN_DAYS = 3;
+
+export const DEFAULT_MEAL_REMINDER = REMINDER_NOTIFICATIONS.meal;
+
+/**
+ * The meal reminder to show at `at`, or null when the meal it falls in is already
+ * logged. Without state for that day the default reminder is returned.
+ */
+export function planMealReminder(at: Date, state: ReminderLogState | null): ReminderContent | null {
+  const meal = suggestMealType(at);
+  // Usual meals don't depend on the day, so every reminder in the schedule can offer one
+  const usualMeal = state?.usualMeals[meal];
+  const mealReminder = (title = DEFAULT_MEAL_REMINDER.title, body = DEFAULT_MEAL_REMINDER.body): ReminderContent =>
+    usualMeal
+      ? {
+          ...DEFAULT_MEAL_REMINDER,
+          title,
+          body,
+          data: { ...DEFAULT_MEAL_REMINDER.data, quickLog: usualMeal },
+          actions: [logUsualMealAction(meal), REMINDER_ACTIONS.snooze],
+        }
+      : { ...DEFAULT_MEAL_REMINDER, title, body };
+
+  if (!state || state.date !== format(at, 'yyyy-MM-dd')) return mealReminder();
+
+  const windowStart = new Date(at);
+  // Dinner runs past midnight, so after midnight its window is the start of the day
+  windowStart.setHours(at.getHours() < MEAL_WINDOW_START_HOUR.breakfast ? 0 : MEAL_WINDOW_START_HOUR[meal], 0, 0, 0);
+  const mealLogged = state.entries.some(entry =>
+    entry.mealType === meal || (entry.timestamp >= windowStart.getTime() && entry.timestamp <= at.getTime())
+  );
+  if (mealLogged) return null;
+
+  const mealLabel = MEAL_TYPE_LABELS[meal].toLowerCase();
+  if (state.entries.length === 0) {
+    return mealReminder(
+      'Nothing logged yet today 📝',
+      `Add your ${mealLabel} and anything else you've eaten so today's totals stay accurate.`
+    );
+  }
+
+  const eaten = Math.round(state.entries.reduce((sum, entry) => sum + entry.calories, 0));
+  const gap = Math.round(state.calorieTarget) - eaten;
+  if (at.getHours() >= EVENING_REMINDER_HOUR && gap >= MIN_CALORIE_GAP) {
+    return mealReminder(
+      `You're ${gap} kcal under target`,
+      `You've logged ${eaten} of ${Math.round(state.calorieTarget)} kcal today. Tap to log your ${mealLabel}.`
+    );
+  }
+
+  return mealReminder(`Time to log your ${mealLabel}! 🍽️`);
+}
+
+/**
+ * The entry logged in `mealType` on the most of the USUAL_MEAL_LOOKBACK_DAYS before
+ * `date`, as it was last logged, or null when no entry reaches USUAL_MEAL_MIN_DAYS.
+ * Entries are matched by name, and ties go to the one logged most recently.
+ */
+export function findUsualMeal(mealType: MealType, date: Date = new Date()): QuickLogMeal | null {
+  const counts = new Map<string, { days: number; latest: FoodEntry }>();
+  for (let daysAgo = 1; daysAgo <= USUAL_MEAL_LOOKBACK_DAYS; daysAgo++) {
+    const countedToday = new Set<string>();
+    for (const entry of foodEntriesRecord(subDays(date, daysAgo)).read() ?? []) {
+      const name = entry.name.trim().toLowerCase();
+      if (entry.mealType !== mealType || countedToday.has(name)) continue;
+      countedToday.add(name);
+      const count = counts.get(name);
+      if (count) count.days++;
+      else counts.set(name, { days: 1, latest: entry });
+    }
+  }
+
+  let usual: { days: number; latest: FoodEntry } | null = null;
+  for (const count of counts.values()) {
+    if (count.days >= USUAL_MEAL_MIN_DAYS && count.days > (usual?.days ?? 0)) usual = count;
+  }
+  if (!usual) return null;
+  const { name, calories, protein, fat, carbs, grams, items } = usual.latest;
+  return { name, calories, protein, fat, carbs, mealType, grams, items };
+}
+
+/** Today's entries and calorie target from local storage, with the usual meal for each slot. */
+export function readReminderLogState(date: Date = new Date()): ReminderLogState {
+  const goal = resolveGoalForDate(goalsRecord.read() ?? DEFAULT_GOALS, goalScheduleRecord.read() ?? EMPTY_GOAL_SCHEDULE, date).goal;
+  return {
+    date: format(date, 'yyyy-MM-dd'),
+    entries: (foodEntriesRecord(date).read() ?? []).map(({ timestamp, mealType, calories }) => ({ timestamp, mealType, calories })),
+    calorieTarget: goal.calories,
+    usualMeals: Object.fromEntries(MEAL_TYPES.flatMap(mealType => {
+      const usualMeal = findUsualMeal(mealType, date);
+      return usualMeal ? [[mealType, usualMeal]] : [];
+    })),
+  };
+}
+
+interface NativeAppBridge {
+  postMessage(message: string): void;
+}
+
+/**
+ * Inside the Android app's WebView, sends today's state to the native side, which
+ * re-plans its scheduled meal reminders. Does nothing in a regular browser.
+ */
+export function shareReminderLogStateWithApp(date: Date = new Date()): void {
+  const bridge = (window as { ReactNativeWebView?: NativeAppBridge }).ReactNativeWebView;
+  if (!bridge) return;
+  bridge.postMessage(JSON.stringify({ type: 'reminder_log_state', state: readReminderLogState(date) }));
+}
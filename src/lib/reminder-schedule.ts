@@ -0,0 +1,238 @@
+import type { ReminderSettings } from '@/hooks/use-reminder-settings';
+import type { MealType, QuickLogMeal } from '@/types';
+import { MEAL_TYPE_LABELS } from '@/lib/meal-slots';
+
+/**
+ * Works out which reminders fall due for a subscriber between two instants, using
+ * their reminder settings and IANA timezone rather than the server's clock.
+ *
+ * Each reminder occurrence has a slot key (its local date and time, e.g.
+ * "2025-05-26T08:00"), which the cron route records once sent so the same slot is
+ * never delivered twice. The page uses the same slots to fill the service worker's
+ * schedule, so both delivery paths agree on reminder ids.
+ */
+
+export const REMINDER_TYPES = ['meal', 'hydration', 'weigh-in'] as const;
+
+export type ReminderType = typeof REMINDER_TYPES[number];
+
+export interface ReminderSlot {
+  type: ReminderType;
+  slotKey: string; // Local wall-clock time of the occurrence, yyyy-MM-ddTHH:mm
+  scheduledAt: Date;
+}
+
+export interface ReminderAction {
+  action: string;
+  title: string;
+}
+
+export interface ReminderContent {
+  title: string;
+  body: string;
+  tag: string;
+  data: { url: string; type: string; quickLog?: QuickLogMeal }; // quickLog backs the "Log usual …" action
+  actions?: ReminderAction[]; // Push payloads default to Log Meal and Dismiss
+}
+
+export const QUICK_LOG_WATER_ML = 250;
+export const SNOOZE_MINUTES = 30;
+
+// Handled by the service worker's notificationclick listener and the Android app's notification
+// categories. Browsers show at most two actions, so no reminder carries more.
+export const REMINDER_ACTIONS = {
+  logMeal: { action: 'log_meal', title: 'Log Meal' },
+  logWater: { action: 'log_water', title: `Log water ${QUICK_LOG_WATER_ML}ml` },
+  snooze: { action: 'snooze', title: `Snooze ${SNOOZE_MINUTES} min` },
+  dismiss: { action: 'dismiss', title: 'Dismiss' },
+} satisfies Record<string, ReminderAction>;
+
+/** Logs the meal in the reminder's data.quickLog without opening the app. */
+export const logUsualMealAction = (mealType: MealType): ReminderAction => ({
+  action: 'log_usual_meal',
+  title: `Log usual ${MEAL_TYPE_LABELS[mealType].toLowerCase()}`,
+});
+
+// Shared by the service worker schedule, the cron route and GET /api/notifications/send
+export const REMINDER_NOTIFICATIONS: Record<ReminderType, ReminderContent> = {
+  meal: {
+    title: 'Time to Log Your Meal! 🍽️',
+    body: 'Don\'t forget to track your nutrition for today. Tap to log your meal now!',
+    tag: 'daily-meal-reminder',
+    data: { url: '/log-food/manual', type: 'meal-reminder' },
+    actions: [REMINDER_ACTIONS.logMeal, REMINDER_ACTIONS.snooze],
+  },
+  hydration: {
+    title: 'Stay Hydrated! 💧',
+    body: 'Time to drink some water and stay healthy!',
+    tag: 'hydration-reminder',
+    data: { url: '/', type: 'hydration-reminder' },
+    actions: [REMINDER_ACTIONS.logWater, REMINDER_ACTIONS.snooze],
+  },
+  'weigh-in': {
+    title: 'Weekly Weigh-In Reminder ⚖️',
+    body: 'Time for your weekly progress check! Track your weight to monitor your journey.',
+    tag: 'weekly-weigh-in',
+    data: { url: '/progress', type: 'weigh-in-reminder' },
+    actions: [REMINDER_ACTIONS.snooze, REMINDER_ACTIONS.dismiss],
+  },
+};
+
+export const GENERAL_REMINDER: ReminderContent = {
+  title: 'Calorie Tracker Reminder',
+  body: 'Time to check your nutrition goals!',
+  tag: 'general-reminder',
+  data: { url: '/', type: 'general-reminder' },
+};
+
+/** Identifies one occurrence of a reminder on every delivery path, e.g. "meal-2025-05-26T19:00". */
+export const reminderId = (slot: Pick<ReminderSlot, 'type' | 'slotKey'>) => `${slot.type}-${slot.slotKey}`;
+
+// Hydration reminders only go out during the day, on the hour
+export const HYDRATION_START_HOUR = 8;
+export const HYDRATION_END_HOUR = 20;
+
+const HYDRATION_INTERVAL_HOURS: Record<string, number> = {
+  every_hour: 1,
+  every_2_hours: 2,
+  every_3_hours: 3,
+};
+
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+interface ZonedParts {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+}
+
+function zonedParts(instant: Date, timeZone: string): ZonedParts {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+  }).formatToParts(instant);
+  const value = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find(part => part.type === type)?.value);
+  return { year: value('year'), month: value('month'), day: value('day'), hour: value('hour'), minute: value('minute') };
+}
+
+// How far the zone's wall clock is ahead of UTC at an instant, in ms
+function zoneOffsetMs(instant: Date, timeZone: string): number {
+  const { year, month, day, hour, minute } = zonedParts(instant, timeZone);
+  const wallClockAsUtc = Date.UTC(year, month - 1, day, hour, minute);
+  return wallClockAsUtc - Math.floor(instant.getTime() / 60000) * 60000;
+}
+
+/**
+ * The instant a local wall-clock time occurs in `timeZone`. A time skipped by a DST
+ * change resolves to an hour earlier; a repeated time resolves to its first occurrence.
+ */
+export function zonedTimeToUtc(year: number, month: number, day: number, hour: number, minute: number, timeZone: string): Date {
+  const wallClockAsUtc = Date.UTC(year, month - 1, day, hour, minute);
+  const guessOffset = zoneOffsetMs(new Date(wallClockAsUtc), timeZone);
+  // Near a DST change the offset at the answer can differ from the offset at the guess
+  const offset = zoneOffsetMs(new Date(wallClockAsUtc - guessOffset), timeZone);
+  return new Date(wallClockAsUtc - offset);
+}
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+function parseTime(time: string): { hour: number; minute: number } | null {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(time.trim());
+  if (!match) return null;
+  const hour = Number(match[1]);
+  const minute = Number(match[2]);
+  return hour < 24 && minute < 60 ? { hour, minute } : null;
+}
+
+interface LocalDate {
+  year: number;
+  month: number;
+  day: number;
+  weekday: string;
+}
+
+// Every local calendar date the window touches, so slots late on one day and early on the next are both seen
+function localDatesBetween(from: Date, to: Date, timeZone: string): LocalDate[] {
+  const dates: LocalDate[] = [];
+  const seen = new Set<string>();
+  for (let time = from.getTime(); ; time = Math.min(time + 6 * 60 * 60 * 1000, to.getTime())) {
+    const { year, month, day } = zonedParts(new Date(time), timeZone);
+    const key = `${year}-${month}-${day}`;
+    if (!seen.has(key)) {
+      seen.add(key);
+      dates.push({ year, month, day, weekday: WEEKDAYS[new Date(Date.UTC(year, month - 1, day)).getUTCDay()] });
+    }
+    if (time >= to.getTime()) break;
+  }
+  return dates;
+}
+
+function slotsOnDate(settings: ReminderSettings, date: LocalDate, timeZone: string): ReminderSlot[] {
+  const slotAt = (type: ReminderType, hour: number, minute: number): ReminderSlot => ({
+    type,
+    slotKey: `${date.year}-${pad(date.month)}-${pad(date.day)}T${pad(hour)}:${pad(minute)}`,
+    scheduledAt: zonedTimeToUtc(date.year, date.month, date.day, hour, minute, timeZone),
+  });
+  const slots: ReminderSlot[] = [];
+
+  const mealTime = settings.logMeals ? parseTime(settings.logMealsTime) : null;
+  if (mealTime) slots.push(slotAt('meal', mealTime.hour, mealTime.minute));
+
+  if (settings.drinkWater) {
+    const interval = HYDRATION_INTERVAL_HOURS[settings.drinkWaterFrequency] ?? 2;
+    for (let hour = HYDRATION_START_HOUR; hour <= HYDRATION_END_HOUR; hour += interval) {
+      slots.push(slotAt('hydration', hour, 0));
+    }
+  }
+
+  const weighInTime = settings.weighIn ? parseTime(settings.weighInTime) : null;
+  if (weighInTime && settings.weighInDay.toLowerCase() === date.weekday) {
+    slots.push(slotAt('weigh-in', weighInTime.hour, weighInTime.minute));
+  }
+
+  return slots;
+}
+
+/** Every reminder scheduled after `from` and up to `to`, in time order. */
+export function reminderSlotsBetween(settings: ReminderSettings, timeZone: string, from: Date, to: Date): ReminderSlot[] {
+  if (to <= from) return [];
+  return localDatesBetween(from, to, timeZone)
+    .flatMap(date => slotsOnDate(settings, date, timeZone))
+    .filter(slot => slot.scheduledAt > from && slot.scheduledAt <= to)
+    .sort((a, b) => a.scheduledAt.getTime() - b.scheduledAt.getTime());
+}
+
+/** Keeps only the latest of several occurrences of the same reminder type. */
+export function latestPerType<T extends { type: ReminderType }>(slots: T[], timeOf: (slot: T) => number): T[] {
+  const latest = new Map<ReminderType, T>();
+  for (const slot of slots) {
+    const current = latest.get(slot.type);
+    if (!current || timeOf(slot) > timeOf(current)) latest.set(slot.type, slot);
+  }
+  return [...latest.values()];
+}
+
+/**
+ * Reminders scheduled after `from` and up to `now`. When a long gap between runs spans
+ * several occurrences of the same reminder, only the latest is returned, so a
+ * once-a-day cron doesn't deliver a day's worth of hydration reminders at once.
+ */
+export function dueReminderSlots(settings: ReminderSettings, timeZone: string, from: Date, now: Date): ReminderSlot[] {
+  return latestPerType(reminderSlotsBetween(settings, timeZone, from, now), slot => slot.scheduledAt.getTime());
+}
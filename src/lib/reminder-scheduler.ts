@@ -0,0 +1,105 @@
+import { addDays } from 'date-fns';
+import { DEFAULT_REMINDER_SETTINGS, type ReminderSettings } from '@/hooks/use-reminder-settings';
+import type { ScheduledReminder } from '@/lib/push-subscriptions';
+import { planMealReminder, readReminderLogState } from '@/lib/reminder-rules';
+import { REMINDER_NOTIFICATIONS, reminderId, reminderSlotsBetween } from '@/lib/reminder-schedule';
+import { reminderSettingsRecord } from '@/lib/storage';
+
+/**
+ * Page-side API for the reminder schedule the service worker (public/sw.js) keeps in
+ * IndexedDB. The page plans the next SCHEDULE_DAYS of reminders from the reminder
+ * settings and today's log and hands them to the worker, which delivers them whether
+ * or not a tab is open. Reminders the user cancels or moves keep that change when the
+ * schedule is planned again.
+ */
+
+export const SCHEDULE_DAYS = 7;
+
+// How long to wait for the worker's reply, e.g. when an older worker without the schedule is still active
+const WORKER_REPLY_TIMEOUT_MS = 10_000;
+
+export interface PendingReminder extends ScheduledReminder {
+  rescheduled: boolean; // Moved by the user, so re-planning keeps its new time
+}
+
+type WorkerMessage =
+  | { type: 'reminders:replace'; reminders: ScheduledReminder[]; coversUntil: number }
+  | { type: 'reminders:list' }
+  | { type: 'reminders:cancel'; id: string }
+  | { type: 'reminders:reschedule'; id: string; fireAt: number }
+  | { type: 'actions:list' } // See notification-actions
+  | { type: 'actions:clear'; ids: string[] };
+
+export async function activeServiceWorker(): Promise<ServiceWorker | null> {
+  if (typeof navigator === 'undefined' || !('serviceWorker' in navigator)) return null;
+  const registration = await navigator.serviceWorker.getRegistration();
+  return registration?.active ?? null;
+}
+
+/** Sends a message to the active worker and resolves with its reply. Every handler replies with a list. */
+export async function postToServiceWorker<T extends unknown[] = PendingReminder[]>(message: WorkerMessage): Promise<T> {
+  const worker = await activeServiceWorker();
+  if (!worker) {
+    throw new Error('Reminders need the service worker, which is not active in this browser.');
+  }
+
+  return new Promise((resolve, reject) => {
+    const channel = new MessageChannel();
+    const timeout = setTimeout(() => reject(new Error('The service worker did not respond.')), WORKER_REPLY_TIMEOUT_MS);
+    channel.port1.onmessage = (event: MessageEvent<{ result?: T; error?: string }>) => {
+      clearTimeout(timeout);
+      if (event.data.error) {
+        reject(new Error(event.data.error));
+      } else {
+        resolve(event.data.result ?? ([] as unknown[] as T));
+      }
+    };
+    worker.postMessage(message, [channel.port2]);
+  });
+}
+
+/** The reminders due in the next SCHEDULE_DAYS, with meal reminders planned from today's log. */
+export function planReminderSchedule(settings: ReminderSettings, now: Date = new Date()): ScheduledReminder[] {
+  const timeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+  const logState = readReminderLogState(now);
+  return reminderSlotsBetween(settings, timeZone, now, addDays(now, SCHEDULE_DAYS)).flatMap(slot => {
+    const content = slot.type === 'meal' ? planMealReminder(slot.scheduledAt, logState) : REMINDER_NOTIFICATIONS[slot.type];
+    return content ? [{ id: reminderId(slot), type: slot.type, fireAt: slot.scheduledAt.getTime(), ...content }] : [];
+  });
+}
+
+/** Replaces the worker's schedule with a fresh plan and returns the pending reminders. */
+export function scheduleReminders(settings: ReminderSettings, now: Date = new Date()): Promise<PendingReminder[]> {
+  return postToServiceWorker({
+    type: 'reminders:replace',
+    reminders: planReminderSchedule(settings, now),
+    coversUntil: addDays(now, SCHEDULE_DAYS).getTime(),
+  });
+}
+
+/** Pending reminders in the order they will fire. */
+export function listScheduledReminders(): Promise<PendingReminder[]> {
+  return postToServiceWorker({ type: 'reminders:list' });
+}
+
+export function cancelScheduledReminder(id: string): Promise<PendingReminder[]> {
+  return postToServiceWorker({ type: 'reminders:cancel', id });
+}
+
+export function rescheduleReminder(id: string, fireAt: Date): Promise<PendingReminder[]> {
+  return postToServiceWorker({ type: 'reminders:reschedule', id, fireAt: fireAt.getTime() });
+}
+
+/**
+ * Re-plans the schedule from the saved settings, e.g. after today's log changed.
+ * Does nothing until notifications are allowed and the worker is running.
+ */
+export async function syncReminderSchedule(): Promise<void> {
+  if (typeof Notification === 'undefined' || Notification.permission !== 'granted') return;
+  if (!(await activeServiceWorker())) return;
+  try {
+    await scheduleReminders(reminderSettingsRecord.read() ?? DEFAULT_REMINDER_SETTINGS);
+  } catch (error) {
+    console.error('Failed to update the reminder schedule:', error);
+  }
+}
@@ -0,0 +1,127 @@
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import { z } from 'zod';
+
+/**
+ * Record of reminder slots the cron route has already sent, and when it last ran.
+ * Claiming a slot before sending means overlapping or repeated cron calls deliver each
+ * reminder at most once.
+ *
+ * Chosen like the push subscription store: REMINDER_SENT_LOG_STORE ('file' by default,
+ * at REMINDER_SENT_LOG_FILE, or 'memory').
+ */
+
+// Older entries can't be claimed again, since the cron window never reaches back this far
+export const SENT_LOG_RETENTION_MS = 8 * 24 * 60 * 60 * 1000;
+
+export interface ReminderSentLog {
+  lastRunAt(): Promise<Date | undefined>;
+  /** Marks the keys as sent and returns the ones that weren't already, in the given order. */
+  claim(keys: string[], at?: Date): Promise<string[]>;
+  /** Saves the run time and drops entries older than SENT_LOG_RETENTION_MS. */
+  completeRun(at: Date): Promise<void>;
+}
+
+const sentLogSchema = z.object({
+  lastRunAt: z.string().optional(),
+  sent: z.record(z.string()), // Slot key -> ISO time it was claimed
+});
+
+type SentLogData = z.infer<typeof sentLogSchema>;
+
+function applyClaim(data: SentLogData, keys: string[], at: Date): string[] {
+  const claimed = [...new Set(keys)].filter(key => !data.sent[key]);
+  for (const key of claimed) data.sent[key] = at.toISOString();
+  return claimed;
+}
+
+function applyCompleteRun(data: SentLogData, at: Date) {
+  data.lastRunAt = at.toISOString();
+  const cutoff = at.getTime() - SENT_LOG_RETENTION_MS;
+  for (const [key, sentAt] of Object.entries(data.sent)) {
+    if (Date.parse(sentAt) < cutoff) delete data.sent[key];
+  }
+}
+
+export function createMemoryReminderSentLog(): ReminderSentLog {
+  const data: SentLogData = { sent: {} };
+  return {
+    async lastRunAt() {
+      return data.lastRunAt ? new Date(data.lastRunAt) : undefined;
+    },
+    async claim(keys, at = new Date()) {
+      return applyClaim(data, keys, at);
+    },
+    async completeRun(at) {
+      applyCompleteRun(data, at);
+    },
+  };
+}
+
+export function createFileReminderSentLog(filePath: string): ReminderSentLog {
+  let queue: Promise<unknown> = Promise.resolve();
+
+  const load = async (): Promise<SentLogData> => {
+    try {
+      return sentLogSchema.parse(JSON.parse(await fs.readFile(filePath, 'utf8')));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return { sent: {} };
+      throw error;
+    }
+  };
+
+  const save = async (data: SentLogData) => {
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    const temporaryPath = `${filePath}.${process.pid}.tmp`;
+    await fs.writeFile(temporaryPath, JSON.stringify(data, null, 2));
+    await fs.rename(temporaryPath, filePath);
+  };
+
+  // Serialized like the subscription store, so two runs can't both claim a slot
+  const enqueue = <T>(task: () => Promise<T>): Promise<T> => {
+    const result = queue.then(task, task);
+    queue = result.catch(() => undefined);
+    return result;
+  };
+
+  const mutate = <T>(change: (data: SentLogData) => T): Promise<T> =>
+    enqueue(async () => {
+      const data = await load();
+      const result = change(data);
+      await save(data);
+      return result;
+    });
+
+  return {
+    lastRunAt() {
+      return enqueue(async () => {
+        const { lastRunAt } = await load();
+        return lastRunAt ? new Date(lastRunAt) : undefined;
+      });
+    },
+    claim(keys, at = new Date()) {
+      return mutate(data => applyClaim(data, keys, at));
+    },
+    completeRun(at) {
+      return mutate(data => applyCompleteRun(data, at));
+    },
+  };
+}
+
+let activeLog: ReminderSentLog | null = null;
+
+export function getReminderSentLog(): ReminderSentLog {
+  if (!activeLog) {
+    activeLog = process.env.REMINDER_SENT_LOG_STORE === 'memory'
+      ? createMemoryReminderSentLog()
+      : createFileReminderSentLog(
+          process.env.REMINDER_SENT_LOG_FILE ?? path.join(process.cwd(), '.data', 'reminder-sent-log.json')
+        );
+  }
+  return activeLog;
+}
+
+/** Replaces the log, e.g. with a memory log in scripts and checks. */
+export function setReminderSentLog(log: ReminderSentLog): void {
+  activeLog = log;
+}
@@ -0,0 +1,391 @@
+/**
+ * Typed localStorage layer for all persisted user data.
+ *
+ * - Every record is validated with zod on read and write.
+ * - Values that fail to parse or validate are moved to a `quarantine_<key>` entry
+ *   instead of being overwritten with defaults, so no history is silently lost.
+ * - A schema version is stored alongside the data and ordered migrations bring
+ *   older data up to date when the app starts (see runStorageMigrations).
+ */
+
+import { z } from 'zod';
+import { format } from 'date-fns';
+import type { GenerateIndianDietChartInput, GenerateIndianDietChartOutput } from '@/ai/flows/generateIndianDietChartFlow';
+import type { ReviewPeriodInput, ReviewPeriodOutput } from '@/ai/flows/review-period-flow';
+import { withMealType } from '@/lib/meal-slots';
+
+// --- Keys ---
+
+export const STORAGE_KEYS = {
+  goals: 'userGoals',
+  userProfile: 'userProfile',
+  reminderSettings: 'reminderSettings',
+  weightLog: 'weightLog',
+  adaptiveGoal: 'adaptiveGoal',
+  goalSchedule: 'goalSchedule',
+  periodReviews: 'periodReviews',
+  userId: 'userId',
+  schemaVersion: 'storageSchemaVersion',
+} as const;
+
+export const DAILY_LOG_PREFIX = 'dailyLog_';
+export const FOOD_ENTRIES_PREFIX = 'foodEntries_';
+export const CHAT_HISTORY_PREFIX = 'chatHistory_';
+export const WATER_LOG_PREFIX = 'waterLog_';
+export const QUARANTINE_PREFIX = 'quarantine_';
+
+const toDateKey = (date: Date | string) => (typeof date === 'string' ? date : format(date, 'yyyy-MM-dd'));
+
+export const dailyLogKey = (date: Date | string) => `${DAILY_LOG_PREFIX}${toDateKey(date)}`;
+export const foodEntriesKey = (date: Date | string) => `${FOOD_ENTRIES_PREFIX}${toDateKey(date)}`;
+export const waterLogKey = (date: Date | string) => `${WATER_LOG_PREFIX}${toDateKey(date)}`;
+
+// --- Schemas ---
+
+const nonNegative = z.number().finite().nonnegative();
+
+export const goalSchema = z.object({
+  calories: nonNegative,
+  protein: nonNegative,
+  fat: nonNegative,
+  carbs: nonNegative,
+});
+
+export const goalScheduleSchema = z.object({
+  weekdays: z.array(z.object({
+    weekday: z.number().int().min(0).max(6),
+    label: z.string(),
+    goal: goalSchema,
+  })),
+  dateRanges: z.array(z.object({
+    id: z.string(),
+    label: z.string(),
+    startDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+    endDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+    goal: goalSchema,
+  })),
+});
+
+export const foodEntrySchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  calories: nonNegative,
+  protein: nonNegative,
+  fat: nonNegative,
+  carbs: nonNegative,
+  timestamp: z.number(),
+  mealType: z.enum(['breakfast', 'lunch', 'snack', 'dinner']),
+  grams: nonNegative.optional(),
+  items: z.array(z.object({
+    name: z.string(),
+    grams: nonNegative.optional(),
+    calories: nonNegative,
+    protein: nonNegative,
+    fat: nonNegative,
+    carbs: nonNegative,
+  })).optional(),
+  planMeal: z.object({
+    chartId: z.string(),
+    dayIndex: z.number().int().nonnegative(),
+    mealIndex: z.number().int().nonnegative(),
+    multiplier: z.number().positive(),
+  }).optional(),
+});
+
+export const foodEntriesSchema = z.array(foodEntrySchema);
+
+export const waterLogSchema = z.array(z.object({
+  id: z.string(),
+  amountMl: z.number().positive(),
+  timestamp: z.number(),
+}));
+
+export const dailyLogEntrySchema = z.object({
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+  calories: nonNegative,
+  protein: nonNegative,
+  fat: nonNegative,
+  carbs: nonNegative,
+  checksum: z.string().optional(), // Checksum of the entries the cached totals were computed from
+});
+
+const savedDietChartSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  createdAt: z.string(),
+  dietChart: z.custom<GenerateIndianDietChartOutput>(value => typeof value === 'object' && value !== null),
+  input: z.custom<GenerateIndianDietChartInput>(value => typeof value === 'object' && value !== null).optional(),
+});
+
+// Onboarding stores extra fields (fitness goal, units, initial targets) on the profile, so unknown keys are kept
+export const userProfileSchema = z.object({
+  name: z.string(),
+  email: z.string().default(''),
+  avatarUrl: z.string().optional(),
+  age: z.number().optional(),
+  height: z.number().optional(),
+  weight: z.number().optional(),
+  gender: z.enum(['male', 'female', 'other']).optional(),
+  heightUnit: z.enum(['cm', 'ft']).optional(),
+  weightUnit: z.enum(['kg', 'lbs']).optional(),
+  savedDietCharts: z.array(savedDietChartSchema).optional(),
+  activeDietChartId: z.string().optional(),
+}).passthrough();
+
+export const reminderSettingsSchema = z.object({
+  logMeals: z.boolean(),
+  logMealsTime: z.string(),
+  drinkWater: z.boolean(),
+  drinkWaterFrequency: z.string(),
+  weighIn: z.boolean(),
+  weighInDay: z.string(),
+  weighInTime: z.string(),
+});
+
+export const weightEntrySchema = z.object({
+  id: z.string(),
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+  weightKg: z.number().finite().positive(),
+  timestamp: z.number(),
+});
+
+export const weightLogSchema = z.object({
+  entries: z.array(weightEntrySchema),
+  goalWeightKg: z.number().finite().positive().optional(),
+});
+
+export const nutritionChatMessageSchema = z.object({
+  id: z.string(),
+  role: z.enum(['user', 'model']),
+  text: z.string(),
+  createdAt: z.number(),
+  reasoning: z.string().optional(),
+  citations: z.array(z.object({
+    id: z.string(),
+    date: z.string(),
+    name: z.string(),
+    mealType: z.enum(['breakfast', 'lunch', 'snack', 'dinner']),
+    calories: nonNegative,
+    protein: nonNegative,
+    fat: nonNegative,
+    carbs: nonNegative,
+  })).optional(),
+});
+
+export const savedPeriodReviewSchema = z.object({
+  id: z.string(),
+  createdAt: z.string(),
+  input: z.custom<ReviewPeriodInput>(value => typeof value === 'object' && value !== null),
+  review: z.custom<ReviewPeriodOutput>(value => typeof value === 'object' && value !== null),
+});
+
+export const adaptiveGoalSettingsSchema = z.object({
+  enabled: z.boolean(),
+  targetRateKgPerWeek: z.number().finite(),
+  lastReviewedAt: z.string().optional(),
+  history: z.array(z.object({
+    reviewedAt: z.string(),
+    fromCalories: nonNegative,
+    toCalories: nonNegative,
+    accepted: z.boolean(),
+  })).default([]),
+});
+
+// --- Quarantine ---
+
+export interface QuarantinedRecord {
+  key: string;
+  raw: string;
+  reason: string;
+  quarantinedAt: string;
+}
+
+function quarantineRecord(key: string, raw: string, reason: string) {
+  const record: QuarantinedRecord = { key, raw, reason, quarantinedAt: new Date().toISOString() };
+  try {
+    localStorage.setItem(`${QUARANTINE_PREFIX}${key}`, JSON.stringify(record));
+    localStorage.removeItem(key);
+  } catch (error) {
+    console.error(`Failed to quarantine corrupt storage key "${key}"`, error);
+  }
+  console.warn(`Quarantined corrupt storage key "${key}": ${reason}`);
+}
+
+/** True when the key's value was found corrupt and moved aside, so its data is unreadable rather than absent. */
+export function isQuarantined(key: string): boolean {
+  return typeof window !== 'undefined' && localStorage.getItem(`${QUARANTINE_PREFIX}${key}`) !== null;
+}
+
+export function listQuarantinedRecords(): QuarantinedRecord[] {
+  return listStorageKeys(QUARANTINE_PREFIX).flatMap(key => {
+    try {
+      return [JSON.parse(localStorage.getItem(key) ?? '') as QuarantinedRecord];
+    } catch {
+      return [];
+    }
+  });
+}
+
+// --- Records ---
+
+export interface StorageRecord<TOutput, TInput = TOutput> {
+  key: string;
+  /** Returns the validated value, or null if the key is missing or had to be quarantined. */
+  read(): TOutput | null;
+  /** Validates and saves the value. Returns false if it was rejected or could not be written. */
+  write(value: TInput): boolean;
+  remove(): void;
+  exists(): boolean;
+}
+
+const describeIssues = (error: z.ZodError) =>
+  error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`).join('; ');
+
+export function defineRecord<S extends z.ZodTypeAny>(key: string, schema: S): StorageRecord<z.output<S>, z.input<S>> {
+  return {
+    key,
+    read() {
+      if (typeof window === 'undefined') return null;
+      const raw = localStorage.getItem(key);
+      if (raw === null) return null;
+
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(raw);
+      } catch {
+        quarantineRecord(key, raw, 'Invalid JSON');
+        return null;
+      }
+
+      const result = schema.safeParse(parsed);
+      if (!result.success) {
+        quarantineRecord(key, raw, describeIssues(result.error));
+        return null;
+      }
+      return result.data;
+    },
+    write(value) {
+      const result = schema.safeParse(value);
+      if (!result.success) {
+        console.error(`Refusing to save invalid data to "${key}": ${describeIssues(result.error)}`);
+        return false;
+      }
+      try {
+        localStorage.setItem(key, JSON.stringify(result.data));
+        return true;
+      } catch (error) {
+        console.error(`Failed to save "${key}" to localStorage`, error);
+        return false;
+      }
+    },
+    remove() {
+      localStorage.removeItem(key);
+    },
+    exists() {
+      return typeof window !== 'undefined' && localStorage.getItem(key) !== null;
+    },
+  };
+}
+
+export const goalsRecord = defineRecord(STORAGE_KEYS.goals, goalSchema);
+export const userProfileRecord = defineRecord(STORAGE_KEYS.userProfile, userProfileSchema);
+export const reminderSettingsRecord = defineRecord(STORAGE_KEYS.reminderSettings, reminderSettingsSchema);
+export const weightLogRecord = defineRecord(STORAGE_KEYS.weightLog, weightLogSchema);
+export const goalScheduleRecord = defineRecord(STORAGE_KEYS.goalSchedule, goalScheduleSchema);
+export const adaptiveGoalRecord = defineRecord(STORAGE_KEYS.adaptiveGoal, adaptiveGoalSettingsSchema);
+export const periodReviewsRecord = defineRecord(STORAGE_KEYS.periodReviews, z.array(savedPeriodReviewSchema));
+export const userIdRecord = defineRecord(STORAGE_KEYS.userId, z.string().min(1));
+export const dailyLogRecord = (date: Date | string) => defineRecord(dailyLogKey(date), dailyLogEntrySchema);
+export const foodEntriesRecord = (date: Date | string) => defineRecord(foodEntriesKey(date), foodEntriesSchema);
+export const waterLogRecord = (date: Date | string) => defineRecord(waterLogKey(date), waterLogSchema);
+// Scoped by the local user id so a shared or restored device doesn't mix conversations
+export const chatHistoryRecord = (userId: string) => defineRecord(`${CHAT_HISTORY_PREFIX}${userId}`, z.array(nutritionChatMessageSchema));
+
+export function listStorageKeys(prefix: string): string[] {
+  if (typeof window === 'undefined') return [];
+  const keys: string[] = [];
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i);
+    if (key && key.startsWith(prefix)) keys.push(key);
+  }
+  return keys.sort();
+}
+
+// --- Migrations ---
+
+interface StorageMigration {
+  version: number;
+  description: string;
+  migrate: () => void;
+}
+
+// Raw JSON helpers for migrations, which run before data matches the current schemas
+const readRawJson = (key: string): unknown => {
+  const raw = localStorage.getItem(key);
+  if (raw === null) return null;
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return null; // left in place so the next validated read quarantines it
+  }
+};
+
+// Append only. Each migration must be safe to run on data that is already partly migrated.
+const MIGRATIONS: StorageMigration[] = [
+  {
+    version: 1,
+    description: 'Assign meal slots to food entries saved before meal slots existed',
+    migrate: () => {
+      for (const key of listStorageKeys(FOOD_ENTRIES_PREFIX)) {
+        const entries = readRawJson(key);
+        if (!Array.isArray(entries)) continue;
+        const migrated = entries.map(entry =>
+          entry && typeof entry === 'object' && typeof entry.timestamp === 'number' ? withMealType(entry) : entry
+        );
+        localStorage.setItem(key, JSON.stringify(migrated));
+      }
+    },
+  },
+  {
+    version: 2,
+    description: 'Copy nutrition targets kept on the onboarding profile into userGoals',
+    migrate: () => {
+      if (localStorage.getItem(STORAGE_KEYS.goals) !== null) return;
+      const profile = readRawJson(STORAGE_KEYS.userProfile) as Record<string, unknown> | null;
+      const goals = goalSchema.safeParse(profile);
+      if (goals.success) {
+        localStorage.setItem(STORAGE_KEYS.goals, JSON.stringify(goals.data));
+      }
+    },
+  },
+];
+
+export const CURRENT_STORAGE_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+export function getStoredSchemaVersion(): number {
+  const stored = Number(localStorage.getItem(STORAGE_KEYS.schemaVersion));
+  return Number.isInteger(stored) && stored > 0 ? stored : 0;
+}
+
+/**
+ * Runs pending migrations in version order. Stops at the first failure so the
+ * remaining migrations are retried on the next start.
+ */
+export function runStorageMigrations(): { from: number; to: number } {
+  if (typeof window === 'undefined') return { from: 0, to: 0 };
+
+  const from = getStoredSchemaVersion();
+  let current = from;
+  for (const migration of MIGRATIONS) {
+    if (migration.version <= current) continue;
+    try {
+      migration.migrate();
+      current = migration.version;
+      localStorage.setItem(STORAGE_KEYS.schemaVersion, String(current));
+    } catch (error) {
+      console.error(`Storage migration ${migration.version} failed: ${migration.description}`, error);
+      break;
+    }
+  }
+  return { from, to: current };
+}
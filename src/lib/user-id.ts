@@ -0,0 +1,15 @@
+import { userIdRecord } from '@/lib/storage';
+
+/**
+ * A random id for this install. The app has no accounts, so server-side features that
+ * need to tell users apart (such as cached AI results) are scoped by this id.
+ */
+export function getLocalUserId(): string {
+  const existing = userIdRecord.read();
+  if (existing) return existing;
+  const id = typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+  userIdRecord.write(id);
+  return id;
+}
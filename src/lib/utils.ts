@@ -8,3 +8,12 @@ export function cn(...inputs: ClassValue[]) {
 export function generateId(): string {
   return Math.random().toString(36).substring(2, 15) + Math.random().toString(36).substring(2, 15);
 }
+
+export function downloadFile(contents: string, fileName: string, type: string) {
+  const url = URL.createObjectURL(new Blob([contents], { type }))
+  const link = document.createElement("a")
+  link.href = url
+  link.download = fileName
+  link.click()
+  URL.revokeObjectURL(url)
+}
@@ -0,0 +1,16 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { profileWeightUnit } from '@/lib/weight-trend';
+
+describe('profileWeightUnit', () => {
+  it('uses the weight unit saved from the profile editor', () => {
+    assert.equal(profileWeightUnit({ weightUnit: 'lbs' }), 'lbs');
+    assert.equal(profileWeightUnit({ weightUnit: 'kg', unit: 'imperial' }), 'kg');
+  });
+
+  it("falls back to onboarding's imperial unit, then to kg", () => {
+    assert.equal(profileWeightUnit({ unit: 'imperial' }), 'lbs');
+    assert.equal(profileWeightUnit({ unit: 'metric' }), 'kg');
+    assert.equal(profileWeightUnit(null), 'kg');
+  });
+});
@@ -0,0 +1,104 @@
+import { addDays, differenceInCalendarDays, parseISO } from 'date-fns';
+import type { UserProfile, WeightEntry } from '@/types';
+
+export type WeightUnit = 'kg' | 'lbs';
+
+export const KG_PER_LB = 0.45359237;
+
+export const toKg = (value: number, unit: WeightUnit) => (unit === 'lbs' ? value * KG_PER_LB : value);
+export const fromKg = (kg: number, unit: WeightUnit) => (unit === 'lbs' ? kg / KG_PER_LB : kg);
+
+/**
+ * The unit the profile's weight is kept in. Onboarding only records `unit: 'imperial'`,
+ * so without an explicit weightUnit that decides it.
+ */
+export function profileWeightUnit(profile: (Pick<UserProfile, 'weightUnit'> & { unit?: unknown }) | null | undefined): WeightUnit {
+  return profile?.weightUnit ?? (profile?.unit === 'imperial' ? 'lbs' : 'kg');
+}
+
+export const formatWeight = (kg: number, unit: WeightUnit) => `${(Math.round(fromKg(kg, unit) * 10) / 10).toFixed(1)} ${unit}`;
+
+// Daily smoothing factor. 0.1 keeps most of the day-to-day water weight noise out of the trend.
+const DAILY_SMOOTHING = 0.1;
+
+export interface WeightTrendPoint {
+  date: string;
+  weightKg: number;
+  trendKg: number;
+}
+
+/**
+ * Exponential moving average of the weigh-ins. Gaps between weigh-ins are weighted
+ * as if the same smoothing had been applied every missed day, so a weigh-in after a
+ * week away moves the trend more than one taken the next day.
+ */
+export function computeWeightTrend(entries: WeightEntry[]): WeightTrendPoint[] {
+  const sorted = entries.slice().sort((a, b) => a.date.localeCompare(b.date));
+  const points: WeightTrendPoint[] = [];
+
+  for (const entry of sorted) {
+    const previous = points[points.length - 1];
+    if (!previous) {
+      points.push({ date: entry.date, weightKg: entry.weightKg, trendKg: entry.weightKg });
+      continue;
+    }
+    const days = Math.max(1, differenceInCalendarDays(parseISO(entry.date), parseISO(previous.date)));
+    const alpha = 1 - Math.pow(1 - DAILY_SMOOTHING, days);
+    points.push({
+      date: entry.date,
+      weightKg: entry.weightKg,
+      trendKg: previous.trendKg + alpha * (entry.weightKg - previous.trendKg),
+    });
+  }
+  return points;
+}
+
+// Only recent weigh-ins describe the current rate of change
+const PROJECTION_WINDOW_DAYS = 28;
+const MIN_PROJECTION_SPAN_DAYS = 7;
+// Treat anything slower than ~50g a week as flat
+const MIN_RATE_KG_PER_DAY = 0.05 / 7;
+
+export type GoalProjection =
+  | { status: 'no-goal' | 'insufficient-data' }
+  | { status: 'reached'; ratePerWeekKg: number | null }
+  | { status: 'stalled' | 'moving-away'; ratePerWeekKg: number }
+  | { status: 'on-track'; ratePerWeekKg: number; projectedDate: Date; daysRemaining: number };
+
+/**
+ * Projects when the trend will reach the goal weight, using the least-squares slope
+ * of the trend over the last four weeks.
+ */
+export function projectGoalDate(points: WeightTrendPoint[], goalWeightKg?: number): GoalProjection {
+  if (!goalWeightKg) return { status: 'no-goal' };
+  const latest = points[points.length - 1];
+  if (!latest) return { status: 'insufficient-data' };
+
+  const latestDate = parseISO(latest.date);
+  const recent = points
+    .map(point => ({ x: differenceInCalendarDays(parseISO(point.date), latestDate), y: point.trendKg }))
+    .filter(point => point.x > -PROJECTION_WINDOW_DAYS);
+
+  let ratePerDay: number | null = null;
+  if (recent.length >= 2 && -recent[0].x >= MIN_PROJECTION_SPAN_DAYS) {
+    const meanX = recent.reduce((sum, p) => sum + p.x, 0) / recent.length;
+    const meanY = recent.reduce((sum, p) => sum + p.y, 0) / recent.length;
+    const covariance = recent.reduce((sum, p) => sum + (p.x - meanX) * (p.y - meanY), 0);
+    const variance = recent.reduce((sum, p) => sum + (p.x - meanX) ** 2, 0);
+    ratePerDay = variance > 0 ? covariance / variance : null;
+  }
+
+  const remainingKg = goalWeightKg - latest.trendKg;
+  // Within 0.25kg counts as reached; daily fluctuation is larger than that
+  if (Math.abs(remainingKg) < 0.25) {
+    return { status: 'reached', ratePerWeekKg: ratePerDay === null ? null : ratePerDay * 7 };
+  }
+  if (ratePerDay === null) return { status: 'insufficient-data' };
+
+  const ratePerWeekKg = ratePerDay * 7;
+  if (Math.abs(ratePerDay) < MIN_RATE_KG_PER_DAY) return { status: 'stalled', ratePerWeekKg };
+  if (Math.sign(ratePerDay) !== Math.sign(remainingKg)) return { status: 'moving-away', ratePerWeekKg };
+
+  const daysRemaining = Math.ceil(remainingKg / ratePerDay);
+  return { status: 'on-track', ratePerWeekKg, daysRemaining, projectedDate: addDays(latestDate, daysRemaining) };
+}
@@ -1,4 +1,6 @@
-import { GenerateIndianDietChartOutput } from "@/ai/flows/generateIndianDietChartFlow";
+import { GenerateIndianDietChartInput, GenerateIndianDietChartOutput } from "@/ai/flows/generateIndianDietChartFlow";
+import type { ReviewPeriodInput, ReviewPeriodOutput } from "@/ai/flows/review-period-flow";
+import type { NutritionChatOutput } from "@/ai/flows/nutrition-chat-flow";
 
 export interface Goal {
   calories: number;
@@ -7,6 +9,29 @@ export interface Goal {
   carbs: number;
 }
 
+// Targets for one day of the week, e.g. higher carbs on training days. Weekday follows Date.getDay (Sunday = 0).
+export interface WeekdayGoal {
+  weekday: number;
+  label: string;
+  goal: Goal;
+}
+
+// Temporary targets for a date range, e.g. a two-week cut or a festival week. Dates are inclusive.
+export interface DateRangeGoal {
+  id: string;
+  label: string;
+  startDate: string; // YYYY-MM-DD
+  endDate: string; // YYYY-MM-DD
+  goal: Goal;
+}
+
+export interface GoalSchedule {
+  weekdays: WeekdayGoal[];
+  dateRanges: DateRangeGoal[];
+}
+
+export type MealType = "breakfast" | "lunch" | "snack" | "dinner";
+
 export interface FoodEntry {
   id: string;
   name: string;
@@ -15,6 +40,38 @@ export interface FoodEntry {
   fat: number;
   carbs: number;
   timestamp: number; // Unix timestamp
+  mealType: MealType; // Entries stored before meal slots existed are assigned one on load
+  grams?: number; // Portion weight, when known (e.g. logged from the food database)
+  items?: FoodEntryItem[]; // Set when a whole plate was logged as one grouped meal
+  planMeal?: PlanMealRef; // Set when logged with "I ate this" from a saved diet chart
+}
+
+// The diet chart meal an entry was logged from
+export interface PlanMealRef {
+  chartId: string;
+  dayIndex: number;
+  mealIndex: number;
+  multiplier: number; // Portion eaten relative to the planned meal
+}
+
+// One item of a grouped meal, as it was logged
+export interface FoodEntryItem {
+  name: string;
+  grams?: number;
+  calories: number;
+  protein: number;
+  fat: number;
+  carbs: number;
+}
+
+// A meal that can be logged again as-is, e.g. from a reminder's "Log usual breakfast" action
+export type QuickLogMeal = Pick<FoodEntry, "name" | "calories" | "protein" | "fat" | "carbs" | "mealType" | "grams" | "items">;
+
+// Water drunk, logged from the dashboard or a hydration reminder
+export interface WaterEntry {
+  id: string;
+  amountMl: number;
+  timestamp: number; // Unix timestamp
 }
 
 // Used for AI summary flow input, omitting id and timestamp
@@ -26,6 +83,22 @@ export interface FoodEntryShort {
   carbs: number;
 }
 
+// How sure an AI estimate is. Low confidence asks the user to confirm the portion before logging.
+export type EstimateConfidence = "low" | "medium" | "high";
+
+// Plausible bounds around a point estimate
+export interface EstimateRange {
+  low: number;
+  high: number;
+}
+
+export interface NutrientRanges {
+  calories: EstimateRange;
+  protein: EstimateRange;
+  fat: EstimateRange;
+  carbs: EstimateRange;
+}
+
 export interface DailyLogEntry {
   date: string; // YYYY-MM-DD
   calories: number;
@@ -34,6 +107,62 @@ export interface DailyLogEntry {
   carbs: number;
 }
 
+// A dated weigh-in. Stored in kilograms and converted to the profile's weightUnit for display.
+export interface WeightEntry {
+  id: string;
+  date: string; // YYYY-MM-DD, one weigh-in per day
+  weightKg: number;
+  timestamp: number; // Unix timestamp
+}
+
+export interface AdaptiveGoalSettings {
+  enabled: boolean;
+  targetRateKgPerWeek: number; // Negative to lose weight
+  lastReviewedAt?: string; // ISO timestamp of the last accepted or dismissed proposal
+  history: {
+    reviewedAt: string;
+    fromCalories: number;
+    toCalories: number;
+    accepted: boolean;
+  }[];
+}
+
+export type FoodCategory =
+  | "grains"
+  | "breads"
+  | "pulses"
+  | "vegetables"
+  | "dairy"
+  | "eggs"
+  | "meat"
+  | "snacks"
+  | "sweets"
+  | "fruits"
+  | "nuts"
+  | "beverages"
+  | "fats";
+
+// A named portion for a food item, e.g. "roti" = 40g or "bowl" = 150g
+export interface ServingUnit {
+  name: string;
+  grams: number;
+}
+
+// Entry in the bundled offline food database (src/lib/food-database.ts)
+export interface FoodItem {
+  id: string;
+  name: string;
+  aliases?: string[];
+  category: FoodCategory;
+  per100g: {
+    calories: number;
+    protein: number;
+    fat: number;
+    carbs: number;
+  };
+  servings: ServingUnit[];
+}
+
 export interface UserProfile {
   name: string;
   email: string;
@@ -45,6 +174,7 @@ export interface UserProfile {
   heightUnit?: "cm" | "ft"; // Unit for height (centimeters or feet-inches)
   weightUnit?: "kg" | "lbs"; // Unit for weight (kilograms or pounds)
   savedDietCharts?: SavedDietChart[];
+  activeDietChartId?: string; // The saved chart being followed; the dashboard compares each day against it
 }
 
 export interface SavedDietChart {
@@ -52,6 +182,25 @@ export interface SavedDietChart {
   name: string;
   createdAt: string;
   dietChart: GenerateIndianDietChartOutput;
+  input?: GenerateIndianDietChartInput; // What the chart was generated from; lets it be checked and regenerated later
+}
+
+// A weekly or monthly AI review, kept so past periods can be revisited
+export interface SavedPeriodReview {
+  id: string;
+  createdAt: string;
+  input: ReviewPeriodInput; // The period, days and top foods the review was written from
+  review: ReviewPeriodOutput;
+}
+
+// One message in the nutrition assistant chat. Model replies carry the reasoning and the entries they cite.
+export interface NutritionChatMessage {
+  id: string;
+  role: "user" | "model";
+  text: string;
+  createdAt: number;
+  reasoning?: string;
+  citations?: NutritionChatOutput["citations"];
 }
 
 export interface BlogPost {